@@ -18,6 +18,8 @@ console.error = (...args) => {
 // Context Providers
 import { AuthProvider } from './src/context/AuthContext';
 import { ThemeProvider } from './src/context/ThemeContext';
+import { SyncProvider } from './src/context/SyncContext';
+import { StockAlertProvider } from './src/context/StockAlertContext';
 
 // Navigation
 import AppNavigator from './src/navigation/AppNavigator';
@@ -30,8 +32,12 @@ const App: React.FC = () => {
   return (
     <ThemeProvider>
       <AuthProvider>
-        <StatusBar style="auto" />
-        <AppNavigator />
+        <SyncProvider>
+          <StockAlertProvider>
+            <StatusBar style="auto" />
+            <AppNavigator />
+          </StockAlertProvider>
+        </SyncProvider>
       </AuthProvider>
     </ThemeProvider>
   );
@@ -0,0 +1,259 @@
+// ===============================
+// BARCODE SCANNER - PRESUPUESTOS APP
+// ===============================
+
+import React, { useState, useRef } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ActivityIndicator,
+  Linking,
+} from 'react-native';
+import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+import { CameraView, useCameraPermissions, BarcodeScanningResult } from 'expo-camera';
+
+// Components
+import Button from '../common/Button';
+import Input from '../common/Input';
+import Loading from '../common/Loading';
+
+// Constants
+import { LAYOUT, TYPOGRAPHY, SCANNER_CONFIG } from '../../constants/config';
+
+// Theme
+import { useTheme } from '../../context/ThemeContext';
+
+// ===============================
+// TYPES
+// ===============================
+
+interface BarcodeScannerProps {
+  onScan: (code: string) => void | Promise<void>;
+  onClose: () => void;
+  title?: string;
+  statusMessage?: string;
+  paused?: boolean;
+}
+
+// ===============================
+// BARCODE SCANNER
+// ===============================
+
+const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
+  onScan,
+  onClose,
+  title = 'Escanear código',
+  statusMessage,
+  paused = false,
+}) => {
+  const { colors } = useTheme();
+  const [permission, requestPermission] = useCameraPermissions();
+
+  // ===============================
+  // STATE
+  // ===============================
+
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [manualCode, setManualCode] = useState('');
+  const [torchEnabled, setTorchEnabled] = useState(false);
+
+  // La cámara reporta el mismo código varias veces por segundo
+  const lastScanRef = useRef<{ code: string; at: number } | null>(null);
+
+  // ===============================
+  // HANDLERS
+  // ===============================
+
+  const processCode = async (code: string) => {
+    const trimmed = code.trim();
+    if (!trimmed || isProcessing || paused) return;
+
+    try {
+      setIsProcessing(true);
+      await onScan(trimmed);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleBarcodeScanned = ({ data }: BarcodeScanningResult) => {
+    const now = Date.now();
+    const last = lastScanRef.current;
+
+    if (last && last.code === data && now - last.at < SCANNER_CONFIG.SCAN_COOLDOWN) {
+      return;
+    }
+
+    lastScanRef.current = { code: data, at: now };
+    processCode(data);
+  };
+
+  const handleManualSubmit = () => {
+    processCode(manualCode);
+    setManualCode('');
+  };
+
+  // ===============================
+  // PERMISSION STATES
+  // ===============================
+
+  if (!permission) {
+    return <Loading message="Preparando cámara..." />;
+  }
+
+  if (!permission.granted) {
+    return (
+      <View style={{
+        flex: 1,
+        backgroundColor: colors.background,
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: LAYOUT.SPACING.XL,
+      }}>
+        <MaterialCommunityIcons name="camera-off-outline" size={48} color={colors.textSecondary} style={{ marginBottom: LAYOUT.SPACING.MD }} />
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+          fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+          color: colors.text,
+          textAlign: 'center',
+          marginBottom: LAYOUT.SPACING.SM,
+        }}>
+          Se necesita acceso a la cámara
+        </Text>
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+          color: colors.textSecondary,
+          textAlign: 'center',
+          marginBottom: LAYOUT.SPACING.LG,
+        }}>
+          Permite el uso de la cámara para leer códigos de barras y QR de los productos
+        </Text>
+
+        <Button
+          title={permission.canAskAgain ? 'Permitir cámara' : 'Abrir ajustes'}
+          onPress={permission.canAskAgain ? requestPermission : () => Linking.openSettings()}
+          fullWidth
+          style={{ marginBottom: LAYOUT.SPACING.SM }}
+        />
+        <Button
+          title="Cancelar"
+          variant="outline"
+          onPress={onClose}
+          fullWidth
+        />
+      </View>
+    );
+  }
+
+  // ===============================
+  // RENDER
+  // ===============================
+
+  return (
+    <View style={{ flex: 1, backgroundColor: '#000000' }}>
+      <CameraView
+        style={{ flex: 1 }}
+        facing="back"
+        enableTorch={torchEnabled}
+        barcodeScannerSettings={{
+          barcodeTypes: [...SCANNER_CONFIG.BARCODE_TYPES],
+        }}
+        onBarcodeScanned={isProcessing || paused ? undefined : handleBarcodeScanned}
+      />
+
+      {/* Header */}
+      <View style={{
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        right: 0,
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingHorizontal: LAYOUT.SPACING.LG,
+        paddingTop: LAYOUT.SPACING.XL,
+        paddingBottom: LAYOUT.SPACING.MD,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      }}>
+        <TouchableOpacity onPress={onClose} style={{ padding: LAYOUT.SPACING.SM }}>
+          <MaterialCommunityIcons name="close" size={24} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+          fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+          color: '#FFFFFF',
+        }}>
+          {title}
+        </Text>
+        <TouchableOpacity onPress={() => setTorchEnabled(prev => !prev)} style={{ padding: LAYOUT.SPACING.SM }}>
+          <MaterialCommunityIcons name={torchEnabled ? 'flashlight-off' : 'flashlight'} size={24} color="#FFFFFF" />
+        </TouchableOpacity>
+      </View>
+
+      {/* Scan Frame */}
+      <View
+        pointerEvents="none"
+        style={{
+          position: 'absolute',
+          top: 0,
+          bottom: 0,
+          left: 0,
+          right: 0,
+          justifyContent: 'center',
+          alignItems: 'center',
+        }}
+      >
+        <View style={{
+          width: '75%',
+          aspectRatio: 1.6,
+          borderWidth: 2,
+          borderColor: '#FFFFFF',
+          borderRadius: LAYOUT.BORDER_RADIUS.LG,
+        }} />
+        {isProcessing && (
+          <ActivityIndicator size="large" color="#FFFFFF" style={{ position: 'absolute' }} />
+        )}
+      </View>
+
+      {/* Footer */}
+      <View style={{
+        position: 'absolute',
+        bottom: 0,
+        left: 0,
+        right: 0,
+        padding: LAYOUT.SPACING.LG,
+        backgroundColor: colors.background,
+        borderTopLeftRadius: LAYOUT.BORDER_RADIUS.LG,
+        borderTopRightRadius: LAYOUT.BORDER_RADIUS.LG,
+      }}>
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+          color: statusMessage ? colors.text : colors.textSecondary,
+          textAlign: 'center',
+          marginBottom: LAYOUT.SPACING.MD,
+        }}>
+          {statusMessage || 'Apunta al código de barras, QR o SKU del producto'}
+        </Text>
+
+        <Input
+          placeholder="O ingresa el código manualmente"
+          value={manualCode}
+          onChangeText={setManualCode}
+          autoCapitalize="characters"
+          returnKeyType="search"
+          onSubmitEditing={handleManualSubmit}
+          leftIcon={
+            <MaterialCommunityIcons name="barcode" size={20} color={colors.textSecondary} />
+          }
+          rightIcon={manualCode ? (
+            <MaterialCommunityIcons name="arrow-right-circle" size={22} color={colors.primary} />
+          ) : undefined}
+          onRightIconPress={manualCode ? handleManualSubmit : undefined}
+        />
+      </View>
+    </View>
+  );
+};
+
+export default BarcodeScanner;
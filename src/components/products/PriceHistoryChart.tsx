@@ -0,0 +1,163 @@
+// ===============================
+// PRICE HISTORY CHART - PRESUPUESTOS APP
+// ===============================
+
+import React from 'react';
+import {
+  View,
+  Text,
+} from 'react-native';
+import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+
+// Components
+import Card from '../common/Card';
+import LineChart from '../stats/LineChart';
+import { ChartPoint } from '../stats/BarChart';
+
+// Services
+import * as priceService from '../../services/priceService';
+import * as productService from '../../services/productService';
+
+// Types
+import { PriceChange, Product } from '../../types';
+
+// Constants
+import { LAYOUT, TYPOGRAPHY } from '../../constants/config';
+
+// Theme
+import { useTheme } from '../../context/ThemeContext';
+
+// ===============================
+// TYPES
+// ===============================
+
+interface PriceHistoryChartProps {
+  product: Product;
+  changes: PriceChange[];
+}
+
+// ===============================
+// HELPERS
+// ===============================
+
+const formatShortDate = (date: string): string => {
+  return new Date(date).toLocaleDateString('es-AR', { day: '2-digit', month: '2-digit' });
+};
+
+/**
+ * Puntos del gráfico: precio de alta, uno por cambio y el precio vigente hoy.
+ * Solo sigue el precio del producto; los de las variantes quedan en la lista
+ */
+const buildChartPoints = (product: Product, allChanges: PriceChange[]): ChartPoint[] => {
+  const changes = allChanges.filter(change => !change.variant);
+  const initialPrice = changes.length > 0 ? changes[0].previousPrice : product.price;
+
+  return [
+    { label: product.createdAt ? formatShortDate(product.createdAt) : 'Alta', value: initialPrice },
+    ...changes.map(change => ({ label: formatShortDate(change.createdAt), value: change.price })),
+    { label: 'Hoy', value: product.price },
+  ];
+};
+
+// ===============================
+// PRICE HISTORY CHART
+// ===============================
+
+const PriceHistoryChart: React.FC<PriceHistoryChartProps> = ({ product, changes }) => {
+  const { colors } = useTheme();
+
+  // ===============================
+  // RENDER FUNCTIONS
+  // ===============================
+
+  const renderChange = (change: PriceChange) => (
+    <View
+      key={change._id}
+      style={{
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingVertical: LAYOUT.SPACING.SM,
+        borderTopWidth: 1,
+        borderTopColor: colors.border,
+      }}
+    >
+      <View style={{ flex: 1, marginRight: LAYOUT.SPACING.MD }}>
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+          color: colors.text,
+        }}>
+          {productService.formatPrice(change.previousPrice)} → {productService.formatPrice(change.price)}
+        </Text>
+        {change.variantLabel && (
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+            color: colors.textSecondary,
+          }}>
+            Variante {change.variantLabel}
+          </Text>
+        )}
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+          color: colors.textTertiary,
+        }}>
+          {[
+            new Date(change.createdAt).toLocaleDateString('es-AR', {
+              year: 'numeric',
+              month: 'short',
+              day: 'numeric',
+            }),
+            change.reason,
+          ].filter(Boolean).join(' • ')}
+        </Text>
+      </View>
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+        fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+        color: colors.textSecondary,
+      }}>
+        {priceService.formatPriceVariation(change.previousPrice, change.price)}
+      </Text>
+    </View>
+  );
+
+  // ===============================
+  // RENDER
+  // ===============================
+
+  const hasBaseChanges = changes.some(change => !change.variant);
+
+  return (
+    <Card variant="outlined" padding="lg" style={{ marginBottom: LAYOUT.SPACING.LG }}>
+      <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: LAYOUT.SPACING.MD }}>
+        <MaterialCommunityIcons name="chart-line" size={20} color={colors.text} style={{ marginRight: 8 }} />
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+          fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+          color: colors.text,
+        }}>
+          Historial de Precios ({changes.length})
+        </Text>
+      </View>
+
+      {changes.length === 0 ? (
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+          color: colors.textSecondary,
+          textAlign: 'center',
+        }}>
+          El precio no cambió desde el alta del producto
+        </Text>
+      ) : (
+        <>
+          {hasBaseChanges && <LineChart data={buildChartPoints(product, changes)} height={160} />}
+          <View style={{ marginTop: hasBaseChanges ? LAYOUT.SPACING.MD : 0 }}>
+            {[...changes].reverse().map(renderChange)}
+          </View>
+        </>
+      )}
+    </Card>
+  );
+};
+
+export default PriceHistoryChart;
@@ -0,0 +1,333 @@
+// ===============================
+// PRODUCT BUNDLE EDITOR - PRESUPUESTOS APP
+// ===============================
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+
+// Components
+import Button from '../common/Button';
+import Input from '../common/Input';
+
+// Services
+import * as productService from '../../services/productService';
+
+// Types
+import { BundleComponentFormData, BundlePricing, Product } from '../../types';
+
+// Constants
+import { LAYOUT, TYPOGRAPHY } from '../../constants/config';
+
+// Theme
+import { useTheme } from '../../context/ThemeContext';
+
+// ===============================
+// TYPES
+// ===============================
+
+interface ProductBundleEditorProps {
+  components: BundleComponentFormData[];
+  pricing: BundlePricing;
+  discount: string;
+  onComponentsChange: (components: BundleComponentFormData[]) => void;
+  onPricingChange: (pricing: BundlePricing) => void;
+  onDiscountChange: (discount: string) => void;
+  productId?: string; // el producto editado no puede ser componente de sí mismo
+  errors?: Record<string, string>;
+  disabled?: boolean;
+}
+
+// ===============================
+// CONSTANTS
+// ===============================
+
+const MAX_RESULTS = 6;
+
+const PRICING_OPTIONS: Array<{ value: BundlePricing; label: string }> = [
+  { value: 'fixed', label: 'Precio propio' },
+  { value: 'discount', label: 'Descuento sobre componentes' },
+];
+
+// ===============================
+// PRODUCT BUNDLE EDITOR
+// ===============================
+
+/**
+ * Productos que forman un kit, unidades de cada uno y cómo se calcula su precio.
+ * El stock del kit sale de los componentes, así que no se carga acá
+ */
+const ProductBundleEditor: React.FC<ProductBundleEditorProps> = ({
+  components,
+  pricing,
+  discount,
+  onComponentsChange,
+  onPricingChange,
+  onDiscountChange,
+  productId,
+  errors = {},
+  disabled = false,
+}) => {
+  const { colors } = useTheme();
+
+  // ===============================
+  // STATE
+  // ===============================
+
+  const [showPicker, setShowPicker] = useState(false);
+  const [isLoadingCandidates, setIsLoadingCandidates] = useState(false);
+  const [candidates, setCandidates] = useState<Product[]>([]);
+  const [search, setSearch] = useState('');
+
+  const componentsTotal = productService.calculateBundlePrice(
+    components.map(component => ({ product: component.product, quantity: parseInt(component.quantity) || 0 }))
+  );
+
+  // ===============================
+  // HANDLERS
+  // ===============================
+
+  const handleOpenPicker = async () => {
+    setShowPicker(true);
+    if (candidates.length > 0) return;
+
+    try {
+      setIsLoadingCandidates(true);
+      const products = await productService.getAllProducts();
+      setCandidates(products.filter(product => product._id !== productId && productService.canBeBundleComponent(product)));
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Error cargando productos');
+      setShowPicker(false);
+    } finally {
+      setIsLoadingCandidates(false);
+    }
+  };
+
+  const handleAddComponent = (product: Product) => {
+    onComponentsChange([...components, { product, quantity: '1' }]);
+    setShowPicker(false);
+    setSearch('');
+  };
+
+  const handleQuantityChange = (index: number, quantity: string) => {
+    onComponentsChange(components.map((component, current) => current === index ? { ...component, quantity } : component));
+  };
+
+  const handleRemoveComponent = (index: number) => {
+    onComponentsChange(components.filter((_, current) => current !== index));
+  };
+
+  // ===============================
+  // RENDER FUNCTIONS
+  // ===============================
+
+  const renderComponent = (component: BundleComponentFormData, index: number) => (
+    <View
+      key={component.product._id}
+      style={{
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: LAYOUT.SPACING.SM,
+        paddingTop: LAYOUT.SPACING.SM,
+        borderTopWidth: 1,
+        borderTopColor: colors.border,
+      }}
+    >
+      <View style={{ flex: 1 }}>
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+          fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+          color: colors.text,
+        }} numberOfLines={1}>
+          {component.product.name}
+        </Text>
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+          color: colors.textSecondary,
+        }}>
+          {component.product.sku ? `${component.product.sku} • ` : ''}{productService.formatPrice(component.product.price)} • Disponible: {productService.getAvailableStock(component.product)}
+        </Text>
+      </View>
+      <View style={{ width: 72 }}>
+        <Input
+          placeholder="1"
+          value={component.quantity}
+          onChangeText={(text) => handleQuantityChange(index, text)}
+          keyboardType="numeric"
+          editable={!disabled}
+        />
+      </View>
+      <TouchableOpacity onPress={() => handleRemoveComponent(index)} disabled={disabled}>
+        <MaterialCommunityIcons name="delete-outline" size={20} color={colors.error} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderCandidate = (product: Product) => (
+    <TouchableOpacity
+      key={product._id}
+      onPress={() => handleAddComponent(product)}
+      style={{
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: LAYOUT.SPACING.SM,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.border,
+      }}
+    >
+      <View style={{ flex: 1 }}>
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+          color: colors.text,
+        }} numberOfLines={1}>
+          {product.name}
+        </Text>
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+          color: colors.textSecondary,
+        }}>
+          {productService.formatPrice(product.price)} • Disponible: {productService.getAvailableStock(product)}
+        </Text>
+      </View>
+      <MaterialCommunityIcons name="plus" size={20} color={colors.primary} />
+    </TouchableOpacity>
+  );
+
+  const renderPicker = () => {
+    const results = productService
+      .filterProducts(candidates, { search })
+      .filter(product => !components.some(component => component.product._id === product._id))
+      .slice(0, MAX_RESULTS);
+
+    return (
+      <View style={{ marginBottom: LAYOUT.SPACING.MD }}>
+        <Input
+          placeholder="Buscar producto para el kit"
+          value={search}
+          onChangeText={setSearch}
+          autoFocus
+          leftIcon={
+            <MaterialCommunityIcons name="magnify" size={20} color={colors.textSecondary} />
+          }
+        />
+        {isLoadingCandidates ? (
+          <Text style={{ fontSize: TYPOGRAPHY.FONT_SIZE.SM, color: colors.textSecondary }}>
+            Cargando productos...
+          </Text>
+        ) : results.length > 0 ? (
+          results.map(renderCandidate)
+        ) : (
+          <Text style={{ fontSize: TYPOGRAPHY.FONT_SIZE.SM, color: colors.textSecondary }}>
+            No hay productos sin variantes que coincidan
+          </Text>
+        )}
+        <Button
+          title="Cerrar"
+          variant="ghost"
+          size="sm"
+          onPress={() => setShowPicker(false)}
+          style={{ alignSelf: 'flex-start', marginTop: LAYOUT.SPACING.SM }}
+        />
+      </View>
+    );
+  };
+
+  const renderPricingOption = (option: typeof PRICING_OPTIONS[number]) => {
+    const isSelected = pricing === option.value;
+
+    return (
+      <TouchableOpacity
+        key={option.value}
+        onPress={() => onPricingChange(option.value)}
+        disabled={disabled}
+        style={{
+          paddingVertical: LAYOUT.SPACING.SM,
+          paddingHorizontal: LAYOUT.SPACING.MD,
+          borderRadius: LAYOUT.BORDER_RADIUS.PILL,
+          borderWidth: 1,
+          borderColor: isSelected ? colors.primary : colors.border,
+          backgroundColor: isSelected ? colors.primary : colors.backgroundSecondary,
+        }}
+      >
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+          fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+          color: isSelected ? '#FFFFFF' : colors.text,
+        }}>
+          {option.label}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  // ===============================
+  // RENDER
+  // ===============================
+
+  return (
+    <View style={{ marginBottom: LAYOUT.SPACING.MD }}>
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+        fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+        color: colors.text,
+        marginBottom: LAYOUT.SPACING.XS,
+      }}>
+        Kit (opcional)
+      </Text>
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+        color: errors.bundle ? colors.error : colors.textSecondary,
+        marginBottom: LAYOUT.SPACING.SM,
+      }}>
+        {errors.bundle || 'Productos y unidades que incluye cada kit. Se presupuesta como una línea y reserva el stock de cada componente'}
+      </Text>
+
+      {components.map(renderComponent)}
+
+      {showPicker ? renderPicker() : (
+        <Button
+          title="Agregar producto al kit"
+          variant="ghost"
+          size="sm"
+          onPress={handleOpenPicker}
+          disabled={disabled}
+          style={{ alignSelf: 'flex-start', marginVertical: LAYOUT.SPACING.SM }}
+        />
+      )}
+
+      {components.length > 0 && (
+        <>
+          <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: LAYOUT.SPACING.SM, marginBottom: LAYOUT.SPACING.SM }}>
+            {PRICING_OPTIONS.map(renderPricingOption)}
+          </View>
+
+          {pricing === 'discount' && (
+            <Input
+              label="Descuento (%)"
+              placeholder="0"
+              value={discount}
+              onChangeText={onDiscountChange}
+              error={errors.bundleDiscount}
+              keyboardType="numeric"
+              editable={!disabled}
+            />
+          )}
+
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+            color: colors.textSecondary,
+          }}>
+            Suma de los componentes: {productService.formatPrice(componentsTotal)}
+          </Text>
+        </>
+      )}
+    </View>
+  );
+};
+
+export default ProductBundleEditor;
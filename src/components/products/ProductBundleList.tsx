@@ -0,0 +1,128 @@
+// ===============================
+// PRODUCT BUNDLE LIST - PRESUPUESTOS APP
+// ===============================
+
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+} from 'react-native';
+import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+
+// Components
+import Card from '../common/Card';
+
+// Types
+import { BundleComponent, Product } from '../../types';
+
+// Constants
+import { LAYOUT, TYPOGRAPHY } from '../../constants/config';
+
+// Theme
+import { useTheme } from '../../context/ThemeContext';
+
+// ===============================
+// TYPES
+// ===============================
+
+interface ProductBundleListProps {
+  product: Product;
+  onComponentPress?: (component: BundleComponent) => void;
+}
+
+// ===============================
+// PRODUCT BUNDLE LIST
+// ===============================
+
+/**
+ * Componentes de un kit con las unidades que lleva cada uno y cómo se calcula su precio
+ */
+const ProductBundleList: React.FC<ProductBundleListProps> = ({ product, onComponentPress }) => {
+  const { colors } = useTheme();
+  const bundle = product.bundle;
+
+  if (!bundle) return null;
+
+  // ===============================
+  // RENDER FUNCTIONS
+  // ===============================
+
+  const renderComponent = (component: BundleComponent) => (
+    <TouchableOpacity
+      key={component.product}
+      onPress={() => onComponentPress?.(component)}
+      disabled={!onComponentPress}
+      style={{
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: LAYOUT.SPACING.SM,
+        borderTopWidth: 1,
+        borderTopColor: colors.border,
+      }}
+    >
+      <Text style={{
+        width: 40,
+        fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+        fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+        color: colors.primary,
+      }}>
+        {component.quantity} x
+      </Text>
+      <View style={{ flex: 1, marginRight: LAYOUT.SPACING.MD }}>
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+          fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+          color: colors.text,
+        }}>
+          {component.name}
+        </Text>
+        {component.sku && (
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+            color: colors.textSecondary,
+          }}>
+            {component.sku}
+          </Text>
+        )}
+      </View>
+
+      {onComponentPress && (
+        <MaterialCommunityIcons name="chevron-right" size={20} color={colors.textSecondary} />
+      )}
+    </TouchableOpacity>
+  );
+
+  // ===============================
+  // RENDER
+  // ===============================
+
+  return (
+    <Card variant="outlined" padding="lg" style={{ marginBottom: LAYOUT.SPACING.LG }}>
+      <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: LAYOUT.SPACING.SM }}>
+        <MaterialCommunityIcons name="package-variant-closed" size={20} color={colors.text} style={{ marginRight: 8 }} />
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+          fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+          color: colors.text,
+        }}>
+          Contenido del kit ({bundle.components.length})
+        </Text>
+      </View>
+
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+        color: colors.textSecondary,
+        marginBottom: LAYOUT.SPACING.SM,
+      }}>
+        {bundle.pricing === 'discount'
+          ? `Precio: suma de los componentes con ${bundle.discount || 0}% de descuento`
+          : 'Precio propio del kit'}. El stock disponible sale de los componentes.
+      </Text>
+
+      {bundle.components.map(renderComponent)}
+    </Card>
+  );
+};
+
+export default ProductBundleList;
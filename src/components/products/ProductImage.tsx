@@ -0,0 +1,83 @@
+// ===============================
+// PRODUCT IMAGE - PRESUPUESTOS APP
+// ===============================
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Image,
+  StyleProp,
+  ViewStyle,
+} from 'react-native';
+import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+
+// Constants
+import { LAYOUT } from '../../constants/config';
+
+// Theme
+import { useTheme } from '../../context/ThemeContext';
+
+// ===============================
+// TYPES
+// ===============================
+
+interface ProductImageProps {
+  uri?: string;
+  size?: number; // sin valor ocupa el ancho disponible con proporción cuadrada
+  borderRadius?: number;
+  style?: StyleProp<ViewStyle>;
+}
+
+// ===============================
+// PRODUCT IMAGE
+// ===============================
+
+/**
+ * Imagen de producto con el ícono genérico cuando no hay imagen o no se puede cargar
+ */
+const ProductImage: React.FC<ProductImageProps> = ({
+  uri,
+  size,
+  borderRadius = LAYOUT.BORDER_RADIUS.MD,
+  style,
+}) => {
+  const { colors } = useTheme();
+  const [hasError, setHasError] = useState(false);
+
+  useEffect(() => {
+    setHasError(false);
+  }, [uri]);
+
+  const dimensions: ViewStyle = size ? { width: size, height: size } : { width: '100%', aspectRatio: 1 };
+
+  return (
+    <View style={[
+      dimensions,
+      {
+        borderRadius,
+        overflow: 'hidden',
+        backgroundColor: colors.backgroundSecondary,
+        justifyContent: 'center',
+        alignItems: 'center',
+      },
+      style,
+    ]}>
+      {uri && !hasError ? (
+        <Image
+          source={{ uri }}
+          style={{ width: '100%', height: '100%' }}
+          resizeMode="cover"
+          onError={() => setHasError(true)}
+        />
+      ) : (
+        <MaterialCommunityIcons
+          name="package-variant"
+          size={size ? Math.round(size * 0.4) : 64}
+          color={colors.textSecondary}
+        />
+      )}
+    </View>
+  );
+};
+
+export default ProductImage;
@@ -0,0 +1,87 @@
+// ===============================
+// PRODUCT IMAGE GALLERY - PRESUPUESTOS APP
+// ===============================
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+
+// Components
+import Card from '../common/Card';
+import ProductImage from './ProductImage';
+
+// Constants
+import { LAYOUT } from '../../constants/config';
+
+// Theme
+import { useTheme } from '../../context/ThemeContext';
+
+// ===============================
+// TYPES
+// ===============================
+
+interface ProductImageGalleryProps {
+  images: string[];
+}
+
+// ===============================
+// CONSTANTS
+// ===============================
+
+const THUMBNAIL_SIZE = 56;
+
+// ===============================
+// PRODUCT IMAGE GALLERY
+// ===============================
+
+/**
+ * Imagen seleccionada en grande y miniaturas para cambiar entre las imágenes del producto
+ */
+const ProductImageGallery: React.FC<ProductImageGalleryProps> = ({ images }) => {
+  const { colors } = useTheme();
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  // Al editar el producto la galería puede tener menos imágenes
+  useEffect(() => {
+    if (selectedIndex >= images.length) {
+      setSelectedIndex(0);
+    }
+  }, [images.length]);
+
+  return (
+    <Card variant="outlined" padding="md" style={{ marginBottom: LAYOUT.SPACING.LG }}>
+      <ProductImage uri={images[selectedIndex]} borderRadius={LAYOUT.BORDER_RADIUS.LG} />
+
+      {images.length > 1 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={{ gap: LAYOUT.SPACING.SM, paddingTop: LAYOUT.SPACING.MD }}
+        >
+          {images.map((uri, index) => (
+            <TouchableOpacity
+              key={uri}
+              onPress={() => setSelectedIndex(index)}
+              activeOpacity={0.8}
+            >
+              <ProductImage
+                uri={uri}
+                size={THUMBNAIL_SIZE}
+                borderRadius={LAYOUT.BORDER_RADIUS.SM}
+                style={{
+                  borderWidth: 2,
+                  borderColor: index === selectedIndex ? colors.primary : 'transparent',
+                }}
+              />
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+    </Card>
+  );
+};
+
+export default ProductImageGallery;
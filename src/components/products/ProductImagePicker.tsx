@@ -0,0 +1,217 @@
+// ===============================
+// PRODUCT IMAGE PICKER - PRESUPUESTOS APP
+// ===============================
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+
+// Components
+import ProductImage from './ProductImage';
+
+// Services
+import * as imageService from '../../services/imageService';
+
+// Constants
+import { IMAGE_CONFIG, LAYOUT, LIMITS, TYPOGRAPHY } from '../../constants/config';
+
+// Theme
+import { useTheme } from '../../context/ThemeContext';
+
+// ===============================
+// TYPES
+// ===============================
+
+interface ProductImagePickerProps {
+  images: string[];
+  onChange: (images: string[]) => void;
+  onUploadingChange?: (isUploading: boolean) => void;
+  error?: string;
+  disabled?: boolean;
+}
+
+// ===============================
+// CONSTANTS
+// ===============================
+
+const TILE_SIZE = 76;
+
+// ===============================
+// PRODUCT IMAGE PICKER
+// ===============================
+
+const ProductImagePicker: React.FC<ProductImagePickerProps> = ({
+  images,
+  onChange,
+  onUploadingChange,
+  error,
+  disabled = false,
+}) => {
+  const { colors } = useTheme();
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+
+  const isUploading = uploadProgress !== null;
+  const canAddMore = images.length < IMAGE_CONFIG.MAX_PRODUCT_IMAGES;
+
+  // ===============================
+  // HANDLERS
+  // ===============================
+
+  const handleAdd = () => {
+    Alert.alert(
+      'Agregar imagen',
+      undefined,
+      [
+        { text: 'Tomar foto', onPress: () => addImage('camera') },
+        { text: 'Elegir de la galería', onPress: () => addImage('library') },
+        { text: 'Cancelar', style: 'cancel' },
+      ]
+    );
+  };
+
+  const addImage = async (source: imageService.ImageSource) => {
+    try {
+      const picked = await imageService.pickImage(source);
+      if (!picked) return;
+
+      setUploadProgress(0);
+      onUploadingChange?.(true);
+      const url = await imageService.uploadProductImage(picked, setUploadProgress);
+      onChange([...images, url]);
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Error subiendo imagen');
+    } finally {
+      setUploadProgress(null);
+      onUploadingChange?.(false);
+    }
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(images.filter((_, current) => current !== index));
+  };
+
+  const handleSetMain = (index: number) => {
+    onChange([images[index], ...images.filter((_, current) => current !== index)]);
+  };
+
+  // ===============================
+  // RENDER FUNCTIONS
+  // ===============================
+
+  const renderImage = (uri: string, index: number) => (
+    <View key={uri} style={{ width: TILE_SIZE }}>
+      <TouchableOpacity
+        onPress={() => handleSetMain(index)}
+        disabled={disabled || index === 0}
+        activeOpacity={0.8}
+      >
+        <ProductImage
+          uri={uri}
+          size={TILE_SIZE}
+          style={index === 0 ? { borderWidth: 2, borderColor: colors.primary } : undefined}
+        />
+      </TouchableOpacity>
+
+      {!disabled && (
+        <TouchableOpacity
+          onPress={() => handleRemove(index)}
+          style={{
+            position: 'absolute',
+            top: -6,
+            right: -6,
+            backgroundColor: colors.surface,
+            borderRadius: 12,
+          }}
+        >
+          <MaterialCommunityIcons name="close-circle" size={22} color={colors.error} />
+        </TouchableOpacity>
+      )}
+
+      {index === 0 && (
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.XS,
+          color: colors.primary,
+          textAlign: 'center',
+          marginTop: LAYOUT.SPACING.XS,
+        }}>
+          Principal
+        </Text>
+      )}
+    </View>
+  );
+
+  const renderAddTile = () => (
+    <TouchableOpacity
+      onPress={handleAdd}
+      disabled={disabled || isUploading}
+      style={{
+        width: TILE_SIZE,
+        height: TILE_SIZE,
+        borderRadius: LAYOUT.BORDER_RADIUS.MD,
+        borderWidth: 1,
+        borderStyle: 'dashed',
+        borderColor: error ? colors.error : colors.border,
+        justifyContent: 'center',
+        alignItems: 'center',
+      }}
+    >
+      {isUploading ? (
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+          fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+          color: colors.primary,
+        }}>
+          {uploadProgress}%
+        </Text>
+      ) : (
+        <>
+          <MaterialCommunityIcons name="camera-plus-outline" size={24} color={colors.primary} />
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.XS,
+            color: colors.primary,
+            marginTop: LAYOUT.SPACING.XS,
+          }}>
+            Agregar
+          </Text>
+        </>
+      )}
+    </TouchableOpacity>
+  );
+
+  // ===============================
+  // RENDER
+  // ===============================
+
+  return (
+    <View style={{ marginBottom: LAYOUT.SPACING.MD }}>
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+        fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+        color: colors.text,
+        marginBottom: LAYOUT.SPACING.SM,
+      }}>
+        Imágenes ({images.length}/{IMAGE_CONFIG.MAX_PRODUCT_IMAGES})
+      </Text>
+
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: LAYOUT.SPACING.MD }}>
+        {images.map(renderImage)}
+        {(canAddMore || isUploading) && renderAddTile()}
+      </View>
+
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+        color: error ? colors.error : colors.textSecondary,
+        marginTop: LAYOUT.SPACING.SM,
+      }}>
+        {error || `Toca una imagen para hacerla principal. Se comprimen a menos de ${LIMITS.MAX_IMAGE_SIZE / (1024 * 1024)}MB antes de subirse`}
+      </Text>
+    </View>
+  );
+};
+
+export default ProductImagePicker;
@@ -0,0 +1,279 @@
+// ===============================
+// PRODUCT VARIANT EDITOR - PRESUPUESTOS APP
+// ===============================
+
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+} from 'react-native';
+import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+
+// Components
+import Button from '../common/Button';
+import Input from '../common/Input';
+
+// Services
+import * as productService from '../../services/productService';
+
+// Types
+import { ProductOptionFormData, ProductVariantFormData } from '../../types';
+
+// Constants
+import { LAYOUT, TYPOGRAPHY } from '../../constants/config';
+
+// Theme
+import { useTheme } from '../../context/ThemeContext';
+
+// ===============================
+// TYPES
+// ===============================
+
+interface ProductVariantEditorProps {
+  options: ProductOptionFormData[];
+  variants: ProductVariantFormData[];
+  onOptionsChange: (options: ProductOptionFormData[]) => void;
+  onVariantsChange: (variants: ProductVariantFormData[]) => void;
+  baseSku?: string;
+  errors?: Record<string, string>;
+  disabled?: boolean;
+}
+
+// ===============================
+// CONSTANTS
+// ===============================
+
+const MAX_OPTIONS = 3;
+
+// ===============================
+// PRODUCT VARIANT EDITOR
+// ===============================
+
+/**
+ * Opciones del producto (talle, color, modelo) y la grilla de variantes que generan.
+ * El stock solo se carga en variantes nuevas; después cambia con movimientos
+ */
+const ProductVariantEditor: React.FC<ProductVariantEditorProps> = ({
+  options,
+  variants,
+  onOptionsChange,
+  onVariantsChange,
+  baseSku,
+  errors = {},
+  disabled = false,
+}) => {
+  const { colors } = useTheme();
+
+  // ===============================
+  // HANDLERS
+  // ===============================
+
+  const handleOptionChange = (index: number, field: keyof ProductOptionFormData, value: string) => {
+    onOptionsChange(options.map((option, current) => current === index ? { ...option, [field]: value } : option));
+  };
+
+  const handleAddOption = () => {
+    onOptionsChange([...options, { name: '', values: '' }]);
+  };
+
+  const handleRemoveOption = (index: number) => {
+    onOptionsChange(options.filter((_, current) => current !== index));
+  };
+
+  /**
+   * Armar una variante por combinación de valores. Las que ya existían se conservan
+   * con su SKU, precio y stock
+   */
+  const handleGenerate = () => {
+    const parsedOptions = options
+      .map(option => ({ name: option.name.trim(), values: productService.parseOptionValues(option.values) }))
+      .filter(option => option.name && option.values.length > 0);
+
+    const generated = productService.buildVariantCombinations(parsedOptions).map(combination => {
+      const label = productService.getVariantLabel({ options: combination });
+      const existing = variants.find(variant => productService.getVariantLabel(variant) === label);
+
+      return existing ? { ...existing, options: combination } : {
+        sku: productService.generateVariantSKU(baseSku || 'VAR', Object.values(combination)),
+        options: combination,
+        price: '',
+        stock: '0',
+      };
+    });
+
+    onVariantsChange(parsedOptions.length > 0 ? generated : []);
+  };
+
+  const handleVariantChange = (index: number, field: 'sku' | 'price' | 'stock', value: string) => {
+    onVariantsChange(variants.map((variant, current) => current === index ? { ...variant, [field]: value } : variant));
+  };
+
+  const handleRemoveVariant = (index: number) => {
+    onVariantsChange(variants.filter((_, current) => current !== index));
+  };
+
+  // ===============================
+  // RENDER FUNCTIONS
+  // ===============================
+
+  const renderOption = (option: ProductOptionFormData, index: number) => (
+    <View key={index} style={{ flexDirection: 'row', alignItems: 'flex-start', gap: LAYOUT.SPACING.SM }}>
+      <View style={{ flex: 1 }}>
+        <Input
+          placeholder="Ej: Color"
+          value={option.name}
+          onChangeText={(text) => handleOptionChange(index, 'name', text)}
+          editable={!disabled}
+        />
+      </View>
+      <View style={{ flex: 2 }}>
+        <Input
+          placeholder="Ej: Rojo, Azul, Negro"
+          value={option.values}
+          onChangeText={(text) => handleOptionChange(index, 'values', text)}
+          editable={!disabled}
+        />
+      </View>
+      <TouchableOpacity
+        onPress={() => handleRemoveOption(index)}
+        disabled={disabled}
+        style={{ paddingTop: LAYOUT.SPACING.MD }}
+      >
+        <MaterialCommunityIcons name="close-circle-outline" size={22} color={colors.error} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderVariant = (variant: ProductVariantFormData, index: number) => {
+    const error = errors[`variant${index}`];
+
+    return (
+      <View
+        key={variant._id || productService.getVariantLabel(variant)}
+        style={{
+          paddingTop: LAYOUT.SPACING.SM,
+          borderTopWidth: 1,
+          borderTopColor: colors.border,
+        }}
+      >
+        <View style={{
+          flexDirection: 'row',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          marginBottom: LAYOUT.SPACING.SM,
+        }}>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+            fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+            color: colors.text,
+          }}>
+            {productService.getVariantLabel(variant)}
+          </Text>
+          <TouchableOpacity onPress={() => handleRemoveVariant(index)} disabled={disabled}>
+            <MaterialCommunityIcons name="delete-outline" size={20} color={colors.error} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={{ flexDirection: 'row', gap: LAYOUT.SPACING.SM }}>
+          <View style={{ flex: 2 }}>
+            <Input
+              label="SKU"
+              value={variant.sku}
+              onChangeText={(text) => handleVariantChange(index, 'sku', text)}
+              autoCapitalize="characters"
+              editable={!disabled}
+            />
+          </View>
+          <View style={{ flex: 1 }}>
+            <Input
+              label="Precio"
+              placeholder="Base"
+              value={variant.price}
+              onChangeText={(text) => handleVariantChange(index, 'price', text)}
+              keyboardType="numeric"
+              editable={!disabled}
+            />
+          </View>
+          <View style={{ flex: 1 }}>
+            <Input
+              label="Stock"
+              value={variant.stock}
+              onChangeText={(text) => handleVariantChange(index, 'stock', text)}
+              keyboardType="numeric"
+              editable={!disabled && !variant._id}
+            />
+          </View>
+        </View>
+
+        {error && (
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+            color: colors.error,
+            marginBottom: LAYOUT.SPACING.SM,
+          }}>
+            {error}
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  // ===============================
+  // RENDER
+  // ===============================
+
+  return (
+    <View style={{ marginBottom: LAYOUT.SPACING.MD }}>
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+        fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+        color: colors.text,
+        marginBottom: LAYOUT.SPACING.XS,
+      }}>
+        Variantes (opcional)
+      </Text>
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+        color: errors.options || errors.variants ? colors.error : colors.textSecondary,
+        marginBottom: LAYOUT.SPACING.SM,
+      }}>
+        {errors.options || errors.variants || 'Opciones como talle o color, con los valores separados por coma. Cada variante tiene SKU y stock propios; sin precio usa el del producto'}
+      </Text>
+
+      {options.map(renderOption)}
+
+      <View style={{ flexDirection: 'row', gap: LAYOUT.SPACING.SM, marginBottom: LAYOUT.SPACING.MD }}>
+        <Button
+          title="Agregar opción"
+          variant="ghost"
+          size="sm"
+          onPress={handleAddOption}
+          disabled={disabled || options.length >= MAX_OPTIONS}
+        />
+        {options.length > 0 && (
+          <Button
+            title="Generar variantes"
+            variant="outline"
+            size="sm"
+            onPress={handleGenerate}
+            disabled={disabled}
+          />
+        )}
+      </View>
+
+      {variants.map(renderVariant)}
+
+      {variants.some(variant => variant._id) && (
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+          color: colors.textSecondary,
+        }}>
+          El stock de las variantes existentes se cambia registrando movimientos
+        </Text>
+      )}
+    </View>
+  );
+};
+
+export default ProductVariantEditor;
@@ -0,0 +1,138 @@
+// ===============================
+// PRODUCT VARIANT LIST - PRESUPUESTOS APP
+// ===============================
+
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+} from 'react-native';
+import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+
+// Components
+import Card from '../common/Card';
+
+// Services
+import * as productService from '../../services/productService';
+
+// Types
+import { Product, ProductVariant } from '../../types';
+
+// Constants
+import { LAYOUT, TYPOGRAPHY } from '../../constants/config';
+
+// Theme
+import { useTheme } from '../../context/ThemeContext';
+
+// ===============================
+// TYPES
+// ===============================
+
+interface ProductVariantListProps {
+  product: Product;
+  onVariantPress?: (variant: ProductVariant) => void;
+}
+
+// ===============================
+// PRODUCT VARIANT LIST
+// ===============================
+
+/**
+ * Variantes del producto con su SKU, precio y stock disponible
+ */
+const ProductVariantList: React.FC<ProductVariantListProps> = ({ product, onVariantPress }) => {
+  const { colors } = useTheme();
+  const variants = product.variants || [];
+
+  // ===============================
+  // RENDER FUNCTIONS
+  // ===============================
+
+  const renderVariant = (variant: ProductVariant) => {
+    const availableStock = productService.getAvailableStock(variant);
+    const stockStatus = productService.getStockStatus(availableStock, productService.getReorderPoint(product));
+
+    return (
+      <TouchableOpacity
+        key={variant._id}
+        onPress={() => onVariantPress?.(variant)}
+        disabled={!onVariantPress}
+        style={{
+          flexDirection: 'row',
+          alignItems: 'center',
+          paddingVertical: LAYOUT.SPACING.SM,
+          borderTopWidth: 1,
+          borderTopColor: colors.border,
+        }}
+      >
+        <View style={{ flex: 1, marginRight: LAYOUT.SPACING.MD }}>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+            fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+            color: colors.text,
+          }}>
+            {productService.getVariantLabel(variant)}
+          </Text>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+            color: colors.textSecondary,
+          }}>
+            {variant.sku} • {productService.formatPrice(productService.getUnitPrice(product, variant))}
+          </Text>
+        </View>
+
+        <View style={{ alignItems: 'flex-end' }}>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+            fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+            color: stockStatus.color,
+          }}>
+            {availableStock} disp.
+          </Text>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+            color: colors.textTertiary,
+          }}>
+            {variant.stock} físico • {productService.getReservedStock(variant)} reserv.
+          </Text>
+        </View>
+
+        {onVariantPress && (
+          <MaterialCommunityIcons name="chevron-right" size={20} color={colors.textSecondary} style={{ marginLeft: LAYOUT.SPACING.SM }} />
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  // ===============================
+  // RENDER
+  // ===============================
+
+  return (
+    <Card variant="outlined" padding="lg" style={{ marginBottom: LAYOUT.SPACING.LG }}>
+      <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: LAYOUT.SPACING.SM }}>
+        <MaterialCommunityIcons name="shape-outline" size={20} color={colors.text} style={{ marginRight: 8 }} />
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+          fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+          color: colors.text,
+        }}>
+          Variantes ({variants.length})
+        </Text>
+      </View>
+
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+        color: colors.textSecondary,
+        marginBottom: LAYOUT.SPACING.SM,
+      }}>
+        {(product.options || []).map(option => `${option.name}: ${option.values.join(', ')}`).join(' • ')}
+      </Text>
+
+      {variants.map(renderVariant)}
+    </Card>
+  );
+};
+
+export default ProductVariantList;
@@ -0,0 +1,212 @@
+// ===============================
+// STOCK MOVEMENT TIMELINE - PRESUPUESTOS APP
+// ===============================
+
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+
+// Components
+import Card from '../common/Card';
+
+// Services
+import * as stockService from '../../services/stockService';
+
+// Types
+import { StockMovement } from '../../types';
+
+// Constants
+import { LAYOUT, TYPOGRAPHY } from '../../constants/config';
+
+// Theme
+import { useTheme } from '../../context/ThemeContext';
+
+// ===============================
+// TYPES
+// ===============================
+
+interface StockMovementTimelineProps {
+  movements: StockMovement[];
+  total: number;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  onAddMovement?: () => void;
+}
+
+// ===============================
+// STOCK MOVEMENT TIMELINE
+// ===============================
+
+const StockMovementTimeline: React.FC<StockMovementTimelineProps> = ({
+  movements,
+  total,
+  isLoadingMore = false,
+  onLoadMore,
+  onAddMovement,
+}) => {
+  const { colors } = useTheme();
+
+  const hasMore = movements.length < total;
+
+  // ===============================
+  // RENDER FUNCTIONS
+  // ===============================
+
+  const renderMovement = (movement: StockMovement, index: number) => {
+    const typeInfo = stockService.formatMovementType(movement.type);
+    const isLast = index === movements.length - 1;
+
+    return (
+      <View
+        key={movement._id}
+        style={{ flexDirection: 'row', alignItems: 'flex-start' }}
+      >
+        <View style={{ alignItems: 'center', marginRight: LAYOUT.SPACING.MD }}>
+          <View style={{
+            width: 28,
+            height: 28,
+            borderRadius: 14,
+            backgroundColor: typeInfo.color + '20',
+            justifyContent: 'center',
+            alignItems: 'center',
+          }}>
+            <MaterialCommunityIcons name={typeInfo.icon as React.ComponentProps<typeof MaterialCommunityIcons>['name']} size={16} color={typeInfo.color} />
+          </View>
+          {(!isLast || hasMore) && (
+            <View style={{ width: 2, flex: 1, minHeight: 16, backgroundColor: colors.border }} />
+          )}
+        </View>
+
+        <View style={{ flex: 1, paddingBottom: LAYOUT.SPACING.MD }}>
+          <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+              color: colors.text,
+            }}>
+              {typeInfo.label}
+            </Text>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+              color: movement.quantity > 0 ? colors.success : colors.error,
+            }}>
+              {stockService.formatMovementQuantity(movement.quantity)}
+            </Text>
+          </View>
+
+          {movement.variant && (
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+              color: colors.textSecondary,
+            }}>
+              {movement.variant.label} · {movement.variant.sku}
+            </Text>
+          )}
+
+          {(movement.reason || movement.reference) && (
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+              color: colors.textSecondary,
+            }}>
+              {[movement.reason, movement.reference].filter(Boolean).join(' • ')}
+            </Text>
+          )}
+
+          <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+              color: colors.textTertiary,
+            }}>
+              {new Date(movement.createdAt).toLocaleDateString('es-AR', {
+                year: 'numeric',
+                month: 'short',
+                day: 'numeric',
+                hour: '2-digit',
+                minute: '2-digit',
+              })}
+            </Text>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+              color: colors.textSecondary,
+            }}>
+              Saldo: {movement.balance}
+            </Text>
+          </View>
+        </View>
+      </View>
+    );
+  };
+
+  // ===============================
+  // RENDER
+  // ===============================
+
+  return (
+    <Card variant="outlined" padding="lg" style={{ marginBottom: LAYOUT.SPACING.LG }}>
+      <View style={{
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        marginBottom: LAYOUT.SPACING.MD,
+      }}>
+        <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+          <MaterialCommunityIcons name="swap-vertical" size={20} color={colors.text} style={{ marginRight: 8 }} />
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+            fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+            color: colors.text,
+          }}>
+            Movimientos de Stock ({total})
+          </Text>
+        </View>
+
+        {onAddMovement && (
+          <TouchableOpacity onPress={onAddMovement} style={{ padding: LAYOUT.SPACING.XS }}>
+            <MaterialCommunityIcons name="plus-circle-outline" size={22} color={colors.primary} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {movements.length === 0 ? (
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+          color: colors.textSecondary,
+          textAlign: 'center',
+        }}>
+          Todavía no hay movimientos registrados
+        </Text>
+      ) : (
+        movements.map(renderMovement)
+      )}
+
+      {hasMore && onLoadMore && (
+        <TouchableOpacity
+          onPress={onLoadMore}
+          disabled={isLoadingMore}
+          style={{ alignItems: 'center', paddingTop: LAYOUT.SPACING.SM }}
+        >
+          {isLoadingMore ? (
+            <ActivityIndicator size="small" color={colors.primary} />
+          ) : (
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+              color: colors.primary,
+            }}>
+              Ver movimientos anteriores
+            </Text>
+          )}
+        </TouchableOpacity>
+      )}
+    </Card>
+  );
+};
+
+export default StockMovementTimeline;
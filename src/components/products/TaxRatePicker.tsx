@@ -0,0 +1,76 @@
+// ===============================
+// TAX RATE PICKER - PRESUPUESTOS APP
+// ===============================
+
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+} from 'react-native';
+
+// Services
+import * as productService from '../../services/productService';
+
+// Constants
+import { LAYOUT, TYPOGRAPHY, TAX_CONFIG } from '../../constants/config';
+
+// Theme
+import { useTheme } from '../../context/ThemeContext';
+
+// ===============================
+// TYPES
+// ===============================
+
+interface TaxRatePickerProps {
+  value: number;
+  onChange: (rate: number) => void;
+  size?: 'sm' | 'md';
+  disabled?: boolean;
+}
+
+// ===============================
+// TAX RATE PICKER
+// ===============================
+
+/**
+ * Alícuotas de IVA vigentes como opciones; se usa en el producto y en cada línea del presupuesto
+ */
+const TaxRatePicker: React.FC<TaxRatePickerProps> = ({ value, onChange, size = 'md', disabled = false }) => {
+  const { colors } = useTheme();
+  const isSmall = size === 'sm';
+
+  return (
+    <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: isSmall ? LAYOUT.SPACING.XS : LAYOUT.SPACING.SM }}>
+      {TAX_CONFIG.IVA_RATES.map(rate => {
+        const isSelected = value === rate;
+
+        return (
+          <TouchableOpacity
+            key={rate}
+            onPress={() => onChange(rate)}
+            disabled={disabled}
+            style={{
+              paddingVertical: isSmall ? 2 : LAYOUT.SPACING.SM,
+              paddingHorizontal: isSmall ? LAYOUT.SPACING.SM : LAYOUT.SPACING.MD,
+              borderRadius: LAYOUT.BORDER_RADIUS.PILL,
+              borderWidth: 1,
+              borderColor: isSelected ? colors.primary : colors.border,
+              backgroundColor: isSelected ? colors.primary : colors.backgroundSecondary,
+            }}
+          >
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+              color: isSelected ? '#FFFFFF' : colors.text,
+            }}>
+              {rate === 0 ? productService.formatTaxRate(rate) : `${rate}%`}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+};
+
+export default TaxRatePicker;
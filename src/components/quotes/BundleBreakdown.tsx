@@ -0,0 +1,76 @@
+// ===============================
+// BUNDLE BREAKDOWN - PRESUPUESTOS APP
+// ===============================
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+} from 'react-native';
+import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+
+// Types
+import { BundleComponent } from '../../types';
+
+// Constants
+import { LAYOUT, TYPOGRAPHY } from '../../constants/config';
+
+// Theme
+import { useTheme } from '../../context/ThemeContext';
+
+// ===============================
+// TYPES
+// ===============================
+
+interface BundleBreakdownProps {
+  components: BundleComponent[];
+  quantity: number; // kits de la línea: multiplica las unidades de cada componente
+}
+
+// ===============================
+// BUNDLE BREAKDOWN
+// ===============================
+
+/**
+ * Desglose desplegable de una línea de kit con las unidades totales de cada componente
+ */
+const BundleBreakdown: React.FC<BundleBreakdownProps> = ({ components, quantity }) => {
+  const { colors } = useTheme();
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <View style={{ marginBottom: LAYOUT.SPACING.XS }}>
+      <TouchableOpacity
+        onPress={() => setIsExpanded(prev => !prev)}
+        style={{ flexDirection: 'row', alignItems: 'center' }}
+      >
+        <MaterialCommunityIcons name="package-variant-closed" size={14} color={colors.primary} style={{ marginRight: 4 }} />
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+          fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+          color: colors.primary,
+        }}>
+          Kit: {components.length} productos
+        </Text>
+        <MaterialCommunityIcons name={isExpanded ? 'chevron-up' : 'chevron-down'} size={16} color={colors.primary} />
+      </TouchableOpacity>
+
+      {isExpanded && components.map(component => (
+        <Text
+          key={component.product}
+          style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+            color: colors.textSecondary,
+            marginLeft: LAYOUT.SPACING.MD,
+            marginTop: LAYOUT.SPACING.XS,
+          }}
+        >
+          {component.quantity * quantity} x {component.name}{component.sku ? ` · ${component.sku}` : ''}
+        </Text>
+      ))}
+    </View>
+  );
+};
+
+export default BundleBreakdown;
@@ -0,0 +1,316 @@
+// ===============================
+// QUOTE REVISION TIMELINE - PRESUPUESTOS APP
+// ===============================
+
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+} from 'react-native';
+import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+
+// Components
+import Card from '../common/Card';
+
+// Services
+import * as quoteService from '../../services/quoteService';
+import * as productService from '../../services/productService';
+
+// Types
+import { QuoteRevision, QuoteRevisionItemDiff } from '../../types';
+
+// Constants
+import { LAYOUT, TYPOGRAPHY } from '../../constants/config';
+
+// Theme
+import { useTheme } from '../../context/ThemeContext';
+
+// ===============================
+// TYPES
+// ===============================
+
+interface QuoteRevisionTimelineProps {
+  revisions: QuoteRevision[];
+}
+
+// ===============================
+// QUOTE REVISION TIMELINE
+// ===============================
+
+const QuoteRevisionTimeline: React.FC<QuoteRevisionTimelineProps> = ({ revisions }) => {
+  const { colors } = useTheme();
+
+  // ===============================
+  // STATE
+  // ===============================
+
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+
+  // ===============================
+  // EFFECTS
+  // ===============================
+
+  useEffect(() => {
+    // Por defecto comparar las dos últimas versiones
+    if (revisions.length >= 2) {
+      setFromVersion(revisions[revisions.length - 2].version);
+      setToVersion(revisions[revisions.length - 1].version);
+    }
+  }, [revisions]);
+
+  // ===============================
+  // COMPUTED
+  // ===============================
+
+  const diff = useMemo(() => {
+    const from = revisions.find(r => r.version === fromVersion);
+    const to = revisions.find(r => r.version === toVersion);
+    if (!from || !to || from.version === to.version) return null;
+    return quoteService.diffQuoteRevisions(from, to);
+  }, [revisions, fromVersion, toVersion]);
+
+  // ===============================
+  // RENDER FUNCTIONS
+  // ===============================
+
+  const renderVersionSelector = (
+    label: string,
+    selected: number | null,
+    onSelect: (version: number) => void
+  ) => (
+    <View style={{ marginBottom: LAYOUT.SPACING.SM }}>
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+        color: colors.textSecondary,
+        marginBottom: LAYOUT.SPACING.XS,
+      }}>
+        {label}
+      </Text>
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: LAYOUT.SPACING.SM }}>
+        {revisions.map(revision => {
+          const isSelected = revision.version === selected;
+          return (
+            <TouchableOpacity
+              key={`${label}-${revision._id}`}
+              onPress={() => onSelect(revision.version)}
+              style={{
+                paddingHorizontal: LAYOUT.SPACING.MD,
+                paddingVertical: LAYOUT.SPACING.XS,
+                borderRadius: LAYOUT.BORDER_RADIUS.PILL,
+                borderWidth: 1,
+                borderColor: isSelected ? colors.primary : colors.border,
+                backgroundColor: isSelected ? colors.primary : colors.backgroundSecondary,
+              }}
+            >
+              <Text style={{
+                fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+                fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+                color: isSelected ? '#FFFFFF' : colors.text,
+              }}>
+                v{revision.version}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+
+  const renderItemDiff = (item: QuoteRevisionItemDiff) => {
+    const diffStyles: Record<QuoteRevisionItemDiff['type'], {
+      icon: React.ComponentProps<typeof MaterialCommunityIcons>['name'];
+      color: string;
+      prefix: string;
+    }> = {
+      added: { icon: 'plus-circle-outline', color: colors.success, prefix: '+' },
+      removed: { icon: 'minus-circle-outline', color: colors.error, prefix: '−' },
+      changed: { icon: 'swap-horizontal', color: colors.warning, prefix: '~' },
+      unchanged: { icon: 'equal', color: colors.textTertiary, prefix: ' ' },
+    };
+    const style = diffStyles[item.type];
+
+    const describe = (line?: { quantity: number; productSnapshot: { price: number }; subtotal: number }) =>
+      line ? `${line.quantity} x ${productService.formatPrice(line.productSnapshot.price)} = ${productService.formatPrice(line.subtotal)}` : '';
+
+    return (
+      <View
+        key={`${item.type}-${item.productId}`}
+        style={{
+          flexDirection: 'row',
+          alignItems: 'flex-start',
+          paddingVertical: LAYOUT.SPACING.SM,
+          borderBottomWidth: 1,
+          borderBottomColor: colors.border,
+        }}
+      >
+        <MaterialCommunityIcons name={style.icon} size={18} color={style.color} style={{ marginRight: LAYOUT.SPACING.SM, marginTop: 2 }} />
+        <View style={{ flex: 1 }}>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+            fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+            color: item.type === 'unchanged' ? colors.textSecondary : colors.text,
+            textDecorationLine: item.type === 'removed' ? 'line-through' : 'none',
+          }}>
+            {style.prefix} {item.name}
+          </Text>
+
+          {item.type === 'changed' ? (
+            <>
+              <Text style={{ fontSize: TYPOGRAPHY.FONT_SIZE.SM, color: colors.error }}>
+                Antes: {describe(item.before)}
+              </Text>
+              <Text style={{ fontSize: TYPOGRAPHY.FONT_SIZE.SM, color: colors.success }}>
+                Después: {describe(item.after)}
+              </Text>
+            </>
+          ) : (
+            <Text style={{ fontSize: TYPOGRAPHY.FONT_SIZE.SM, color: colors.textSecondary }}>
+              {describe(item.after || item.before)}
+            </Text>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  // ===============================
+  // RENDER
+  // ===============================
+
+  return (
+    <Card variant="outlined" padding="lg" style={{ marginBottom: LAYOUT.SPACING.LG }}>
+      <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: LAYOUT.SPACING.MD }}>
+        <MaterialCommunityIcons name="history" size={20} color={colors.text} style={{ marginRight: 8 }} />
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+          fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+          color: colors.text,
+        }}>
+          Historial de Versiones ({revisions.length})
+        </Text>
+      </View>
+
+      {/* Timeline */}
+      {[...revisions].reverse().map((revision, index) => (
+        <View
+          key={revision._id}
+          style={{ flexDirection: 'row', alignItems: 'flex-start' }}
+        >
+          <View style={{ alignItems: 'center', marginRight: LAYOUT.SPACING.MD }}>
+            <View style={{
+              width: 12,
+              height: 12,
+              borderRadius: 6,
+              marginTop: 4,
+              backgroundColor: index === 0 ? colors.primary : colors.border,
+            }} />
+            {index < revisions.length - 1 && (
+              <View style={{ width: 2, flex: 1, minHeight: 28, backgroundColor: colors.border }} />
+            )}
+          </View>
+
+          <View style={{ flex: 1, paddingBottom: LAYOUT.SPACING.MD }}>
+            <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
+              <Text style={{
+                fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+                fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+                color: colors.text,
+              }}>
+                Versión {revision.version}{index === 0 ? ' (actual)' : ''}
+              </Text>
+              <Text style={{
+                fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+                fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+                color: colors.primary,
+              }}>
+                {productService.formatPrice(revision.total)}
+              </Text>
+            </View>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+              color: colors.textTertiary,
+            }}>
+              {new Date(revision.createdAt).toLocaleDateString('es-AR', {
+                year: 'numeric',
+                month: 'short',
+                day: 'numeric',
+                hour: '2-digit',
+                minute: '2-digit',
+              })}
+              {' • '}{quoteService.formatLineCount(revision)}
+            </Text>
+          </View>
+        </View>
+      ))}
+
+      {/* Diff */}
+      {revisions.length >= 2 && (
+        <View style={{
+          marginTop: LAYOUT.SPACING.SM,
+          paddingTop: LAYOUT.SPACING.MD,
+          borderTopWidth: 1,
+          borderTopColor: colors.border,
+        }}>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+            fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+            color: colors.text,
+            marginBottom: LAYOUT.SPACING.SM,
+          }}>
+            Comparar versiones
+          </Text>
+
+          {renderVersionSelector('Desde', fromVersion, setFromVersion)}
+          {renderVersionSelector('Hasta', toVersion, setToVersion)}
+
+          {!diff ? (
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+              color: colors.textSecondary,
+              textAlign: 'center',
+              marginTop: LAYOUT.SPACING.SM,
+            }}>
+              Selecciona dos versiones distintas para ver los cambios
+            </Text>
+          ) : (
+            <View style={{ marginTop: LAYOUT.SPACING.SM }}>
+              {diff.items.map(renderItemDiff)}
+
+              {diff.totals.map(total => (
+                <View
+                  key={total.field}
+                  style={{
+                    flexDirection: 'row',
+                    justifyContent: 'space-between',
+                    marginTop: LAYOUT.SPACING.SM,
+                  }}
+                >
+                  <Text style={{ fontSize: TYPOGRAPHY.FONT_SIZE.SM, color: colors.textSecondary }}>
+                    {total.label}
+                  </Text>
+                  <Text style={{ fontSize: TYPOGRAPHY.FONT_SIZE.SM, color: colors.text }}>
+                    {productService.formatPrice(total.before)} → {productService.formatPrice(total.after)}
+                  </Text>
+                </View>
+              ))}
+
+              {diff.notesChanged && (
+                <Text style={{
+                  fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+                  color: colors.warning,
+                  marginTop: LAYOUT.SPACING.SM,
+                }}>
+                  Las notas fueron modificadas
+                </Text>
+              )}
+            </View>
+          )}
+        </View>
+      )}
+    </Card>
+  );
+};
+
+export default QuoteRevisionTimeline;
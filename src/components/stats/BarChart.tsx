@@ -0,0 +1,161 @@
+// ===============================
+// BAR CHART - PRESUPUESTOS APP
+// ===============================
+
+import React, { useState } from 'react';
+import {
+  View,
+  LayoutChangeEvent,
+} from 'react-native';
+import Svg, { Rect, Line, Text as SvgText } from 'react-native-svg';
+
+// Constants
+import { TYPOGRAPHY } from '../../constants/config';
+
+// Theme
+import { useTheme } from '../../context/ThemeContext';
+
+// ===============================
+// TYPES
+// ===============================
+
+export interface ChartPoint {
+  label: string;
+  value: number;
+}
+
+interface BarChartProps {
+  data: ChartPoint[];
+  height?: number;
+  color?: string;
+  formatValue?: (value: number) => string;
+}
+
+// ===============================
+// CONSTANTS
+// ===============================
+
+const AXIS_WIDTH = 44;
+const LABEL_HEIGHT = 20;
+const MAX_LABELS = 7;
+
+// ===============================
+// HELPERS
+// ===============================
+
+/**
+ * Máximo del eje redondeado hacia arriba (1, 2 o 5 por potencia de 10)
+ */
+export const getNiceMax = (value: number): number => {
+  if (value <= 0) return 1;
+
+  const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+  const normalized = value / magnitude;
+  const nice = normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10;
+
+  return nice * magnitude;
+};
+
+/**
+ * Formato corto para el eje: 1.5k, 2M
+ */
+export const formatAxisValue = (value: number): string => {
+  if (value >= 1000000) return `${+(value / 1000000).toFixed(1)}M`;
+  if (value >= 1000) return `${+(value / 1000).toFixed(1)}k`;
+  return `${Math.round(value)}`;
+};
+
+// ===============================
+// BAR CHART
+// ===============================
+
+const BarChart: React.FC<BarChartProps> = ({
+  data,
+  height = 180,
+  color,
+  formatValue = formatAxisValue,
+}) => {
+  const { colors } = useTheme();
+  const [width, setWidth] = useState(0);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const barColor = color || colors.primary;
+  const chartHeight = height - LABEL_HEIGHT;
+  const plotWidth = Math.max(width - AXIS_WIDTH, 0);
+  const maxValue = getNiceMax(Math.max(...data.map(point => point.value), 0));
+  const slot = data.length > 0 ? plotWidth / data.length : 0;
+  const barWidth = Math.max(slot * 0.6, 2);
+  const labelStep = Math.ceil(data.length / MAX_LABELS);
+
+  return (
+    <View onLayout={handleLayout} style={{ height }}>
+      {width > 0 && (
+        <Svg width={width} height={height}>
+          {/* Grid */}
+          {[0, 0.5, 1].map(ratio => {
+            const y = chartHeight - ratio * (chartHeight - 8);
+            return (
+              <React.Fragment key={ratio}>
+                <Line
+                  x1={AXIS_WIDTH}
+                  x2={width}
+                  y1={y}
+                  y2={y}
+                  stroke={colors.border}
+                  strokeWidth={1}
+                  strokeDasharray={ratio === 0 ? undefined : '4,4'}
+                />
+                <SvgText
+                  x={AXIS_WIDTH - 6}
+                  y={y + 4}
+                  fontSize={TYPOGRAPHY.FONT_SIZE.XS}
+                  fill={colors.textSecondary}
+                  textAnchor="end"
+                >
+                  {formatValue(maxValue * ratio)}
+                </SvgText>
+              </React.Fragment>
+            );
+          })}
+
+          {/* Bars */}
+          {data.map((point, index) => {
+            const barHeight = (point.value / maxValue) * (chartHeight - 8);
+            const x = AXIS_WIDTH + index * slot + (slot - barWidth) / 2;
+
+            return (
+              <React.Fragment key={`${point.label}-${index}`}>
+                {point.value > 0 && (
+                  <Rect
+                    x={x}
+                    y={chartHeight - barHeight}
+                    width={barWidth}
+                    height={barHeight}
+                    rx={Math.min(barWidth / 4, 4)}
+                    fill={barColor}
+                  />
+                )}
+                {index % labelStep === 0 && (
+                  <SvgText
+                    x={x + barWidth / 2}
+                    y={height - 4}
+                    fontSize={TYPOGRAPHY.FONT_SIZE.XS}
+                    fill={colors.textSecondary}
+                    textAnchor="middle"
+                  >
+                    {point.label}
+                  </SvgText>
+                )}
+              </React.Fragment>
+            );
+          })}
+        </Svg>
+      )}
+    </View>
+  );
+};
+
+export default BarChart;
@@ -0,0 +1,145 @@
+// ===============================
+// LINE CHART - PRESUPUESTOS APP
+// ===============================
+
+import React, { useState } from 'react';
+import {
+  View,
+  LayoutChangeEvent,
+} from 'react-native';
+import Svg, { Path, Line, Circle, Text as SvgText } from 'react-native-svg';
+
+// Components
+import { ChartPoint, getNiceMax, formatAxisValue } from './BarChart';
+
+// Constants
+import { TYPOGRAPHY } from '../../constants/config';
+
+// Theme
+import { useTheme } from '../../context/ThemeContext';
+
+// ===============================
+// TYPES
+// ===============================
+
+interface LineChartProps {
+  data: ChartPoint[];
+  height?: number;
+  color?: string;
+  formatValue?: (value: number) => string;
+}
+
+// ===============================
+// CONSTANTS
+// ===============================
+
+const AXIS_WIDTH = 44;
+const LABEL_HEIGHT = 20;
+const PADDING_X = 6;
+const MAX_LABELS = 7;
+
+// ===============================
+// LINE CHART
+// ===============================
+
+const LineChart: React.FC<LineChartProps> = ({
+  data,
+  height = 180,
+  color,
+  formatValue = formatAxisValue,
+}) => {
+  const { colors } = useTheme();
+  const [width, setWidth] = useState(0);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const lineColor = color || colors.primary;
+  const chartHeight = height - LABEL_HEIGHT;
+  const plotWidth = Math.max(width - AXIS_WIDTH - PADDING_X * 2, 0);
+  const maxValue = getNiceMax(Math.max(...data.map(point => point.value), 0));
+  const stepX = data.length > 1 ? plotWidth / (data.length - 1) : 0;
+  const labelStep = Math.ceil(data.length / MAX_LABELS);
+
+  const points = data.map((point, index) => ({
+    x: AXIS_WIDTH + PADDING_X + index * stepX,
+    y: chartHeight - (point.value / maxValue) * (chartHeight - 8),
+  }));
+
+  const linePath = points
+    .map((point, index) => `${index === 0 ? 'M' : 'L'}${point.x},${point.y}`)
+    .join(' ');
+  const areaPath = points.length > 0
+    ? `${linePath} L${points[points.length - 1].x},${chartHeight} L${points[0].x},${chartHeight} Z`
+    : '';
+
+  return (
+    <View onLayout={handleLayout} style={{ height }}>
+      {width > 0 && (
+        <Svg width={width} height={height}>
+          {/* Grid */}
+          {[0, 0.5, 1].map(ratio => {
+            const y = chartHeight - ratio * (chartHeight - 8);
+            return (
+              <React.Fragment key={ratio}>
+                <Line
+                  x1={AXIS_WIDTH}
+                  x2={width}
+                  y1={y}
+                  y2={y}
+                  stroke={colors.border}
+                  strokeWidth={1}
+                  strokeDasharray={ratio === 0 ? undefined : '4,4'}
+                />
+                <SvgText
+                  x={AXIS_WIDTH - 6}
+                  y={y + 4}
+                  fontSize={TYPOGRAPHY.FONT_SIZE.XS}
+                  fill={colors.textSecondary}
+                  textAnchor="end"
+                >
+                  {formatValue(maxValue * ratio)}
+                </SvgText>
+              </React.Fragment>
+            );
+          })}
+
+          {/* Area + Line */}
+          {points.length > 1 && (
+            <>
+              <Path d={areaPath} fill={lineColor} fillOpacity={0.12} />
+              <Path d={linePath} stroke={lineColor} strokeWidth={2} fill="none" />
+            </>
+          )}
+
+          {/* Last point */}
+          {points.length > 0 && (
+            <Circle
+              cx={points[points.length - 1].x}
+              cy={points[points.length - 1].y}
+              r={4}
+              fill={lineColor}
+            />
+          )}
+
+          {/* Labels */}
+          {data.map((point, index) => index % labelStep === 0 && (
+            <SvgText
+              key={`${point.label}-${index}`}
+              x={points[index].x}
+              y={height - 4}
+              fontSize={TYPOGRAPHY.FONT_SIZE.XS}
+              fill={colors.textSecondary}
+              textAnchor="middle"
+            >
+              {point.label}
+            </SvgText>
+          ))}
+        </Svg>
+      )}
+    </View>
+  );
+};
+
+export default LineChart;
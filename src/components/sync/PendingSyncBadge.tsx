@@ -0,0 +1,56 @@
+// ===============================
+// PENDING SYNC BADGE - PRESUPUESTOS APP
+// ===============================
+
+import React from 'react';
+import {
+  View,
+  Text,
+  ViewStyle,
+} from 'react-native';
+import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+
+// Constants
+import { LAYOUT, TYPOGRAPHY } from '../../constants/config';
+
+// Theme
+import { useTheme } from '../../context/ThemeContext';
+
+// ===============================
+// TYPES
+// ===============================
+
+interface PendingSyncBadgeProps {
+  style?: ViewStyle;
+}
+
+// ===============================
+// PENDING SYNC BADGE
+// ===============================
+
+const PendingSyncBadge: React.FC<PendingSyncBadgeProps> = ({ style }) => {
+  const { colors } = useTheme();
+
+  return (
+    <View style={[{
+      flexDirection: 'row',
+      alignItems: 'center',
+      alignSelf: 'flex-start',
+      backgroundColor: colors.warning + '20',
+      paddingHorizontal: LAYOUT.SPACING.SM,
+      paddingVertical: 2,
+      borderRadius: LAYOUT.BORDER_RADIUS.SM,
+    }, style]}>
+      <MaterialCommunityIcons name="cloud-upload-outline" size={12} color={colors.warning} style={{ marginRight: 4 }} />
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.XS,
+        fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+        color: colors.warning,
+      }}>
+        Sin sincronizar
+      </Text>
+    </View>
+  );
+};
+
+export default PendingSyncBadge;
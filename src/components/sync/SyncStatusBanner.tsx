@@ -0,0 +1,99 @@
+// ===============================
+// SYNC STATUS BANNER - PRESUPUESTOS APP
+// ===============================
+
+import React from 'react';
+import {
+  Text,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+
+// Context
+import { useSync } from '../../context/SyncContext';
+
+// Constants
+import { LAYOUT, TYPOGRAPHY } from '../../constants/config';
+
+// Theme
+import { useTheme } from '../../context/ThemeContext';
+
+// ===============================
+// TYPES
+// ===============================
+
+interface SyncStatusBannerProps {
+  onPress?: () => void;
+}
+
+// ===============================
+// SYNC STATUS BANNER
+// ===============================
+
+const pluralize = (count: number, singular: string, plural: string) =>
+  `${count} ${count === 1 ? singular : plural}`;
+
+const SyncStatusBanner: React.FC<SyncStatusBannerProps> = ({ onPress }) => {
+  const { colors } = useTheme();
+  const { isOnline, isSyncing, pendingCount, conflicts } = useSync();
+
+  if (isOnline && pendingCount === 0 && conflicts.length === 0) {
+    return null;
+  }
+
+  // Los conflictos tienen prioridad porque requieren una decisión del usuario
+  let icon: React.ComponentProps<typeof MaterialCommunityIcons>['name'] = 'cloud-upload-outline';
+  let color = colors.primary;
+  let message = `${pluralize(pendingCount, 'cambio pendiente', 'cambios pendientes')} de sincronizar`;
+
+  if (conflicts.length > 0) {
+    icon = 'alert-circle-outline';
+    color = colors.error;
+    message = `${pluralize(conflicts.length, 'cambio con conflicto', 'cambios con conflicto')} · Toca para revisar`;
+  } else if (!isOnline) {
+    icon = 'cloud-off-outline';
+    color = colors.warning;
+    message = pendingCount > 0
+      ? `Sin conexión · ${pluralize(pendingCount, 'cambio pendiente', 'cambios pendientes')}`
+      : 'Sin conexión · los cambios se guardan en el dispositivo';
+  } else if (isSyncing) {
+    message = `Sincronizando ${pluralize(pendingCount, 'cambio', 'cambios')}...`;
+  }
+
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      disabled={!onPress}
+      activeOpacity={0.7}
+      style={{
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: LAYOUT.SPACING.LG,
+        paddingVertical: LAYOUT.SPACING.SM,
+        backgroundColor: color + '15',
+        borderBottomWidth: 1,
+        borderBottomColor: color + '40',
+      }}
+    >
+      {isSyncing && isOnline && conflicts.length === 0 ? (
+        <ActivityIndicator size="small" color={color} style={{ marginRight: LAYOUT.SPACING.SM }} />
+      ) : (
+        <MaterialCommunityIcons name={icon} size={18} color={color} style={{ marginRight: LAYOUT.SPACING.SM }} />
+      )}
+      <Text style={{
+        flex: 1,
+        fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+        fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+        color,
+      }}>
+        {message}
+      </Text>
+      {onPress && (
+        <Text style={{ fontSize: 16, color }}>›</Text>
+      )}
+    </TouchableOpacity>
+  );
+};
+
+export default SyncStatusBanner;
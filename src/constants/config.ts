@@ -3,6 +3,7 @@
 // ===============================
 
 import Constants from 'expo-constants';
+import { MarginBelowMinAction } from '../types';
 export { COLORS } from './colors';
 
 // ===============================
@@ -27,6 +28,7 @@ export const PAGINATION = {
   PRODUCTS_PER_PAGE: 20,
   QUOTES_PER_PAGE: 15,
   PAYMENTS_PER_PAGE: 15,
+  STOCK_MOVEMENTS_PER_PAGE: 20,
 } as const;
 
 // ===============================
@@ -40,6 +42,18 @@ export const CACHE_CONFIG = {
     PAYMENTS: 30 * 1000,     // 30 segundos
     USER: 15 * 60 * 1000,    // 15 minutos
   },
+  // Pasado el TTL la respuesta se sigue mostrando mientras se revalida, hasta este límite
+  MAX_STALE: 24 * 60 * 60 * 1000, // 24 horas
+  KEY_PREFIX: 'api_cache:',
+} as const;
+
+// ===============================
+// CONFIGURACIÓN DE MODO OFFLINE
+// ===============================
+
+export const OFFLINE_CONFIG = {
+  LOCAL_ID_PREFIX: 'local_',
+  QUOTE_VALIDITY_DAYS: 30, // vigencia estimada para mostrar presupuestos creados sin conexión
 } as const;
 
 // ===============================
@@ -62,6 +76,70 @@ export const FORM_CONFIG = {
   DEBOUNCE_DELAY: 300, // ms para búsquedas
 } as const;
 
+// ===============================
+// CONFIGURACIÓN DE STOCK
+// ===============================
+
+export const STOCK_CONFIG = {
+  // Punto de reposición para productos que no tienen uno propio
+  DEFAULT_REORDER_POINT: 5,
+  // Hasta este múltiplo del punto de reposición el stock se muestra como "medio"
+  MEDIUM_STOCK_FACTOR: 4,
+} as const;
+
+// ===============================
+// CONFIGURACIÓN DE PRECIOS
+// ===============================
+
+export const PRICE_CONFIG = {
+  // Múltiplos a los que se puede redondear una actualización masiva de precios
+  ROUNDING_STEPS: [0.01, 1, 10, 100, 1000],
+  DEFAULT_ROUNDING_STEP: 10,
+  MAX_BULK_PERCENTAGE: 500,
+} as const;
+
+// ===============================
+// CONFIGURACIÓN DE MÁRGENES
+// ===============================
+
+export const MARGIN_CONFIG: {
+  readonly MIN_MARGIN_PERCENTAGE: number;
+  readonly BELOW_MIN_ACTION: MarginBelowMinAction;
+} = {
+  // Margen mínimo sobre el total después del descuento (sin impuestos)
+  MIN_MARGIN_PERCENTAGE: 15,
+  // 'approval' deja el presupuesto pendiente de aprobación, 'block' lo rechaza
+  BELOW_MIN_ACTION: 'approval',
+};
+
+// ===============================
+// CONFIGURACIÓN DE IMPUESTOS
+// ===============================
+
+export const TAX_CONFIG = {
+  // Alícuotas de IVA que se pueden asignar a un producto o a una línea; 0 es exento
+  IVA_RATES: [0, 10.5, 21, 27],
+  // Alícuota de los productos que no tienen una propia
+  DEFAULT_IVA_RATE: 21,
+} as const;
+
+// ===============================
+// CONFIGURACIÓN DE IMÁGENES DE PRODUCTOS
+// ===============================
+
+export const IMAGE_CONFIG = {
+  MAX_PRODUCT_IMAGES: 5,
+  // Intentos de compresión, de mayor a menor calidad, hasta quedar bajo LIMITS.MAX_IMAGE_SIZE
+  COMPRESSION_STEPS: [
+    { maxDimension: 1600, quality: 0.8 },
+    { maxDimension: 1280, quality: 0.7 },
+    { maxDimension: 1024, quality: 0.6 },
+    { maxDimension: 800, quality: 0.5 },
+  ],
+  MIME_TYPE: 'image/jpeg',
+  FILE_EXTENSION: 'jpg',
+} as const;
+
 // ===============================
 // CONFIGURACIÓN DE QR CODES
 // ===============================
@@ -76,6 +154,15 @@ export const QR_CONFIG = {
   REFRESH_INTERVAL: 30000, // 30 segundos
 } as const;
 
+// ===============================
+// CONFIGURACIÓN DEL ESCÁNER
+// ===============================
+
+export const SCANNER_CONFIG = {
+  BARCODE_TYPES: ['ean13', 'ean8', 'upc_a', 'upc_e', 'code128', 'qr'] as const,
+  SCAN_COOLDOWN: 1500, // ms antes de aceptar el mismo código otra vez
+} as const;
+
 // ===============================
 // CONFIGURACIÓN DE ANIMACIONES
 // ===============================
@@ -158,6 +245,14 @@ export const NOTIFICATION_CONFIG = {
   },
   POSITION: 'top' as const,
   MAX_VISIBLE: 3,
+  // Resumen diario local de productos bajo el punto de reposición
+  LOW_STOCK: {
+    IDENTIFIER: 'low-stock-daily',
+    CHANNEL_ID: 'stock-alerts',
+    HOUR: 9,
+    MINUTE: 0,
+    MAX_PRODUCTS_IN_BODY: 3,
+  },
 } as const;
 
 // ===============================
@@ -173,6 +268,9 @@ export const STORAGE_CONFIG = {
     ONBOARDING: 'has_completed_onboarding',
     LAST_SYNC: 'last_sync_timestamp',
     OFFLINE_QUEUE: 'offline_queue',
+    OFFLINE_ID_MAP: 'offline_id_map',
+    DOCUMENT_TEMPLATE: 'document_template',
+    PAYMENT_FILTERS: 'payment_filters',
   },
   ENCRYPTION: {
     ENABLED: true,
@@ -180,6 +278,56 @@ export const STORAGE_CONFIG = {
   },
 } as const;
 
+// ===============================
+// CONFIGURACIÓN DE DOCUMENTOS (PDF)
+// ===============================
+
+export const DOCUMENT_CONFIG = {
+  COMPANY: {
+    NAME: 'Mi Empresa',
+    ADDRESS: '',
+    PHONE: '',
+    EMAIL: '',
+    TAX_ID: '',
+    LOGO_URL: '',
+  },
+  PRIMARY_COLOR: '#007AFF',
+  FOOTER_TEXT: 'Gracias por confiar en nosotros.',
+  PAGE: {
+    WIDTH: 595,  // A4 en puntos
+    HEIGHT: 842,
+  },
+  MIME_TYPE: 'application/pdf',
+  UTI: 'com.adobe.pdf',
+} as const;
+
+// ===============================
+// CONFIGURACIÓN DE IMPORTACIÓN/EXPORTACIÓN CSV
+// ===============================
+
+export const CSV_CONFIG = {
+  // Columnas de productos: la primera es la que se usa al exportar, el resto son
+  // encabezados alternativos aceptados al importar (sin tildes y en minúsculas)
+  PRODUCT_COLUMNS: {
+    name: ['nombre', 'name', 'producto'],
+    description: ['descripcion', 'description'],
+    price: ['precio', 'price'],
+    taxRate: ['iva', 'alicuota_iva', 'tax_rate'],
+    stock: ['stock', 'cantidad'],
+    category: ['categoria', 'category'],
+    sku: ['sku', 'codigo'],
+    barcode: ['codigo_barras', 'codigo_de_barras', 'barcode', 'ean'],
+    reorderPoint: ['punto_reposicion', 'punto_de_reposicion', 'reorder_point'],
+    imageUrl: ['imagen_url', 'imagen', 'image_url'],
+  },
+  EXPORT_FILE_PREFIX: 'productos',
+  // Motivo de los ajustes de stock que genera una importación
+  IMPORT_STOCK_REASON: 'Importación CSV',
+  MIME_TYPE: 'text/csv',
+  UTI: 'public.comma-separated-values-text',
+  PICKER_TYPES: ['text/csv', 'text/comma-separated-values', 'text/plain', 'application/vnd.ms-excel'],
+} as const;
+
 // ===============================
 // CONFIGURACIÓN DE FILTROS
 // ===============================
@@ -289,10 +437,23 @@ export const DEV_CONFIG = {
   ENABLE_LOGGING: __DEV__,
   ENABLE_REDUX_LOGGER: __DEV__,
   ENABLE_FLIPPER: __DEV__,
-  MOCK_API: false,
+  // Backend simulado en memoria; se activa con "mockApi": true en app.json > extra
+  MOCK_API: Constants.expoConfig?.extra?.mockApi === true,
   SHOW_PERFORMANCE: __DEV__,
 } as const;
 
+// ===============================
+// CONFIGURACIÓN DE API SIMULADA
+// ===============================
+
+export const MOCK_CONFIG = {
+  LATENCY: 400,                    // demora de cada respuesta
+  PAYMENT_APPROVAL_DELAY: 20000,   // el pago QR se aprueba solo a los 20 segundos
+  PAYMENT_EXPIRATION_MINUTES: 30,
+  QUOTE_VALIDITY_DAYS: 30,
+  DEMO_PASSWORD: 'Password123',       // contraseña de los usuarios precargados
+} as const;
+
 // ===============================
 // CONFIGURACIÓN DE ERRORES
 // ===============================
@@ -337,19 +498,29 @@ export default {
   API_CONFIG,
   PAGINATION,
   CACHE_CONFIG,
+  OFFLINE_CONFIG,
   FORM_CONFIG,
+  STOCK_CONFIG,
+  PRICE_CONFIG,
+  MARGIN_CONFIG,
+  TAX_CONFIG,
+  IMAGE_CONFIG,
   QR_CONFIG,
+  SCANNER_CONFIG,
   ANIMATION_CONFIG,
   LAYOUT,
   TYPOGRAPHY,
   NOTIFICATION_CONFIG,
   STORAGE_CONFIG,
+  DOCUMENT_CONFIG,
+  CSV_CONFIG,
   FILTER_CONFIG,
   VALIDATION_PATTERNS,
   FORMAT_CONFIG,
   LIMITS,
   TIMEOUTS,
   DEV_CONFIG,
+  MOCK_CONFIG,
   ERROR_CONFIG,
   FEATURE_FLAGS,
 };
\ No newline at end of file
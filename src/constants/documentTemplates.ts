@@ -0,0 +1,210 @@
+// ===============================
+// PLANTILLAS DE DOCUMENTOS - PRESUPUESTOS APP
+// ===============================
+
+// Plantillas HTML que se convierten a PDF con expo-print.
+// Sintaxis soportada: ver utils/templateRenderer.ts
+
+// ===============================
+// ESTILOS COMPARTIDOS
+// ===============================
+
+const BASE_STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #1C1C1E; font-size: 12px; margin: 32px; }
+  .header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 3px solid {{primaryColor}}; padding-bottom: 16px; margin-bottom: 24px; }
+  .company { display: flex; align-items: center; gap: 12px; }
+  .company img { max-height: 56px; max-width: 140px; }
+  .company h1 { font-size: 20px; margin: 0 0 4px 0; }
+  .muted { color: #6D6D80; }
+  .doc-title { text-align: right; }
+  .doc-title h2 { color: {{primaryColor}}; font-size: 22px; margin: 0 0 4px 0; }
+  .block { margin-bottom: 20px; }
+  .block h3 { font-size: 13px; text-transform: uppercase; color: #6D6D80; margin: 0 0 6px 0; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 16px; }
+  th { background: {{primaryColor}}; color: #FFFFFF; text-align: left; padding: 8px; font-size: 11px; }
+  td { padding: 8px; border-bottom: 1px solid #E5E5EA; vertical-align: top; }
+  .num { text-align: right; white-space: nowrap; }
+  .thumb { width: 28px; height: 28px; object-fit: cover; border-radius: 4px; vertical-align: middle; margin-right: 8px; }
+  .totals { width: 280px; margin-left: auto; }
+  .totals td { border: none; padding: 4px 8px; }
+  .totals .grand td { font-size: 16px; font-weight: bold; border-top: 2px solid {{primaryColor}}; padding-top: 8px; }
+  .payment { display: flex; gap: 16px; align-items: center; border: 1px solid #E5E5EA; border-radius: 8px; padding: 12px; }
+  .payment img { width: 120px; height: 120px; }
+  .paid { display: inline-block; background: #34C759; color: #FFFFFF; font-weight: bold; border-radius: 4px; padding: 2px 8px; margin-top: 4px; }
+  .details td { border: none; padding: 4px 0; }
+  .footer { margin-top: 32px; text-align: center; color: #6D6D80; font-size: 11px; }
+`;
+
+const COMPANY_HEADER = `
+  <div class="company">
+    {{#company.logoUrl}}<img src="{{company.logoUrl}}" />{{/company.logoUrl}}
+    <div>
+      <h1>{{company.name}}</h1>
+      {{#company.taxId}}<div class="muted">CUIT: {{company.taxId}}</div>{{/company.taxId}}
+      {{#company.address}}<div class="muted">{{company.address}}</div>{{/company.address}}
+      {{#company.phone}}<div class="muted">{{company.phone}}</div>{{/company.phone}}
+      {{#company.email}}<div class="muted">{{company.email}}</div>{{/company.email}}
+    </div>
+  </div>
+`;
+
+// ===============================
+// PRESUPUESTO
+// ===============================
+
+export const DEFAULT_QUOTE_TEMPLATE = `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <style>${BASE_STYLES}</style>
+</head>
+<body>
+  <div class="header">
+    ${COMPANY_HEADER}
+    <div class="doc-title">
+      <h2>PRESUPUESTO</h2>
+      <div><strong>{{document.number}}</strong></div>
+      <div class="muted">Fecha: {{document.date}}</div>
+      <div class="muted">Válido hasta: {{document.expiresAt}}</div>
+    </div>
+  </div>
+
+  <div class="block">
+    <h3>Cliente</h3>
+    <div><strong>{{customer.name}}</strong></div>
+    {{#customer.taxId}}<div>CUIT: {{customer.taxId}}</div>{{/customer.taxId}}
+    {{#customer.email}}<div>{{customer.email}}</div>{{/customer.email}}
+    {{#customer.phone}}<div>{{customer.phone}}</div>{{/customer.phone}}
+    {{#customer.address}}<div>{{customer.address}}</div>{{/customer.address}}
+  </div>
+
+  <table>
+    <thead>
+      <tr>
+        <th>Producto</th>
+        <th class="num">Cantidad</th>
+        <th class="num">Precio unitario</th>
+        <th class="num">Subtotal</th>
+      </tr>
+    </thead>
+    <tbody>
+      {{#items}}
+      <tr>
+        <td>{{#image}}<img class="thumb" src="{{image}}" />{{/image}}{{name}}{{#sku}}<div class="muted">SKU {{sku}}</div>{{/sku}}{{#components}}<div class="muted">Cada kit incluye: {{components}}</div>{{/components}}{{#taxRate}}<div class="muted">{{taxRate}}{{#discount}} · Descuento {{discount}}{{/discount}}</div>{{/taxRate}}</td>
+        <td class="num">{{quantity}}</td>
+        <td class="num">{{unitPrice}}</td>
+        <td class="num">{{subtotal}}</td>
+      </tr>
+      {{/items}}
+    </tbody>
+  </table>
+
+  <table class="totals">
+    <tr><td>Subtotal</td><td class="num">{{totals.subtotal}}</td></tr>
+    {{#totals.hasDiscount}}<tr><td>Descuento ({{totals.discountPercentage}}%)</td><td class="num">-{{totals.discount}}</td></tr>{{/totals.hasDiscount}}
+    {{#totals.taxes}}<tr><td>{{label}} sobre {{base}}</td><td class="num">+{{amount}}</td></tr>{{/totals.taxes}}
+    <tr class="grand"><td>Total</td><td class="num">{{totals.total}}</td></tr>
+  </table>
+
+  {{#notes}}
+  <div class="block">
+    <h3>Notas</h3>
+    <div>{{notes}}</div>
+  </div>
+  {{/notes}}
+
+  {{#payment}}
+  <div class="block">
+    <h3>Pago</h3>
+    <div class="payment">
+      {{#payment.qrImage}}<img src="{{payment.qrImage}}" />{{/payment.qrImage}}
+      <div>
+        <div>Escaneá el código QR con MercadoPago o ingresá al link:</div>
+        {{#payment.link}}<div><a href="{{payment.link}}">{{payment.link}}</a></div>{{/payment.link}}
+      </div>
+    </div>
+  </div>
+  {{/payment}}
+
+  <div class="footer">{{footerText}}</div>
+</body>
+</html>`;
+
+// ===============================
+// COMPROBANTE DE PAGO
+// ===============================
+
+export const DEFAULT_RECEIPT_TEMPLATE = `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <style>${BASE_STYLES}</style>
+</head>
+<body>
+  <div class="header">
+    ${COMPANY_HEADER}
+    <div class="doc-title">
+      <h2>COMPROBANTE DE PAGO</h2>
+      <div><strong>N° {{document.number}}</strong></div>
+      <div class="muted">Emitido: {{document.date}}</div>
+      <div class="paid">PAGADO</div>
+    </div>
+  </div>
+
+  <div class="block">
+    <h3>Cliente</h3>
+    <div><strong>{{customer.name}}</strong></div>
+    {{#customer.taxId}}<div>CUIT: {{customer.taxId}}</div>{{/customer.taxId}}
+    {{#customer.email}}<div>{{customer.email}}</div>{{/customer.email}}
+    {{#customer.phone}}<div>{{customer.phone}}</div>{{/customer.phone}}
+  </div>
+
+  <div class="block">
+    <h3>Detalle del pago</h3>
+    <table class="details">
+      <tr><td class="muted">Presupuesto</td><td class="num">{{quoteNumber}}</td></tr>
+      <tr><td class="muted">Fecha de pago</td><td class="num">{{payment.paidAt}}</td></tr>
+      <tr><td class="muted">Medio de pago</td><td class="num">{{payment.method}}</td></tr>
+      {{#payment.mercadopagoId}}<tr><td class="muted">ID de transacción MercadoPago</td><td class="num">{{payment.mercadopagoId}}</td></tr>{{/payment.mercadopagoId}}
+    </table>
+  </div>
+
+  <table>
+    <thead>
+      <tr>
+        <th>Producto</th>
+        <th class="num">Cantidad</th>
+        <th class="num">Precio unitario</th>
+        <th class="num">Subtotal</th>
+      </tr>
+    </thead>
+    <tbody>
+      {{#items}}
+      <tr>
+        <td>{{name}}{{#sku}}<div class="muted">SKU {{sku}}</div>{{/sku}}{{#components}}<div class="muted">Cada kit incluye: {{components}}</div>{{/components}}{{#taxRate}}<div class="muted">{{taxRate}}{{#discount}} · Descuento {{discount}}{{/discount}}</div>{{/taxRate}}</td>
+        <td class="num">{{quantity}}</td>
+        <td class="num">{{unitPrice}}</td>
+        <td class="num">{{subtotal}}</td>
+      </tr>
+      {{/items}}
+    </tbody>
+  </table>
+
+  <table class="totals">
+    <tr><td>Subtotal</td><td class="num">{{totals.subtotal}}</td></tr>
+    {{#totals.hasDiscount}}<tr><td>Descuento</td><td class="num">-{{totals.discount}}</td></tr>{{/totals.hasDiscount}}
+    {{#totals.taxes}}<tr><td>{{label}} sobre {{base}}</td><td class="num">+{{amount}}</td></tr>{{/totals.taxes}}
+    <tr class="grand"><td>Total pagado</td><td class="num">{{payment.amount}}</td></tr>
+  </table>
+
+  <div class="footer">{{footerText}}</div>
+</body>
+</html>`;
+
+export default {
+  DEFAULT_QUOTE_TEMPLATE,
+  DEFAULT_RECEIPT_TEMPLATE,
+};
@@ -7,7 +7,8 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { User, AuthContextData, LoginRequest, RegisterRequest } from '../types';
 import { STORAGE_CONFIG } from '../constants/config';
 import * as authService from '../services/authService';
-import { setAuthToken, clearAuth } from '../services/api';
+import { setAuthToken, clearAuth, pruneExpiredCache } from '../services/api';
+import * as syncService from '../services/syncService';
 
 // ===============================
 // CONTEXT CREATION
@@ -43,6 +44,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   useEffect(() => {
     initAuthState();
+    pruneExpiredCache();
   }, []);
 
   const initAuthState = async (): Promise<void> => {
@@ -61,6 +63,12 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         // Configurar token en axios
         await setAuthToken(token);
 
+        // Sin conexión no se puede validar el token: se mantiene la sesión guardada
+        if (!(await syncService.isOnline())) {
+          setUser(parsedUser);
+          return;
+        }
+
         // Verificar si el token aún es válido
         try {
           const currentUser = await authService.getCurrentUser();
@@ -0,0 +1,107 @@
+// ===============================
+// STOCK ALERT CONTEXT - PRESUPUESTOS APP
+// ===============================
+
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { Product, StockAlertContextData } from '../types';
+import { useAuth } from './AuthContext';
+import * as productService from '../services/productService';
+import * as notificationService from '../services/notificationService';
+
+// ===============================
+// CONTEXT CREATION
+// ===============================
+
+const StockAlertContext = createContext<StockAlertContextData | null>(null);
+
+// ===============================
+// TYPES
+// ===============================
+
+interface StockAlertProviderProps {
+  children: ReactNode;
+}
+
+// ===============================
+// STOCK ALERT PROVIDER
+// ===============================
+
+export const StockAlertProvider: React.FC<StockAlertProviderProps> = ({ children }) => {
+  const { isAuthenticated } = useAuth();
+
+  const [lowStockProducts, setLowStockProducts] = useState<Product[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // ===============================
+  // EFFECTS
+  // ===============================
+
+  // Al iniciar sesión se cargan las alertas; al cerrarla se cancela el resumen diario
+  useEffect(() => {
+    if (isAuthenticated) {
+      refreshLowStock();
+    } else {
+      setLowStockProducts([]);
+      notificationService.cancelLowStockSummary();
+    }
+  }, [isAuthenticated]);
+
+  // ===============================
+  // LOW STOCK
+  // ===============================
+
+  const applyLowStock = (products: Product[]) => {
+    setLowStockProducts(products);
+    notificationService.scheduleLowStockSummary(products);
+  };
+
+  const refreshLowStock = async (forceRefresh = false): Promise<void> => {
+    try {
+      setIsLoading(true);
+      const products = await productService.getLowStockProducts({
+        forceRefresh,
+        onRevalidate: applyLowStock,
+      });
+      applyLowStock(products);
+    } catch (error) {
+      console.error('Error loading low stock products:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // ===============================
+  // CONTEXT VALUE
+  // ===============================
+
+  const contextValue: StockAlertContextData = {
+    lowStockProducts,
+    lowStockCount: lowStockProducts.length,
+    isLoading,
+    refreshLowStock,
+  };
+
+  // ===============================
+  // RENDER
+  // ===============================
+
+  return (
+    <StockAlertContext.Provider value={contextValue}>
+      {children}
+    </StockAlertContext.Provider>
+  );
+};
+
+// ===============================
+// HOOK
+// ===============================
+
+export const useStockAlerts = (): StockAlertContextData => {
+  const context = useContext(StockAlertContext);
+
+  if (!context) {
+    throw new Error('useStockAlerts must be used within a StockAlertProvider');
+  }
+
+  return context;
+};
@@ -0,0 +1,176 @@
+// ===============================
+// SYNC CONTEXT - PRESUPUESTOS APP
+// ===============================
+
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { Alert } from 'react-native';
+import { OfflineMutation, SyncContextData, SyncResult } from '../types';
+import { useAuth } from './AuthContext';
+import * as syncService from '../services/syncService';
+import { getLastSync } from '../utils/storage';
+
+// ===============================
+// CONTEXT CREATION
+// ===============================
+
+const SyncContext = createContext<SyncContextData | null>(null);
+
+// ===============================
+// TYPES
+// ===============================
+
+interface SyncProviderProps {
+  children: ReactNode;
+}
+
+// ===============================
+// SYNC PROVIDER
+// ===============================
+
+export const SyncProvider: React.FC<SyncProviderProps> = ({ children }) => {
+  const { isAuthenticated } = useAuth();
+
+  const [isOnline, setIsOnline] = useState(true);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [queue, setQueue] = useState<OfflineMutation[]>([]);
+  const [lastSync, setLastSyncState] = useState<number | null>(null);
+
+  // El listener de conectividad se registra una sola vez y necesita el valor actual
+  const isAuthenticatedRef = useRef(isAuthenticated);
+  isAuthenticatedRef.current = isAuthenticated;
+
+  // ===============================
+  // COMPUTED VALUES
+  // ===============================
+
+  const pendingCount = queue.filter(mutation => mutation.status === 'pending').length;
+  const conflicts = queue.filter(mutation => mutation.status === 'conflict');
+
+  // ===============================
+  // EFFECTS
+  // ===============================
+
+  useEffect(() => {
+    syncService.getQueue().then(setQueue);
+    getLastSync().then(setLastSyncState);
+
+    const unsubscribeQueue = syncService.subscribeToQueue(setQueue);
+    const unsubscribeConnectivity = syncService.subscribeToConnectivity(online => {
+      setIsOnline(online);
+      if (online && isAuthenticatedRef.current) {
+        runSync();
+      }
+    });
+
+    return () => {
+      unsubscribeQueue();
+      unsubscribeConnectivity();
+    };
+  }, []);
+
+  // Al iniciar sesión se envía lo que haya quedado pendiente
+  useEffect(() => {
+    if (isAuthenticated) {
+      runSync();
+    }
+  }, [isAuthenticated]);
+
+  // ===============================
+  // SYNC
+  // ===============================
+
+  const notifyConflicts = (result: SyncResult) => {
+    if (result.conflicts.length === 0) return;
+
+    const details = result.conflicts
+      .map(mutation => `• ${syncService.describeMutation(mutation)}: ${mutation.error}`)
+      .join('\n');
+
+    Alert.alert(
+      'Cambios sin sincronizar',
+      `${result.conflicts.length === 1 ? 'Un cambio no se pudo' : `${result.conflicts.length} cambios no se pudieron`} enviar al servidor:\n\n${details}\n\nRevísalos en Perfil > Sincronización.`
+    );
+  };
+
+  const runSync = async (): Promise<void> => {
+    try {
+      setIsSyncing(true);
+      const result = await syncService.replayQueue();
+
+      if (result.synced > 0) {
+        setLastSyncState(await getLastSync());
+      }
+
+      notifyConflicts(result);
+    } catch (error) {
+      console.error('Error syncing offline queue:', error);
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const retryMutation = async (id: string): Promise<void> => {
+    try {
+      setIsSyncing(true);
+      const result = await syncService.retryMutation(id);
+      notifyConflicts(result);
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const overwriteMutation = async (id: string): Promise<void> => {
+    try {
+      setIsSyncing(true);
+      const result = await syncService.overwriteMutation(id);
+      notifyConflicts(result);
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const discardMutation = async (id: string): Promise<void> => {
+    await syncService.discardMutation(id);
+  };
+
+  // ===============================
+  // CONTEXT VALUE
+  // ===============================
+
+  const contextValue: SyncContextData = {
+    isOnline,
+    isSyncing,
+    queue,
+    pendingCount,
+    conflicts,
+    lastSync,
+    syncNow: runSync,
+    retryMutation,
+    overwriteMutation,
+    discardMutation,
+  };
+
+  // ===============================
+  // RENDER
+  // ===============================
+
+  return (
+    <SyncContext.Provider value={contextValue}>
+      {children}
+    </SyncContext.Provider>
+  );
+};
+
+// ===============================
+// HOOK
+// ===============================
+
+export const useSync = (): SyncContextData => {
+  const context = useContext(SyncContext);
+
+  if (!context) {
+    throw new Error('useSync must be used within a SyncProvider');
+  }
+
+  return context;
+};
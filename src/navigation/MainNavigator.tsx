@@ -11,31 +11,59 @@ import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
 // Context
 import { useAuth } from '../context/AuthContext';
 import { useTheme } from '../context/ThemeContext';
+import { useStockAlerts } from '../context/StockAlertContext';
 
 // Screens - Products
 import ProductListScreen from '../screens/products/ProductListScreen';
 import ProductDetailScreen from '../screens/products/ProductDetailScreen';
 import ProductFormScreen from '../screens/products/ProductFormScreen';
+import BarcodeScannerScreen from '../screens/products/BarcodeScannerScreen';
+import LowStockScreen from '../screens/products/LowStockScreen';
+import StockMovementFormScreen from '../screens/products/StockMovementFormScreen';
+import ProductImportScreen from '../screens/products/ProductImportScreen';
+import BulkPriceUpdateScreen from '../screens/products/BulkPriceUpdateScreen';
 
 // Screens - Quotes
 import QuoteListScreen from '../screens/quotes/QuoteListScreen';
 import CreateQuoteScreen from '../screens/quotes/CreateQuoteScreen';
 import QuoteDetailScreen from '../screens/quotes/QuoteDetailScreen';
+import QuoteTemplatesScreen from '../screens/quotes/QuoteTemplatesScreen';
+
+// Screens - Customers
+import CustomerListScreen from '../screens/customers/CustomerListScreen';
+import CustomerDetailScreen from '../screens/customers/CustomerDetailScreen';
+import CustomerFormScreen from '../screens/customers/CustomerFormScreen';
+import CustomerHistoryScreen from '../screens/customers/CustomerHistoryScreen';
 
 // Screens - Payments
 import PaymentQRScreen from '../screens/payments/PaymentQRScreen';
 import PaymentSuccessScreen from '../screens/payments/PaymentSuccessScreen';
+import PaymentHistoryScreen from '../screens/payments/PaymentHistoryScreen';
+import PaymentDetailScreen from '../screens/payments/PaymentDetailScreen';
+
+// Screens - Stats
+import DashboardScreen from '../screens/stats/DashboardScreen';
 
 // Screens - Profile
 import ProfileScreen from '../screens/ProfileScreen';
 
+// Screens - Settings
+import DocumentSettingsScreen from '../screens/settings/DocumentSettingsScreen';
+import SyncStatusScreen from '../screens/settings/SyncStatusScreen';
+
 // Types
 import {
   MainTabParamList,
   ProductStackParamList,
   QuoteStackParamList,
+  PaymentStackParamList,
+  StatsStackParamList,
+  ProfileStackParamList,
 } from '../types';
 
+// Services
+import { isAdmin, canViewStats } from '../services/authService';
+
 // Constants
 import { LAYOUT, TYPOGRAPHY } from '../constants/config';
 
@@ -46,6 +74,9 @@ import { LAYOUT, TYPOGRAPHY } from '../constants/config';
 const Tab = createBottomTabNavigator<MainTabParamList>();
 const ProductStack = createStackNavigator<ProductStackParamList>();
 const QuoteStack = createStackNavigator<QuoteStackParamList>();
+const PaymentStack = createStackNavigator<PaymentStackParamList>();
+const StatsStack = createStackNavigator<StatsStackParamList>();
+const ProfileStack = createStackNavigator<ProfileStackParamList>();
 
 // ===============================
 // PRODUCT STACK NAVIGATOR
@@ -54,6 +85,7 @@ const QuoteStack = createStackNavigator<QuoteStackParamList>();
 const ProductStackNavigator: React.FC = () => {
   const { user } = useAuth();
   const { colors } = useTheme();
+  const { lowStockCount } = useStockAlerts();
   const canManageProducts = user?.role === 'admin' || user?.role === 'seller';
 
   const headerOptions = {
@@ -86,29 +118,57 @@ const ProductStackNavigator: React.FC = () => {
         component={ProductListScreen}
         options={({ navigation }) => ({
           title: 'Productos',
-          headerRight: () => canManageProducts ? (
-            <TouchableOpacity
-              onPress={() => navigation.navigate('ProductForm' as any)}
-              style={{
-                marginRight: LAYOUT.SPACING.MD,
-                backgroundColor: colors.primary,
-                paddingHorizontal: LAYOUT.SPACING.MD,
-                paddingVertical: LAYOUT.SPACING.SM,
-                borderRadius: LAYOUT.BORDER_RADIUS.MD,
-              }}
-            >
-              <View style={{ flexDirection: 'row', alignItems: 'center' }}>
-                <MaterialCommunityIcons name="plus" size={16} color="#FFFFFF" style={{ marginRight: 4 }} />
-                <Text style={{
-                  color: '#FFFFFF',
-                  fontSize: TYPOGRAPHY.FONT_SIZE.SM,
-                  fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
-                }}>
-                  Nuevo
-                </Text>
-              </View>
-            </TouchableOpacity>
-          ) : null,
+          headerRight: () => (
+            <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+              <TouchableOpacity
+                onPress={() => navigation.navigate('LowStock')}
+                style={{
+                  marginRight: LAYOUT.SPACING.XS,
+                  padding: LAYOUT.SPACING.SM,
+                }}
+              >
+                <MaterialCommunityIcons
+                  name={lowStockCount > 0 ? 'bell-alert' : 'bell-outline'}
+                  size={22}
+                  color={lowStockCount > 0 ? colors.warning : colors.primary}
+                />
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                onPress={() => navigation.navigate('BarcodeScanner')}
+                style={{
+                  marginRight: canManageProducts ? LAYOUT.SPACING.SM : LAYOUT.SPACING.MD,
+                  padding: LAYOUT.SPACING.SM,
+                }}
+              >
+                <MaterialCommunityIcons name="barcode-scan" size={22} color={colors.primary} />
+              </TouchableOpacity>
+
+              {canManageProducts && (
+                <TouchableOpacity
+                  onPress={() => navigation.navigate('ProductForm' as any)}
+                  style={{
+                    marginRight: LAYOUT.SPACING.MD,
+                    backgroundColor: colors.primary,
+                    paddingHorizontal: LAYOUT.SPACING.MD,
+                    paddingVertical: LAYOUT.SPACING.SM,
+                    borderRadius: LAYOUT.BORDER_RADIUS.MD,
+                  }}
+                >
+                  <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+                    <MaterialCommunityIcons name="plus" size={16} color="#FFFFFF" style={{ marginRight: 4 }} />
+                    <Text style={{
+                      color: '#FFFFFF',
+                      fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+                      fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+                    }}>
+                      Nuevo
+                    </Text>
+                  </View>
+                </TouchableOpacity>
+              )}
+            </View>
+          ),
         })}
       />
 
@@ -146,6 +206,47 @@ const ProductStackNavigator: React.FC = () => {
           title: route.params?.productId ? 'Editar Producto' : 'Nuevo Producto',
         })}
       />
+
+      <ProductStack.Screen
+        name="StockMovementForm"
+        component={StockMovementFormScreen}
+        options={{
+          title: 'Movimiento de Stock',
+        }}
+      />
+
+      <ProductStack.Screen
+        name="ProductImport"
+        component={ProductImportScreen}
+        options={{
+          title: 'Importar Productos',
+        }}
+      />
+
+      <ProductStack.Screen
+        name="BulkPriceUpdate"
+        component={BulkPriceUpdateScreen}
+        options={{
+          title: 'Actualizar Precios',
+        }}
+      />
+
+      <ProductStack.Screen
+        name="LowStock"
+        component={LowStockScreen}
+        options={{
+          title: 'Stock Bajo',
+        }}
+      />
+
+      <ProductStack.Screen
+        name="BarcodeScanner"
+        component={BarcodeScannerScreen}
+        options={{
+          headerShown: false,
+          presentation: 'modal',
+        }}
+      />
     </ProductStack.Navigator>
   );
 };
@@ -189,9 +290,85 @@ const QuoteStackNavigator: React.FC = () => {
         component={QuoteListScreen}
         options={({ navigation }) => ({
           title: 'Presupuestos',
+          headerRight: () => canManageQuotes ? (
+            <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+              <TouchableOpacity
+                onPress={() => navigation.navigate('QuoteTemplates')}
+                style={{
+                  padding: LAYOUT.SPACING.SM,
+                }}
+              >
+                <MaterialCommunityIcons name="text-box-multiple-outline" size={22} color={colors.primary} />
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                onPress={() => navigation.navigate('CustomerList')}
+                style={{
+                  marginRight: LAYOUT.SPACING.SM,
+                  padding: LAYOUT.SPACING.SM,
+                }}
+              >
+                <MaterialCommunityIcons name="account-group-outline" size={22} color={colors.primary} />
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                onPress={() => navigation.navigate('CreateQuote')}
+                style={{
+                  marginRight: LAYOUT.SPACING.MD,
+                  backgroundColor: colors.primary,
+                  paddingHorizontal: LAYOUT.SPACING.MD,
+                  paddingVertical: LAYOUT.SPACING.SM,
+                  borderRadius: LAYOUT.BORDER_RADIUS.MD,
+                }}
+              >
+                <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+                  <MaterialCommunityIcons name="plus" size={16} color="#FFFFFF" style={{ marginRight: 4 }} />
+                  <Text style={{
+                    color: '#FFFFFF',
+                    fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+                    fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+                  }}>
+                    Nuevo
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            </View>
+          ) : null,
+        })}
+      />
+
+      <QuoteStack.Screen
+        name="CreateQuote"
+        component={CreateQuoteScreen}
+        options={({ route }) => ({
+          title: route.params?.quoteId ? 'Editar Presupuesto' : 'Nuevo Presupuesto',
+        })}
+      />
+
+      <QuoteStack.Screen
+        name="QuoteDetail"
+        component={QuoteDetailScreen}
+        options={{
+          title: 'Detalle del Presupuesto',
+        }}
+      />
+
+      <QuoteStack.Screen
+        name="QuoteTemplates"
+        component={QuoteTemplatesScreen}
+        options={{
+          title: 'Plantillas',
+        }}
+      />
+
+      <QuoteStack.Screen
+        name="CustomerList"
+        component={CustomerListScreen}
+        options={({ navigation }) => ({
+          title: 'Clientes',
           headerRight: () => canManageQuotes ? (
             <TouchableOpacity
-              onPress={() => navigation.navigate('CreateQuote')}
+              onPress={() => navigation.navigate('CustomerForm')}
               style={{
                 marginRight: LAYOUT.SPACING.MD,
                 backgroundColor: colors.primary,
@@ -216,18 +393,26 @@ const QuoteStackNavigator: React.FC = () => {
       />
 
       <QuoteStack.Screen
-        name="CreateQuote"
-        component={CreateQuoteScreen}
+        name="CustomerDetail"
+        component={CustomerDetailScreen}
         options={{
-          title: 'Nuevo Presupuesto',
+          title: 'Detalle del Cliente',
         }}
       />
 
       <QuoteStack.Screen
-        name="QuoteDetail"
-        component={QuoteDetailScreen}
+        name="CustomerForm"
+        component={CustomerFormScreen}
+        options={({ route }) => ({
+          title: route.params?.customerId ? 'Editar Cliente' : 'Nuevo Cliente',
+        })}
+      />
+
+      <QuoteStack.Screen
+        name="CustomerHistory"
+        component={CustomerHistoryScreen}
         options={{
-          title: 'Detalle del Presupuesto',
+          title: 'Historial del Cliente',
         }}
       />
 
@@ -252,6 +437,159 @@ const QuoteStackNavigator: React.FC = () => {
   );
 };
 
+// ===============================
+// PAYMENT STACK NAVIGATOR (SOLO ADMIN)
+// ===============================
+
+const PaymentStackNavigator: React.FC = () => {
+  const { colors } = useTheme();
+
+  const headerOptions = {
+    headerStyle: {
+      backgroundColor: colors.background,
+      shadowColor: 'transparent',
+      elevation: 0,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    headerTitleStyle: {
+      fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+      fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+      color: colors.text,
+    },
+    headerBackTitleVisible: false,
+    headerTintColor: colors.primary,
+    cardStyle: {
+      backgroundColor: colors.background,
+    },
+  };
+
+  return (
+    <PaymentStack.Navigator
+      initialRouteName="PaymentHistory"
+      screenOptions={headerOptions}
+    >
+      <PaymentStack.Screen
+        name="PaymentHistory"
+        component={PaymentHistoryScreen}
+        options={{
+          title: 'Pagos',
+        }}
+      />
+
+      <PaymentStack.Screen
+        name="PaymentDetail"
+        component={PaymentDetailScreen}
+        options={{
+          title: 'Detalle del Pago',
+        }}
+      />
+    </PaymentStack.Navigator>
+  );
+};
+
+// ===============================
+// STATS STACK NAVIGATOR
+// ===============================
+
+const StatsStackNavigator: React.FC = () => {
+  const { colors } = useTheme();
+
+  const headerOptions = {
+    headerStyle: {
+      backgroundColor: colors.background,
+      shadowColor: 'transparent',
+      elevation: 0,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    headerTitleStyle: {
+      fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+      fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+      color: colors.text,
+    },
+    headerBackTitleVisible: false,
+    headerTintColor: colors.primary,
+    cardStyle: {
+      backgroundColor: colors.background,
+    },
+  };
+
+  return (
+    <StatsStack.Navigator
+      initialRouteName="Dashboard"
+      screenOptions={headerOptions}
+    >
+      <StatsStack.Screen
+        name="Dashboard"
+        component={DashboardScreen}
+        options={{
+          title: 'Ventas',
+        }}
+      />
+    </StatsStack.Navigator>
+  );
+};
+
+// ===============================
+// PROFILE STACK NAVIGATOR
+// ===============================
+
+const ProfileStackNavigator: React.FC = () => {
+  const { colors } = useTheme();
+
+  const headerOptions = {
+    headerStyle: {
+      backgroundColor: colors.background,
+      shadowColor: 'transparent',
+      elevation: 0,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    headerTitleStyle: {
+      fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+      fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+      color: colors.text,
+    },
+    headerBackTitleVisible: false,
+    headerTintColor: colors.primary,
+    cardStyle: {
+      backgroundColor: colors.background,
+    },
+  };
+
+  return (
+    <ProfileStack.Navigator
+      initialRouteName="ProfileMain"
+      screenOptions={headerOptions}
+    >
+      <ProfileStack.Screen
+        name="ProfileMain"
+        component={ProfileScreen}
+        options={{
+          headerShown: false,
+        }}
+      />
+
+      <ProfileStack.Screen
+        name="DocumentSettings"
+        component={DocumentSettingsScreen}
+        options={{
+          title: 'Documentos PDF',
+        }}
+      />
+
+      <ProfileStack.Screen
+        name="SyncStatus"
+        component={SyncStatusScreen}
+        options={{
+          title: 'Sincronización',
+        }}
+      />
+    </ProfileStack.Navigator>
+  );
+};
+
 // ===============================
 // TAB BAR ICON COMPONENT
 // ===============================
@@ -267,6 +605,8 @@ const TabBarIcon: React.FC<TabBarIconProps> = ({ focused, iconName, color }) =>
     const iconMap: Record<string, string> = {
       products: 'package-variant',
       quotes: 'clipboard-text-outline',
+      payments: 'cash-multiple',
+      stats: 'chart-bar',
       profile: 'account-outline',
     };
     return iconMap[name] || 'help-circle-outline';
@@ -294,6 +634,7 @@ const TabBarIcon: React.FC<TabBarIconProps> = ({ focused, iconName, color }) =>
 const MainNavigator: React.FC = () => {
   const { user } = useAuth();
   const { colors } = useTheme();
+  const { lowStockCount } = useStockAlerts();
 
   return (
     <Tab.Navigator
@@ -321,6 +662,8 @@ const MainNavigator: React.FC = () => {
         component={ProductStackNavigator}
         options={{
           title: 'Productos',
+          tabBarBadge: lowStockCount > 0 ? lowStockCount : undefined,
+          tabBarBadgeStyle: { backgroundColor: colors.warning },
           tabBarIcon: ({ focused, color }) => (
             <TabBarIcon focused={focused} iconName="products" color={color} />
           ),
@@ -338,9 +681,35 @@ const MainNavigator: React.FC = () => {
         }}
       />
 
+      {isAdmin(user) && (
+        <Tab.Screen
+          name="Payments"
+          component={PaymentStackNavigator}
+          options={{
+            title: 'Pagos',
+            tabBarIcon: ({ focused, color }) => (
+              <TabBarIcon focused={focused} iconName="payments" color={color} />
+            ),
+          }}
+        />
+      )}
+
+      {canViewStats(user) && (
+        <Tab.Screen
+          name="Stats"
+          component={StatsStackNavigator}
+          options={{
+            title: 'Ventas',
+            tabBarIcon: ({ focused, color }) => (
+              <TabBarIcon focused={focused} iconName="stats" color={color} />
+            ),
+          }}
+        />
+      )}
+
       <Tab.Screen
         name="Profile"
-        component={ProfileScreen}
+        component={ProfileStackNavigator}
         options={{
           title: 'Perfil',
           tabBarIcon: ({ focused, color }) => (
@@ -12,6 +12,7 @@ import {
   Switch,
 } from 'react-native';
 import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+import { StackScreenProps } from '@react-navigation/stack';
 
 // Components
 import Card from '../components/common/Card';
@@ -21,24 +22,35 @@ import Loading from '../components/common/Loading';
 // Context
 import { useAuth } from '../context/AuthContext';
 import { useTheme } from '../context/ThemeContext';
+import { useSync } from '../context/SyncContext';
+
+// Types
+import { ProfileStackParamList } from '../types';
 
 // Constants
 import { COLORS, LAYOUT, TYPOGRAPHY } from '../constants/config';
 
 // Utils
-import { formatUserRole, getUserInitials } from '../services/authService';
+import { formatUserRole, getUserInitials, isAdmin } from '../services/authService';
+
+// ===============================
+// TYPES
+// ===============================
+
+type ProfileScreenProps = StackScreenProps<ProfileStackParamList, 'ProfileMain'>;
 
 // ===============================
 // PROFILE SCREEN
 // ===============================
 
-const ProfileScreen: React.FC = () => {
+const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation }) => {
   // ===============================
   // HOOKS
   // ===============================
 
   const { user, logout, isLoading } = useAuth();
   const { isDark, toggleTheme, colors } = useTheme();
+  const { pendingCount, conflicts } = useSync();
 
   // ===============================
   // STATE
@@ -90,6 +102,14 @@ const ProfileScreen: React.FC = () => {
     Alert.alert('Info', 'Funcionalidad en desarrollo');
   };
 
+  const handleDocumentSettings = () => {
+    navigation.navigate('DocumentSettings');
+  };
+
+  const handleSyncStatus = () => {
+    navigation.navigate('SyncStatus');
+  };
+
   const handleHelp = () => {
     Alert.alert('Info', 'Funcionalidad en desarrollo');
   };
@@ -325,6 +345,73 @@ const ProfileScreen: React.FC = () => {
           <Text style={{ fontSize: 16, color: colors.textSecondary }}>›</Text>
         </TouchableOpacity>
 
+        {/* Document Settings (admin only) */}
+        {isAdmin(user) && (
+          <TouchableOpacity
+            style={{
+              flexDirection: 'row',
+              alignItems: 'center',
+              paddingHorizontal: LAYOUT.SPACING.LG,
+              paddingVertical: LAYOUT.SPACING.MD,
+              borderBottomWidth: 1,
+              borderBottomColor: colors.border,
+            }}
+            onPress={handleDocumentSettings}
+          >
+            <MaterialCommunityIcons name="file-pdf-box" size={22} color={colors.textSecondary} style={{ marginRight: LAYOUT.SPACING.MD }} />
+            <View style={{ flex: 1 }}>
+              <Text style={{
+                fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+                color: colors.text,
+              }}>
+                Documentos PDF
+              </Text>
+            </View>
+            <Text style={{ fontSize: 16, color: colors.textSecondary }}>›</Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Sync Status */}
+        <TouchableOpacity
+          style={{
+            flexDirection: 'row',
+            alignItems: 'center',
+            paddingHorizontal: LAYOUT.SPACING.LG,
+            paddingVertical: LAYOUT.SPACING.MD,
+            borderBottomWidth: 1,
+            borderBottomColor: colors.border,
+          }}
+          onPress={handleSyncStatus}
+        >
+          <MaterialCommunityIcons name="cloud-sync-outline" size={22} color={colors.textSecondary} style={{ marginRight: LAYOUT.SPACING.MD }} />
+          <View style={{ flex: 1 }}>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+              color: colors.text,
+            }}>
+              Sincronización
+            </Text>
+          </View>
+          {(pendingCount > 0 || conflicts.length > 0) && (
+            <View style={{
+              backgroundColor: conflicts.length > 0 ? colors.error : colors.warning,
+              borderRadius: LAYOUT.BORDER_RADIUS.PILL,
+              paddingHorizontal: LAYOUT.SPACING.SM,
+              paddingVertical: 2,
+              marginRight: LAYOUT.SPACING.SM,
+            }}>
+              <Text style={{
+                fontSize: TYPOGRAPHY.FONT_SIZE.XS,
+                fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+                color: '#FFFFFF',
+              }}>
+                {pendingCount + conflicts.length}
+              </Text>
+            </View>
+          )}
+          <Text style={{ fontSize: 16, color: colors.textSecondary }}>›</Text>
+        </TouchableOpacity>
+
         {/* Help */}
         <TouchableOpacity
           style={{
@@ -29,7 +29,7 @@ import { useTheme } from '../../context/ThemeContext';
 import { AuthStackParamList, LoginFormData } from '../../types';
 
 // Constants
-import { COLORS, LAYOUT, TYPOGRAPHY } from '../../constants/config';
+import { COLORS, LAYOUT, TYPOGRAPHY, DEV_CONFIG, MOCK_CONFIG } from '../../constants/config';
 
 // Utils
 import { validateEmail } from '../../services/authService';
@@ -275,7 +275,7 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
           </View>
 
           {/* Demo Credentials */}
-          {__DEV__ && (
+          {(__DEV__ || DEV_CONFIG.MOCK_API) && (
             <Card
               variant="filled"
               padding="md"
@@ -287,7 +287,7 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
                 color: colors.textSecondary,
                 marginBottom: LAYOUT.SPACING.SM,
               }}>
-                Credenciales de prueba:
+                {DEV_CONFIG.MOCK_API ? 'Modo demo (datos simulados):' : 'Credenciales de prueba:'}
               </Text>
               <Text style={{
                 fontSize: TYPOGRAPHY.FONT_SIZE.SM,
@@ -295,7 +295,8 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
                 lineHeight: 18,
               }}>
                 Email: admin@test.com{'\n'}
-                Contraseña: Password123
+                {DEV_CONFIG.MOCK_API && <>Vendedor: vendedor@test.com{'\n'}</>}
+                Contraseña: {MOCK_CONFIG.DEMO_PASSWORD}
               </Text>
             </Card>
           )}
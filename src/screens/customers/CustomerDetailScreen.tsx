@@ -0,0 +1,302 @@
+// ===============================
+// CUSTOMER DETAIL SCREEN - PRESUPUESTOS APP
+// ===============================
+
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+import { StackScreenProps } from '@react-navigation/stack';
+import { useFocusEffect } from '@react-navigation/native';
+
+// Components
+import Card from '../../components/common/Card';
+import Button from '../../components/common/Button';
+import Loading from '../../components/common/Loading';
+import ErrorMessage from '../../components/common/ErrorMessage';
+
+// Context
+import { useAuth } from '../../context/AuthContext';
+import { useTheme } from '../../context/ThemeContext';
+
+// Services
+import * as customerService from '../../services/customerService';
+import * as authService from '../../services/authService';
+
+// Types
+import { Customer, QuoteStackParamList } from '../../types';
+
+// Constants
+import { LAYOUT, TYPOGRAPHY } from '../../constants/config';
+
+// ===============================
+// TYPES
+// ===============================
+
+type CustomerDetailScreenProps = StackScreenProps<QuoteStackParamList, 'CustomerDetail'>;
+
+// ===============================
+// CUSTOMER DETAIL SCREEN
+// ===============================
+
+const CustomerDetailScreen: React.FC<CustomerDetailScreenProps> = ({ route, navigation }) => {
+  // ===============================
+  // PARAMS
+  // ===============================
+
+  const { customerId } = route.params;
+
+  // ===============================
+  // HOOKS
+  // ===============================
+
+  const { user } = useAuth();
+  const { colors } = useTheme();
+
+  // ===============================
+  // STATE
+  // ===============================
+
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>('');
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  // ===============================
+  // EFFECTS
+  // ===============================
+
+  // Recargar al volver a la pantalla (ej. después de editar el cliente)
+  useFocusEffect(
+    useCallback(() => {
+      loadCustomer();
+    }, [customerId])
+  );
+
+  // ===============================
+  // HANDLERS
+  // ===============================
+
+  const loadCustomer = async () => {
+    try {
+      setError('');
+      setIsLoading(true);
+      const customerData = await customerService.getCustomerById(customerId);
+      setCustomer(customerData);
+    } catch (err: any) {
+      setError(err.message || 'Error cargando cliente');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleEditCustomer = () => {
+    if (!customer) return;
+    navigation.navigate('CustomerForm', { customerId: customer._id });
+  };
+
+  const handleDeleteCustomer = () => {
+    if (!customer) return;
+
+    Alert.alert(
+      'Eliminar Cliente',
+      `¿Estás seguro que quieres eliminar a "${customer.name}"? Los presupuestos existentes conservan sus datos.`,
+      [
+        {
+          text: 'Cancelar',
+          style: 'cancel',
+        },
+        {
+          text: 'Eliminar',
+          style: 'destructive',
+          onPress: confirmDeleteCustomer,
+        },
+      ]
+    );
+  };
+
+  const confirmDeleteCustomer = async () => {
+    if (!customer) return;
+
+    try {
+      setIsDeleting(true);
+      await customerService.deleteCustomer(customer._id);
+      Alert.alert(
+        'Éxito',
+        'Cliente eliminado correctamente',
+        [
+          {
+            text: 'OK',
+            onPress: () => navigation.goBack(),
+          },
+        ]
+      );
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Error eliminando cliente');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const handleViewHistory = () => {
+    if (!customer?.email) return;
+    navigation.navigate('CustomerHistory', {
+      email: customer.email,
+      name: customer.name,
+    });
+  };
+
+  const canManageCustomers = user?.role === 'admin' || user?.role === 'seller';
+
+  // ===============================
+  // LOADING STATE
+  // ===============================
+
+  if (isLoading) {
+    return <Loading message="Cargando cliente..." />;
+  }
+
+  // ===============================
+  // ERROR STATE
+  // ===============================
+
+  if (error || !customer) {
+    return (
+      <View style={{ flex: 1, backgroundColor: colors.background }}>
+        <ErrorMessage
+          message={error || 'Cliente no encontrado'}
+          variant="card"
+          onRetry={loadCustomer}
+          style={{ margin: LAYOUT.SPACING.LG }}
+        />
+      </View>
+    );
+  }
+
+  // ===============================
+  // RENDER FUNCTIONS
+  // ===============================
+
+  const renderInfoRow = (icon: React.ComponentProps<typeof MaterialCommunityIcons>['name'], label: string, value?: string) => {
+    if (!value) return null;
+
+    return (
+      <View style={{
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        marginBottom: LAYOUT.SPACING.MD,
+      }}>
+        <MaterialCommunityIcons name={icon} size={20} color={colors.textSecondary} style={{ marginRight: LAYOUT.SPACING.MD, marginTop: 2 }} />
+        <View style={{ flex: 1 }}>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+            color: colors.textSecondary,
+          }}>
+            {label}
+          </Text>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+            color: colors.text,
+          }}>
+            {value}
+          </Text>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <ScrollView
+      style={{ flex: 1, backgroundColor: colors.background }}
+      contentContainerStyle={{ padding: LAYOUT.SPACING.LG }}
+    >
+      {/* Customer Info */}
+      <Card variant="outlined" padding="lg" style={{ marginBottom: LAYOUT.SPACING.LG }}>
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.XXL,
+          fontWeight: TYPOGRAPHY.FONT_WEIGHT.BOLD,
+          color: colors.text,
+          marginBottom: LAYOUT.SPACING.LG,
+        }}>
+          {customer.name}
+        </Text>
+
+        {renderInfoRow('card-account-details-outline', 'CUIT / CUIL', customerService.formatTaxId(customer.taxId))}
+        {renderInfoRow('email-outline', 'Email', customer.email)}
+        {renderInfoRow('phone-outline', 'Teléfono', customer.phone)}
+        {renderInfoRow('map-marker-outline', 'Dirección', customer.address)}
+        {renderInfoRow('note-text-outline', 'Notas', customer.notes)}
+
+        {/* Created Date */}
+        {customer.createdAt && (
+          <View style={{
+            flexDirection: 'row',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            paddingTop: LAYOUT.SPACING.MD,
+            borderTopWidth: 1,
+            borderTopColor: colors.border,
+          }}>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+              color: colors.textSecondary,
+            }}>
+              Cliente desde
+            </Text>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+              color: colors.textSecondary,
+            }}>
+              {new Date(customer.createdAt).toLocaleDateString('es-AR', {
+                year: 'numeric',
+                month: 'long',
+                day: 'numeric',
+              })}
+            </Text>
+          </View>
+        )}
+      </Card>
+
+      {/* Actions */}
+      {customer.email && (
+        <Button
+          title="Ver Historial de Presupuestos"
+          onPress={handleViewHistory}
+          fullWidth
+          style={{ marginBottom: LAYOUT.SPACING.SM }}
+          leftIcon={<MaterialCommunityIcons name="history" size={18} color="#FFFFFF" style={{ marginRight: LAYOUT.SPACING.SM }} />}
+        />
+      )}
+
+      {canManageCustomers && (
+        <View style={{ gap: LAYOUT.SPACING.SM }}>
+          <Button
+            title="Editar Cliente"
+            variant="outline"
+            onPress={handleEditCustomer}
+            fullWidth
+            leftIcon={<MaterialCommunityIcons name="pencil-outline" size={18} color={colors.primary} style={{ marginRight: LAYOUT.SPACING.SM }} />}
+          />
+
+          {authService.isAdmin(user) && (
+            <Button
+              title="Eliminar Cliente"
+              variant="danger"
+              onPress={handleDeleteCustomer}
+              loading={isDeleting}
+              disabled={isDeleting}
+              fullWidth
+              leftIcon={<MaterialCommunityIcons name="delete-outline" size={18} color="#FFFFFF" style={{ marginRight: LAYOUT.SPACING.SM }} />}
+            />
+          )}
+        </View>
+      )}
+    </ScrollView>
+  );
+};
+
+export default CustomerDetailScreen;
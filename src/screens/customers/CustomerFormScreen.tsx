@@ -0,0 +1,317 @@
+// ===============================
+// CUSTOMER FORM SCREEN - PRESUPUESTOS APP
+// ===============================
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from 'react-native';
+import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+import { StackScreenProps } from '@react-navigation/stack';
+
+// Components
+import Button from '../../components/common/Button';
+import Input from '../../components/common/Input';
+import Card from '../../components/common/Card';
+import ErrorMessage from '../../components/common/ErrorMessage';
+import Loading from '../../components/common/Loading';
+
+// Services
+import * as customerService from '../../services/customerService';
+
+// Types
+import { Customer, QuoteStackParamList, CreateCustomerRequest, CustomerFormData } from '../../types';
+
+// Constants
+import { LAYOUT, TYPOGRAPHY } from '../../constants/config';
+
+// Theme
+import { useTheme } from '../../context/ThemeContext';
+
+// ===============================
+// TYPES
+// ===============================
+
+type CustomerFormScreenProps = StackScreenProps<QuoteStackParamList, 'CustomerForm'>;
+
+// ===============================
+// CUSTOMER FORM SCREEN
+// ===============================
+
+const CustomerFormScreen: React.FC<CustomerFormScreenProps> = ({ route, navigation }) => {
+  const { colors } = useTheme();
+
+  // ===============================
+  // PARAMS
+  // ===============================
+
+  const customerId = route.params?.customerId;
+  const isEditing = Boolean(customerId);
+
+  // ===============================
+  // STATE
+  // ===============================
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const [formData, setFormData] = useState<CustomerFormData>({
+    name: '',
+    email: '',
+    phone: '',
+    address: '',
+    taxId: '',
+    notes: '',
+  });
+
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  // ===============================
+  // EFFECTS
+  // ===============================
+
+  useEffect(() => {
+    if (isEditing && customerId) {
+      loadCustomer(customerId);
+    }
+  }, [isEditing, customerId]);
+
+  // ===============================
+  // HANDLERS
+  // ===============================
+
+  const loadCustomer = async (id: string) => {
+    try {
+      setIsLoading(true);
+      const customer = await customerService.getCustomerById(id);
+      setFormData({
+        name: customer.name,
+        email: customer.email || '',
+        phone: customer.phone || '',
+        address: customer.address || '',
+        taxId: customerService.formatTaxId(customer.taxId),
+        notes: customer.notes || '',
+      });
+    } catch (err: any) {
+      setError(err.message || 'Error cargando cliente');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleInputChange = (field: keyof CustomerFormData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+
+    // Limpiar error del campo cuando el usuario empieza a escribir
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }));
+    }
+
+    // Limpiar error general
+    if (error) {
+      setError('');
+    }
+  };
+
+  const buildRequest = (): CreateCustomerRequest => ({
+    name: formData.name.trim(),
+    email: formData.email?.trim() || undefined,
+    phone: formData.phone?.trim() || undefined,
+    address: formData.address?.trim() || undefined,
+    taxId: formData.taxId?.replace(/\D/g, '') || undefined,
+    notes: formData.notes?.trim() || undefined,
+  });
+
+  const handleSubmit = async () => {
+    const customerData = buildRequest();
+    const validation = customerService.validateCustomerData(customerData);
+    setErrors(validation.errors);
+
+    if (!validation.isValid) {
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError('');
+
+      let savedCustomer: Customer;
+
+      if (isEditing && customerId) {
+        savedCustomer = await customerService.updateCustomer(customerId, customerData);
+        Alert.alert('Éxito', 'Cliente actualizado correctamente');
+      } else {
+        savedCustomer = await customerService.createCustomer(customerData);
+        Alert.alert('Éxito', 'Cliente creado correctamente');
+      }
+
+      navigation.replace('CustomerDetail', { customerId: savedCustomer._id });
+    } catch (err: any) {
+      setError(err.message || 'Error guardando cliente');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // ===============================
+  // LOADING STATE
+  // ===============================
+
+  if (isLoading) {
+    return <Loading message="Cargando cliente..." />;
+  }
+
+  // ===============================
+  // RENDER
+  // ===============================
+
+  return (
+    <KeyboardAvoidingView
+      style={{ flex: 1 }}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView
+        style={{ flex: 1, backgroundColor: colors.background }}
+        contentContainerStyle={{ padding: LAYOUT.SPACING.LG }}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Card variant="outlined" padding="lg">
+          {/* Header */}
+          <View style={{ marginBottom: LAYOUT.SPACING.LG }}>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.XL,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.BOLD,
+              color: colors.text,
+              textAlign: 'center',
+              marginBottom: LAYOUT.SPACING.SM,
+            }}>
+              {isEditing ? 'Editar Cliente' : 'Nuevo Cliente'}
+            </Text>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+              color: colors.textSecondary,
+              textAlign: 'center',
+            }}>
+              {isEditing ? 'Modifica los datos del cliente' : 'Completa la información del cliente'}
+            </Text>
+          </View>
+
+          {/* General Error */}
+          {error && (
+            <ErrorMessage
+              message={error}
+              variant="inline"
+              onDismiss={() => setError('')}
+              style={{ marginBottom: LAYOUT.SPACING.MD }}
+            />
+          )}
+
+          <Input
+            label="Nombre o razón social"
+            placeholder="Ej: Juan Pérez / Acme S.A."
+            value={formData.name}
+            onChangeText={(text) => handleInputChange('name', text)}
+            error={errors.name}
+            required
+            leftIcon={
+              <MaterialCommunityIcons name="account-outline" size={20} color={colors.textSecondary} />
+            }
+          />
+
+          <Input
+            label="CUIT / CUIL (opcional)"
+            placeholder="20-12345678-9"
+            value={formData.taxId}
+            onChangeText={(text) => handleInputChange('taxId', text)}
+            error={errors.taxId}
+            keyboardType="numeric"
+            leftIcon={
+              <MaterialCommunityIcons name="card-account-details-outline" size={20} color={colors.textSecondary} />
+            }
+          />
+
+          <Input
+            label="Email"
+            placeholder="cliente@email.com"
+            value={formData.email}
+            onChangeText={(text) => handleInputChange('email', text)}
+            error={errors.email}
+            keyboardType="email-address"
+            autoCapitalize="none"
+            leftIcon={
+              <MaterialCommunityIcons name="email-outline" size={20} color={colors.textSecondary} />
+            }
+          />
+
+          <Input
+            label="Teléfono"
+            placeholder="+54 9 11 1234-5678"
+            value={formData.phone}
+            onChangeText={(text) => handleInputChange('phone', text)}
+            error={errors.phone}
+            keyboardType="phone-pad"
+            leftIcon={
+              <MaterialCommunityIcons name="phone-outline" size={20} color={colors.textSecondary} />
+            }
+          />
+
+          <Input
+            label="Dirección"
+            placeholder="Calle, número, ciudad"
+            value={formData.address}
+            onChangeText={(text) => handleInputChange('address', text)}
+            error={errors.address}
+            leftIcon={
+              <MaterialCommunityIcons name="map-marker-outline" size={20} color={colors.textSecondary} />
+            }
+          />
+
+          <Input
+            label="Notas"
+            placeholder="Información adicional sobre el cliente..."
+            value={formData.notes}
+            onChangeText={(text) => handleInputChange('notes', text)}
+            error={errors.notes}
+            multiline
+            numberOfLines={3}
+            style={{ textAlignVertical: 'top' }}
+            leftIcon={
+              <MaterialCommunityIcons name="note-text-outline" size={20} color={colors.textSecondary} style={{ marginTop: LAYOUT.SPACING.SM }} />
+            }
+          />
+
+          {/* Actions */}
+          <View style={{
+            flexDirection: 'row',
+            gap: LAYOUT.SPACING.MD,
+            marginTop: LAYOUT.SPACING.LG,
+          }}>
+            <Button
+              title="Cancelar"
+              variant="outline"
+              onPress={() => navigation.goBack()}
+              style={{ flex: 1 }}
+              disabled={isSaving}
+            />
+
+            <Button
+              title={isEditing ? 'Actualizar' : 'Crear'}
+              onPress={handleSubmit}
+              loading={isSaving}
+              disabled={isSaving}
+              style={{ flex: 2 }}
+            />
+          </View>
+        </Card>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+export default CustomerFormScreen;
@@ -0,0 +1,340 @@
+// ===============================
+// CUSTOMER HISTORY SCREEN - PRESUPUESTOS APP
+// ===============================
+
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+} from 'react-native';
+import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+import { StackScreenProps } from '@react-navigation/stack';
+import { useFocusEffect } from '@react-navigation/native';
+
+// Components
+import Card from '../../components/common/Card';
+import Button from '../../components/common/Button';
+import Loading from '../../components/common/Loading';
+import ErrorMessage from '../../components/common/ErrorMessage';
+
+// Context
+import { useAuth } from '../../context/AuthContext';
+import { useTheme } from '../../context/ThemeContext';
+
+// Services
+import * as quoteService from '../../services/quoteService';
+import * as productService from '../../services/productService';
+
+// Types
+import { Quote, QuoteStackParamList } from '../../types';
+
+// Constants
+import { LAYOUT, TYPOGRAPHY } from '../../constants/config';
+
+// ===============================
+// TYPES
+// ===============================
+
+type CustomerHistoryScreenProps = StackScreenProps<QuoteStackParamList, 'CustomerHistory'>;
+
+// ===============================
+// CUSTOMER HISTORY SCREEN
+// ===============================
+
+const CustomerHistoryScreen: React.FC<CustomerHistoryScreenProps> = ({ route, navigation }) => {
+  // ===============================
+  // PARAMS
+  // ===============================
+
+  const { email, name } = route.params;
+
+  // ===============================
+  // HOOKS
+  // ===============================
+
+  const { user } = useAuth();
+  const { colors } = useTheme();
+
+  // ===============================
+  // STATE
+  // ===============================
+
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>('');
+
+  // ===============================
+  // EFFECTS
+  // ===============================
+
+  useFocusEffect(
+    useCallback(() => {
+      loadHistory();
+    }, [email])
+  );
+
+  // ===============================
+  // HANDLERS
+  // ===============================
+
+  const loadHistory = async () => {
+    try {
+      setError('');
+      const quotesData = await quoteService.getQuotesByCustomer(email);
+      setQuotes(quoteService.sortQuotes(quotesData, 'createdAt', 'desc'));
+    } catch (err: any) {
+      setError(err.message || 'Error cargando historial del cliente');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleQuotePress = (quote: Quote) => {
+    navigation.navigate('QuoteDetail', { quoteId: quote._id });
+  };
+
+  const handleNewQuote = () => {
+    // Se usan los datos del presupuesto más reciente, que incluyen el vínculo al directorio si existe
+    const latest = quotes[0]?.customer;
+    navigation.navigate('CreateQuote', {
+      customer: latest ? { ...latest } : { name: name || '', email },
+    });
+  };
+
+  const canManageQuotes = user?.role === 'admin' || user?.role === 'seller';
+
+  // ===============================
+  // LOADING STATE
+  // ===============================
+
+  if (isLoading) {
+    return <Loading message="Cargando historial..." />;
+  }
+
+  // ===============================
+  // RENDER FUNCTIONS
+  // ===============================
+
+  const stats = quoteService.getCustomerQuoteStats(quotes);
+  const customerName = quotes[0]?.customer.name || name || email;
+
+  const renderStat = (icon: React.ComponentProps<typeof MaterialCommunityIcons>['name'], label: string, value: string, color?: string) => (
+    <View style={{
+      width: '48%',
+      backgroundColor: colors.backgroundSecondary,
+      borderRadius: LAYOUT.BORDER_RADIUS.MD,
+      padding: LAYOUT.SPACING.MD,
+      marginBottom: LAYOUT.SPACING.SM,
+    }}>
+      <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: LAYOUT.SPACING.XS }}>
+        <MaterialCommunityIcons name={icon} size={16} color={colors.textSecondary} style={{ marginRight: 6 }} />
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+          color: colors.textSecondary,
+        }}>
+          {label}
+        </Text>
+      </View>
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+        fontWeight: TYPOGRAPHY.FONT_WEIGHT.BOLD,
+        color: color || colors.text,
+      }}>
+        {value}
+      </Text>
+    </View>
+  );
+
+  const renderHeader = () => (
+    <View>
+      {error && (
+        <ErrorMessage
+          message={error}
+          variant="inline"
+          onRetry={loadHistory}
+          style={{ marginBottom: LAYOUT.SPACING.MD }}
+        />
+      )}
+
+      {/* Customer */}
+      <Card variant="outlined" padding="lg" style={{ marginBottom: LAYOUT.SPACING.LG }}>
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.XL,
+          fontWeight: TYPOGRAPHY.FONT_WEIGHT.BOLD,
+          color: colors.text,
+          marginBottom: LAYOUT.SPACING.XS,
+        }}>
+          {customerName}
+        </Text>
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+          color: colors.textSecondary,
+          marginBottom: LAYOUT.SPACING.LG,
+        }}>
+          {email}
+        </Text>
+
+        <View style={{
+          flexDirection: 'row',
+          flexWrap: 'wrap',
+          justifyContent: 'space-between',
+        }}>
+          {renderStat('file-document-multiple-outline', 'Total cotizado', productService.formatPrice(stats.quotedValue))}
+          {renderStat('cash-check', 'Total pagado', productService.formatPrice(stats.paidValue), colors.success)}
+          {renderStat('percent-outline', 'Conversión', `${stats.conversionRate.toFixed(0)}% (${stats.paidCount}/${stats.quoteCount})`)}
+          {renderStat('receipt', 'Ticket promedio', productService.formatPrice(stats.averageTicket))}
+        </View>
+
+        <View style={{
+          flexDirection: 'row',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          paddingTop: LAYOUT.SPACING.MD,
+          marginTop: LAYOUT.SPACING.SM,
+          borderTopWidth: 1,
+          borderTopColor: colors.border,
+        }}>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+            color: colors.textSecondary,
+          }}>
+            Último contacto
+          </Text>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+            color: colors.text,
+          }}>
+            {stats.lastContactAt
+              ? new Date(stats.lastContactAt).toLocaleDateString('es-AR', {
+                  year: 'numeric',
+                  month: 'long',
+                  day: 'numeric',
+                })
+              : '-'}
+          </Text>
+        </View>
+      </Card>
+
+      {canManageQuotes && (
+        <Button
+          title="Nuevo presupuesto para este cliente"
+          onPress={handleNewQuote}
+          fullWidth
+          style={{ marginBottom: LAYOUT.SPACING.LG }}
+          leftIcon={<MaterialCommunityIcons name="plus" size={18} color="#FFFFFF" style={{ marginRight: LAYOUT.SPACING.SM }} />}
+        />
+      )}
+
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+        fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+        color: colors.text,
+        marginBottom: LAYOUT.SPACING.MD,
+      }}>
+        Presupuestos ({quotes.length})
+      </Text>
+    </View>
+  );
+
+  const renderQuoteCard = ({ item }: { item: Quote }) => {
+    const statusInfo = quoteService.formatQuoteStatus(
+      item.status === 'pending' && quoteService.isQuoteExpired(item) ? 'expired' : item.status
+    );
+
+    return (
+      <Card
+        variant="outlined"
+        padding="md"
+        onPress={() => handleQuotePress(item)}
+        style={{
+          marginBottom: LAYOUT.SPACING.MD,
+          borderLeftWidth: 4,
+          borderLeftColor: statusInfo.color,
+        }}
+      >
+        <View style={{
+          flexDirection: 'row',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          marginBottom: LAYOUT.SPACING.XS,
+        }}>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+            fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+            color: colors.text,
+            flex: 1,
+          }}>
+            {item.quoteNumber}
+          </Text>
+
+          <View style={{
+            backgroundColor: statusInfo.color + '20',
+            paddingHorizontal: LAYOUT.SPACING.SM,
+            paddingVertical: LAYOUT.SPACING.XS,
+            borderRadius: LAYOUT.BORDER_RADIUS.SM,
+          }}>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.XS,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+              color: statusInfo.color,
+            }}>
+              {statusInfo.label}
+            </Text>
+          </View>
+        </View>
+
+        <View style={{
+          flexDirection: 'row',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+        }}>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+            color: colors.textSecondary,
+          }}>
+            {new Date(item.createdAt).toLocaleDateString('es-AR')} • {item.items?.length || 0} producto{(item.items?.length || 0) !== 1 ? 's' : ''}
+          </Text>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+            fontWeight: TYPOGRAPHY.FONT_WEIGHT.BOLD,
+            color: colors.primary,
+          }}>
+            {productService.formatPrice(item.total)}
+          </Text>
+        </View>
+      </Card>
+    );
+  };
+
+  // ===============================
+  // RENDER
+  // ===============================
+
+  return (
+    <FlatList
+      style={{ flex: 1, backgroundColor: colors.background }}
+      data={quotes}
+      keyExtractor={(item) => item._id}
+      renderItem={renderQuoteCard}
+      ListHeaderComponent={renderHeader}
+      ListEmptyComponent={
+        !error ? (
+          <View style={{ padding: LAYOUT.SPACING.XL, alignItems: 'center' }}>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+              color: colors.textSecondary,
+              textAlign: 'center',
+            }}>
+              Este cliente todavía no tiene presupuestos
+            </Text>
+          </View>
+        ) : null
+      }
+      contentContainerStyle={{ padding: LAYOUT.SPACING.LG }}
+      showsVerticalScrollIndicator={false}
+    />
+  );
+};
+
+export default CustomerHistoryScreen;
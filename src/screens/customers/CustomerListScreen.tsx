@@ -0,0 +1,283 @@
+// ===============================
+// CUSTOMER LIST SCREEN - PRESUPUESTOS APP
+// ===============================
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+} from 'react-native';
+import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+import { StackScreenProps } from '@react-navigation/stack';
+import { useFocusEffect } from '@react-navigation/native';
+
+// Components
+import Card from '../../components/common/Card';
+import Input from '../../components/common/Input';
+import Loading from '../../components/common/Loading';
+import ErrorMessage from '../../components/common/ErrorMessage';
+
+// Context
+import { useAuth } from '../../context/AuthContext';
+import { useTheme } from '../../context/ThemeContext';
+
+// Services
+import * as customerService from '../../services/customerService';
+
+// Types
+import { Customer, QuoteStackParamList } from '../../types';
+
+// Constants
+import { LAYOUT, TYPOGRAPHY } from '../../constants/config';
+
+// ===============================
+// TYPES
+// ===============================
+
+type CustomerListScreenProps = StackScreenProps<QuoteStackParamList, 'CustomerList'>;
+
+// ===============================
+// CUSTOMER LIST SCREEN
+// ===============================
+
+const CustomerListScreen: React.FC<CustomerListScreenProps> = ({ navigation }) => {
+  // ===============================
+  // HOOKS
+  // ===============================
+
+  const { user } = useAuth();
+  const { colors } = useTheme();
+
+  // ===============================
+  // STATE
+  // ===============================
+
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [filteredCustomers, setFilteredCustomers] = useState<Customer[]>([]);
+
+  // ===============================
+  // EFFECTS
+  // ===============================
+
+  // Recargar al volver a la pantalla (ej. después de crear o editar un cliente)
+  useFocusEffect(
+    useCallback(() => {
+      loadCustomers();
+    }, [])
+  );
+
+  useEffect(() => {
+    setFilteredCustomers(customerService.filterCustomers(customers, searchQuery));
+  }, [customers, searchQuery]);
+
+  // ===============================
+  // HANDLERS
+  // ===============================
+
+  const loadCustomers = async () => {
+    try {
+      setError('');
+      const response = await customerService.getCustomers({
+        page: 1,
+        limit: 100,
+        sortBy: 'name',
+        sortOrder: 'asc',
+      });
+      setCustomers(response.items);
+    } catch (err: any) {
+      setError(err.message || 'Error cargando clientes');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCustomerPress = (customer: Customer) => {
+    navigation.navigate('CustomerDetail', { customerId: customer._id });
+  };
+
+  const handleAddCustomer = () => {
+    navigation.navigate('CustomerForm');
+  };
+
+  const canManageCustomers = user?.role === 'admin' || user?.role === 'seller';
+
+  // ===============================
+  // RENDER FUNCTIONS
+  // ===============================
+
+  const renderCustomerCard = ({ item }: { item: Customer }) => (
+    <Card
+      variant="outlined"
+      padding="md"
+      onPress={() => handleCustomerPress(item)}
+      style={{ marginBottom: LAYOUT.SPACING.MD }}
+    >
+      <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+        <View style={{
+          width: 44,
+          height: 44,
+          borderRadius: 22,
+          backgroundColor: colors.backgroundSecondary,
+          alignItems: 'center',
+          justifyContent: 'center',
+          marginRight: LAYOUT.SPACING.MD,
+        }}>
+          <MaterialCommunityIcons name="account-outline" size={22} color={colors.primary} />
+        </View>
+
+        <View style={{ flex: 1 }}>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+            fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+            color: colors.text,
+            marginBottom: LAYOUT.SPACING.XS,
+          }}>
+            {item.name}
+          </Text>
+
+          {(item.email || item.phone) && (
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+              color: colors.textSecondary,
+            }} numberOfLines={1}>
+              {[item.email, item.phone].filter(Boolean).join(' • ')}
+            </Text>
+          )}
+
+          {item.taxId && (
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.XS,
+              color: colors.textTertiary,
+              marginTop: LAYOUT.SPACING.XS,
+            }}>
+              CUIT {customerService.formatTaxId(item.taxId)}
+            </Text>
+          )}
+        </View>
+
+        <Text style={{ fontSize: 16, color: colors.textSecondary }}>›</Text>
+      </View>
+    </Card>
+  );
+
+  const renderEmptyState = () => (
+    <View style={{
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      paddingVertical: LAYOUT.SPACING.XXL,
+    }}>
+      <MaterialCommunityIcons name="account-group-outline" size={48} color={colors.primary} style={{ marginBottom: LAYOUT.SPACING.MD }} />
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+        fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+        color: colors.text,
+        marginBottom: LAYOUT.SPACING.SM,
+        textAlign: 'center',
+      }}>
+        {searchQuery ? 'No se encontraron clientes' : 'No hay clientes'}
+      </Text>
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+        color: colors.textSecondary,
+        textAlign: 'center',
+        marginBottom: LAYOUT.SPACING.LG,
+        paddingHorizontal: LAYOUT.SPACING.LG,
+      }}>
+        {searchQuery
+          ? 'Intenta con otros términos de búsqueda'
+          : 'Agrega clientes para elegirlos al crear presupuestos'
+        }
+      </Text>
+
+      {!searchQuery && canManageCustomers && (
+        <TouchableOpacity
+          onPress={handleAddCustomer}
+          style={{
+            backgroundColor: colors.primary,
+            paddingHorizontal: LAYOUT.SPACING.LG,
+            paddingVertical: LAYOUT.SPACING.MD,
+            borderRadius: LAYOUT.BORDER_RADIUS.MD,
+          }}
+        >
+          <Text style={{
+            color: colors.background,
+            fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+            fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+          }}>
+            Agregar primer cliente
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  // ===============================
+  // LOADING STATE
+  // ===============================
+
+  if (isLoading) {
+    return <Loading message="Cargando clientes..." />;
+  }
+
+  // ===============================
+  // RENDER
+  // ===============================
+
+  return (
+    <View style={{ flex: 1, backgroundColor: colors.background }}>
+      {/* Search Header */}
+      <View style={{
+        paddingHorizontal: LAYOUT.SPACING.LG,
+        paddingVertical: LAYOUT.SPACING.MD,
+        backgroundColor: colors.surface,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.border,
+      }}>
+        <Input
+          placeholder="Buscar por nombre, email, teléfono o CUIT..."
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          leftIcon={
+            <MaterialCommunityIcons name="magnify" size={20} color={colors.textSecondary} />
+          }
+          rightIcon={searchQuery ? (
+            <TouchableOpacity onPress={() => setSearchQuery('')}>
+              <MaterialCommunityIcons name="close" size={20} color={colors.textSecondary} />
+            </TouchableOpacity>
+          ) : undefined}
+          onRightIconPress={searchQuery ? () => setSearchQuery('') : undefined}
+        />
+      </View>
+
+      {/* Error Message */}
+      {error && (
+        <ErrorMessage
+          message={error}
+          variant="banner"
+          onRetry={loadCustomers}
+        />
+      )}
+
+      {/* Customers List */}
+      <FlatList
+        data={filteredCustomers}
+        keyExtractor={(item) => item._id}
+        renderItem={renderCustomerCard}
+        contentContainerStyle={{
+          padding: LAYOUT.SPACING.LG,
+          flexGrow: 1,
+        }}
+        ListEmptyComponent={renderEmptyState}
+        showsVerticalScrollIndicator={false}
+      />
+    </View>
+  );
+};
+
+export default CustomerListScreen;
@@ -0,0 +1,347 @@
+// ===============================
+// PAYMENT DETAIL SCREEN - PRESUPUESTOS APP
+// ===============================
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+import { StackScreenProps } from '@react-navigation/stack';
+
+// Components
+import Card from '../../components/common/Card';
+import Button from '../../components/common/Button';
+import Loading from '../../components/common/Loading';
+import ErrorMessage from '../../components/common/ErrorMessage';
+
+// Context
+import { useTheme } from '../../context/ThemeContext';
+
+// Services
+import * as paymentService from '../../services/paymentService';
+import * as quoteService from '../../services/quoteService';
+import * as documentService from '../../services/documentService';
+
+// Types
+import { Payment, Quote, PaymentStackParamList } from '../../types';
+
+// Constants
+import { LAYOUT, TYPOGRAPHY } from '../../constants/config';
+
+// ===============================
+// TYPES
+// ===============================
+
+type PaymentDetailScreenProps = StackScreenProps<PaymentStackParamList, 'PaymentDetail'>;
+
+// ===============================
+// PAYMENT DETAIL SCREEN
+// ===============================
+
+const PaymentDetailScreen: React.FC<PaymentDetailScreenProps> = ({ route, navigation }) => {
+  // ===============================
+  // PARAMS
+  // ===============================
+
+  const { paymentId } = route.params;
+
+  // ===============================
+  // HOOKS
+  // ===============================
+
+  const { colors } = useTheme();
+
+  // ===============================
+  // STATE
+  // ===============================
+
+  const [payment, setPayment] = useState<Payment | null>(null);
+  const [quote, setQuote] = useState<Quote | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>('');
+  const [isViewingReceipt, setIsViewingReceipt] = useState(false);
+
+  // ===============================
+  // EFFECTS
+  // ===============================
+
+  useEffect(() => {
+    loadPayment();
+  }, [paymentId]);
+
+  // ===============================
+  // HANDLERS
+  // ===============================
+
+  const loadPayment = async () => {
+    try {
+      setError('');
+      setIsLoading(true);
+
+      const result = await paymentService.getPaymentStatus(paymentId);
+      setPayment(result.payment);
+      setQuote(result.quote);
+    } catch (err: any) {
+      setError(err.message || 'Error cargando el pago');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleOpenQuote = () => {
+    if (!payment) return;
+
+    navigation.getParent()?.navigate('Quotes', {
+      screen: 'QuoteDetail',
+      params: { quoteId: payment.quote },
+      initial: false,
+    });
+  };
+
+  const handleViewReceipt = async () => {
+    if (!payment || !quote) return;
+
+    try {
+      setIsViewingReceipt(true);
+      const receipt = await paymentService.getPaymentReceipt(payment._id);
+      setPayment(prev => prev ? { ...prev, receiptNumber: receipt.receiptNumber } : prev);
+      await documentService.viewReceiptPdf(quote, payment, receipt);
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Error abriendo el comprobante');
+    } finally {
+      setIsViewingReceipt(false);
+    }
+  };
+
+  // ===============================
+  // LOADING STATE
+  // ===============================
+
+  if (isLoading) {
+    return <Loading message="Cargando pago..." />;
+  }
+
+  // ===============================
+  // ERROR STATE
+  // ===============================
+
+  if (error || !payment) {
+    return (
+      <View style={{ flex: 1, backgroundColor: colors.background }}>
+        <ErrorMessage
+          message={error || 'Pago no encontrado'}
+          variant="card"
+          onRetry={loadPayment}
+          style={{ margin: LAYOUT.SPACING.LG }}
+        />
+      </View>
+    );
+  }
+
+  // ===============================
+  // RENDER FUNCTIONS
+  // ===============================
+
+  const statusInfo = paymentService.formatPaymentStatus(payment.status);
+  const summary = paymentService.getPaymentSummary(payment);
+
+  const renderRow = (label: string, value: string, highlight = false) => (
+    <View style={{
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: LAYOUT.SPACING.SM,
+    }}>
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+        color: colors.textSecondary,
+      }}>
+        {label}
+      </Text>
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+        fontWeight: highlight ? TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD : TYPOGRAPHY.FONT_WEIGHT.REGULAR,
+        color: colors.text,
+        flexShrink: 1,
+        textAlign: 'right',
+        marginLeft: LAYOUT.SPACING.MD,
+      }}>
+        {value}
+      </Text>
+    </View>
+  );
+
+  const renderQuoteCard = () => {
+    if (!quote) return null;
+
+    const quoteStatus = quoteService.formatQuoteStatus(quote.status);
+
+    return (
+      <Card
+        variant="outlined"
+        padding="lg"
+        onPress={handleOpenQuote}
+        style={{ marginBottom: LAYOUT.SPACING.LG }}
+      >
+        <View style={{
+          flexDirection: 'row',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          marginBottom: LAYOUT.SPACING.SM,
+        }}>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+            fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+            color: colors.text,
+          }}>
+            Presupuesto vinculado
+          </Text>
+          <MaterialCommunityIcons name="chevron-right" size={22} color={colors.textSecondary} />
+        </View>
+
+        <View style={{
+          flexDirection: 'row',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          marginBottom: LAYOUT.SPACING.XS,
+        }}>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+            fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+            color: colors.primary,
+          }}>
+            {quote.quoteNumber}
+          </Text>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+            fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+            color: quoteStatus.color,
+          }}>
+            {quoteStatus.label}
+          </Text>
+        </View>
+
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+          color: colors.text,
+        }}>
+          {quote.customer.name}
+        </Text>
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+          color: colors.textSecondary,
+        }}>
+          {quoteService.formatLineCount(quote)} · Total {paymentService.formatPaymentAmount(quote.total)}
+        </Text>
+      </Card>
+    );
+  };
+
+  // ===============================
+  // RENDER
+  // ===============================
+
+  return (
+    <ScrollView
+      style={{ flex: 1, backgroundColor: colors.background }}
+      contentContainerStyle={{ padding: LAYOUT.SPACING.LG }}
+    >
+      {/* Amount Header */}
+      <View style={{
+        alignItems: 'center',
+        marginBottom: LAYOUT.SPACING.XL,
+      }}>
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.XXXL,
+          fontWeight: TYPOGRAPHY.FONT_WEIGHT.BOLD,
+          color: colors.text,
+          marginBottom: LAYOUT.SPACING.SM,
+        }}>
+          {paymentService.formatPaymentAmount(payment.amount)}
+        </Text>
+
+        <View style={{
+          backgroundColor: statusInfo.color + '20',
+          paddingHorizontal: LAYOUT.SPACING.MD,
+          paddingVertical: LAYOUT.SPACING.XS,
+          borderRadius: LAYOUT.BORDER_RADIUS.PILL,
+        }}>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+            fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+            color: statusInfo.color,
+          }}>
+            {statusInfo.label}
+          </Text>
+        </View>
+      </View>
+
+      {/* Payment Info */}
+      <Card variant="outlined" padding="lg" style={{ marginBottom: LAYOUT.SPACING.LG }}>
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+          fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+          color: colors.text,
+          marginBottom: LAYOUT.SPACING.MD,
+        }}>
+          Detalle del Pago
+        </Text>
+
+        {renderRow('Creado', new Date(payment.createdAt).toLocaleString('es-AR'))}
+        {payment.paidAt && renderRow('Pagado', new Date(payment.paidAt).toLocaleString('es-AR'))}
+        {summary.processingTime && renderRow('Tiempo de pago', summary.processingTime)}
+        {payment.status === 'pending' && renderRow('Vence en', summary.timeLeft || '-')}
+        {payment.status === 'approved' && renderRow('Medio de pago', paymentService.formatPaymentMethod(payment.paymentMethod))}
+        {payment.mercadopagoId && renderRow('ID MercadoPago', payment.mercadopagoId)}
+        {payment.receiptNumber && renderRow('Comprobante', `N° ${payment.receiptNumber}`, true)}
+      </Card>
+
+      {/* Fees */}
+      {payment.status === 'approved' && (
+        <Card variant="filled" padding="lg" style={{ marginBottom: LAYOUT.SPACING.LG }}>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+            fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+            color: colors.text,
+            marginBottom: LAYOUT.SPACING.MD,
+          }}>
+            Comisión estimada
+          </Text>
+
+          {renderRow(`Comisión (${summary.fees.feePercentage.toFixed(2)}%)`, paymentService.formatPaymentAmount(summary.fees.fee))}
+          {renderRow('Neto a cobrar', paymentService.formatPaymentAmount(summary.fees.netAmount), true)}
+        </Card>
+      )}
+
+      {/* Linked Quote */}
+      {renderQuoteCard()}
+
+      {/* Actions */}
+      <Button
+        title="Ver presupuesto"
+        variant="outline"
+        onPress={handleOpenQuote}
+        fullWidth
+        leftIcon={<MaterialCommunityIcons name="clipboard-text-outline" size={18} color={colors.primary} />}
+        style={{ marginBottom: LAYOUT.SPACING.MD }}
+      />
+
+      {payment.status === 'approved' && quote && (
+        <Button
+          title="Ver comprobante"
+          onPress={handleViewReceipt}
+          loading={isViewingReceipt}
+          disabled={isViewingReceipt}
+          fullWidth
+          leftIcon={<MaterialCommunityIcons name="file-document-outline" size={18} color="#FFFFFF" />}
+        />
+      )}
+    </ScrollView>
+  );
+};
+
+export default PaymentDetailScreen;
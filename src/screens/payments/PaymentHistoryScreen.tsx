@@ -0,0 +1,630 @@
+// ===============================
+// PAYMENT HISTORY SCREEN - PRESUPUESTOS APP
+// ===============================
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  RefreshControl,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+import { StackScreenProps } from '@react-navigation/stack';
+
+// Components
+import Card from '../../components/common/Card';
+import Input from '../../components/common/Input';
+import Button from '../../components/common/Button';
+import Loading from '../../components/common/Loading';
+import ErrorMessage from '../../components/common/ErrorMessage';
+
+// Context
+import { useTheme } from '../../context/ThemeContext';
+
+// Services
+import * as paymentService from '../../services/paymentService';
+
+// Types
+import {
+  Payment,
+  PaymentDateRange,
+  PaymentHistoryFilters,
+  PaymentStackParamList,
+} from '../../types';
+
+// Constants
+import { LAYOUT, TYPOGRAPHY } from '../../constants/config';
+
+// ===============================
+// TYPES
+// ===============================
+
+type PaymentHistoryScreenProps = StackScreenProps<PaymentStackParamList, 'PaymentHistory'>;
+
+// ===============================
+// CONSTANTS
+// ===============================
+
+const STATUS_OPTIONS: Array<{ value?: Payment['status']; label: string }> = [
+  { value: undefined, label: 'Todos' },
+  { value: 'approved', label: 'Aprobados' },
+  { value: 'pending', label: 'Pendientes' },
+  { value: 'rejected', label: 'Rechazados' },
+  { value: 'cancelled', label: 'Cancelados' },
+];
+
+const DATE_RANGE_OPTIONS: Array<{ value: PaymentDateRange; label: string }> = [
+  { value: 'all', label: 'Siempre' },
+  { value: 'today', label: 'Hoy' },
+  { value: 'week', label: 'Últimos 7 días' },
+  { value: 'month', label: 'Este mes' },
+  { value: 'custom', label: 'Personalizado' },
+];
+
+// ===============================
+// HELPERS
+// ===============================
+
+// DD/MM/AAAA -> YYYY-MM-DD
+const parseDateInput = (text: string): string | null => {
+  const match = text.trim().match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (!match) return null;
+
+  const [, day, month, year] = match.map(Number);
+  const date = new Date(year, month - 1, day);
+  if (date.getDate() !== day || date.getMonth() !== month - 1) return null;
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// YYYY-MM-DD -> DD/MM/AAAA
+const formatDateInput = (value?: string): string => {
+  if (!value) return '';
+  const [year, month, day] = value.split('-');
+  return `${day}/${month}/${year}`;
+};
+
+const parseAmountInput = (text: string): number | undefined => {
+  const normalized = text.replace(/\./g, '').replace(',', '.').trim();
+  if (!normalized) return undefined;
+  const amount = Number(normalized);
+  return isNaN(amount) ? NaN : amount;
+};
+
+// ===============================
+// PAYMENT HISTORY SCREEN
+// ===============================
+
+const PaymentHistoryScreen: React.FC<PaymentHistoryScreenProps> = ({ navigation }) => {
+  // ===============================
+  // HOOKS
+  // ===============================
+
+  const { colors } = useTheme();
+
+  // ===============================
+  // STATE
+  // ===============================
+
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [filters, setFilters] = useState<PaymentHistoryFilters | null>(null);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  // Borrador del panel de filtros: se aplica con "Aplicar"
+  const [showFilters, setShowFilters] = useState(false);
+  const [draft, setDraft] = useState<PaymentHistoryFilters>(paymentService.DEFAULT_PAYMENT_HISTORY_FILTERS);
+  const [draftInputs, setDraftInputs] = useState({ dateFrom: '', dateTo: '', minAmount: '', maxAmount: '' });
+  const [filterErrors, setFilterErrors] = useState<Record<string, string>>({});
+
+  // ===============================
+  // EFFECTS
+  // ===============================
+
+  useEffect(() => {
+    paymentService.getSavedPaymentFilters().then(setFilters);
+  }, []);
+
+  useEffect(() => {
+    if (filters) {
+      loadPayments(1);
+    }
+  }, [filters]);
+
+  // ===============================
+  // HANDLERS
+  // ===============================
+
+  const loadPayments = async (pageToLoad: number, forceRefresh = false) => {
+    if (!filters) return;
+
+    try {
+      setError('');
+      const query = paymentService.buildPaymentQuery(filters, pageToLoad);
+      const response = await paymentService.getPayments(query, {
+        forceRefresh,
+        onRevalidate: fresh => {
+          if (pageToLoad === 1) {
+            setPayments(fresh.payments);
+            setTotalPages(fresh.totalPages);
+          }
+        },
+      });
+
+      setPayments(prev => pageToLoad === 1 ? response.payments : [...prev, ...response.payments]);
+      setPage(pageToLoad);
+      setTotalPages(response.totalPages);
+    } catch (err: any) {
+      setError(err.message || 'Error cargando pagos');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadPayments(1, true);
+    setIsRefreshing(false);
+  };
+
+  const handleLoadMore = async () => {
+    if (isLoadingMore || page >= totalPages) return;
+
+    setIsLoadingMore(true);
+    await loadPayments(page + 1);
+    setIsLoadingMore(false);
+  };
+
+  const handleToggleFilters = () => {
+    if (!showFilters && filters) {
+      setDraft(filters);
+      setDraftInputs({
+        dateFrom: formatDateInput(filters.dateFrom),
+        dateTo: formatDateInput(filters.dateTo),
+        minAmount: filters.minAmount !== undefined ? String(filters.minAmount) : '',
+        maxAmount: filters.maxAmount !== undefined ? String(filters.maxAmount) : '',
+      });
+      setFilterErrors({});
+    }
+    setShowFilters(!showFilters);
+  };
+
+  const handleApplyFilters = async () => {
+    const newErrors: Record<string, string> = {};
+    const next: PaymentHistoryFilters = {
+      status: draft.status,
+      dateRange: draft.dateRange,
+    };
+
+    if (draft.dateRange === 'custom') {
+      const dateFrom = draftInputs.dateFrom ? parseDateInput(draftInputs.dateFrom) : undefined;
+      const dateTo = draftInputs.dateTo ? parseDateInput(draftInputs.dateTo) : undefined;
+
+      if (dateFrom === null) newErrors.dateFrom = 'Fecha inválida (DD/MM/AAAA)';
+      if (dateTo === null) newErrors.dateTo = 'Fecha inválida (DD/MM/AAAA)';
+      if (dateFrom && dateTo && dateFrom > dateTo) newErrors.dateTo = 'Debe ser posterior a la fecha desde';
+
+      next.dateFrom = dateFrom || undefined;
+      next.dateTo = dateTo || undefined;
+    }
+
+    const minAmount = parseAmountInput(draftInputs.minAmount);
+    const maxAmount = parseAmountInput(draftInputs.maxAmount);
+
+    if (minAmount !== undefined && (isNaN(minAmount) || minAmount < 0)) newErrors.minAmount = 'Monto inválido';
+    if (maxAmount !== undefined && (isNaN(maxAmount) || maxAmount < 0)) newErrors.maxAmount = 'Monto inválido';
+    if (minAmount !== undefined && maxAmount !== undefined && minAmount > maxAmount) {
+      newErrors.maxAmount = 'Debe ser mayor al monto mínimo';
+    }
+
+    setFilterErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    next.minAmount = minAmount;
+    next.maxAmount = maxAmount;
+
+    setIsLoading(true);
+    setShowFilters(false);
+    setFilters(next);
+    await paymentService.savePaymentFilters(next);
+  };
+
+  const handleClearFilters = async () => {
+    setIsLoading(true);
+    setShowFilters(false);
+    setFilters(paymentService.DEFAULT_PAYMENT_HISTORY_FILTERS);
+    await paymentService.savePaymentFilters(paymentService.DEFAULT_PAYMENT_HISTORY_FILTERS);
+  };
+
+  const handlePaymentPress = (payment: Payment) => {
+    navigation.navigate('PaymentDetail', { paymentId: payment._id });
+  };
+
+  const handleOpenQuote = (payment: Payment) => {
+    navigation.getParent()?.navigate('Quotes', {
+      screen: 'QuoteDetail',
+      params: { quoteId: payment.quote },
+      initial: false,
+    });
+  };
+
+  // ===============================
+  // LOADING STATE
+  // ===============================
+
+  if (isLoading || !filters) {
+    return <Loading message="Cargando pagos..." />;
+  }
+
+  // ===============================
+  // RENDER FUNCTIONS
+  // ===============================
+
+  const approvedTotal = payments
+    .filter(payment => payment.status === 'approved')
+    .reduce((sum, payment) => sum + payment.amount, 0);
+  const activeFilters = paymentService.countActivePaymentFilters(filters);
+
+  const renderOption = (label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      onPress={onPress}
+      style={{
+        paddingHorizontal: LAYOUT.SPACING.MD,
+        paddingVertical: LAYOUT.SPACING.XS,
+        borderRadius: LAYOUT.BORDER_RADIUS.PILL,
+        borderWidth: 1,
+        borderColor: selected ? colors.primary : colors.border,
+        backgroundColor: selected ? colors.primary + '15' : colors.background,
+      }}
+    >
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+        fontWeight: selected ? TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD : TYPOGRAPHY.FONT_WEIGHT.REGULAR,
+        color: selected ? colors.primary : colors.textSecondary,
+      }}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderSectionLabel = (label: string) => (
+    <Text style={{
+      fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+      fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+      color: colors.text,
+      marginBottom: LAYOUT.SPACING.SM,
+    }}>
+      {label}
+    </Text>
+  );
+
+  const renderFiltersPanel = () => (
+    <View style={{
+      padding: LAYOUT.SPACING.LG,
+      backgroundColor: colors.surface,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    }}>
+      {renderSectionLabel('Estado')}
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: LAYOUT.SPACING.SM, marginBottom: LAYOUT.SPACING.MD }}>
+        {STATUS_OPTIONS.map(option => renderOption(
+          option.label,
+          draft.status === option.value,
+          () => setDraft(prev => ({ ...prev, status: option.value }))
+        ))}
+      </View>
+
+      {renderSectionLabel('Fecha')}
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: LAYOUT.SPACING.SM, marginBottom: LAYOUT.SPACING.MD }}>
+        {DATE_RANGE_OPTIONS.map(option => renderOption(
+          option.label,
+          draft.dateRange === option.value,
+          () => setDraft(prev => ({ ...prev, dateRange: option.value }))
+        ))}
+      </View>
+
+      {draft.dateRange === 'custom' && (
+        <View style={{ flexDirection: 'row', gap: LAYOUT.SPACING.SM }}>
+          <View style={{ flex: 1 }}>
+            <Input
+              label="Desde"
+              placeholder="DD/MM/AAAA"
+              value={draftInputs.dateFrom}
+              onChangeText={text => setDraftInputs(prev => ({ ...prev, dateFrom: text }))}
+              error={filterErrors.dateFrom}
+              keyboardType="numbers-and-punctuation"
+            />
+          </View>
+          <View style={{ flex: 1 }}>
+            <Input
+              label="Hasta"
+              placeholder="DD/MM/AAAA"
+              value={draftInputs.dateTo}
+              onChangeText={text => setDraftInputs(prev => ({ ...prev, dateTo: text }))}
+              error={filterErrors.dateTo}
+              keyboardType="numbers-and-punctuation"
+            />
+          </View>
+        </View>
+      )}
+
+      {renderSectionLabel('Monto')}
+      <View style={{ flexDirection: 'row', gap: LAYOUT.SPACING.SM }}>
+        <View style={{ flex: 1 }}>
+          <Input
+            placeholder="Mínimo"
+            value={draftInputs.minAmount}
+            onChangeText={text => setDraftInputs(prev => ({ ...prev, minAmount: text }))}
+            error={filterErrors.minAmount}
+            keyboardType="decimal-pad"
+            leftIcon={<Text style={{ color: colors.textSecondary }}>$</Text>}
+          />
+        </View>
+        <View style={{ flex: 1 }}>
+          <Input
+            placeholder="Máximo"
+            value={draftInputs.maxAmount}
+            onChangeText={text => setDraftInputs(prev => ({ ...prev, maxAmount: text }))}
+            error={filterErrors.maxAmount}
+            keyboardType="decimal-pad"
+            leftIcon={<Text style={{ color: colors.textSecondary }}>$</Text>}
+          />
+        </View>
+      </View>
+
+      <View style={{ flexDirection: 'row', gap: LAYOUT.SPACING.SM }}>
+        <Button
+          title="Limpiar"
+          variant="outline"
+          onPress={handleClearFilters}
+          style={{ flex: 1 }}
+        />
+        <Button
+          title="Aplicar"
+          onPress={handleApplyFilters}
+          style={{ flex: 1 }}
+        />
+      </View>
+    </View>
+  );
+
+  const renderPaymentCard = ({ item }: { item: Payment }) => {
+    const statusInfo = paymentService.formatPaymentStatus(item.status);
+
+    return (
+      <Card
+        variant="outlined"
+        padding="md"
+        onPress={() => handlePaymentPress(item)}
+        style={{
+          marginBottom: LAYOUT.SPACING.MD,
+          borderLeftWidth: 4,
+          borderLeftColor: statusInfo.color,
+        }}
+      >
+        <View style={{
+          flexDirection: 'row',
+          justifyContent: 'space-between',
+          alignItems: 'flex-start',
+          marginBottom: LAYOUT.SPACING.SM,
+        }}>
+          <View style={{ flex: 1 }}>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.XL,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.BOLD,
+              color: colors.text,
+            }}>
+              {paymentService.formatPaymentAmount(item.amount)}
+            </Text>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+              color: colors.textSecondary,
+            }}>
+              {item.status === 'approved'
+                ? paymentService.formatPaymentMethod(item.paymentMethod)
+                : 'MercadoPago QR'}
+            </Text>
+          </View>
+
+          <View style={{
+            backgroundColor: statusInfo.color + '20',
+            paddingHorizontal: LAYOUT.SPACING.SM,
+            paddingVertical: LAYOUT.SPACING.XS,
+            borderRadius: LAYOUT.BORDER_RADIUS.SM,
+          }}>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.XS,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+              color: statusInfo.color,
+            }}>
+              {statusInfo.label}
+            </Text>
+          </View>
+        </View>
+
+        <View style={{
+          flexDirection: 'row',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+        }}>
+          <View>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.XS,
+              color: colors.textTertiary,
+            }}>
+              {new Date(item.paidAt || item.createdAt).toLocaleString('es-AR')}
+            </Text>
+            {item.receiptNumber && (
+              <Text style={{
+                fontSize: TYPOGRAPHY.FONT_SIZE.XS,
+                color: colors.textSecondary,
+              }}>
+                Comprobante {item.receiptNumber}
+              </Text>
+            )}
+          </View>
+
+          <TouchableOpacity
+            onPress={() => handleOpenQuote(item)}
+            style={{
+              flexDirection: 'row',
+              alignItems: 'center',
+              paddingHorizontal: LAYOUT.SPACING.SM,
+              paddingVertical: LAYOUT.SPACING.XS,
+            }}
+          >
+            <MaterialCommunityIcons name="clipboard-text-outline" size={16} color={colors.primary} style={{ marginRight: 4 }} />
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+              color: colors.primary,
+            }}>
+              Presupuesto
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </Card>
+    );
+  };
+
+  const renderEmptyState = () => (
+    <View style={{
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      paddingVertical: LAYOUT.SPACING.XXL,
+    }}>
+      <MaterialCommunityIcons name="cash-multiple" size={48} color={colors.primary} style={{ marginBottom: LAYOUT.SPACING.MD }} />
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+        fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+        color: colors.text,
+        marginBottom: LAYOUT.SPACING.SM,
+        textAlign: 'center',
+      }}>
+        {activeFilters > 0 ? 'No hay pagos con estos filtros' : 'No hay pagos'}
+      </Text>
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+        color: colors.textSecondary,
+        textAlign: 'center',
+        paddingHorizontal: LAYOUT.SPACING.LG,
+      }}>
+        {activeFilters > 0
+          ? 'Prueba ampliar el rango de fechas o quitar filtros'
+          : 'Los pagos generados desde los presupuestos aparecerán aquí'
+        }
+      </Text>
+    </View>
+  );
+
+  // ===============================
+  // RENDER
+  // ===============================
+
+  return (
+    <View style={{ flex: 1, backgroundColor: colors.background }}>
+      {/* Filters Header */}
+      <View style={{
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: LAYOUT.SPACING.LG,
+        paddingVertical: LAYOUT.SPACING.MD,
+        backgroundColor: colors.backgroundSecondary,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.border,
+      }}>
+        <View>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+            color: colors.textSecondary,
+          }}>
+            {payments.length} pago{payments.length !== 1 ? 's' : ''} · Aprobado
+          </Text>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+            fontWeight: TYPOGRAPHY.FONT_WEIGHT.BOLD,
+            color: colors.success,
+          }}>
+            {paymentService.formatPaymentAmount(approvedTotal)}
+          </Text>
+        </View>
+
+        <TouchableOpacity
+          onPress={handleToggleFilters}
+          style={{
+            flexDirection: 'row',
+            alignItems: 'center',
+            paddingHorizontal: LAYOUT.SPACING.MD,
+            paddingVertical: LAYOUT.SPACING.SM,
+            borderRadius: LAYOUT.BORDER_RADIUS.MD,
+            borderWidth: 1,
+            borderColor: activeFilters > 0 ? colors.primary : colors.border,
+          }}
+        >
+          <MaterialCommunityIcons
+            name={showFilters ? 'chevron-up' : 'filter-variant'}
+            size={18}
+            color={activeFilters > 0 ? colors.primary : colors.textSecondary}
+            style={{ marginRight: 4 }}
+          />
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+            fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+            color: activeFilters > 0 ? colors.primary : colors.textSecondary,
+          }}>
+            Filtros{activeFilters > 0 ? ` (${activeFilters})` : ''}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {showFilters && renderFiltersPanel()}
+
+      {/* Error Message */}
+      {error && (
+        <ErrorMessage
+          message={error}
+          variant="banner"
+          onRetry={() => loadPayments(1, true)}
+        />
+      )}
+
+      {/* Payments List */}
+      <FlatList
+        data={payments}
+        keyExtractor={(item) => item._id}
+        renderItem={renderPaymentCard}
+        contentContainerStyle={{
+          padding: LAYOUT.SPACING.LG,
+          flexGrow: 1,
+        }}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            colors={[colors.primary]}
+            tintColor={colors.primary}
+          />
+        }
+        onEndReached={handleLoadMore}
+        onEndReachedThreshold={0.3}
+        ListFooterComponent={isLoadingMore ? (
+          <ActivityIndicator color={colors.primary} style={{ marginVertical: LAYOUT.SPACING.MD }} />
+        ) : null}
+        ListEmptyComponent={renderEmptyState}
+        showsVerticalScrollIndicator={false}
+      />
+    </View>
+  );
+};
+
+export default PaymentHistoryScreen;
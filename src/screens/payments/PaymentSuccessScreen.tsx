@@ -10,6 +10,7 @@ import {
   Animated,
   Easing,
   Share,
+  Alert,
 } from 'react-native';
 import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
 import { StackScreenProps } from '@react-navigation/stack';
@@ -23,9 +24,11 @@ import ErrorMessage from '../../components/common/ErrorMessage';
 // Services
 import * as paymentService from '../../services/paymentService';
 import * as productService from '../../services/productService';
+import * as quoteService from '../../services/quoteService';
+import * as documentService from '../../services/documentService';
 
 // Types
-import { Payment, Quote, QuoteStackParamList } from '../../types';
+import { Payment, PaymentReceipt, Quote, QuoteStackParamList } from '../../types';
 
 // Constants
 import { COLORS, LAYOUT, TYPOGRAPHY } from '../../constants/config';
@@ -62,8 +65,11 @@ const PaymentSuccessScreen: React.FC<PaymentSuccessScreenProps> = ({ route, navi
 
   const [payment, setPayment] = useState<Payment | null>(null);
   const [quote, setQuote] = useState<Quote | null>(null);
+  const [receipt, setReceipt] = useState<PaymentReceipt | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string>('');
+  const [isSharingReceipt, setIsSharingReceipt] = useState(false);
+  const [isViewingReceipt, setIsViewingReceipt] = useState(false);
 
   // Animation values
   const [scaleAnim] = useState(new Animated.Value(0));
@@ -96,6 +102,7 @@ const PaymentSuccessScreen: React.FC<PaymentSuccessScreenProps> = ({ route, navi
       const result = await paymentService.getPaymentStatus(paymentId);
       setPayment(result.payment);
       setQuote(result.quote);
+      loadReceipt();
     } catch (err: any) {
       setError(err.message || 'Error cargando información del pago');
     } finally {
@@ -103,6 +110,18 @@ const PaymentSuccessScreen: React.FC<PaymentSuccessScreenProps> = ({ route, navi
     }
   };
 
+  const loadReceipt = async (): Promise<PaymentReceipt | null> => {
+    try {
+      const receiptData = await paymentService.getPaymentReceipt(paymentId);
+      setReceipt(receiptData);
+      return receiptData;
+    } catch (err: any) {
+      // Se reintenta al compartir o ver el comprobante
+      console.error('Error loading receipt:', err);
+      return null;
+    }
+  };
+
   const startSuccessAnimation = () => {
     // Reset animations
     scaleAnim.setValue(0);
@@ -144,13 +163,45 @@ const PaymentSuccessScreen: React.FC<PaymentSuccessScreenProps> = ({ route, navi
     if (!payment || !quote) return;
 
     try {
-      const text = `Comprobante de Pago - ${quote.quoteNumber}\nMonto: $${payment.amount.toLocaleString('es-AR')}\nEstado: ${paymentService.formatPaymentStatus(payment.status).label}\nFecha: ${new Date(payment.paidAt || payment.updatedAt).toLocaleDateString('es-AR')}${payment.mercadopagoId ? `\nID Transacción: ${payment.mercadopagoId}` : ''}`;
-      await Share.share({
-        message: text,
-        title: `Comprobante de Pago - ${quote.quoteNumber}`,
-      });
+      setIsSharingReceipt(true);
+      const receiptData = receipt || await loadReceipt();
+
+      // Sin comprobante emitido o sin soporte para archivos se comparte el resumen en texto
+      if (!receiptData || !(await documentService.canSharePdf())) {
+        const text = `Comprobante de Pago - ${quote.quoteNumber}\nMonto: $${payment.amount.toLocaleString('es-AR')}\nEstado: ${paymentService.formatPaymentStatus(payment.status).label}\nFecha: ${new Date(payment.paidAt || payment.updatedAt).toLocaleDateString('es-AR')}${payment.mercadopagoId ? `\nID Transacción: ${payment.mercadopagoId}` : ''}`;
+        await Share.share({
+          message: text,
+          title: `Comprobante de Pago - ${quote.quoteNumber}`,
+        });
+        return;
+      }
+
+      await documentService.shareReceiptPdf(quote, payment, receiptData);
     } catch (err: any) {
       console.error('Error sharing receipt:', err);
+      Alert.alert('Error', err.message || 'Error generando el comprobante');
+    } finally {
+      setIsSharingReceipt(false);
+    }
+  };
+
+  const handleViewReceipt = async () => {
+    if (!payment || !quote) return;
+
+    try {
+      setIsViewingReceipt(true);
+      const receiptData = receipt || await loadReceipt();
+
+      if (!receiptData) {
+        Alert.alert('Error', 'El comprobante todavía no está disponible, intenta nuevamente en unos segundos');
+        return;
+      }
+
+      await documentService.viewReceiptPdf(quote, payment, receiptData);
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Error abriendo el comprobante');
+    } finally {
+      setIsViewingReceipt(false);
     }
   };
 
@@ -329,6 +380,49 @@ const PaymentSuccessScreen: React.FC<PaymentSuccessScreenProps> = ({ route, navi
             </Text>
           </View>
 
+          {receipt && (
+            <View style={{
+              flexDirection: 'row',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: LAYOUT.SPACING.SM,
+            }}>
+              <Text style={{
+                fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+                color: colors.textSecondary,
+              }}>
+                Comprobante
+              </Text>
+              <Text style={{
+                fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+                fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+                color: colors.text,
+              }}>
+                N° {receipt.receiptNumber}
+              </Text>
+            </View>
+          )}
+
+          <View style={{
+            flexDirection: 'row',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            marginBottom: LAYOUT.SPACING.SM,
+          }}>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+              color: colors.textSecondary,
+            }}>
+              Medio de pago
+            </Text>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+              color: colors.text,
+            }}>
+              {paymentService.formatPaymentMethod(payment.paymentMethod)}
+            </Text>
+          </View>
+
           {payment.mercadopagoId && (
             <View style={{
               flexDirection: 'row',
@@ -404,7 +498,7 @@ const PaymentSuccessScreen: React.FC<PaymentSuccessScreenProps> = ({ route, navi
                   color: colors.text,
                   marginBottom: LAYOUT.SPACING.XS,
                 }}>
-                  {item.product.name}
+                  {quoteService.formatItemName(item.productSnapshot)}
                 </Text>
                 <Text style={{
                   fontSize: TYPOGRAPHY.FONT_SIZE.SM,
@@ -480,13 +574,27 @@ const PaymentSuccessScreen: React.FC<PaymentSuccessScreenProps> = ({ route, navi
             leftIcon={<MaterialCommunityIcons name="clipboard-text-outline" size={18} color="#FFFFFF" style={{ marginRight: LAYOUT.SPACING.SM }} />}
           />
 
-          <Button
-            title="Compartir Comprobante"
-            variant="outline"
-            onPress={handleShareReceipt}
-            fullWidth
-            leftIcon={<MaterialCommunityIcons name="share-variant-outline" size={18} color={colors.primary} style={{ marginRight: LAYOUT.SPACING.SM }} />}
-          />
+          <View style={{ flexDirection: 'row', gap: LAYOUT.SPACING.MD }}>
+            <Button
+              title="Ver Comprobante"
+              variant="outline"
+              onPress={handleViewReceipt}
+              loading={isViewingReceipt}
+              disabled={isViewingReceipt || isSharingReceipt}
+              style={{ flex: 1 }}
+              leftIcon={<MaterialCommunityIcons name="file-eye-outline" size={18} color={colors.primary} style={{ marginRight: LAYOUT.SPACING.SM }} />}
+            />
+
+            <Button
+              title="Compartir"
+              variant="outline"
+              onPress={handleShareReceipt}
+              loading={isSharingReceipt}
+              disabled={isViewingReceipt || isSharingReceipt}
+              style={{ flex: 1 }}
+              leftIcon={<MaterialCommunityIcons name="share-variant-outline" size={18} color={colors.primary} style={{ marginRight: LAYOUT.SPACING.SM }} />}
+            />
+          </View>
 
           <View style={{
             flexDirection: 'row',
@@ -0,0 +1,106 @@
+// ===============================
+// BARCODE SCANNER SCREEN - PRESUPUESTOS APP
+// ===============================
+
+import React, { useState } from 'react';
+import { Alert } from 'react-native';
+import { StackScreenProps } from '@react-navigation/stack';
+
+// Components
+import BarcodeScanner from '../../components/products/BarcodeScanner';
+
+// Context
+import { useAuth } from '../../context/AuthContext';
+
+// Services
+import * as productService from '../../services/productService';
+
+// Types
+import { ProductStackParamList } from '../../types';
+
+// ===============================
+// TYPES
+// ===============================
+
+type BarcodeScannerScreenProps = StackScreenProps<ProductStackParamList, 'BarcodeScanner'>;
+
+// ===============================
+// BARCODE SCANNER SCREEN
+// ===============================
+
+const BarcodeScannerScreen: React.FC<BarcodeScannerScreenProps> = ({ navigation }) => {
+  // ===============================
+  // HOOKS
+  // ===============================
+
+  const { user } = useAuth();
+
+  // ===============================
+  // STATE
+  // ===============================
+
+  const [statusMessage, setStatusMessage] = useState<string>('');
+  const [isPaused, setIsPaused] = useState(false);
+
+  const canManageProducts = user?.role === 'admin' || user?.role === 'seller';
+
+  // ===============================
+  // HANDLERS
+  // ===============================
+
+  const handleScan = async (code: string) => {
+    try {
+      setStatusMessage(`Buscando ${code}...`);
+      const product = await productService.getProductByBarcode(code);
+
+      if (product) {
+        navigation.replace('ProductDetail', { productId: product._id });
+        return;
+      }
+
+      if (canManageProducts) {
+        setIsPaused(true);
+        Alert.alert(
+          'Producto no encontrado',
+          `No hay productos con el código ${code}. ¿Quieres crearlo?`,
+          [
+            {
+              text: 'Seguir escaneando',
+              style: 'cancel',
+              onPress: () => {
+                setStatusMessage('');
+                setIsPaused(false);
+              },
+            },
+            {
+              text: 'Crear producto',
+              onPress: () => navigation.replace('ProductForm', {
+                barcode: productService.normalizeBarcode(code),
+              }),
+            },
+          ]
+        );
+      } else {
+        setStatusMessage(`No hay productos con el código ${code}`);
+      }
+    } catch (err: any) {
+      setStatusMessage(err.message || 'Error buscando producto');
+    }
+  };
+
+  // ===============================
+  // RENDER
+  // ===============================
+
+  return (
+    <BarcodeScanner
+      title="Buscar producto"
+      statusMessage={statusMessage}
+      paused={isPaused}
+      onScan={handleScan}
+      onClose={() => navigation.goBack()}
+    />
+  );
+};
+
+export default BarcodeScannerScreen;
@@ -0,0 +1,473 @@
+// ===============================
+// BULK PRICE UPDATE SCREEN - PRESUPUESTOS APP
+// ===============================
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+import { StackScreenProps } from '@react-navigation/stack';
+
+// Components
+import Button from '../../components/common/Button';
+import Input from '../../components/common/Input';
+import Card from '../../components/common/Card';
+import ErrorMessage from '../../components/common/ErrorMessage';
+import Loading from '../../components/common/Loading';
+
+// Context
+import { useTheme } from '../../context/ThemeContext';
+import { useSync } from '../../context/SyncContext';
+
+// Services
+import * as productService from '../../services/productService';
+import * as priceService from '../../services/priceService';
+
+// Types
+import { Product, PriceAdjustment, PriceAdjustmentMode, ProductStackParamList } from '../../types';
+
+// Constants
+import { LAYOUT, TYPOGRAPHY, PRICE_CONFIG } from '../../constants/config';
+
+// ===============================
+// TYPES
+// ===============================
+
+type BulkPriceUpdateScreenProps = StackScreenProps<ProductStackParamList, 'BulkPriceUpdate'>;
+
+// ===============================
+// HELPERS
+// ===============================
+
+const formatRoundingStep = (step: number): string => {
+  return step < 1 ? 'Sin redondeo' : productService.formatPrice(step).replace(/,00$/, '');
+};
+
+// ===============================
+// BULK PRICE UPDATE SCREEN
+// ===============================
+
+const BulkPriceUpdateScreen: React.FC<BulkPriceUpdateScreenProps> = ({ navigation }) => {
+  // ===============================
+  // HOOKS
+  // ===============================
+
+  const { colors } = useTheme();
+  const { isOnline } = useSync();
+
+  // ===============================
+  // STATE
+  // ===============================
+
+  const [products, setProducts] = useState<Product[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const [searchQuery, setSearchQuery] = useState('');
+  const [category, setCategory] = useState<string | null>(null);
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set());
+
+  const [mode, setMode] = useState<PriceAdjustmentMode>('percentage');
+  const [isDecrease, setIsDecrease] = useState(false);
+  const [value, setValue] = useState('');
+  const [roundingStep, setRoundingStep] = useState<number>(PRICE_CONFIG.DEFAULT_ROUNDING_STEP);
+  const [reason, setReason] = useState('');
+
+  // ===============================
+  // EFFECTS
+  // ===============================
+
+  useEffect(() => {
+    loadProducts();
+  }, []);
+
+  // ===============================
+  // HANDLERS
+  // ===============================
+
+  const loadProducts = async () => {
+    try {
+      setIsLoading(true);
+      // Los precios de la vista previa tienen que ser los del servidor. Los kits con
+      // descuento quedan afuera: su precio sigue al de sus componentes
+      const allProducts = await productService.getAllProducts();
+      setProducts(allProducts.filter(product => !product.pendingSync && product.bundle?.pricing !== 'discount'));
+    } catch (err: any) {
+      setError(err.message || 'Error cargando productos');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleProduct = (productId: string) => {
+    setExcludedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(productId)) {
+        next.delete(productId);
+      } else {
+        next.add(productId);
+      }
+      return next;
+    });
+  };
+
+  const setAllSelected = (selected: boolean) => {
+    setExcludedIds(selected ? new Set() : new Set(matchedProducts.map(product => product._id)));
+  };
+
+  const applyChanges = async () => {
+    try {
+      setIsSaving(true);
+      setError('');
+
+      const result = await priceService.updatePricesInBulk({
+        changes,
+        reason: reason.trim() || undefined,
+      });
+
+      Alert.alert(
+        'Precios actualizados',
+        `Se actualizaron ${result.updated} producto${result.updated !== 1 ? 's' : ''}`,
+        [
+          {
+            text: 'OK',
+            onPress: () => navigation.goBack(),
+          },
+        ]
+      );
+    } catch (err: any) {
+      setError(err.message || 'Error actualizando precios');
+      // Si otro usuario cambió algún precio, la vista previa se arma de nuevo
+      loadProducts();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleApply = () => {
+    if (!validation.isValid) return;
+
+    Alert.alert(
+      'Actualizar precios',
+      [
+        `Se cambiará el precio de ${changes.length} producto${changes.length !== 1 ? 's' : ''}`,
+        variantChangeCount > 0 && ` y de ${variantChangeCount} variante${variantChangeCount !== 1 ? 's' : ''} con precio propio`,
+        '. ¿Continuar?',
+      ].filter(Boolean).join(''),
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Actualizar', onPress: applyChanges },
+      ]
+    );
+  };
+
+  // ===============================
+  // LOADING STATE
+  // ===============================
+
+  if (isLoading && products.length === 0) {
+    return <Loading message="Cargando productos..." />;
+  }
+
+  // ===============================
+  // RENDER FUNCTIONS
+  // ===============================
+
+  const categories = Array.from(new Set(products.map(product => product.category)))
+    .sort((a, b) => a.localeCompare(b, 'es'));
+
+  const matchedProducts = productService.filterProducts(products, {
+    search: searchQuery.trim() || undefined,
+    category: category || undefined,
+  });
+  const selectedProducts = matchedProducts.filter(product => !excludedIds.has(product._id));
+
+  const amount = Number(value.replace(',', '.'));
+  const adjustment: PriceAdjustment = {
+    mode,
+    value: isDecrease ? -amount : amount,
+    roundingStep,
+  };
+  const changes = value.trim() ? priceService.buildPriceChanges(selectedProducts, adjustment) : [];
+  const validation = priceService.validatePriceAdjustment(adjustment, changes);
+  const changesByProduct = new Map(changes.map(change => [change.productId, change]));
+  const variantChangeCount = priceService.countVariantPriceChanges(changes);
+  const priceCount = changes.filter(change => change.price !== change.previousPrice).length + variantChangeCount;
+
+  const renderChip = (label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      onPress={onPress}
+      style={{
+        paddingHorizontal: LAYOUT.SPACING.MD,
+        paddingVertical: LAYOUT.SPACING.SM,
+        borderRadius: LAYOUT.BORDER_RADIUS.PILL,
+        borderWidth: 1,
+        borderColor: isSelected ? colors.primary : colors.border,
+        backgroundColor: isSelected ? colors.primary : colors.backgroundSecondary,
+        marginRight: LAYOUT.SPACING.SM,
+      }}
+    >
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+        fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+        color: isSelected ? '#FFFFFF' : colors.text,
+      }}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderSectionTitle = (icon: React.ComponentProps<typeof MaterialCommunityIcons>['name'], title: string) => (
+    <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: LAYOUT.SPACING.MD }}>
+      <MaterialCommunityIcons name={icon} size={20} color={colors.text} style={{ marginRight: 8 }} />
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+        fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+        color: colors.text,
+      }}>
+        {title}
+      </Text>
+    </View>
+  );
+
+  const renderProductRow = ({ item }: { item: Product }) => {
+    const isSelected = !excludedIds.has(item._id);
+    const change = changesByProduct.get(item._id);
+    const newPrice = change && change.price !== item.price ? change.price : undefined;
+    const variantCount = change?.variants?.length || 0;
+
+    return (
+      <TouchableOpacity
+        onPress={() => toggleProduct(item._id)}
+        style={{
+          flexDirection: 'row',
+          alignItems: 'center',
+          paddingVertical: LAYOUT.SPACING.SM,
+          borderBottomWidth: 1,
+          borderBottomColor: colors.border,
+        }}
+      >
+        <MaterialCommunityIcons
+          name={isSelected ? 'checkbox-marked' : 'checkbox-blank-outline'}
+          size={22}
+          color={isSelected ? colors.primary : colors.textSecondary}
+          style={{ marginRight: LAYOUT.SPACING.SM }}
+        />
+
+        <View style={{ flex: 1, marginRight: LAYOUT.SPACING.SM }}>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+            color: isSelected ? colors.text : colors.textSecondary,
+          }} numberOfLines={1}>
+            {item.name}
+          </Text>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.XS,
+            color: colors.textTertiary,
+          }}>
+            {item.category}{item.sku ? ` · ${item.sku}` : ''}
+          </Text>
+        </View>
+
+        <View style={{ alignItems: 'flex-end' }}>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+            color: colors.textSecondary,
+            textDecorationLine: newPrice !== undefined ? 'line-through' : 'none',
+          }}>
+            {productService.formatPrice(item.price)}
+          </Text>
+          {newPrice !== undefined && (
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+              color: newPrice > 0 ? colors.primary : colors.error,
+            }}>
+              {productService.formatPrice(newPrice)}{' '}
+              <Text style={{ fontSize: TYPOGRAPHY.FONT_SIZE.XS, color: colors.textSecondary }}>
+                {priceService.formatPriceVariation(item.price, newPrice)}
+              </Text>
+            </Text>
+          )}
+          {variantCount > 0 && (
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.XS,
+              color: colors.textSecondary,
+            }}>
+              + {variantCount} variante{variantCount !== 1 ? 's' : ''} con precio propio
+            </Text>
+          )}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderHeader = () => (
+    <View>
+      {error && (
+        <ErrorMessage
+          message={error}
+          variant="inline"
+          onDismiss={() => setError('')}
+          style={{ marginBottom: LAYOUT.SPACING.MD }}
+        />
+      )}
+
+      {!isOnline && (
+        <ErrorMessage
+          message="La actualización de precios requiere conexión"
+          variant="inline"
+          severity="warning"
+          style={{ marginBottom: LAYOUT.SPACING.MD }}
+        />
+      )}
+
+      {/* Adjustment */}
+      <Card variant="outlined" padding="lg" style={{ marginBottom: LAYOUT.SPACING.LG }}>
+        {renderSectionTitle('cash-sync', 'Ajuste')}
+
+        <View style={{ flexDirection: 'row', marginBottom: LAYOUT.SPACING.MD }}>
+          {renderChip('Porcentaje', mode === 'percentage', () => setMode('percentage'))}
+          {renderChip('Monto fijo', mode === 'fixed', () => setMode('fixed'))}
+        </View>
+
+        <View style={{ flexDirection: 'row', marginBottom: LAYOUT.SPACING.MD }}>
+          {renderChip('Aumentar', !isDecrease, () => setIsDecrease(false))}
+          {renderChip('Reducir', isDecrease, () => setIsDecrease(true))}
+        </View>
+
+        <Input
+          label={mode === 'percentage' ? 'Porcentaje' : 'Monto por producto'}
+          placeholder={mode === 'percentage' ? 'Ej: 8,5' : 'Ej: 1500'}
+          value={value}
+          onChangeText={setValue}
+          keyboardType="decimal-pad"
+          error={value.trim() ? validation.errors.value : undefined}
+          leftIcon={
+            <MaterialCommunityIcons
+              name={mode === 'percentage' ? 'percent' : 'currency-usd'}
+              size={20}
+              color={colors.textSecondary}
+            />
+          }
+        />
+
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+          fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+          color: colors.text,
+          marginBottom: LAYOUT.SPACING.SM,
+        }}>
+          Redondear a
+        </Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={{ marginBottom: LAYOUT.SPACING.MD }}>
+          {PRICE_CONFIG.ROUNDING_STEPS.map(step =>
+            renderChip(formatRoundingStep(step), roundingStep === step, () => setRoundingStep(step))
+          )}
+        </ScrollView>
+
+        <Input
+          label="Motivo (opcional)"
+          placeholder="Ej: Aumento por inflación de marzo"
+          value={reason}
+          onChangeText={setReason}
+          leftIcon={
+            <MaterialCommunityIcons name="comment-text-outline" size={20} color={colors.textSecondary} />
+          }
+        />
+      </Card>
+
+      {/* Scope */}
+      <Card variant="outlined" padding="lg" style={{ marginBottom: LAYOUT.SPACING.MD }}>
+        {renderSectionTitle('filter-variant', 'Productos')}
+
+        <Input
+          placeholder="Buscar por nombre, SKU o código..."
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          leftIcon={
+            <MaterialCommunityIcons name="magnify" size={20} color={colors.textSecondary} />
+          }
+        />
+
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={{ marginBottom: LAYOUT.SPACING.MD }}>
+          {renderChip('Todas', category === null, () => setCategory(null))}
+          {categories.map(option =>
+            renderChip(option, category === option, () => setCategory(option))
+          )}
+        </ScrollView>
+
+        <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+            color: colors.textSecondary,
+          }}>
+            {selectedProducts.length} de {matchedProducts.length} seleccionados
+          </Text>
+
+          <View style={{ flexDirection: 'row' }}>
+            <TouchableOpacity onPress={() => setAllSelected(true)} style={{ padding: LAYOUT.SPACING.XS, marginRight: LAYOUT.SPACING.SM }}>
+              <Text style={{ fontSize: TYPOGRAPHY.FONT_SIZE.SM, color: colors.primary }}>Todos</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => setAllSelected(false)} style={{ padding: LAYOUT.SPACING.XS }}>
+              <Text style={{ fontSize: TYPOGRAPHY.FONT_SIZE.SM, color: colors.primary }}>Ninguno</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Card>
+    </View>
+  );
+
+  // ===============================
+  // RENDER
+  // ===============================
+
+  return (
+    <View style={{ flex: 1, backgroundColor: colors.background }}>
+      <FlatList
+        data={matchedProducts}
+        renderItem={renderProductRow}
+        keyExtractor={(item) => item._id}
+        // Como elemento y no como componente, para que los inputs no pierdan el foco
+        ListHeaderComponent={renderHeader()}
+        ListEmptyComponent={
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+            color: colors.textSecondary,
+            textAlign: 'center',
+            paddingVertical: LAYOUT.SPACING.LG,
+          }}>
+            No hay productos con estos filtros
+          </Text>
+        }
+        contentContainerStyle={{ padding: LAYOUT.SPACING.LG }}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      />
+
+      <View style={{
+        padding: LAYOUT.SPACING.LG,
+        backgroundColor: colors.surface,
+        borderTopWidth: 1,
+        borderTopColor: colors.border,
+      }}>
+        <Button
+          title={`Actualizar ${priceCount} precio${priceCount !== 1 ? 's' : ''}`}
+          onPress={handleApply}
+          loading={isSaving}
+          disabled={isSaving || !isOnline || !validation.isValid}
+        />
+      </View>
+    </View>
+  );
+};
+
+export default BulkPriceUpdateScreen;
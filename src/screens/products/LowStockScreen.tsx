@@ -0,0 +1,251 @@
+// ===============================
+// LOW STOCK SCREEN - PRESUPUESTOS APP
+// ===============================
+
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  RefreshControl,
+} from 'react-native';
+import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+import { StackScreenProps } from '@react-navigation/stack';
+import { useFocusEffect } from '@react-navigation/native';
+
+// Components
+import Card from '../../components/common/Card';
+import Loading from '../../components/common/Loading';
+
+// Context
+import { useTheme } from '../../context/ThemeContext';
+import { useStockAlerts } from '../../context/StockAlertContext';
+
+// Services
+import * as productService from '../../services/productService';
+
+// Types
+import { Product, ProductStackParamList } from '../../types';
+
+// Constants
+import { LAYOUT, TYPOGRAPHY, NOTIFICATION_CONFIG } from '../../constants/config';
+
+// ===============================
+// TYPES
+// ===============================
+
+type LowStockScreenProps = StackScreenProps<ProductStackParamList, 'LowStock'>;
+
+// ===============================
+// HELPERS
+// ===============================
+
+// Unidades que faltan para volver al punto de reposición
+const getShortage = (product: Product): number => {
+  return productService.getReorderPoint(product) - productService.getAvailableStock(product);
+};
+
+const formatReminderTime = (): string => {
+  const { HOUR, MINUTE } = NOTIFICATION_CONFIG.LOW_STOCK;
+  return `${HOUR.toString().padStart(2, '0')}:${MINUTE.toString().padStart(2, '0')}`;
+};
+
+// ===============================
+// LOW STOCK SCREEN
+// ===============================
+
+const LowStockScreen: React.FC<LowStockScreenProps> = ({ navigation }) => {
+  // ===============================
+  // HOOKS
+  // ===============================
+
+  const { colors } = useTheme();
+  const { lowStockProducts, isLoading, refreshLowStock } = useStockAlerts();
+
+  // ===============================
+  // STATE
+  // ===============================
+
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [hasLoaded, setHasLoaded] = useState(false);
+
+  // ===============================
+  // EFFECTS
+  // ===============================
+
+  useFocusEffect(
+    useCallback(() => {
+      refreshLowStock().finally(() => setHasLoaded(true));
+    }, [])
+  );
+
+  // ===============================
+  // HANDLERS
+  // ===============================
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await refreshLowStock(true);
+    setIsRefreshing(false);
+  };
+
+  const handleProductPress = (product: Product) => {
+    navigation.navigate('ProductDetail', { productId: product._id });
+  };
+
+  // ===============================
+  // LOADING STATE
+  // ===============================
+
+  if (!hasLoaded && isLoading && lowStockProducts.length === 0) {
+    return <Loading message="Cargando alertas de stock..." />;
+  }
+
+  // ===============================
+  // RENDER FUNCTIONS
+  // ===============================
+
+  const sortedProducts = [...lowStockProducts].sort((a, b) => getShortage(b) - getShortage(a));
+
+  const renderProductCard = ({ item }: { item: Product }) => {
+    const reorderPoint = productService.getReorderPoint(item);
+    const availableStock = productService.getAvailableStock(item);
+    const stockStatus = productService.getStockStatus(availableStock, reorderPoint);
+    const shortage = getShortage(item);
+
+    return (
+      <Card
+        variant="outlined"
+        padding="md"
+        onPress={() => handleProductPress(item)}
+        style={{
+          marginBottom: LAYOUT.SPACING.MD,
+          borderLeftWidth: 4,
+          borderLeftColor: stockStatus.color,
+        }}
+      >
+        <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+          <View style={{ flex: 1, marginRight: LAYOUT.SPACING.MD }}>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+              color: colors.text,
+              marginBottom: LAYOUT.SPACING.XS,
+            }} numberOfLines={1}>
+              {item.name}
+            </Text>
+
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+              color: colors.textSecondary,
+            }}>
+              {item.sku ? `${item.sku} · ` : ''}Reposición en {reorderPoint} unidades
+            </Text>
+
+            {shortage > 0 && (
+              <Text style={{
+                fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+                color: stockStatus.color,
+                marginTop: LAYOUT.SPACING.XS,
+              }}>
+                Faltan {shortage} unidad{shortage !== 1 ? 'es' : ''} para el mínimo
+              </Text>
+            )}
+          </View>
+
+          <View style={{ alignItems: 'flex-end' }}>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.XL,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.BOLD,
+              color: stockStatus.color,
+            }}>
+              {availableStock}
+            </Text>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.XS,
+              color: stockStatus.color,
+            }}>
+              {stockStatus.label}
+            </Text>
+          </View>
+        </View>
+      </Card>
+    );
+  };
+
+  const renderHeader = () => (
+    <View style={{
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginBottom: LAYOUT.SPACING.LG,
+    }}>
+      <MaterialCommunityIcons name="bell-ring-outline" size={18} color={colors.textSecondary} style={{ marginRight: LAYOUT.SPACING.SM }} />
+      <Text style={{
+        flex: 1,
+        fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+        color: colors.textSecondary,
+      }}>
+        Todos los días a las {formatReminderTime()} recibirás un resumen de los productos en o por debajo de su punto de reposición.
+      </Text>
+    </View>
+  );
+
+  const renderEmptyState = () => (
+    <View style={{
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      paddingVertical: LAYOUT.SPACING.XXL,
+    }}>
+      <MaterialCommunityIcons name="check-circle-outline" size={48} color={colors.success} style={{ marginBottom: LAYOUT.SPACING.MD }} />
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+        fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+        color: colors.text,
+        marginBottom: LAYOUT.SPACING.SM,
+        textAlign: 'center',
+      }}>
+        Stock en orden
+      </Text>
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+        color: colors.textSecondary,
+        textAlign: 'center',
+        paddingHorizontal: LAYOUT.SPACING.LG,
+      }}>
+        Ningún producto está por debajo de su punto de reposición
+      </Text>
+    </View>
+  );
+
+  // ===============================
+  // RENDER
+  // ===============================
+
+  return (
+    <View style={{ flex: 1, backgroundColor: colors.background }}>
+      <FlatList
+        data={sortedProducts}
+        renderItem={renderProductCard}
+        keyExtractor={(item) => item._id}
+        contentContainerStyle={{
+          padding: LAYOUT.SPACING.LG,
+          flexGrow: 1,
+        }}
+        ListHeaderComponent={renderHeader}
+        ListEmptyComponent={renderEmptyState}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            colors={[colors.primary]}
+            tintColor={colors.primary}
+          />
+        }
+        showsVerticalScrollIndicator={false}
+      />
+    </View>
+  );
+};
+
+export default LowStockScreen;
@@ -2,7 +2,7 @@
 // PRODUCT DETAIL SCREEN - PRESUPUESTOS APP
 // ===============================
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useCallback } from 'react';
 import {
   View,
   Text,
@@ -12,12 +12,18 @@ import {
 } from 'react-native';
 import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
 import { StackScreenProps } from '@react-navigation/stack';
+import { useFocusEffect } from '@react-navigation/native';
 
 // Components
 import Card from '../../components/common/Card';
 import Button from '../../components/common/Button';
 import Loading from '../../components/common/Loading';
 import ErrorMessage from '../../components/common/ErrorMessage';
+import StockMovementTimeline from '../../components/products/StockMovementTimeline';
+import PriceHistoryChart from '../../components/products/PriceHistoryChart';
+import ProductImageGallery from '../../components/products/ProductImageGallery';
+import ProductVariantList from '../../components/products/ProductVariantList';
+import ProductBundleList from '../../components/products/ProductBundleList';
 
 // Context
 import { useAuth } from '../../context/AuthContext';
@@ -25,9 +31,19 @@ import { useTheme } from '../../context/ThemeContext';
 
 // Services
 import * as productService from '../../services/productService';
+import * as stockService from '../../services/stockService';
+import * as priceService from '../../services/priceService';
+import * as quoteService from '../../services/quoteService';
 
 // Types
-import { Product, ProductStackParamList } from '../../types';
+import {
+  BundleComponent,
+  PriceChange,
+  Product,
+  ProductVariant,
+  ProductStackParamList,
+  StockMovement,
+} from '../../types';
 
 // Constants
 import { COLORS, LAYOUT, TYPOGRAPHY } from '../../constants/config';
@@ -64,24 +80,36 @@ const ProductDetailScreen: React.FC<ProductDetailScreenProps> = ({ route, naviga
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string>('');
   const [isDeleting, setIsDeleting] = useState(false);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [movementsTotal, setMovementsTotal] = useState(0);
+  const [movementsPage, setMovementsPage] = useState(1);
+  const [isLoadingMoreMovements, setIsLoadingMoreMovements] = useState(false);
+  const [priceChanges, setPriceChanges] = useState<PriceChange[]>([]);
 
   // ===============================
   // EFFECTS
   // ===============================
 
-  useEffect(() => {
-    loadProduct();
-  }, [productId]);
+  // Al volver de editar o de registrar un movimiento se actualizan stock e historiales
+  useFocusEffect(
+    useCallback(() => {
+      loadProduct();
+      loadMovements();
+      loadPriceHistory();
+    }, [productId])
+  );
 
   // ===============================
   // HANDLERS
   // ===============================
 
-  const loadProduct = async () => {
+  const loadProduct = async (showLoading = false) => {
     try {
       setError('');
-      setIsLoading(true);
-      const productData = await productService.getProductById(productId);
+      if (showLoading) setIsLoading(true);
+      const productData = await productService.getProductById(productId, {
+        onRevalidate: setProduct,
+      });
       setProduct(productData);
     } catch (err: any) {
       setError(err.message || 'Error cargando producto');
@@ -90,6 +118,61 @@ const ProductDetailScreen: React.FC<ProductDetailScreenProps> = ({ route, naviga
     }
   };
 
+  const applyMovements = (page: number, response: { items: StockMovement[]; total: number }) => {
+    setMovements(prev => page === 1 ? response.items : [...prev, ...response.items]);
+    setMovementsTotal(response.total);
+    setMovementsPage(page);
+  };
+
+  const loadMovements = async () => {
+    try {
+      const response = await stockService.getStockMovements(productId, 1, undefined, {
+        onRevalidate: fresh => applyMovements(1, fresh),
+      });
+      applyMovements(1, response);
+    } catch (err) {
+      // Un producto creado sin conexión todavía no tiene historial en el servidor
+      console.error('Error loading stock movements:', err);
+    }
+  };
+
+  const loadPriceHistory = async () => {
+    try {
+      const changes = await priceService.getPriceHistory(productId, {
+        onRevalidate: setPriceChanges,
+      });
+      setPriceChanges(changes);
+    } catch (err) {
+      // El historial de precios es complementario, no bloquea la pantalla
+      console.error('Error loading price history:', err);
+    }
+  };
+
+  const loadMoreMovements = async () => {
+    try {
+      setIsLoadingMoreMovements(true);
+      const nextPage = movementsPage + 1;
+      const response = await stockService.getStockMovements(productId, nextPage);
+      applyMovements(nextPage, response);
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Error cargando movimientos');
+    } finally {
+      setIsLoadingMoreMovements(false);
+    }
+  };
+
+  const handleAddMovement = () => {
+    navigation.navigate('StockMovementForm', { productId });
+  };
+
+  const handleVariantPress = (variant: ProductVariant) => {
+    navigation.navigate('StockMovementForm', { productId, variantId: variant._id });
+  };
+
+  const handleComponentPress = (component: BundleComponent) => {
+    navigation.push('ProductDetail', { productId: component.product });
+  };
+
   const handleEditProduct = () => {
     if (!product) return;
     navigation.navigate('ProductForm', { productId: product._id });
@@ -162,7 +245,7 @@ const ProductDetailScreen: React.FC<ProductDetailScreenProps> = ({ route, naviga
         <ErrorMessage
           message={error || 'Producto no encontrado'}
           variant="card"
-          onRetry={loadProduct}
+          onRetry={() => loadProduct(true)}
           style={{ margin: LAYOUT.SPACING.LG }}
         />
       </View>
@@ -173,34 +256,42 @@ const ProductDetailScreen: React.FC<ProductDetailScreenProps> = ({ route, naviga
   // RENDER FUNCTIONS
   // ===============================
 
-  const stockStatus = productService.getStockStatus(product.stock);
+  const reservedStock = productService.getReservedStock(product);
+  const availableStock = productService.getAvailableStock(product);
+  const stockStatus = productService.getStockStatus(availableStock, productService.getReorderPoint(product));
+  // El backend solo envía el costo a administradores
+  const listMargin = user?.role === 'admin' ? productService.getListPriceMargin(product) : undefined;
+
+  const renderStockRow = (label: string, value: number) => (
+    <View style={{
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: LAYOUT.SPACING.MD,
+    }}>
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+        color: colors.textSecondary,
+      }}>
+        {label}
+      </Text>
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+        fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+        color: colors.text,
+      }}>
+        {value} unidades
+      </Text>
+    </View>
+  );
 
   return (
     <ScrollView
       style={{ flex: 1, backgroundColor: colors.background }}
       contentContainerStyle={{ padding: LAYOUT.SPACING.LG }}
     >
-      {/* Product Image Placeholder */}
-      <Card variant="outlined" padding="xl" style={{ marginBottom: LAYOUT.SPACING.LG }}>
-        <View style={{
-          alignItems: 'center',
-          justifyContent: 'center',
-          height: 200,
-          backgroundColor: colors.backgroundSecondary,
-          borderRadius: LAYOUT.BORDER_RADIUS.LG,
-        }}>
-          <MaterialCommunityIcons name="package-variant" size={64} color={colors.textSecondary} />
-          {product.imageUrl && (
-            <Text style={{
-              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
-              color: colors.textSecondary,
-              marginTop: LAYOUT.SPACING.SM,
-            }}>
-              Imagen disponible
-            </Text>
-          )}
-        </View>
-      </Card>
+      {/* Product Images */}
+      <ProductImageGallery images={productService.getProductImages(product)} />
 
       {/* Product Info */}
       <Card variant="outlined" padding="lg" style={{ marginBottom: LAYOUT.SPACING.LG }}>
@@ -233,7 +324,7 @@ const ProductDetailScreen: React.FC<ProductDetailScreenProps> = ({ route, naviga
             fontSize: TYPOGRAPHY.FONT_SIZE.MD,
             color: colors.textSecondary,
           }}>
-            Precio
+            {productService.isBundle(product) ? 'Precio del kit' : productService.hasVariants(product) ? 'Precio base' : 'Precio'}
           </Text>
           <Text style={{
             fontSize: TYPOGRAPHY.FONT_SIZE.XXL,
@@ -244,7 +335,58 @@ const ProductDetailScreen: React.FC<ProductDetailScreenProps> = ({ route, naviga
           </Text>
         </View>
 
-        {/* Stock */}
+        {/* Cost and Margin (solo administradores; en kits, la suma de los componentes) */}
+        {listMargin !== undefined && (
+          <View style={{
+            flexDirection: 'row',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            marginBottom: LAYOUT.SPACING.MD,
+          }}>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+              color: colors.textSecondary,
+            }}>
+              Costo
+            </Text>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+              color: quoteService.isMarginBelowMinimum(listMargin) ? colors.error : colors.text,
+            }}>
+              {productService.formatPrice(product.cost as number)} · margen {quoteService.formatMargin(listMargin)}
+            </Text>
+          </View>
+        )}
+
+        {/* Tax Rate */}
+        <View style={{
+          flexDirection: 'row',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          marginBottom: LAYOUT.SPACING.MD,
+        }}>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+            color: colors.textSecondary,
+          }}>
+            IVA
+          </Text>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+            fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+            color: colors.text,
+          }}>
+            {productService.formatTaxRate(productService.getTaxRate(product))}
+            {product.taxRate === undefined ? ' (general)' : ''}
+          </Text>
+        </View>
+
+        {/* Stock: físico, reservado por presupuestos pendientes y disponible.
+            En los kits son los que se pueden armar con el stock de los componentes */}
+        {renderStockRow(productService.isBundle(product) ? 'Kits que se pueden armar' : 'Stock físico', product.stock)}
+        {renderStockRow('Reservado en presupuestos', reservedStock)}
+
         <View style={{
           flexDirection: 'row',
           justifyContent: 'space-between',
@@ -255,7 +397,7 @@ const ProductDetailScreen: React.FC<ProductDetailScreenProps> = ({ route, naviga
             fontSize: TYPOGRAPHY.FONT_SIZE.MD,
             color: colors.textSecondary,
           }}>
-            Stock disponible
+            Disponible para presupuestar
           </Text>
           <View style={{
             backgroundColor: stockStatus.color + '20',
@@ -270,11 +412,35 @@ const ProductDetailScreen: React.FC<ProductDetailScreenProps> = ({ route, naviga
               fontWeight: TYPOGRAPHY.FONT_WEIGHT.BOLD,
               color: stockStatus.color,
             }}>
-              {product.stock} unidades
+              {availableStock} unidades
             </Text>
           </View>
         </View>
 
+        {/* Reorder Point (los kits se reponen por componente) */}
+        {!productService.isBundle(product) && (
+          <View style={{
+            flexDirection: 'row',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            marginBottom: LAYOUT.SPACING.MD,
+          }}>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+              color: colors.textSecondary,
+            }}>
+              Punto de reposición
+            </Text>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+              color: colors.text,
+            }}>
+              {productService.getReorderPoint(product)} unidades{product.reorderPoint === undefined ? ' (general)' : ''}
+            </Text>
+          </View>
+        )}
+
         {/* Category */}
         {product.category && (
           <View style={{
@@ -329,6 +495,30 @@ const ProductDetailScreen: React.FC<ProductDetailScreenProps> = ({ route, naviga
           </View>
         )}
 
+        {/* Barcode */}
+        {product.barcode && (
+          <View style={{
+            flexDirection: 'row',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            marginBottom: LAYOUT.SPACING.MD,
+          }}>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+              color: colors.textSecondary,
+            }}>
+              Código de barras
+            </Text>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+              fontFamily: 'monospace',
+              color: colors.text,
+            }}>
+              {product.barcode}
+            </Text>
+          </View>
+        )}
+
         {/* Created Date */}
         {product.createdAt && (
           <View style={{
@@ -359,8 +549,47 @@ const ProductDetailScreen: React.FC<ProductDetailScreenProps> = ({ route, naviga
         )}
       </Card>
 
+      {/* Bundle Components */}
+      {productService.isBundle(product) && (
+        <ProductBundleList product={product} onComponentPress={handleComponentPress} />
+      )}
+
+      {/* Variants */}
+      {productService.hasVariants(product) && (
+        <ProductVariantList
+          product={product}
+          onVariantPress={canManageProducts && !product.pendingSync ? handleVariantPress : undefined}
+        />
+      )}
+
+      {/* Pending Sync Notice */}
+      {product.pendingSync && (
+        <Card
+          variant="filled"
+          padding="md"
+          style={{
+            marginBottom: LAYOUT.SPACING.LG,
+            backgroundColor: COLORS.warningLight + '20',
+            borderWidth: 1,
+            borderColor: colors.warning,
+          }}
+        >
+          <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+            <MaterialCommunityIcons name="cloud-upload-outline" size={20} color={colors.warning} style={{ marginRight: 8 }} />
+            <Text style={{
+              flex: 1,
+              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+              color: colors.warning,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+            }}>
+              Hay cambios guardados sin conexión. Se enviarán al servidor al recuperar la señal.
+            </Text>
+          </View>
+        </Card>
+      )}
+
       {/* Stock Alert */}
-      {product.stock <= 5 && product.stock > 0 && (
+      {stockStatus.status === 'low' && (
         <Card
           variant="filled"
           padding="md"
@@ -378,14 +607,14 @@ const ProductDetailScreen: React.FC<ProductDetailScreenProps> = ({ route, naviga
               color: colors.warning,
               fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
             }}>
-              Stock bajo: Solo quedan {product.stock} unidades
+              Stock bajo: Solo quedan {availableStock} unidades disponibles
             </Text>
           </View>
         </Card>
       )}
 
       {/* Out of Stock Alert */}
-      {product.stock === 0 && (
+      {availableStock === 0 && (
         <Card
           variant="filled"
           padding="md"
@@ -403,16 +632,32 @@ const ProductDetailScreen: React.FC<ProductDetailScreenProps> = ({ route, naviga
               color: colors.error,
               fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
             }}>
-              Producto sin stock
+              {product.stock > 0 ? 'Todo el stock está reservado' : 'Producto sin stock'}
             </Text>
           </View>
         </Card>
       )}
 
+      {/* Price History */}
+      {!product.pendingSync && (
+        <PriceHistoryChart product={product} changes={priceChanges} />
+      )}
+
+      {/* Stock Movements (los de un kit se registran en sus componentes) */}
+      {!product.pendingSync && !productService.isBundle(product) && (
+        <StockMovementTimeline
+          movements={movements}
+          total={movementsTotal}
+          isLoadingMore={isLoadingMoreMovements}
+          onLoadMore={loadMoreMovements}
+          onAddMovement={canManageProducts ? handleAddMovement : undefined}
+        />
+      )}
+
       {/* Actions */}
       <View style={{ gap: LAYOUT.SPACING.MD }}>
         {/* Add to Quote Button */}
-        {product.stock > 0 && (
+        {availableStock > 0 && (
           <Button
             title="Agregar a Presupuesto"
             onPress={handleAddToQuote}
@@ -432,15 +677,17 @@ const ProductDetailScreen: React.FC<ProductDetailScreenProps> = ({ route, naviga
               leftIcon={<MaterialCommunityIcons name="pencil-outline" size={18} color={colors.primary} style={{ marginRight: LAYOUT.SPACING.SM }} />}
             />
 
-            <Button
-              title="Eliminar Producto"
-              variant="danger"
-              onPress={handleDeleteProduct}
-              loading={isDeleting}
-              disabled={isDeleting}
-              fullWidth
-              leftIcon={<MaterialCommunityIcons name="delete-outline" size={18} color="#FFFFFF" style={{ marginRight: LAYOUT.SPACING.SM }} />}
-            />
+            {!product.pendingSync && (
+              <Button
+                title="Eliminar Producto"
+                variant="danger"
+                onPress={handleDeleteProduct}
+                loading={isDeleting}
+                disabled={isDeleting}
+                fullWidth
+                leftIcon={<MaterialCommunityIcons name="delete-outline" size={18} color="#FFFFFF" style={{ marginRight: LAYOUT.SPACING.SM }} />}
+              />
+            )}
           </View>
         )}
       </View>
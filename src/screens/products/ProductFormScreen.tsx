@@ -20,15 +20,35 @@ import Input from '../../components/common/Input';
 import Card from '../../components/common/Card';
 import ErrorMessage from '../../components/common/ErrorMessage';
 import Loading from '../../components/common/Loading';
+import ProductImagePicker from '../../components/products/ProductImagePicker';
+import ProductVariantEditor from '../../components/products/ProductVariantEditor';
+import ProductBundleEditor from '../../components/products/ProductBundleEditor';
+import TaxRatePicker from '../../components/products/TaxRatePicker';
+
+// Context
+import { useAuth } from '../../context/AuthContext';
+import { useSync } from '../../context/SyncContext';
 
 // Services
+import * as authService from '../../services/authService';
 import * as productService from '../../services/productService';
+import * as stockService from '../../services/stockService';
+import * as syncService from '../../services/syncService';
 
 // Types
-import { Product, ProductStackParamList, CreateProductRequest, ProductFormData } from '../../types';
+import {
+  Product,
+  ProductStackParamList,
+  CreateProductRequest,
+  ProductFormData,
+  ProductOptionFormData,
+  ProductVariantFormData,
+  BundleComponentFormData,
+  BundlePricing,
+} from '../../types';
 
 // Constants
-import { COLORS, LAYOUT, TYPOGRAPHY } from '../../constants/config';
+import { COLORS, LAYOUT, TYPOGRAPHY, STOCK_CONFIG, TAX_CONFIG } from '../../constants/config';
 
 // Theme
 import { useTheme } from '../../context/ThemeContext';
@@ -45,12 +65,17 @@ type ProductFormScreenProps = StackScreenProps<ProductStackParamList, 'ProductFo
 
 const ProductFormScreen: React.FC<ProductFormScreenProps> = ({ route, navigation }) => {
   const { colors } = useTheme();
+  const { user } = useAuth();
+  const { isOnline } = useSync();
+  // El costo solo lo ven y lo cargan administradores
+  const canEditCost = authService.isAdmin(user);
 
   // ===============================
   // PARAMS
   // ===============================
 
   const productId = route.params?.productId;
+  const scannedBarcode = route.params?.barcode;
   const isEditing = Boolean(productId);
 
   // ===============================
@@ -65,14 +90,28 @@ const ProductFormScreen: React.FC<ProductFormScreenProps> = ({ route, navigation
     name: '',
     description: '',
     price: '',
+    cost: '',
+    taxRate: String(TAX_CONFIG.DEFAULT_IVA_RATE),
     stock: '',
+    stockReason: '',
+    reorderPoint: '',
     category: '',
     sku: '',
-    imageUrl: '',
+    barcode: scannedBarcode || '',
   });
+  // La primera imagen es la principal (imageUrl)
+  const [images, setImages] = useState<string[]>([]);
+  const [isUploadingImage, setIsUploadingImage] = useState(false);
+  const [options, setOptions] = useState<ProductOptionFormData[]>([]);
+  const [variants, setVariants] = useState<ProductVariantFormData[]>([]);
+  const [bundleComponents, setBundleComponents] = useState<BundleComponentFormData[]>([]);
+  const [bundlePricing, setBundlePricing] = useState<BundlePricing>('fixed');
+  const [bundleDiscount, setBundleDiscount] = useState('');
 
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [categories, setCategories] = useState<string[]>([]);
+  // Versión cargada del producto: base para editar sin conexión y detectar conflictos
+  const [originalProduct, setOriginalProduct] = useState<Product | null>(null);
 
   // ===============================
   // EFFECTS
@@ -85,6 +124,13 @@ const ProductFormScreen: React.FC<ProductFormScreenProps> = ({ route, navigation
     }
   }, [isEditing, productId]);
 
+  // Los ajustes de stock no se pueden encolar: sin conexión se vuelve al stock guardado
+  useEffect(() => {
+    if (!isOnline && originalProduct && !syncService.isLocalId(originalProduct._id)) {
+      setFormData(prev => ({ ...prev, stock: originalProduct.stock.toString(), stockReason: '' }));
+    }
+  }, [isOnline, originalProduct]);
+
   // ===============================
   // HANDLERS
   // ===============================
@@ -101,16 +147,42 @@ const ProductFormScreen: React.FC<ProductFormScreenProps> = ({ route, navigation
   const loadProduct = async (id: string) => {
     try {
       setIsLoading(true);
-      const product = await productService.getProductById(id);
+      // Se edita siempre sobre la versión del servidor, no sobre el cache
+      const product = await productService.getProductById(id, { forceRefresh: true });
+      setOriginalProduct(product);
       setFormData({
         name: product.name,
         description: product.description,
         price: product.price.toString(),
+        cost: product.cost !== undefined ? product.cost.toString() : '',
+        taxRate: productService.getTaxRate(product).toString(),
         stock: product.stock.toString(),
+        stockReason: '',
+        reorderPoint: product.reorderPoint !== undefined ? product.reorderPoint.toString() : '',
         category: product.category,
         sku: product.sku || '',
-        imageUrl: product.imageUrl || '',
+        barcode: product.barcode || '',
       });
+      setImages(productService.getProductImages(product));
+      setOptions((product.options || []).map(option => ({ name: option.name, values: option.values.join(', ') })));
+      setVariants((product.variants || []).map(variant => ({
+        _id: variant._id,
+        sku: variant.sku,
+        options: variant.options,
+        price: variant.price !== undefined ? variant.price.toString() : '',
+        stock: variant.stock.toString(),
+      })));
+      if (product.bundle) {
+        const componentProducts = await Promise.all(
+          product.bundle.components.map(component => productService.getProductById(component.product))
+        );
+        setBundleComponents(product.bundle.components.map((component, index) => ({
+          product: componentProducts[index],
+          quantity: component.quantity.toString(),
+        })));
+        setBundlePricing(product.bundle.pricing);
+        setBundleDiscount(product.bundle.discount !== undefined ? product.bundle.discount.toString() : '');
+      }
     } catch (err: any) {
       setError(err.message || 'Error cargando producto');
     } finally {
@@ -148,15 +220,137 @@ const ProductFormScreen: React.FC<ProductFormScreenProps> = ({ route, navigation
       name: formData.name.trim(),
       description: formData.description.trim(),
       price: parseFloat(formData.price) || 0,
+      cost: getRequestCost() ?? undefined,
+      taxRate: Number(formData.taxRate),
       stock: parseInt(formData.stock) || 0,
+      reorderPoint: formData.reorderPoint?.trim() ? Number(formData.reorderPoint) : undefined,
       category: formData.category.trim(),
       sku: formData.sku?.trim() || undefined,
-      imageUrl: formData.imageUrl?.trim() || undefined,
+      barcode: productService.normalizeBarcode(formData.barcode || '') || undefined,
+      imageUrl: images[0],
+      images,
+      ...buildVariantRequest(),
+      ...buildBundleRequest(),
     };
 
     const validation = productService.validateProductData(productRequest);
+
+    // El stock sin variante no se reparte solo entre las variantes nuevas
+    if (variants.length > 0 && originalProduct && !productService.hasVariants(originalProduct) && originalProduct.stock > 0) {
+      validation.errors.variants = `Ajusta el stock actual (${originalProduct.stock}) a cero antes de agregar variantes`;
+    }
+
+    // Un kit no tiene stock propio: el producto tiene que llegar vacío
+    if (bundleComponents.length > 0 && originalProduct && !originalProduct.bundle && originalProduct.stock > 0) {
+      validation.errors.bundle = `Ajusta el stock actual (${originalProduct.stock}) a cero antes de convertirlo en kit`;
+    }
+
+    // Editar el stock registra un ajuste, que necesita motivo y conexión
+    const adjustment = getStockAdjustment();
+    if (adjustment) {
+      const movementValidation = stockService.validateStockMovement(originalProduct as Product, adjustment);
+      if (movementValidation.errors.reason) {
+        validation.errors.stockReason = movementValidation.errors.reason;
+      }
+      if (!isOnline) {
+        validation.errors.stockReason = 'Los ajustes de stock requieren conexión';
+      }
+    }
+
     setErrors(validation.errors);
-    return validation.isValid;
+    return Object.values(validation.errors).every(message => !message);
+  };
+
+  /**
+   * Opciones y variantes del formulario para el request. Con variantes el stock del
+   * producto es la suma del stock inicial de cada una
+   */
+  const buildVariantRequest = (): Pick<CreateProductRequest, 'options' | 'variants'> & { stock?: number } => {
+    if (variants.length === 0) {
+      // Al editar se envía la lista vacía para quitar las variantes existentes
+      return isEditing && originalProduct && productService.hasVariants(originalProduct)
+        ? { options: [], variants: [] }
+        : {};
+    }
+
+    const requestVariants = variants.map(variant => ({
+      _id: variant._id,
+      sku: variant.sku.trim().toUpperCase(),
+      options: variant.options,
+      price: variant.price.trim() ? parseFloat(variant.price) : undefined,
+      // El stock de una variante existente cambia solo mediante movimientos
+      stock: variant._id ? undefined : parseInt(variant.stock) || 0,
+    }));
+
+    return {
+      options: options
+        .map(option => ({ name: option.name.trim(), values: productService.parseOptionValues(option.values) }))
+        .filter(option => option.name && option.values.length > 0),
+      variants: requestVariants,
+      stock: variants.reduce((sum, variant) => sum + (parseInt(variant.stock) || 0), 0),
+    };
+  };
+
+  /**
+   * Kit del formulario para el request. Con descuento el precio es la suma de los
+   * componentes menos el porcentaje; el stock lo calcula el backend
+   */
+  const buildBundleRequest = (): Pick<CreateProductRequest, 'bundle'> & { price?: number; stock?: number } => {
+    if (bundleComponents.length === 0) {
+      // Al editar se envía null para que deje de ser kit
+      return isEditing && originalProduct?.bundle ? { bundle: null } : {};
+    }
+
+    const components = bundleComponents.map(component => ({
+      product: component.product._id,
+      name: component.product.name,
+      sku: component.product.sku,
+      quantity: Number(component.quantity),
+    }));
+    const discount = parseFloat(bundleDiscount) || 0;
+
+    return {
+      bundle: {
+        components,
+        pricing: bundlePricing,
+        discount: bundlePricing === 'discount' ? discount : undefined,
+      },
+      stock: 0,
+      ...(bundlePricing === 'discount' && { price: getBundleDiscountPrice() }),
+    };
+  };
+
+  const getBundleDiscountPrice = (): number => {
+    return productService.calculateBundlePrice(
+      bundleComponents.map(component => ({ product: component.product, quantity: parseInt(component.quantity) || 0 })),
+      parseFloat(bundleDiscount) || 0
+    );
+  };
+
+  /**
+   * Costo para el request. Los kits lo calculan con sus componentes. Vacío no se envía
+   * en un alta; al editar se manda null para borrar el costo guardado (JSON descarta undefined)
+   */
+  const getRequestCost = (): number | null | undefined => {
+    if (!canEditCost || bundleComponents.length > 0) return undefined;
+    if (!formData.cost?.trim()) return isEditing ? null : undefined;
+    return parseFloat(formData.cost);
+  };
+
+  /**
+   * Ajuste de stock a registrar si se editó la cantidad de un producto existente
+   */
+  const getStockAdjustment = () => {
+    // Un producto creado sin conexión todavía no existe en el servidor: su stock va en el alta
+    if (!isEditing || !originalProduct || syncService.isLocalId(originalProduct._id)) return null;
+    // Con variantes el stock se mueve por variante; los kits no tienen stock propio
+    if (variants.length > 0 || productService.hasVariants(originalProduct)) return null;
+    if (bundleComponents.length > 0 || originalProduct.bundle) return null;
+
+    const targetStock = parseInt(formData.stock);
+    if (isNaN(targetStock)) return null;
+
+    return stockService.buildStockAdjustment(originalProduct, targetStock, formData.stockReason || '');
   };
 
   const handleSubmit = async () => {
@@ -172,20 +366,58 @@ const ProductFormScreen: React.FC<ProductFormScreenProps> = ({ route, navigation
         name: formData.name.trim(),
         description: formData.description.trim(),
         price: parseFloat(formData.price),
+        cost: getRequestCost() ?? undefined,
+        taxRate: Number(formData.taxRate),
         stock: parseInt(formData.stock),
+        reorderPoint: formData.reorderPoint?.trim() ? parseInt(formData.reorderPoint) : undefined,
         category: formData.category.trim(),
         sku: formData.sku?.trim() || undefined,
-        imageUrl: formData.imageUrl?.trim() || undefined,
+        barcode: productService.normalizeBarcode(formData.barcode || '') || undefined,
+        imageUrl: images[0],
+        images,
+        ...buildVariantRequest(),
+        ...buildBundleRequest(),
       };
 
       let savedProduct: Product;
 
       if (isEditing && productId) {
-        savedProduct = await productService.updateProduct(productId, productData);
-        Alert.alert('Éxito', 'Producto actualizado correctamente');
+        // El stock de un producto ya sincronizado cambia solo mediante movimientos
+        let baseProduct = originalProduct || undefined;
+        const adjustment = getStockAdjustment();
+        if (adjustment) {
+          const { product } = await stockService.createStockMovement(productId, adjustment).catch(err => {
+            // Si la señal se cortó al guardar, el resto de la edición sí se puede encolar
+            if (syncService.canQueueAfterError(err)) {
+              throw new Error('Se perdió la conexión: el ajuste de stock no se registró. Guarda sin cambiar el stock para enviar el resto de los cambios');
+            }
+            throw err;
+          });
+          // Si después falla la actualización, reintentar no repite el ajuste ya registrado
+          baseProduct = product;
+          setOriginalProduct(product);
+        }
+
+        const { stock, ...productChanges } = productData;
+        savedProduct = await productService.updateProduct(
+          productId,
+          { ...(syncService.isLocalId(productId) ? productData : productChanges), cost: getRequestCost() },
+          baseProduct
+        );
+        Alert.alert(
+          savedProduct.pendingSync ? 'Guardado sin conexión' : 'Éxito',
+          savedProduct.pendingSync
+            ? 'Los cambios se enviarán al recuperar la señal'
+            : 'Producto actualizado correctamente'
+        );
       } else {
         savedProduct = await productService.createProduct(productData);
-        Alert.alert('Éxito', 'Producto creado correctamente');
+        Alert.alert(
+          savedProduct.pendingSync ? 'Guardado sin conexión' : 'Éxito',
+          savedProduct.pendingSync
+            ? 'El producto se enviará al recuperar la señal'
+            : 'Producto creado correctamente'
+        );
       }
 
       // Navigate to product detail
@@ -198,6 +430,42 @@ const ProductFormScreen: React.FC<ProductFormScreenProps> = ({ route, navigation
     }
   };
 
+  const handleImagesChange = (nextImages: string[]) => {
+    setImages(nextImages);
+    if (errors.images || errors.imageUrl) {
+      setErrors(prev => ({ ...prev, images: '', imageUrl: '' }));
+    }
+  };
+
+  const handleOptionsChange = (nextOptions: ProductOptionFormData[]) => {
+    setOptions(nextOptions);
+    if (errors.options) {
+      setErrors(prev => ({ ...prev, options: '' }));
+    }
+  };
+
+  const handleVariantsChange = (nextVariants: ProductVariantFormData[]) => {
+    setVariants(nextVariants);
+    // Los errores por variante van por índice: se limpian todos al cambiar la grilla
+    setErrors(prev => Object.fromEntries(
+      Object.entries(prev).filter(([field]) => field !== 'variants' && !field.startsWith('variant'))
+    ));
+  };
+
+  const handleBundleComponentsChange = (nextComponents: BundleComponentFormData[]) => {
+    setBundleComponents(nextComponents);
+    if (errors.bundle || errors.price) {
+      setErrors(prev => ({ ...prev, bundle: '', price: '' }));
+    }
+  };
+
+  const handleBundleDiscountChange = (discount: string) => {
+    setBundleDiscount(discount);
+    if (errors.bundleDiscount) {
+      setErrors(prev => ({ ...prev, bundleDiscount: '' }));
+    }
+  };
+
   const handleCancel = () => {
     navigation.goBack();
   };
@@ -209,6 +477,16 @@ const ProductFormScreen: React.FC<ProductFormScreenProps> = ({ route, navigation
     }
   };
 
+  const stockAdjustment = getStockAdjustment();
+  // El stock de un producto ya sincronizado cambia con un movimiento, que requiere conexión
+  const isStockLocked = !isOnline && isEditing && !!originalProduct && !syncService.isLocalId(originalProduct._id);
+  const isBundle = bundleComponents.length > 0;
+  const isDiscountBundle = isBundle && bundlePricing === 'discount';
+  const listMargin = productService.getListPriceMargin({
+    price: parseFloat(formData.price) || 0,
+    cost: formData.cost?.trim() ? parseFloat(formData.cost) : undefined,
+  });
+
   // ===============================
   // LOADING STATE
   // ===============================
@@ -295,35 +573,116 @@ const ProductFormScreen: React.FC<ProductFormScreenProps> = ({ route, navigation
           <View style={{ flexDirection: 'row', gap: LAYOUT.SPACING.MD }}>
             <View style={{ flex: 1 }}>
               <Input
-                label="Precio"
+                label={isBundle ? 'Precio del kit' : 'Precio'}
                 placeholder="0.00"
-                value={formData.price}
+                value={isDiscountBundle ? getBundleDiscountPrice().toString() : formData.price}
                 onChangeText={(text) => handleInputChange('price', text)}
                 error={errors.price}
                 keyboardType="numeric"
                 required
+                disabled={isDiscountBundle}
+                helperText={isDiscountBundle ? 'Se calcula con los componentes' : undefined}
                 leftIcon={
                   <MaterialCommunityIcons name="currency-usd" size={20} color={colors.textSecondary} />
                 }
               />
             </View>
 
-            <View style={{ flex: 1 }}>
-              <Input
-                label="Stock"
-                placeholder="0"
-                value={formData.stock}
-                onChangeText={(text) => handleInputChange('stock', text)}
-                error={errors.stock}
-                keyboardType="numeric"
-                required
-                leftIcon={
-                  <MaterialCommunityIcons name="chart-bar" size={20} color={colors.textSecondary} />
-                }
-              />
-            </View>
+            {/* Con variantes el stock se carga por variante; los kits usan el de sus componentes */}
+            {variants.length === 0 && !isBundle && (
+              <View style={{ flex: 1 }}>
+                <Input
+                  label="Stock"
+                  placeholder="0"
+                  value={formData.stock}
+                  onChangeText={(text) => handleInputChange('stock', text)}
+                  error={errors.stock}
+                  helperText={isStockLocked ? 'Sin conexión no se puede ajustar el stock' : undefined}
+                  disabled={isStockLocked}
+                  keyboardType="numeric"
+                  required
+                  leftIcon={
+                    <MaterialCommunityIcons name="chart-bar" size={20} color={colors.textSecondary} />
+                  }
+                />
+              </View>
+            )}
+          </View>
+
+          {/* Cost Input */}
+          {canEditCost && !isBundle && (
+            <Input
+              label="Costo"
+              placeholder="0.00"
+              value={formData.cost}
+              onChangeText={(text) => handleInputChange('cost', text)}
+              error={errors.cost}
+              keyboardType="numeric"
+              helperText={listMargin !== undefined && !isNaN(listMargin)
+                ? `Margen a precio de lista: ${listMargin.toFixed(1)}%. Solo lo ven los administradores`
+                : 'Solo lo ven los administradores'}
+              leftIcon={
+                <MaterialCommunityIcons name="cash-minus" size={20} color={colors.textSecondary} />
+              }
+            />
+          )}
+
+          {/* Tax Rate */}
+          <View style={{ marginBottom: LAYOUT.SPACING.MD }}>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+              color: colors.text,
+              marginBottom: LAYOUT.SPACING.SM,
+            }}>
+              Alícuota de IVA
+            </Text>
+            <TaxRatePicker
+              value={Number(formData.taxRate)}
+              onChange={(rate) => handleInputChange('taxRate', rate.toString())}
+              disabled={isSaving}
+            />
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+              color: errors.taxRate ? colors.error : colors.textSecondary,
+              marginTop: LAYOUT.SPACING.XS,
+            }}>
+              {errors.taxRate || 'Se usa por defecto al presupuestar; cada línea puede cambiarla'}
+            </Text>
           </View>
 
+          {/* Stock Adjustment Reason */}
+          {stockAdjustment && (
+            <Input
+              label="Motivo del ajuste de stock"
+              placeholder="Ej: Conteo de inventario, rotura"
+              value={formData.stockReason}
+              onChangeText={(text) => handleInputChange('stockReason', text)}
+              error={errors.stockReason}
+              required
+              helperText={`Se registrará un ajuste de ${stockService.formatMovementQuantity(stockAdjustment.quantity)} unidades`}
+              leftIcon={
+                <MaterialCommunityIcons name="tune-variant" size={20} color={colors.textSecondary} />
+              }
+            />
+          )}
+
+          {/* Reorder Point Input */}
+          {!isBundle && (
+            <Input
+              label="Punto de reposición"
+              placeholder={`${STOCK_CONFIG.DEFAULT_REORDER_POINT} (por defecto)`}
+              value={formData.reorderPoint}
+              onChangeText={(text) => handleInputChange('reorderPoint', text)}
+              error={errors.reorderPoint}
+              keyboardType="numeric"
+              helperText="Se avisa cuando el stock llega a esta cantidad"
+              leftIcon={
+                <MaterialCommunityIcons name="bell-alert-outline" size={20} color={colors.textSecondary} />
+              }
+            />
+          )}
+
           {/* Category Input */}
           <Input
             label="Categoría"
@@ -387,18 +746,55 @@ const ProductFormScreen: React.FC<ProductFormScreenProps> = ({ route, navigation
             helperText="Se genera automáticamente si se deja vacío"
           />
 
-          {/* Image URL Input */}
+          {/* Barcode Input */}
           <Input
-            label="URL de imagen (opcional)"
-            placeholder="https://ejemplo.com/imagen.jpg"
-            value={formData.imageUrl}
-            onChangeText={(text) => handleInputChange('imageUrl', text)}
-            error={errors.imageUrl}
-            keyboardType="url"
-            autoCapitalize="none"
+            label="Código de barras (opcional)"
+            placeholder="EAN, UPC o Code 128"
+            value={formData.barcode}
+            onChangeText={(text) => handleInputChange('barcode', text)}
+            error={errors.barcode}
+            autoCapitalize="characters"
             leftIcon={
-              <MaterialCommunityIcons name="image-outline" size={20} color={colors.textSecondary} />
+              <MaterialCommunityIcons name="barcode" size={20} color={colors.textSecondary} />
             }
+            helperText={scannedBarcode && !isEditing ? 'Código escaneado, no encontrado en el catálogo' : undefined}
+          />
+
+          {/* Variants (un kit no puede tener variantes) */}
+          {!isBundle && (
+            <ProductVariantEditor
+              options={options}
+              variants={variants}
+              onOptionsChange={handleOptionsChange}
+              onVariantsChange={handleVariantsChange}
+              baseSku={formData.sku?.trim()}
+              errors={errors}
+              disabled={isSaving}
+            />
+          )}
+
+          {/* Bundle */}
+          {variants.length === 0 && (
+            <ProductBundleEditor
+              components={bundleComponents}
+              pricing={bundlePricing}
+              discount={bundleDiscount}
+              onComponentsChange={handleBundleComponentsChange}
+              onPricingChange={setBundlePricing}
+              onDiscountChange={handleBundleDiscountChange}
+              productId={productId}
+              errors={errors}
+              disabled={isSaving}
+            />
+          )}
+
+          {/* Images */}
+          <ProductImagePicker
+            images={images}
+            onChange={handleImagesChange}
+            onUploadingChange={setIsUploadingImage}
+            error={errors.images || errors.imageUrl}
+            disabled={isSaving}
           />
 
           {/* Actions */}
@@ -419,7 +815,7 @@ const ProductFormScreen: React.FC<ProductFormScreenProps> = ({ route, navigation
               title={isEditing ? 'Actualizar' : 'Crear'}
               onPress={handleSubmit}
               loading={isSaving}
-              disabled={isSaving}
+              disabled={isSaving || isUploadingImage}
               style={{ flex: 2 }}
             />
           </View>
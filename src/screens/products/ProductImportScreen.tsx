@@ -0,0 +1,372 @@
+// ===============================
+// PRODUCT IMPORT SCREEN - PRESUPUESTOS APP
+// ===============================
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  Alert,
+} from 'react-native';
+import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+import { StackScreenProps } from '@react-navigation/stack';
+
+// Components
+import Button from '../../components/common/Button';
+import Card from '../../components/common/Card';
+import ErrorMessage from '../../components/common/ErrorMessage';
+
+// Context
+import { useTheme } from '../../context/ThemeContext';
+import { useSync } from '../../context/SyncContext';
+import { useStockAlerts } from '../../context/StockAlertContext';
+
+// Services
+import * as productService from '../../services/productService';
+import * as productCsvService from '../../services/productCsvService';
+
+// Types
+import { ProductImportRow, ProductImportResult, ProductStackParamList } from '../../types';
+
+// Constants
+import { CSV_CONFIG, LAYOUT, TYPOGRAPHY } from '../../constants/config';
+
+// ===============================
+// TYPES
+// ===============================
+
+type ProductImportScreenProps = StackScreenProps<ProductStackParamList, 'ProductImport'>;
+
+// ===============================
+// HELPERS
+// ===============================
+
+const hasErrors = (row: ProductImportRow): boolean => Object.keys(row.errors).length > 0;
+
+const EXPECTED_COLUMNS = Object.values(CSV_CONFIG.PRODUCT_COLUMNS)
+  .map(aliases => aliases[0])
+  .join(', ');
+
+// ===============================
+// PRODUCT IMPORT SCREEN
+// ===============================
+
+const ProductImportScreen: React.FC<ProductImportScreenProps> = ({ navigation }) => {
+  // ===============================
+  // HOOKS
+  // ===============================
+
+  const { colors } = useTheme();
+  const { isOnline } = useSync();
+  const { refreshLowStock } = useStockAlerts();
+
+  // ===============================
+  // STATE
+  // ===============================
+
+  const [rows, setRows] = useState<ProductImportRow[]>([]);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState({ processed: 0, total: 0 });
+  const [result, setResult] = useState<ProductImportResult | null>(null);
+  const [error, setError] = useState<string>('');
+
+  // ===============================
+  // HANDLERS
+  // ===============================
+
+  const handlePickFile = async () => {
+    try {
+      setIsReading(true);
+      setError('');
+
+      const text = await productCsvService.pickProductsCsv();
+      if (text === null) return;
+
+      // El catálogo completo se necesita para decidir qué filas actualizan por SKU
+      const catalog = await productService.getAllProducts();
+      setRows(productCsvService.buildImportRows(text, catalog));
+      setResult(null);
+    } catch (err: any) {
+      setRows([]);
+      setError(err.message || 'Error leyendo el archivo');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const runImport = async () => {
+    try {
+      setIsImporting(true);
+      setError('');
+      setProgress({ processed: 0, total: rows.filter(row => !hasErrors(row)).length });
+
+      const importResult = await productCsvService.importProducts(rows, (processed, total) => {
+        setProgress({ processed, total });
+      });
+
+      setResult(importResult);
+      setRows([]);
+      refreshLowStock(true);
+    } catch (err: any) {
+      setError(err.message || 'Error importando productos');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleImport = () => {
+    const invalidCount = rows.filter(hasErrors).length;
+
+    if (invalidCount === 0) {
+      runImport();
+      return;
+    }
+
+    Alert.alert(
+      'Filas con errores',
+      `${invalidCount} fila${invalidCount !== 1 ? 's' : ''} con errores no se importará${invalidCount !== 1 ? 'n' : ''}. ¿Continuar con el resto?`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Importar', onPress: runImport },
+      ]
+    );
+  };
+
+  // ===============================
+  // RENDER FUNCTIONS
+  // ===============================
+
+  const validRows = rows.filter(row => !hasErrors(row));
+  const createCount = validRows.filter(row => row.action === 'create').length;
+  const updateCount = validRows.length - createCount;
+  const errorCount = rows.length - validRows.length;
+
+  const renderSummaryItem = (value: number, label: string, color: string) => (
+    <View style={{ flex: 1, alignItems: 'center' }}>
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.XL,
+        fontWeight: TYPOGRAPHY.FONT_WEIGHT.BOLD,
+        color,
+      }}>
+        {value}
+      </Text>
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.XS,
+        color: colors.textSecondary,
+      }}>
+        {label}
+      </Text>
+    </View>
+  );
+
+  const renderRow = ({ item }: { item: ProductImportRow }) => {
+    const rowHasErrors = hasErrors(item);
+    const badge = rowHasErrors
+      ? { label: 'Con errores', color: colors.error }
+      : item.action === 'update'
+        ? { label: 'Actualizar', color: colors.warning }
+        : { label: 'Nuevo', color: colors.success };
+
+    return (
+      <Card
+        variant="outlined"
+        padding="md"
+        style={{
+          marginBottom: LAYOUT.SPACING.SM,
+          borderLeftWidth: 4,
+          borderLeftColor: badge.color,
+        }}
+      >
+        <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}>
+          <View style={{ flex: 1, marginRight: LAYOUT.SPACING.SM }}>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+              color: colors.text,
+            }} numberOfLines={1}>
+              {item.data.name || 'Sin nombre'}
+            </Text>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+              color: colors.textSecondary,
+            }}>
+              Fila {item.line}{item.data.sku ? ` · ${item.data.sku}` : ''}
+              {!rowHasErrors && ` · ${productService.formatPrice(item.data.price)} · Stock ${item.data.stock}`}
+            </Text>
+          </View>
+
+          <View style={{
+            backgroundColor: badge.color + '20',
+            paddingHorizontal: LAYOUT.SPACING.SM,
+            paddingVertical: LAYOUT.SPACING.XS,
+            borderRadius: LAYOUT.BORDER_RADIUS.SM,
+          }}>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.XS,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+              color: badge.color,
+            }}>
+              {badge.label}
+            </Text>
+          </View>
+        </View>
+
+        {Object.entries(item.errors).map(([field, message]) => (
+          <Text
+            key={field}
+            style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+              color: colors.error,
+              marginTop: LAYOUT.SPACING.XS,
+            }}
+          >
+            • {message}
+          </Text>
+        ))}
+      </Card>
+    );
+  };
+
+  const renderResult = (importResult: ProductImportResult) => (
+    <Card variant="outlined" padding="lg" style={{ marginBottom: LAYOUT.SPACING.LG }}>
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+        fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+        color: colors.text,
+        marginBottom: LAYOUT.SPACING.MD,
+      }}>
+        Importación finalizada
+      </Text>
+
+      <View style={{ flexDirection: 'row', marginBottom: LAYOUT.SPACING.MD }}>
+        {renderSummaryItem(importResult.created, 'Creados', colors.success)}
+        {renderSummaryItem(importResult.updated, 'Actualizados', colors.warning)}
+        {renderSummaryItem(importResult.failed.length, 'Fallidos', colors.error)}
+      </View>
+
+      {importResult.failed.map(failure => (
+        <Text
+          key={failure.line}
+          style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+            color: colors.error,
+            marginBottom: LAYOUT.SPACING.XS,
+          }}
+        >
+          Fila {failure.line} ({failure.name}): {failure.message}
+        </Text>
+      ))}
+
+      <Button
+        title="Volver a productos"
+        onPress={() => navigation.goBack()}
+        style={{ marginTop: LAYOUT.SPACING.MD }}
+      />
+    </Card>
+  );
+
+  const renderHeader = () => (
+    <View>
+      {result && renderResult(result)}
+
+      <Card variant="outlined" padding="lg" style={{ marginBottom: LAYOUT.SPACING.LG }}>
+        <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: LAYOUT.SPACING.SM }}>
+          <MaterialCommunityIcons name="file-delimited-outline" size={20} color={colors.text} style={{ marginRight: 8 }} />
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+            fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+            color: colors.text,
+          }}>
+            Archivo CSV
+          </Text>
+        </View>
+
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+          color: colors.textSecondary,
+          lineHeight: 20,
+          marginBottom: LAYOUT.SPACING.MD,
+        }}>
+          Columnas: {EXPECTED_COLUMNS}. Los productos cuyo SKU ya existe se actualizan
+          (las celdas vacías no modifican el dato actual) y los cambios de stock se registran
+          como ajuste. El resto se crean como productos nuevos.
+        </Text>
+
+        {!isOnline && (
+          <ErrorMessage
+            message="La importación requiere conexión"
+            variant="inline"
+            severity="warning"
+            style={{ marginBottom: LAYOUT.SPACING.MD }}
+          />
+        )}
+
+        {error && (
+          <ErrorMessage
+            message={error}
+            variant="inline"
+            onDismiss={() => setError('')}
+            style={{ marginBottom: LAYOUT.SPACING.MD }}
+          />
+        )}
+
+        <Button
+          title={rows.length > 0 ? 'Elegir otro archivo' : 'Seleccionar archivo CSV'}
+          variant={rows.length > 0 ? 'outline' : 'primary'}
+          onPress={handlePickFile}
+          loading={isReading}
+          disabled={isReading || isImporting || !isOnline}
+          leftIcon={<MaterialCommunityIcons name="file-upload-outline" size={18} color={rows.length > 0 ? colors.primary : '#FFFFFF'} />}
+        />
+      </Card>
+
+      {rows.length > 0 && (
+        <Card variant="outlined" padding="md" style={{ marginBottom: LAYOUT.SPACING.MD }}>
+          <View style={{ flexDirection: 'row' }}>
+            {renderSummaryItem(createCount, 'Nuevos', colors.success)}
+            {renderSummaryItem(updateCount, 'A actualizar', colors.warning)}
+            {renderSummaryItem(errorCount, 'Con errores', colors.error)}
+          </View>
+        </Card>
+      )}
+    </View>
+  );
+
+  // ===============================
+  // RENDER
+  // ===============================
+
+  return (
+    <View style={{ flex: 1, backgroundColor: colors.background }}>
+      <FlatList
+        data={rows}
+        renderItem={renderRow}
+        keyExtractor={(item) => item.line.toString()}
+        ListHeaderComponent={renderHeader}
+        contentContainerStyle={{ padding: LAYOUT.SPACING.LG }}
+        showsVerticalScrollIndicator={false}
+      />
+
+      {rows.length > 0 && (
+        <View style={{
+          padding: LAYOUT.SPACING.LG,
+          backgroundColor: colors.surface,
+          borderTopWidth: 1,
+          borderTopColor: colors.border,
+        }}>
+          <Button
+            title={isImporting
+              ? `Importando ${progress.processed} de ${progress.total}...`
+              : `Importar ${validRows.length} producto${validRows.length !== 1 ? 's' : ''}`}
+            onPress={handleImport}
+            disabled={isImporting || validRows.length === 0 || !isOnline}
+          />
+        </View>
+      )}
+    </View>
+  );
+};
+
+export default ProductImportScreen;
@@ -9,22 +9,31 @@ import {
   FlatList,
   RefreshControl,
   TouchableOpacity,
+  ActivityIndicator,
+  Alert,
 } from 'react-native';
 import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
 import { StackScreenProps } from '@react-navigation/stack';
+import { useFocusEffect } from '@react-navigation/native';
 
 // Components
 import Card from '../../components/common/Card';
 import Input from '../../components/common/Input';
 import Loading from '../../components/common/Loading';
 import ErrorMessage from '../../components/common/ErrorMessage';
+import SyncStatusBanner from '../../components/sync/SyncStatusBanner';
+import PendingSyncBadge from '../../components/sync/PendingSyncBadge';
+import ProductImage from '../../components/products/ProductImage';
 
 // Context
 import { useAuth } from '../../context/AuthContext';
 import { useTheme } from '../../context/ThemeContext';
+import { useSync } from '../../context/SyncContext';
+import { useStockAlerts } from '../../context/StockAlertContext';
 
 // Services
 import * as productService from '../../services/productService';
+import * as productCsvService from '../../services/productCsvService';
 
 // Types
 import { Product, ProductStackParamList } from '../../types';
@@ -49,6 +58,8 @@ const ProductListScreen: React.FC<ProductListScreenProps> = ({ navigation }) =>
 
   const { user } = useAuth();
   const { colors } = useTheme();
+  const { queue } = useSync();
+  const { refreshLowStock } = useStockAlerts();
 
   // ===============================
   // STATE
@@ -60,14 +71,20 @@ const ProductListScreen: React.FC<ProductListScreenProps> = ({ navigation }) =>
   const [error, setError] = useState<string>('');
   const [searchQuery, setSearchQuery] = useState('');
   const [filteredProducts, setFilteredProducts] = useState<Product[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
 
   // ===============================
   // EFFECTS
   // ===============================
 
-  useEffect(() => {
-    loadProducts();
-  }, []);
+  // Al volver a la pantalla se muestra el cache al instante; también recarga
+  // cuando la cola offline cambia (alta local o sincronización)
+  useFocusEffect(
+    useCallback(() => {
+      loadProducts();
+      refreshLowStock();
+    }, [queue.length])
+  );
 
   useEffect(() => {
     filterProducts();
@@ -77,7 +94,7 @@ const ProductListScreen: React.FC<ProductListScreenProps> = ({ navigation }) =>
   // HANDLERS
   // ===============================
 
-  const loadProducts = async () => {
+  const loadProducts = async (forceRefresh = false) => {
     try {
       setError('');
       const response = await productService.getProducts({
@@ -85,6 +102,9 @@ const ProductListScreen: React.FC<ProductListScreenProps> = ({ navigation }) =>
         limit: 50,
         sortBy: 'name',
         sortOrder: 'asc',
+      }, {
+        forceRefresh,
+        onRevalidate: fresh => setProducts(fresh.items),
       });
       console.log('📦 Products loaded:', response.items?.length || 0, 'items');
       console.log('📦 First product:', response.items?.[0]);
@@ -98,7 +118,7 @@ const ProductListScreen: React.FC<ProductListScreenProps> = ({ navigation }) =>
 
   const handleRefresh = useCallback(async () => {
     setIsRefreshing(true);
-    await loadProducts();
+    await Promise.all([loadProducts(true), refreshLowStock(true)]);
     setIsRefreshing(false);
   }, []);
 
@@ -126,14 +146,41 @@ const ProductListScreen: React.FC<ProductListScreenProps> = ({ navigation }) =>
     navigation.navigate('ProductForm' as any);
   };
 
+  const handleImport = () => {
+    navigation.navigate('ProductImport');
+  };
+
+  const handleBulkPriceUpdate = () => {
+    navigation.navigate('BulkPriceUpdate');
+  };
+
+  // Exporta el catálogo completo, no solo la primera página cargada; la búsqueda
+  // activa filtra también el CSV
+  const handleExport = async () => {
+    try {
+      setIsExporting(true);
+      const allProducts = await productService.getAllProducts({ sortBy: 'name', sortOrder: 'asc' });
+      const search = searchQuery.trim();
+      await productCsvService.exportProductsCsv(
+        search ? productService.filterProducts(allProducts, { search }) : allProducts
+      );
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'No se pudo exportar el CSV');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const canManageProducts = user?.role === 'admin' || user?.role === 'seller';
+  const canManagePrices = user?.role === 'admin';
 
   // ===============================
   // RENDER FUNCTIONS
   // ===============================
 
   const renderProductCard = ({ item }: { item: Product }) => {
-    const stockStatus = productService.getStockStatus(item.stock);
+    const availableStock = productService.getAvailableStock(item);
+    const stockStatus = productService.getStockStatus(availableStock, productService.getReorderPoint(item));
 
     return (
       <Card
@@ -153,6 +200,10 @@ const ProductListScreen: React.FC<ProductListScreenProps> = ({ navigation }) =>
               {item.name}
             </Text>
 
+            {item.pendingSync && (
+              <PendingSyncBadge style={{ marginBottom: LAYOUT.SPACING.XS }} />
+            )}
+
             <Text style={{
               fontSize: TYPOGRAPHY.FONT_SIZE.SM,
               color: colors.textSecondary,
@@ -182,7 +233,7 @@ const ProductListScreen: React.FC<ProductListScreenProps> = ({ navigation }) =>
                   fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
                   color: stockStatus.color,
                 }}>
-                  Stock: {item.stock}
+                  Disponible: {availableStock}{productService.getReservedStock(item) > 0 ? ` de ${item.stock}` : ''}
                 </Text>
               </View>
             </View>
@@ -200,24 +251,13 @@ const ProductListScreen: React.FC<ProductListScreenProps> = ({ navigation }) =>
                   paddingVertical: LAYOUT.SPACING.XS,
                   borderRadius: LAYOUT.BORDER_RADIUS.SM,
                 }}>
-                  {item.category}
+                  {item.category}{productService.hasVariants(item) ? ` · ${item.variants?.length} variantes` : ''}{productService.isBundle(item) ? ' · Kit' : ''}
                 </Text>
               </View>
             )}
           </View>
 
-          {item.imageUrl && (
-            <View style={{
-              width: 60,
-              height: 60,
-              backgroundColor: colors.backgroundSecondary,
-              borderRadius: LAYOUT.BORDER_RADIUS.MD,
-              justifyContent: 'center',
-              alignItems: 'center',
-            }}>
-              <MaterialCommunityIcons name="package-variant" size={24} color={colors.textSecondary} />
-            </View>
-          )}
+          <ProductImage uri={productService.getProductImages(item)[0]} size={60} />
         </View>
       </Card>
     );
@@ -289,6 +329,8 @@ const ProductListScreen: React.FC<ProductListScreenProps> = ({ navigation }) =>
 
   return (
     <View style={{ flex: 1, backgroundColor: colors.background }}>
+      <SyncStatusBanner onPress={() => navigation.getParent()?.navigate('Profile', { screen: 'SyncStatus' })} />
+
       {/* Search Header */}
       <View style={{
         paddingHorizontal: LAYOUT.SPACING.LG,
@@ -311,6 +353,88 @@ const ProductListScreen: React.FC<ProductListScreenProps> = ({ navigation }) =>
           ) : undefined}
           onRightIconPress={searchQuery ? () => setSearchQuery('') : undefined}
         />
+
+        {/* CSV */}
+        <View style={{
+          flexDirection: 'row',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+        }}>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+            color: colors.textSecondary,
+          }}>
+            {filteredProducts.length} producto{filteredProducts.length !== 1 ? 's' : ''}
+          </Text>
+
+          <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+            {canManagePrices && (
+              <TouchableOpacity
+                onPress={handleBulkPriceUpdate}
+                style={{
+                  flexDirection: 'row',
+                  alignItems: 'center',
+                  padding: LAYOUT.SPACING.XS,
+                  marginRight: LAYOUT.SPACING.MD,
+                }}
+              >
+                <MaterialCommunityIcons name="cash-sync" size={18} color={colors.primary} style={{ marginRight: 4 }} />
+                <Text style={{
+                  fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+                  fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+                  color: colors.primary,
+                }}>
+                  Precios
+                </Text>
+              </TouchableOpacity>
+            )}
+
+            {canManageProducts && (
+              <TouchableOpacity
+                onPress={handleImport}
+                style={{
+                  flexDirection: 'row',
+                  alignItems: 'center',
+                  padding: LAYOUT.SPACING.XS,
+                  marginRight: LAYOUT.SPACING.MD,
+                }}
+              >
+                <MaterialCommunityIcons name="file-import-outline" size={18} color={colors.primary} style={{ marginRight: 4 }} />
+                <Text style={{
+                  fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+                  fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+                  color: colors.primary,
+                }}>
+                  Importar
+                </Text>
+              </TouchableOpacity>
+            )}
+
+            <TouchableOpacity
+              onPress={handleExport}
+              disabled={isExporting || filteredProducts.length === 0}
+              style={{
+                flexDirection: 'row',
+                alignItems: 'center',
+                padding: LAYOUT.SPACING.XS,
+                opacity: filteredProducts.length === 0 ? 0.5 : 1,
+              }}
+            >
+              {isExporting ? (
+                <ActivityIndicator size="small" color={colors.primary} style={{ marginRight: 4 }} />
+              ) : (
+                <MaterialCommunityIcons name="file-export-outline" size={18} color={colors.primary} style={{ marginRight: 4 }} />
+              )}
+              <Text style={{
+                fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+                fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+                color: colors.primary,
+              }}>
+                Exportar CSV
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
       </View>
 
       {/* Error Message */}
@@ -0,0 +1,473 @@
+// ===============================
+// STOCK MOVEMENT FORM SCREEN - PRESUPUESTOS APP
+// ===============================
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from 'react-native';
+import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+import { StackScreenProps } from '@react-navigation/stack';
+
+// Components
+import Button from '../../components/common/Button';
+import Input from '../../components/common/Input';
+import Card from '../../components/common/Card';
+import ErrorMessage from '../../components/common/ErrorMessage';
+import Loading from '../../components/common/Loading';
+
+// Context
+import { useTheme } from '../../context/ThemeContext';
+import { useSync } from '../../context/SyncContext';
+
+// Services
+import * as productService from '../../services/productService';
+import * as stockService from '../../services/stockService';
+
+// Types
+import { Product, ProductVariant, ProductStackParamList, CreateStockMovementRequest } from '../../types';
+
+// Constants
+import { LAYOUT, TYPOGRAPHY } from '../../constants/config';
+
+// ===============================
+// TYPES
+// ===============================
+
+type StockMovementFormScreenProps = StackScreenProps<ProductStackParamList, 'StockMovementForm'>;
+
+type MovementFormType = CreateStockMovementRequest['type'];
+
+// ===============================
+// CONSTANTS
+// ===============================
+
+const MOVEMENT_TYPES: MovementFormType[] = ['purchase', 'return', 'adjustment'];
+
+// ===============================
+// STOCK MOVEMENT FORM SCREEN
+// ===============================
+
+const StockMovementFormScreen: React.FC<StockMovementFormScreenProps> = ({ route, navigation }) => {
+  // ===============================
+  // PARAMS
+  // ===============================
+
+  const { productId, variantId: initialVariantId } = route.params;
+
+  // ===============================
+  // HOOKS
+  // ===============================
+
+  const { colors } = useTheme();
+  const { isOnline } = useSync();
+
+  // ===============================
+  // STATE
+  // ===============================
+
+  const [product, setProduct] = useState<Product | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const [variantId, setVariantId] = useState<string | undefined>(initialVariantId);
+  const [type, setType] = useState<MovementFormType>('purchase');
+  const [isOutgoing, setIsOutgoing] = useState(false);
+  const [quantity, setQuantity] = useState('');
+  const [reason, setReason] = useState('');
+  const [reference, setReference] = useState('');
+
+  const selectedVariant = product?.variants?.find(variant => variant._id === variantId);
+
+  // ===============================
+  // EFFECTS
+  // ===============================
+
+  useEffect(() => {
+    loadProduct();
+  }, [productId]);
+
+  // ===============================
+  // HANDLERS
+  // ===============================
+
+  const loadProduct = async () => {
+    try {
+      setIsLoading(true);
+      // El saldo se calcula sobre el stock del servidor, no sobre el cache
+      const productData = await productService.getProductById(productId, { forceRefresh: true });
+      setProduct(productData);
+    } catch (err: any) {
+      setError(err.message || 'Error cargando producto');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleTypeChange = (newType: MovementFormType) => {
+    setType(newType);
+    if (newType !== 'adjustment') {
+      setIsOutgoing(false);
+    }
+    setErrors({});
+  };
+
+  const handleVariantChange = (newVariantId: string) => {
+    setVariantId(newVariantId);
+    setErrors({});
+  };
+
+  const buildMovement = (): CreateStockMovementRequest => {
+    const amount = Number(quantity);
+
+    return {
+      type,
+      variantId,
+      quantity: isOutgoing ? -amount : amount,
+      reason: reason.trim() || undefined,
+      reference: reference.trim() || undefined,
+    };
+  };
+
+  const handleSubmit = async () => {
+    if (!product) return;
+
+    // Con variantes el movimiento es siempre de una variante
+    if (productService.hasVariants(product) && !selectedVariant) {
+      setErrors({ variantId: 'Elige la variante' });
+      return;
+    }
+
+    const movement = buildMovement();
+    const validation = stockService.validateStockMovement(selectedVariant || product, movement);
+    setErrors(validation.errors);
+
+    if (!validation.isValid) {
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError('');
+
+      const result = await stockService.createStockMovement(product._id, movement);
+
+      const movedName = result.movement.variant
+        ? `${result.product.name} (${result.movement.variant.label})`
+        : result.product.name;
+
+      Alert.alert(
+        'Movimiento registrado',
+        `Stock de "${movedName}": ${result.movement.balance} unidades`,
+        [
+          {
+            text: 'OK',
+            onPress: () => navigation.goBack(),
+          },
+        ]
+      );
+    } catch (err: any) {
+      setError(err.message || 'Error registrando movimiento');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // ===============================
+  // LOADING STATE
+  // ===============================
+
+  if (isLoading) {
+    return <Loading message="Cargando producto..." />;
+  }
+
+  if (!product) {
+    return (
+      <View style={{ flex: 1, backgroundColor: colors.background }}>
+        <ErrorMessage
+          message={error || 'Producto no encontrado'}
+          variant="card"
+          onRetry={loadProduct}
+          style={{ margin: LAYOUT.SPACING.LG }}
+        />
+      </View>
+    );
+  }
+
+  // ===============================
+  // RENDER FUNCTIONS
+  // ===============================
+
+  const amount = Number(quantity);
+  const currentStock = (selectedVariant || product).stock;
+  const resultingStock = Number.isFinite(amount) && quantity.trim()
+    ? currentStock + (isOutgoing ? -amount : amount)
+    : null;
+
+  const renderVariantOption = (variant: ProductVariant) => {
+    const isSelected = variant._id === variantId;
+
+    return (
+      <TouchableOpacity
+        key={variant._id}
+        onPress={() => handleVariantChange(variant._id)}
+        style={{
+          paddingVertical: LAYOUT.SPACING.SM,
+          paddingHorizontal: LAYOUT.SPACING.MD,
+          borderRadius: LAYOUT.BORDER_RADIUS.PILL,
+          borderWidth: 1,
+          borderColor: isSelected ? colors.primary : colors.border,
+          backgroundColor: isSelected ? colors.primary : colors.backgroundSecondary,
+        }}
+      >
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+          fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+          color: isSelected ? '#FFFFFF' : colors.text,
+        }}>
+          {productService.getVariantLabel(variant)} ({variant.stock})
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderTypeOption = (option: MovementFormType) => {
+    const typeInfo = stockService.formatMovementType(option);
+    const isSelected = type === option;
+
+    return (
+      <TouchableOpacity
+        key={option}
+        onPress={() => handleTypeChange(option)}
+        style={{
+          flex: 1,
+          alignItems: 'center',
+          paddingVertical: LAYOUT.SPACING.MD,
+          borderRadius: LAYOUT.BORDER_RADIUS.MD,
+          borderWidth: 1,
+          borderColor: isSelected ? typeInfo.color : colors.border,
+          backgroundColor: isSelected ? typeInfo.color + '20' : colors.backgroundSecondary,
+        }}
+      >
+        <MaterialCommunityIcons
+          name={typeInfo.icon as React.ComponentProps<typeof MaterialCommunityIcons>['name']}
+          size={22}
+          color={isSelected ? typeInfo.color : colors.textSecondary}
+        />
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+          fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+          color: isSelected ? typeInfo.color : colors.text,
+          marginTop: LAYOUT.SPACING.XS,
+        }}>
+          {typeInfo.label}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderDirectionOption = (outgoing: boolean, label: string) => {
+    const isSelected = isOutgoing === outgoing;
+
+    return (
+      <TouchableOpacity
+        onPress={() => setIsOutgoing(outgoing)}
+        style={{
+          flex: 1,
+          alignItems: 'center',
+          paddingVertical: LAYOUT.SPACING.SM,
+          borderRadius: LAYOUT.BORDER_RADIUS.PILL,
+          borderWidth: 1,
+          borderColor: isSelected ? colors.primary : colors.border,
+          backgroundColor: isSelected ? colors.primary : colors.backgroundSecondary,
+        }}
+      >
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+          fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+          color: isSelected ? '#FFFFFF' : colors.text,
+        }}>
+          {label}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  // ===============================
+  // RENDER
+  // ===============================
+
+  return (
+    <KeyboardAvoidingView
+      style={{ flex: 1 }}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView
+        style={{ flex: 1, backgroundColor: colors.background }}
+        contentContainerStyle={{ padding: LAYOUT.SPACING.LG }}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Card variant="outlined" padding="lg">
+          {/* Header */}
+          <View style={{ marginBottom: LAYOUT.SPACING.LG }}>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.XL,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.BOLD,
+              color: colors.text,
+              textAlign: 'center',
+              marginBottom: LAYOUT.SPACING.SM,
+            }}>
+              {product.name}
+            </Text>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+              color: colors.textSecondary,
+              textAlign: 'center',
+            }}>
+              {selectedVariant
+                ? `${productService.getVariantLabel(selectedVariant)}: ${selectedVariant.stock} unidades`
+                : `Stock físico actual: ${product.stock} unidades`}
+            </Text>
+          </View>
+
+          {/* Offline */}
+          {!isOnline && (
+            <ErrorMessage
+              message="Los movimientos de stock requieren conexión"
+              variant="inline"
+              severity="warning"
+              style={{ marginBottom: LAYOUT.SPACING.MD }}
+            />
+          )}
+
+          {/* General Error */}
+          {error && (
+            <ErrorMessage
+              message={error}
+              variant="inline"
+              onDismiss={() => setError('')}
+              style={{ marginBottom: LAYOUT.SPACING.MD }}
+            />
+          )}
+
+          {/* Variant */}
+          {productService.hasVariants(product) && (
+            <View style={{ marginBottom: LAYOUT.SPACING.LG }}>
+              <Text style={{
+                fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+                fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+                color: colors.text,
+                marginBottom: LAYOUT.SPACING.SM,
+              }}>
+                Variante *
+              </Text>
+              <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: LAYOUT.SPACING.SM }}>
+                {product.variants?.map(renderVariantOption)}
+              </View>
+              {errors.variantId && (
+                <Text style={{
+                  fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+                  color: colors.error,
+                  marginTop: LAYOUT.SPACING.XS,
+                }}>
+                  {errors.variantId}
+                </Text>
+              )}
+            </View>
+          )}
+
+          {/* Type */}
+          <View style={{ flexDirection: 'row', gap: LAYOUT.SPACING.SM, marginBottom: LAYOUT.SPACING.LG }}>
+            {MOVEMENT_TYPES.map(renderTypeOption)}
+          </View>
+
+          {/* Direction (solo ajustes) */}
+          {type === 'adjustment' && (
+            <View style={{ flexDirection: 'row', gap: LAYOUT.SPACING.SM, marginBottom: LAYOUT.SPACING.MD }}>
+              {renderDirectionOption(false, 'Sumar')}
+              {renderDirectionOption(true, 'Restar')}
+            </View>
+          )}
+
+          {/* Quantity */}
+          <Input
+            label="Cantidad"
+            placeholder="0"
+            value={quantity}
+            onChangeText={(text) => {
+              setQuantity(text);
+              if (errors.quantity) setErrors(prev => ({ ...prev, quantity: '' }));
+            }}
+            error={errors.quantity}
+            keyboardType="numeric"
+            required
+            helperText={resultingStock !== null ? `Stock resultante: ${resultingStock} unidades` : undefined}
+            leftIcon={
+              <MaterialCommunityIcons name="counter" size={20} color={colors.textSecondary} />
+            }
+          />
+
+          {/* Reason */}
+          <Input
+            label={type === 'adjustment' ? 'Motivo' : 'Motivo (opcional)'}
+            placeholder={type === 'adjustment' ? 'Ej: Conteo de inventario, rotura' : 'Ej: Reposición mensual'}
+            value={reason}
+            onChangeText={(text) => {
+              setReason(text);
+              if (errors.reason) setErrors(prev => ({ ...prev, reason: '' }));
+            }}
+            error={errors.reason}
+            required={type === 'adjustment'}
+            leftIcon={
+              <MaterialCommunityIcons name="comment-text-outline" size={20} color={colors.textSecondary} />
+            }
+          />
+
+          {/* Reference */}
+          <Input
+            label="Referencia (opcional)"
+            placeholder={type === 'return' ? 'Ej: Q-20250101-0001' : 'Ej: Remito 0001-00001234'}
+            value={reference}
+            onChangeText={setReference}
+            leftIcon={
+              <MaterialCommunityIcons name="file-document-outline" size={20} color={colors.textSecondary} />
+            }
+          />
+
+          {/* Actions */}
+          <View style={{
+            flexDirection: 'row',
+            gap: LAYOUT.SPACING.MD,
+            marginTop: LAYOUT.SPACING.LG,
+          }}>
+            <Button
+              title="Cancelar"
+              variant="outline"
+              onPress={() => navigation.goBack()}
+              style={{ flex: 1 }}
+              disabled={isSaving}
+            />
+
+            <Button
+              title="Registrar"
+              onPress={handleSubmit}
+              loading={isSaving}
+              disabled={isSaving || !isOnline}
+              style={{ flex: 2 }}
+            />
+          </View>
+        </Card>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+export default StockMovementFormScreen;
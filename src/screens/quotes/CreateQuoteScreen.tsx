@@ -22,16 +22,35 @@ import Input from '../../components/common/Input';
 import Card from '../../components/common/Card';
 import ErrorMessage from '../../components/common/ErrorMessage';
 import Loading from '../../components/common/Loading';
+import BarcodeScanner from '../../components/products/BarcodeScanner';
+import TaxRatePicker from '../../components/products/TaxRatePicker';
+import BundleBreakdown from '../../components/quotes/BundleBreakdown';
+
+// Context
+import { useAuth } from '../../context/AuthContext';
 
 // Services
+import * as authService from '../../services/authService';
 import * as productService from '../../services/productService';
 import * as quoteService from '../../services/quoteService';
+import * as customerService from '../../services/customerService';
+import * as quoteTemplateService from '../../services/quoteTemplateService';
 
 // Types
-import { Product, Quote, QuoteStackParamList, CreateQuoteRequest, CustomerFormData } from '../../types';
+import {
+  Product,
+  ProductVariant,
+  Quote,
+  QuoteTemplate,
+  Customer,
+  QuoteStackParamList,
+  CreateQuoteRequest,
+  CreateQuoteTemplateRequest,
+  CustomerFormData,
+} from '../../types';
 
 // Constants
-import { COLORS, LAYOUT, TYPOGRAPHY } from '../../constants/config';
+import { COLORS, LAYOUT, TYPOGRAPHY, MARGIN_CONFIG, TAX_CONFIG } from '../../constants/config';
 
 // Theme
 import { useTheme } from '../../context/ThemeContext';
@@ -44,15 +63,27 @@ type CreateQuoteScreenProps = StackScreenProps<QuoteStackParamList, 'CreateQuote
 
 interface CartItem {
   product: Product;
+  variant?: ProductVariant; // requerida si el producto tiene variantes
   quantity: number;
-  subtotal: number;
+  subtotal: number; // precio x cantidad, antes del descuento de la línea
+  discount: string; // descuento de la línea (%)
+  taxRate: number;
+}
+
+// Línea libre (mano de obra, envío, instalación): no sale del catálogo ni usa stock
+interface CustomLine {
+  description: string;
+  unitPrice: string;
+  quantity: string;
+  discount: string;
+  taxRate: number;
 }
 
 interface QuoteFormData {
   customer: CustomerFormData;
   items: CartItem[];
+  customItems: CustomLine[];
   discount: string;
-  tax: string;
   notes: string;
 }
 
@@ -60,8 +91,20 @@ interface QuoteFormData {
 // CREATE QUOTE SCREEN
 // ===============================
 
-const CreateQuoteScreen: React.FC<CreateQuoteScreenProps> = ({ navigation }) => {
+const CreateQuoteScreen: React.FC<CreateQuoteScreenProps> = ({ route, navigation }) => {
   const { colors } = useTheme();
+  const { user } = useAuth();
+  // Los costos solo llegan a administradores, así que solo ellos ven el margen
+  const canViewMargin = authService.isAdmin(user);
+
+  // ===============================
+  // PARAMS
+  // ===============================
+
+  const quoteId = route.params?.quoteId;
+  const initialCustomer = route.params?.customer;
+  const templateId = route.params?.templateId;
+  const isEditing = Boolean(quoteId);
 
   // ===============================
   // STATE
@@ -75,6 +118,24 @@ const CreateQuoteScreen: React.FC<CreateQuoteScreenProps> = ({ navigation }) =>
   const [filteredProducts, setFilteredProducts] = useState<Product[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [showProductPicker, setShowProductPicker] = useState(false);
+  // Producto con variantes esperando que se elija cuál presupuestar
+  const [variantPickerProduct, setVariantPickerProduct] = useState<Product | null>(null);
+  const [showScanner, setShowScanner] = useState(false);
+  const [scanMessage, setScanMessage] = useState<string>('');
+  const [editingQuote, setEditingQuote] = useState<Quote | null>(null);
+
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [customerSearch, setCustomerSearch] = useState('');
+  const [showCustomerPicker, setShowCustomerPicker] = useState(false);
+  const [selectedCustomerId, setSelectedCustomerId] = useState<string | null>(null);
+
+  const [templates, setTemplates] = useState<QuoteTemplate[]>([]);
+  const [showTemplatePicker, setShowTemplatePicker] = useState(false);
+  const [isLoadingTemplates, setIsLoadingTemplates] = useState(false);
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false);
+  const [templateName, setTemplateName] = useState('');
+  const [templateError, setTemplateError] = useState<string>('');
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
 
   const [formData, setFormData] = useState<QuoteFormData>({
     customer: {
@@ -83,8 +144,8 @@ const CreateQuoteScreen: React.FC<CreateQuoteScreenProps> = ({ navigation }) =>
       phone: '',
     },
     items: [],
+    customItems: [],
     discount: '0',
-    tax: '21',
     notes: '',
   });
 
@@ -95,7 +156,11 @@ const CreateQuoteScreen: React.FC<CreateQuoteScreenProps> = ({ navigation }) =>
   // ===============================
 
   useEffect(() => {
-    loadProducts();
+    loadInitialData();
+  }, [quoteId, templateId]);
+
+  useEffect(() => {
+    loadCustomers();
   }, []);
 
   useEffect(() => {
@@ -106,21 +171,298 @@ const CreateQuoteScreen: React.FC<CreateQuoteScreenProps> = ({ navigation }) =>
   // HANDLERS
   // ===============================
 
-  const loadProducts = async () => {
+  const loadInitialData = async () => {
     try {
       setError('');
-      const response = await productService.getProducts({
+      setIsLoading(true);
+      const [response, quote] = await Promise.all([
+        fetchCatalog(),
+        // Se edita siempre sobre la versión del servidor, no sobre el cache
+        quoteId ? quoteService.getQuoteById(quoteId, { forceRefresh: true }) : Promise.resolve(null),
+      ]);
+      setProducts(getQuotableProducts(response.items, quote));
+
+      if (quote) {
+        setEditingQuote(quote);
+        prefillForm(quote, response.items);
+      } else if (initialCustomer) {
+        // Nuevo presupuesto para un cliente existente (ej. desde su historial)
+        setSelectedCustomerId(initialCustomer.customerId || null);
+        setFormData(prev => ({
+          ...prev,
+          customer: {
+            name: initialCustomer.name,
+            email: initialCustomer.email || '',
+            phone: initialCustomer.phone || '',
+          },
+        }));
+      }
+
+      // Nuevo presupuesto desde la pantalla de plantillas
+      if (!quote && templateId) {
+        const template = (await quoteTemplateService.getQuoteTemplates()).find(item => item._id === templateId);
+        if (template) {
+          applyTemplate(template, await fetchTemplateCatalog());
+        }
+      }
+    } catch (err: any) {
+      setError(err.message || (isEditing ? 'Error cargando presupuesto' : 'Error cargando productos'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Stock y reservas cambian con cada presupuesto de otros vendedores: no se usa el cache
+  const fetchCatalog = () => productService.getProducts({
+    page: 1,
+    limit: 100,
+    sortBy: 'name',
+    sortOrder: 'asc',
+    isActive: true,
+  }, { forceRefresh: true });
+
+  // Una plantilla puede tener productos de cualquier página: sin el catálogo completo se
+  // darían por eliminados los que no llegaron
+  const fetchTemplateCatalog = () => productService.getAllProducts({
+    sortBy: 'name',
+    sortOrder: 'asc',
+    isActive: true,
+  });
+
+  // Productos con stock disponible, más los que ya reserva el presupuesto en edición
+  const getQuotableProducts = (catalog: Product[], quote: Quote | null = editingQuote) => {
+    return catalog.filter(product =>
+      productService.getAvailableStock(product) > 0 ||
+      quote?.items.some(item => item.product?._id === product._id)
+    );
+  };
+
+  /**
+   * Volver a cargar stock y reservas, por ejemplo si el servidor rechazó el
+   * presupuesto porque otro vendedor reservó las últimas unidades
+   */
+  const refreshCatalog = async () => {
+    try {
+      const response = await fetchCatalog();
+      setProducts(getQuotableProducts(response.items));
+      setFormData(prev => ({
+        ...prev,
+        items: prev.items.map(item => {
+          const product = response.items.find(p => p._id === item.product._id) || item.product;
+          return {
+            ...item,
+            product,
+            variant: product.variants?.find(variant => variant._id === item.variant?._id) || item.variant,
+          };
+        }),
+      }));
+    } catch (err) {
+      console.error('Error refreshing catalog:', err);
+    }
+  };
+
+  // Unidades del producto (o de la variante) que el presupuesto en edición ya tiene reservadas
+  const getHeldQuantity = (productId: string, variantId?: string): number => {
+    if (!editingQuote || editingQuote.status !== 'pending') return 0;
+
+    return editingQuote.items
+      .filter(item => item.product?._id === productId && item.productSnapshot.variant?._id === variantId)
+      .reduce((sum, item) => sum + item.quantity, 0);
+  };
+
+  const findCartItemIndex = (product: Product, variant?: ProductVariant): number => {
+    return formData.items.findIndex(item => item.product._id === product._id && item.variant?._id === variant?._id);
+  };
+
+  const loadCustomers = async () => {
+    try {
+      const response = await customerService.getCustomers({
         page: 1,
         limit: 100,
         sortBy: 'name',
         sortOrder: 'asc',
-        isActive: true,
       });
-      setProducts(response.items.filter(p => p.stock > 0));
+      setCustomers(response.items);
+    } catch (err: any) {
+      // El directorio es opcional, los datos del cliente se pueden cargar a mano
+      console.error('Error loading customers:', err);
+    }
+  };
+
+  const prefillForm = (quote: Quote, catalog: Product[]) => {
+    // Los montos del presupuesto vienen calculados, se convierten a porcentaje para el formulario
+    const summary = quoteService.getQuoteSummary(quote);
+    const toPercentageString = (value: number) => Number(value.toFixed(2)).toString();
+
+    // Producto eliminado (llega sin populate) o variante presupuestada que ya no existe:
+    // la línea no se puede editar y hay que avisar antes de que se guarde sin ella
+    const dropped: string[] = [];
+    const items = quote.items.flatMap(item => {
+      if (!item.product) {
+        dropped.push(`${quoteService.formatItemName(item.productSnapshot)}: el producto se eliminó`);
+        return [];
+      }
+
+      // Preferir el producto del catálogo para tener precio y stock actualizados
+      const product = catalog.find(p => p._id === item.product._id) || item.product;
+      const variantId = item.productSnapshot.variant?._id;
+      const variant = variantId ? product.variants?.find(candidate => candidate._id === variantId) : undefined;
+      if (productService.hasVariants(product) && !variant) {
+        dropped.push(`${quoteService.formatItemName(item.productSnapshot)}: la variante ya no existe, elige otra`);
+        return [];
+      }
+
+      return [{
+        product,
+        variant,
+        quantity: item.quantity,
+        subtotal: productService.getUnitPrice(product, variant) * item.quantity,
+        discount: item.discount ? toPercentageString(item.discount) : '',
+        taxRate: item.taxRate ?? productService.getTaxRate(product),
+      }];
+    });
+
+    setSelectedCustomerId(quote.customer.customerId || null);
+    setFormData({
+      customer: {
+        name: quote.customer.name,
+        email: quote.customer.email || '',
+        phone: quote.customer.phone || '',
+      },
+      items,
+      customItems: (quote.customItems || []).map(item => ({
+        description: item.description,
+        unitPrice: item.unitPrice.toString(),
+        quantity: item.quantity.toString(),
+        discount: item.discount ? toPercentageString(item.discount) : '',
+        taxRate: item.taxRate,
+      })),
+      discount: toPercentageString(summary.discountPercentage),
+      notes: quote.notes || '',
+    });
+
+    if (dropped.length > 0) {
+      Alert.alert(
+        'Líneas quitadas del presupuesto',
+        `Si guardas, el presupuesto queda sin estas líneas:\n\n${dropped.join('\n')}`
+      );
+    }
+  };
+
+  /**
+   * Reemplazar las líneas, el descuento y las notas por los de la plantilla. El cliente
+   * se mantiene; los precios son los del catálogo y las cantidades se ajustan al stock
+   */
+  const applyTemplate = (template: QuoteTemplate, catalog: Product[]) => {
+    const resolved = quoteTemplateService.resolveTemplateItems(template, catalog, getHeldQuantity);
+
+    setFormData(prev => ({
+      ...prev,
+      items: resolved.items.map(item => ({
+        product: item.product,
+        variant: item.variant,
+        quantity: item.quantity,
+        subtotal: productService.getUnitPrice(item.product, item.variant) * item.quantity,
+        discount: item.discount ? item.discount.toString() : '',
+        taxRate: item.taxRate,
+      })),
+      customItems: (template.customItems || []).map(item => ({
+        description: item.description,
+        unitPrice: item.unitPrice.toString(),
+        quantity: item.quantity.toString(),
+        discount: item.discount ? item.discount.toString() : '',
+        taxRate: item.taxRate,
+      })),
+      discount: template.discount ? template.discount.toString() : '0',
+      notes: template.notes || prev.notes,
+    }));
+    setErrors({});
+
+    const warnings = [...resolved.skipped, ...resolved.adjusted];
+    if (warnings.length > 0) {
+      Alert.alert('Plantilla ajustada al stock', `Revisa las líneas de "${template.name}":\n\n${warnings.join('\n')}`);
+    }
+  };
+
+  const openTemplatePicker = async () => {
+    setShowTemplatePicker(true);
+
+    try {
+      setIsLoadingTemplates(true);
+      setTemplates(await quoteTemplateService.getQuoteTemplates());
     } catch (err: any) {
-      setError(err.message || 'Error cargando productos');
+      Alert.alert('Error', err.message || 'Error cargando plantillas');
+      setShowTemplatePicker(false);
     } finally {
-      setIsLoading(false);
+      setIsLoadingTemplates(false);
+    }
+  };
+
+  const selectTemplate = (template: QuoteTemplate) => {
+    setShowTemplatePicker(false);
+
+    if (formData.items.length === 0 && formData.customItems.length === 0) {
+      startFromTemplate(template);
+      return;
+    }
+
+    Alert.alert(
+      'Usar plantilla',
+      `Los productos y conceptos cargados se reemplazan por los de "${template.name}". El cliente se mantiene.`,
+      [
+        {
+          text: 'Cancelar',
+          style: 'cancel',
+        },
+        {
+          text: 'Reemplazar',
+          onPress: () => startFromTemplate(template),
+        },
+      ]
+    );
+  };
+
+  // La plantilla pudo guardarse hace semanas: precios y stock se vuelven a consultar
+  const startFromTemplate = async (template: QuoteTemplate) => {
+    try {
+      const catalog = await fetchTemplateCatalog();
+      setProducts(getQuotableProducts(catalog));
+      applyTemplate(template, catalog);
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Error cargando productos');
+    }
+  };
+
+  /**
+   * Guardar las líneas, el descuento y las notas actuales como plantilla, sin el cliente
+   */
+  const handleSaveTemplate = async () => {
+    const templateData: CreateQuoteTemplateRequest = {
+      name: templateName.trim(),
+      items: toRequestItems(),
+      customItems: toRequestCustomItems(),
+      discount: parseFloat(formData.discount || '0'),
+      ...(formData.notes.trim() && { notes: formData.notes.trim() }),
+    };
+
+    const validation = quoteTemplateService.validateQuoteTemplateData(templateData);
+    if (!validation.isValid) {
+      setTemplateError(Object.values(validation.errors)[0]);
+      return;
+    }
+
+    try {
+      setIsSavingTemplate(true);
+      setTemplateError('');
+      const template = await quoteTemplateService.createQuoteTemplate(templateData);
+
+      setShowSaveTemplate(false);
+      setTemplateName('');
+      Alert.alert('Plantilla guardada', `"${template.name}" queda disponible para los próximos presupuestos`);
+    } catch (err: any) {
+      setTemplateError(err.message || 'Error guardando plantilla');
+    } finally {
+      setIsSavingTemplate(false);
     }
   };
 
@@ -157,8 +499,37 @@ const CreateQuoteScreen: React.FC<CreateQuoteScreenProps> = ({ navigation }) =>
     }
   };
 
-  const addProductToQuote = (product: Product) => {
-    const existingItemIndex = formData.items.findIndex(item => item.product._id === product._id);
+  const selectCustomer = (customer: Customer) => {
+    setSelectedCustomerId(customer._id);
+    setFormData(prev => ({
+      ...prev,
+      customer: {
+        name: customer.name,
+        email: customer.email || '',
+        phone: customer.phone || '',
+      },
+    }));
+    setErrors(prev => ({ ...prev, customerName: '', customerEmail: '', customerPhone: '' }));
+    setCustomerSearch('');
+    setShowCustomerPicker(false);
+  };
+
+  const clearSelectedCustomer = () => {
+    setSelectedCustomerId(null);
+    setFormData(prev => ({
+      ...prev,
+      customer: { name: '', email: '', phone: '' },
+    }));
+  };
+
+  const addProductToQuote = (product: Product, variant?: ProductVariant) => {
+    // Los productos con variantes se presupuestan siempre por variante
+    if (productService.hasVariants(product) && !variant) {
+      setVariantPickerProduct(product);
+      return;
+    }
+
+    const existingItemIndex = findCartItemIndex(product, variant);
 
     if (existingItemIndex >= 0) {
       // Incrementar cantidad si ya existe
@@ -167,8 +538,11 @@ const CreateQuoteScreen: React.FC<CreateQuoteScreenProps> = ({ navigation }) =>
       // Agregar nuevo item
       const newItem: CartItem = {
         product,
+        variant,
         quantity: 1,
-        subtotal: product.price,
+        subtotal: productService.getUnitPrice(product, variant),
+        discount: '',
+        taxRate: productService.getTaxRate(product),
       };
 
       setFormData(prev => ({
@@ -177,9 +551,56 @@ const CreateQuoteScreen: React.FC<CreateQuoteScreenProps> = ({ navigation }) =>
       }));
     }
 
+    setVariantPickerProduct(null);
     setShowProductPicker(false);
   };
 
+  const openScanner = () => {
+    setScanMessage('');
+    setShowScanner(true);
+  };
+
+  const handleScannedCode = async (code: string) => {
+    try {
+      setScanMessage(`Buscando ${code}...`);
+      const product = await productService.getProductByBarcode(code);
+
+      if (!product) {
+        setScanMessage(`No hay productos con el código ${code}`);
+        return;
+      }
+
+      if (!product.isActive) {
+        setScanMessage(`${product.name} no está disponible`);
+        return;
+      }
+
+      // El SKU de una variante la identifica; con el código del producto hay que elegirla
+      const variant = productService.findVariantByCode(product, code);
+      if (productService.hasVariants(product) && !variant) {
+        setShowScanner(false);
+        setVariantPickerProduct(product);
+        return;
+      }
+
+      // El escáner queda abierto para seguir agregando, así que el stock se valida acá
+      const existingItem = formData.items[findCartItemIndex(product, variant)];
+      const newQuantity = (existingItem?.quantity || 0) + 1;
+      const stockCheck = productService.checkStockAvailability(variant || product, newQuantity, getHeldQuantity(product._id, variant?._id));
+      const name = variant ? `${product.name} (${productService.getVariantLabel(variant)})` : product.name;
+
+      if (!stockCheck.available) {
+        setScanMessage(`${name}: ${stockCheck.message}`);
+        return;
+      }
+
+      addProductToQuote(existingItem ? existingItem.product : product, existingItem ? existingItem.variant : variant);
+      setScanMessage(`Agregado: ${name} (x${newQuantity})`);
+    } catch (err: any) {
+      setScanMessage(err.message || 'Error buscando producto');
+    }
+  };
+
   const updateItemQuantity = (index: number, newQuantity: number) => {
     if (newQuantity <= 0) {
       removeItem(index);
@@ -187,7 +608,11 @@ const CreateQuoteScreen: React.FC<CreateQuoteScreenProps> = ({ navigation }) =>
     }
 
     const item = formData.items[index];
-    const stockCheck = productService.checkStockAvailability(item.product, newQuantity);
+    const stockCheck = productService.checkStockAvailability(
+      item.variant || item.product,
+      newQuantity,
+      getHeldQuantity(item.product._id, item.variant?._id)
+    );
 
     if (!stockCheck.available) {
       Alert.alert('Stock insuficiente', stockCheck.message);
@@ -198,12 +623,43 @@ const CreateQuoteScreen: React.FC<CreateQuoteScreenProps> = ({ navigation }) =>
       ...prev,
       items: prev.items.map((item, i) =>
         i === index
-          ? { ...item, quantity: newQuantity, subtotal: item.product.price * newQuantity }
+          ? { ...item, quantity: newQuantity, subtotal: productService.getUnitPrice(item.product, item.variant) * newQuantity }
           : item
       )
     }));
   };
 
+  const updateItem = (index: number, changes: Partial<Pick<CartItem, 'discount' | 'taxRate'>>) => {
+    setFormData(prev => ({
+      ...prev,
+      items: prev.items.map((item, i) => i === index ? { ...item, ...changes } : item)
+    }));
+  };
+
+  const addCustomLine = () => {
+    setFormData(prev => ({
+      ...prev,
+      customItems: [
+        ...prev.customItems,
+        { description: '', unitPrice: '', quantity: '1', discount: '', taxRate: TAX_CONFIG.DEFAULT_IVA_RATE },
+      ]
+    }));
+  };
+
+  const updateCustomLine = (index: number, changes: Partial<CustomLine>) => {
+    setFormData(prev => ({
+      ...prev,
+      customItems: prev.customItems.map((item, i) => i === index ? { ...item, ...changes } : item)
+    }));
+  };
+
+  const removeCustomLine = (index: number) => {
+    setFormData(prev => ({
+      ...prev,
+      customItems: prev.customItems.filter((_, i) => i !== index)
+    }));
+  };
+
   const removeItem = (index: number) => {
     setFormData(prev => ({
       ...prev,
@@ -211,19 +667,46 @@ const CreateQuoteScreen: React.FC<CreateQuoteScreenProps> = ({ navigation }) =>
     }));
   };
 
+  const toRequestItems = (): CreateQuoteRequest['items'] => {
+    return formData.items.map(item => ({
+      productId: item.product._id,
+      variantId: item.variant?._id,
+      quantity: item.quantity,
+      discount: parseFloat(item.discount) || undefined,
+      taxRate: item.taxRate,
+    }));
+  };
+
+  const toRequestCustomItems = (): CreateQuoteRequest['customItems'] => {
+    return formData.customItems.map(item => ({
+      description: item.description.trim(),
+      unitPrice: parseFloat(item.unitPrice),
+      quantity: parseFloat(item.quantity),
+      discount: parseFloat(item.discount) || undefined,
+      taxRate: item.taxRate,
+    }));
+  };
+
   const calculateTotals = () => {
-    const subtotal = formData.items.reduce((sum, item) => sum + item.subtotal, 0);
-    const discountAmount = (subtotal * parseFloat(formData.discount || '0')) / 100;
-    const afterDiscount = subtotal - discountAmount;
-    const taxAmount = (afterDiscount * parseFloat(formData.tax || '0')) / 100;
-    const total = afterDiscount + taxAmount;
-
-    return {
-      subtotal,
-      discountAmount,
-      taxAmount,
-      total,
-    };
+    return quoteService.calculateQuoteTotals(
+      formData.items.map(item => ({ ...item, discount: parseFloat(item.discount || '0') })),
+      parseFloat(formData.discount || '0'),
+      formData.customItems.map(item => ({
+        unitPrice: parseFloat(item.unitPrice) || 0,
+        quantity: parseFloat(item.quantity) || 0,
+        discount: parseFloat(item.discount) || 0,
+        taxRate: item.taxRate,
+      }))
+    );
+  };
+
+  /**
+   * Avisar si el presupuesto guardado quedó esperando la aprobación del margen
+   */
+  const getMarginApprovalNotice = (quote: Quote): string => {
+    return quoteService.needsMarginApproval(quote)
+      ? `\n\nEl margen quedó bajo el mínimo (${MARGIN_CONFIG.MIN_MARGIN_PERCENTAGE}%): un administrador tiene que aprobarlo antes de cobrar.`
+      : '';
   };
 
   const validateForm = (): boolean => {
@@ -231,12 +714,9 @@ const CreateQuoteScreen: React.FC<CreateQuoteScreenProps> = ({ navigation }) =>
 
     const requestData: CreateQuoteRequest = {
       customer: formData.customer,
-      items: formData.items?.map(item => ({
-        productId: item.product._id,
-        quantity: item.quantity,
-      })) || [],
+      items: toRequestItems(),
+      customItems: toRequestCustomItems(),
       discount: parseFloat(formData.discount || '0'),
-      tax: parseFloat(formData.tax || '0'),
       ...(formData.notes.trim() && { notes: formData.notes.trim() }),
     };
 
@@ -267,24 +747,50 @@ const CreateQuoteScreen: React.FC<CreateQuoteScreenProps> = ({ navigation }) =>
       setIsSaving(true);
       setError('');
 
+      // Los datos del directorio (CUIT, dirección) se copian al presupuesto junto con lo editado en el formulario
+      const directoryCustomer = customers.find(c => c._id === selectedCustomerId);
       const quoteData: CreateQuoteRequest = {
-        customer: formData.customer,
-        items: formData.items.map(item => ({
-          productId: item.product._id,
-          quantity: item.quantity,
-        })),
+        customer: {
+          ...(editingQuote?.customer || initialCustomer),
+          ...(directoryCustomer && customerService.toQuoteCustomer(directoryCustomer)),
+          ...formData.customer,
+          customerId: selectedCustomerId || undefined,
+        },
+        items: toRequestItems(),
+        customItems: toRequestCustomItems(),
         discount: parseFloat(formData.discount || '0'),
-        tax: parseFloat(formData.tax || '0'),
         ...(formData.notes.trim() && { notes: formData.notes.trim() }),
       };
 
       console.log('📋 Quote data completo:', JSON.stringify(quoteData, null, 2));
 
-      const savedQuote = await quoteService.createQuote(quoteData);
+      if (isEditing && quoteId) {
+        const updatedQuote = await quoteService.updateQuote(quoteId, quoteData);
+
+        Alert.alert(
+          'Éxito',
+          `Presupuesto actualizado correctamente${getMarginApprovalNotice(updatedQuote)}`,
+          [
+            {
+              text: 'OK',
+              onPress: () => navigation.goBack(),
+            },
+          ]
+        );
+        return;
+      }
+
+      // Los productos permiten armar la versión local si no hay conexión
+      const savedQuote = await quoteService.createQuote(
+        quoteData,
+        formData.items.map(item => item.product)
+      );
 
       Alert.alert(
-        'Éxito',
-        'Presupuesto creado correctamente',
+        savedQuote.pendingSync ? 'Guardado sin conexión' : 'Éxito',
+        savedQuote.pendingSync
+          ? 'El presupuesto se guardó en el dispositivo y se enviará al recuperar la señal'
+          : `Presupuesto creado correctamente${getMarginApprovalNotice(savedQuote)}`,
         [
           {
             text: 'Ver presupuesto',
@@ -299,13 +805,17 @@ const CreateQuoteScreen: React.FC<CreateQuoteScreenProps> = ({ navigation }) =>
       console.log('❌ Error completo:', err);
       console.log('❌ Error response:', err.response?.data);
       console.log('❌ Error details:', err.response?.data?.error?.details);
-      setError(err.message || 'Error creando presupuesto');
+      setError(err.message || (isEditing ? 'Error actualizando presupuesto' : 'Error creando presupuesto'));
+      refreshCatalog();
     } finally {
       setIsSaving(false);
     }
   };
 
   const totals = calculateTotals();
+  const hasLines = formData.items.length > 0 || formData.customItems.length > 0;
+  const filteredCustomers = customerService.filterCustomers(customers, customerSearch);
+  const selectedCustomer = customers.find(c => c._id === selectedCustomerId);
 
   // ===============================
   // RENDER FUNCTIONS
@@ -334,10 +844,119 @@ const CreateQuoteScreen: React.FC<CreateQuoteScreenProps> = ({ navigation }) =>
           fontSize: TYPOGRAPHY.FONT_SIZE.SM,
           color: colors.textSecondary,
         }}>
-          Stock: {item.stock} • ${item.price.toLocaleString('es-AR')}
+          {productService.hasVariants(item)
+            ? `${item.variants?.length} variantes • Disponible: ${productService.getAvailableStock(item) + getHeldQuantity(item._id)}`
+            : `${productService.isBundle(item) ? 'Kit • ' : ''}Disponible: ${productService.getAvailableStock(item) + getHeldQuantity(item._id)} • $${item.price.toLocaleString('es-AR')}`}
+        </Text>
+      </View>
+      <MaterialCommunityIcons
+        name={productService.hasVariants(item) ? 'chevron-right' : 'plus'}
+        size={20}
+        color={colors.primary}
+      />
+    </TouchableOpacity>
+  );
+
+  const renderVariantItem = ({ item }: { item: ProductVariant }) => {
+    const product = variantPickerProduct as Product;
+    const availableQuantity = productService.getAvailableStock(item) + getHeldQuantity(product._id, item._id);
+
+    return (
+      <TouchableOpacity
+        onPress={() => addProductToQuote(product, item)}
+        disabled={availableQuantity <= 0}
+        style={{
+          flexDirection: 'row',
+          padding: LAYOUT.SPACING.MD,
+          borderBottomWidth: 1,
+          borderBottomColor: colors.border,
+          alignItems: 'center',
+          opacity: availableQuantity > 0 ? 1 : 0.5,
+        }}
+      >
+        <View style={{ flex: 1 }}>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+            fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+            color: colors.text,
+          }}>
+            {productService.getVariantLabel(item)}
+          </Text>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+            color: colors.textSecondary,
+          }}>
+            {item.sku} • {availableQuantity > 0 ? `Disponible: ${availableQuantity}` : 'Sin stock'} • ${productService.getUnitPrice(product, item).toLocaleString('es-AR')}
+          </Text>
+        </View>
+        {availableQuantity > 0 && (
+          <MaterialCommunityIcons name="plus" size={20} color={colors.primary} />
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderCustomerItem = ({ item }: { item: Customer }) => (
+    <TouchableOpacity
+      onPress={() => selectCustomer(item)}
+      style={{
+        flexDirection: 'row',
+        padding: LAYOUT.SPACING.MD,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.border,
+        alignItems: 'center',
+      }}
+    >
+      <View style={{ flex: 1 }}>
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+          fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+          color: colors.text,
+        }}>
+          {item.name}
+        </Text>
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+          color: colors.textSecondary,
+        }} numberOfLines={1}>
+          {[item.email, item.phone, item.taxId && `CUIT ${customerService.formatTaxId(item.taxId)}`].filter(Boolean).join(' • ') || 'Sin datos de contacto'}
+        </Text>
+      </View>
+      {item._id === selectedCustomerId ? (
+        <MaterialCommunityIcons name="check" size={20} color={colors.success} />
+      ) : (
+        <MaterialCommunityIcons name="chevron-right" size={20} color={colors.primary} />
+      )}
+    </TouchableOpacity>
+  );
+
+  const renderTemplateItem = ({ item }: { item: QuoteTemplate }) => (
+    <TouchableOpacity
+      onPress={() => selectTemplate(item)}
+      style={{
+        flexDirection: 'row',
+        padding: LAYOUT.SPACING.MD,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.border,
+        alignItems: 'center',
+      }}
+    >
+      <View style={{ flex: 1 }}>
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+          fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+          color: colors.text,
+        }}>
+          {item.name}
+        </Text>
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+          color: colors.textSecondary,
+        }} numberOfLines={1}>
+          {quoteTemplateService.formatTemplateSummary(item)}
         </Text>
       </View>
-      <MaterialCommunityIcons name="plus" size={20} color={colors.primary} />
+      <MaterialCommunityIcons name="chevron-right" size={20} color={colors.primary} />
     </TouchableOpacity>
   );
 
@@ -356,8 +975,11 @@ const CreateQuoteScreen: React.FC<CreateQuoteScreenProps> = ({ navigation }) =>
             fontSize: TYPOGRAPHY.FONT_SIZE.SM,
             color: colors.textSecondary,
           }}>
-            ${item.product.price.toLocaleString('es-AR')} c/u
+            {item.variant ? `${productService.getVariantLabel(item.variant)} • ` : ''}${productService.getUnitPrice(item.product, item.variant).toLocaleString('es-AR')} c/u
           </Text>
+          {item.product.bundle && (
+            <BundleBreakdown components={item.product.bundle.components} quantity={item.quantity} />
+          )}
         </View>
 
         <View style={{ flexDirection: 'row', alignItems: 'center', gap: LAYOUT.SPACING.SM }}>
@@ -416,6 +1038,30 @@ const CreateQuoteScreen: React.FC<CreateQuoteScreenProps> = ({ navigation }) =>
         </View>
       </View>
 
+      <View style={{
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: LAYOUT.SPACING.SM,
+        marginTop: LAYOUT.SPACING.SM,
+      }}>
+        <View style={{ width: 96 }}>
+          <Input
+            placeholder="Desc. %"
+            value={item.discount}
+            onChangeText={(text) => updateItem(index, { discount: text })}
+            error={errors[`item${index}Discount`]}
+            keyboardType="numeric"
+          />
+        </View>
+        <View style={{ flex: 1 }}>
+          <TaxRatePicker
+            value={item.taxRate}
+            onChange={(taxRate) => updateItem(index, { taxRate })}
+            size="sm"
+          />
+        </View>
+      </View>
+
       <View style={{
         flexDirection: 'row',
         justifyContent: 'space-between',
@@ -429,29 +1075,154 @@ const CreateQuoteScreen: React.FC<CreateQuoteScreenProps> = ({ navigation }) =>
           fontSize: TYPOGRAPHY.FONT_SIZE.SM,
           color: colors.textSecondary,
         }}>
-          Subtotal:
+          Subtotal{totals.lines[index]?.discountAmount > 0 ? ` (-${item.discount}%)` : ''}:
         </Text>
         <Text style={{
           fontSize: TYPOGRAPHY.FONT_SIZE.MD,
           fontWeight: TYPOGRAPHY.FONT_WEIGHT.BOLD,
           color: colors.primary,
         }}>
-          ${item.subtotal.toLocaleString('es-AR')}
+          ${(totals.lines[index]?.subtotal ?? item.subtotal).toLocaleString('es-AR')}
         </Text>
       </View>
+
+      {canViewMargin && totals.lines[index]?.marginPercentage !== undefined && (
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+          color: quoteService.isMarginBelowMinimum(totals.lines[index].marginPercentage) ? colors.error : colors.textSecondary,
+          textAlign: 'right',
+          marginTop: LAYOUT.SPACING.XS,
+        }}>
+          Margen después del descuento: {quoteService.formatMargin(totals.lines[index].marginPercentage as number)}
+        </Text>
+      )}
     </Card>
   );
 
-  // ===============================
-  // LOADING STATE
-  // ===============================
+  const renderCustomLine = (item: CustomLine, index: number) => (
+    <Card key={`custom-line-${index}`} variant="outlined" padding="md" style={{ marginBottom: LAYOUT.SPACING.MD }}>
+      <View style={{ flexDirection: 'row', alignItems: 'flex-start', gap: LAYOUT.SPACING.SM }}>
+        <View style={{ flex: 1 }}>
+          <Input
+            placeholder="Ej: Instalación, envío, mano de obra"
+            value={item.description}
+            onChangeText={(text) => updateCustomLine(index, { description: text })}
+            error={errors[`custom${index}Description`]}
+          />
+        </View>
+        <TouchableOpacity
+          onPress={() => removeCustomLine(index)}
+          style={{
+            width: 32,
+            height: 32,
+            borderRadius: 16,
+            backgroundColor: COLORS.errorLight + '20',
+            alignItems: 'center',
+            justifyContent: 'center',
+            marginTop: LAYOUT.SPACING.SM,
+          }}
+        >
+          <MaterialCommunityIcons name="delete-outline" size={16} color={colors.error} />
+        </TouchableOpacity>
+      </View>
 
-  if (isLoading) {
-    return <Loading message="Cargando productos..." />;
-  }
+      <View style={{ flexDirection: 'row', gap: LAYOUT.SPACING.SM }}>
+        <View style={{ flex: 2 }}>
+          <Input
+            label="Precio unitario"
+            placeholder="0"
+            value={item.unitPrice}
+            onChangeText={(text) => updateCustomLine(index, { unitPrice: text })}
+            error={errors[`custom${index}Price`]}
+            keyboardType="numeric"
+          />
+        </View>
+        <View style={{ flex: 1 }}>
+          <Input
+            label="Cantidad"
+            placeholder="1"
+            value={item.quantity}
+            onChangeText={(text) => updateCustomLine(index, { quantity: text })}
+            error={errors[`custom${index}Quantity`]}
+            keyboardType="numeric"
+          />
+        </View>
+        <View style={{ flex: 1 }}>
+          <Input
+            label="Desc. %"
+            placeholder="0"
+            value={item.discount}
+            onChangeText={(text) => updateCustomLine(index, { discount: text })}
+            error={errors[`custom${index}Discount`]}
+            keyboardType="numeric"
+          />
+        </View>
+      </View>
 
+      <TaxRatePicker
+        value={item.taxRate}
+        onChange={(taxRate) => updateCustomLine(index, { taxRate })}
+        size="sm"
+      />
 
-  // ===============================
+      <View style={{
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginTop: LAYOUT.SPACING.SM,
+        paddingTop: LAYOUT.SPACING.SM,
+        borderTopWidth: 1,
+        borderTopColor: colors.border,
+      }}>
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+          color: colors.textSecondary,
+        }}>
+          Subtotal:
+        </Text>
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+          fontWeight: TYPOGRAPHY.FONT_WEIGHT.BOLD,
+          color: colors.primary,
+        }}>
+          ${(totals.customLines[index]?.subtotal || 0).toLocaleString('es-AR')}
+        </Text>
+      </View>
+    </Card>
+  );
+
+  // ===============================
+  // LOADING STATE
+  // ===============================
+
+  if (isLoading) {
+    return <Loading message={isEditing ? 'Cargando presupuesto...' : 'Cargando productos...'} />;
+  }
+
+  // ===============================
+  // LOCKED STATE
+  // ===============================
+
+  if (editingQuote && !quoteService.canEditQuote(editingQuote)) {
+    const statusInfo = quoteService.formatQuoteStatus(
+      quoteService.isQuoteExpired(editingQuote) ? 'expired' : editingQuote.status
+    );
+
+    return (
+      <View style={{ flex: 1, backgroundColor: colors.background }}>
+        <ErrorMessage
+          message={`El presupuesto ${editingQuote.quoteNumber} está en estado "${statusInfo.label}" y no se puede editar. Solo los presupuestos pendientes son editables.`}
+          variant="card"
+          severity="warning"
+          onRetry={() => navigation.goBack()}
+          retryText="Volver"
+          style={{ margin: LAYOUT.SPACING.LG }}
+        />
+      </View>
+    );
+  }
+
+  // ===============================
   // MAIN FORM
   // ===============================
 
@@ -460,7 +1231,184 @@ const CreateQuoteScreen: React.FC<CreateQuoteScreenProps> = ({ navigation }) =>
       style={{ flex: 1 }}
       behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
     >
-      {showProductPicker ? (
+      {showScanner ? (
+        // Escáner de códigos: cada lectura agrega el producto al presupuesto
+        <BarcodeScanner
+          title="Agregar productos"
+          statusMessage={scanMessage}
+          onScan={handleScannedCode}
+          onClose={() => setShowScanner(false)}
+        />
+      ) : showCustomerPicker ? (
+        // Selector de clientes del directorio
+        <View style={{ flex: 1, backgroundColor: colors.background }}>
+          {/* Header */}
+          <View style={{
+            paddingHorizontal: LAYOUT.SPACING.LG,
+            paddingTop: LAYOUT.SPACING.LG,
+            paddingBottom: LAYOUT.SPACING.MD,
+            backgroundColor: colors.surface,
+            borderBottomWidth: 1,
+            borderBottomColor: colors.border,
+          }}>
+            <View style={{
+              flexDirection: 'row',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: LAYOUT.SPACING.MD,
+            }}>
+              <Text style={{
+                fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+                fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+                color: colors.text,
+              }}>
+                Seleccionar Cliente
+              </Text>
+              <Button
+                title="Cerrar"
+                variant="secondary"
+                size="sm"
+                onPress={() => setShowCustomerPicker(false)}
+              />
+            </View>
+
+            <Input
+              placeholder="Buscar por nombre, email, teléfono o CUIT..."
+              value={customerSearch}
+              onChangeText={setCustomerSearch}
+              leftIcon={
+                <MaterialCommunityIcons name="magnify" size={20} color={colors.textSecondary} />
+              }
+            />
+          </View>
+
+          {/* Customers List */}
+          <FlatList
+            data={filteredCustomers}
+            keyExtractor={(item) => item._id}
+            renderItem={renderCustomerItem}
+            keyboardShouldPersistTaps="handled"
+            ListEmptyComponent={
+              <View style={{ padding: LAYOUT.SPACING.XL, alignItems: 'center' }}>
+                <Text style={{
+                  fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+                  color: colors.textSecondary,
+                  textAlign: 'center',
+                }}>
+                  {customerSearch ? 'No se encontraron clientes' : 'No hay clientes cargados'}
+                </Text>
+              </View>
+            }
+          />
+        </View>
+      ) : showTemplatePicker ? (
+        // Selector de plantillas: reemplaza las líneas del presupuesto
+        <View style={{ flex: 1, backgroundColor: colors.background }}>
+          {/* Header */}
+          <View style={{
+            paddingHorizontal: LAYOUT.SPACING.LG,
+            paddingTop: LAYOUT.SPACING.LG,
+            paddingBottom: LAYOUT.SPACING.MD,
+            backgroundColor: colors.surface,
+            borderBottomWidth: 1,
+            borderBottomColor: colors.border,
+          }}>
+            <View style={{
+              flexDirection: 'row',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+            }}>
+              <View style={{ flex: 1, marginRight: LAYOUT.SPACING.MD }}>
+                <Text style={{
+                  fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+                  fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+                  color: colors.text,
+                }}>
+                  Elegir Plantilla
+                </Text>
+                <Text style={{
+                  fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+                  color: colors.textSecondary,
+                }}>
+                  Se cotiza al precio actual y según el stock disponible
+                </Text>
+              </View>
+              <Button
+                title="Cerrar"
+                variant="secondary"
+                size="sm"
+                onPress={() => setShowTemplatePicker(false)}
+              />
+            </View>
+          </View>
+
+          {/* Templates List */}
+          <FlatList
+            data={templates}
+            keyExtractor={(item) => item._id}
+            renderItem={renderTemplateItem}
+            ListEmptyComponent={
+              <View style={{ padding: LAYOUT.SPACING.XL, alignItems: 'center' }}>
+                <Text style={{
+                  fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+                  color: colors.textSecondary,
+                  textAlign: 'center',
+                }}>
+                  {isLoadingTemplates ? 'Cargando plantillas...' : 'No hay plantillas guardadas'}
+                </Text>
+              </View>
+            }
+          />
+        </View>
+      ) : variantPickerProduct ? (
+        // Selector de variante del producto elegido en la lista o con el escáner
+        <View style={{ flex: 1, backgroundColor: colors.background }}>
+          {/* Header */}
+          <View style={{
+            paddingHorizontal: LAYOUT.SPACING.LG,
+            paddingTop: LAYOUT.SPACING.LG,
+            paddingBottom: LAYOUT.SPACING.MD,
+            backgroundColor: colors.surface,
+            borderBottomWidth: 1,
+            borderBottomColor: colors.border,
+          }}>
+            <View style={{
+              flexDirection: 'row',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+            }}>
+              <View style={{ flex: 1, marginRight: LAYOUT.SPACING.MD }}>
+                <Text style={{
+                  fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+                  fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+                  color: colors.text,
+                }}>
+                  Elegir Variante
+                </Text>
+                <Text style={{
+                  fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+                  color: colors.textSecondary,
+                }} numberOfLines={1}>
+                  {variantPickerProduct.name}
+                </Text>
+              </View>
+              <Button
+                title="Volver"
+                variant="secondary"
+                size="sm"
+                onPress={() => setVariantPickerProduct(null)}
+              />
+            </View>
+          </View>
+
+          {/* Variants List */}
+          <FlatList
+            data={variantPickerProduct.variants || []}
+            keyExtractor={(item) => item._id}
+            renderItem={renderVariantItem}
+          />
+        </View>
+      ) : showProductPicker ? (
         // Render product picker modal outside ScrollView
         <View style={{ flex: 1, backgroundColor: colors.background }}>
           {/* Header */}
@@ -537,19 +1485,71 @@ const CreateQuoteScreen: React.FC<CreateQuoteScreenProps> = ({ navigation }) =>
           />
         )}
 
+        {/* Template */}
+        {!isEditing && (
+          <Button
+            title="Empezar desde una plantilla"
+            variant="outline"
+            onPress={openTemplatePicker}
+            leftIcon={<MaterialCommunityIcons name="text-box-multiple-outline" size={16} color={colors.primary} style={{ marginRight: 4 }} />}
+            style={{ marginBottom: LAYOUT.SPACING.LG }}
+          />
+        )}
+
         {/* Customer Information */}
         <Card variant="outlined" padding="lg" style={{ marginBottom: LAYOUT.SPACING.LG }}>
-          <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: LAYOUT.SPACING.MD }}>
-            <MaterialCommunityIcons name="account-outline" size={20} color={colors.text} style={{ marginRight: 8 }} />
-            <Text style={{
-              fontSize: TYPOGRAPHY.FONT_SIZE.LG,
-              fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
-              color: colors.text,
-            }}>
-              Información del Cliente
-            </Text>
+          <View style={{
+            flexDirection: 'row',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            marginBottom: LAYOUT.SPACING.MD,
+          }}>
+            <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+              <MaterialCommunityIcons name="account-outline" size={20} color={colors.text} style={{ marginRight: 8 }} />
+              <Text style={{
+                fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+                fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+                color: colors.text,
+              }}>
+                Información del Cliente
+              </Text>
+            </View>
+
+            {customers.length > 0 && (
+              <Button
+                title="Elegir"
+                variant="outline"
+                size="sm"
+                onPress={() => setShowCustomerPicker(true)}
+                leftIcon={<MaterialCommunityIcons name="account-search-outline" size={14} color={colors.primary} style={{ marginRight: 4 }} />}
+              />
+            )}
           </View>
 
+          {selectedCustomerId && (
+            <View style={{
+              flexDirection: 'row',
+              alignItems: 'center',
+              backgroundColor: COLORS.primaryLight + '20',
+              paddingHorizontal: LAYOUT.SPACING.MD,
+              paddingVertical: LAYOUT.SPACING.SM,
+              borderRadius: LAYOUT.BORDER_RADIUS.MD,
+              marginBottom: LAYOUT.SPACING.MD,
+            }}>
+              <MaterialCommunityIcons name="account-check-outline" size={18} color={colors.primary} style={{ marginRight: LAYOUT.SPACING.SM }} />
+              <Text style={{
+                flex: 1,
+                fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+                color: colors.primary,
+              }} numberOfLines={1}>
+                Cliente del directorio{selectedCustomer?.taxId ? ` • CUIT ${customerService.formatTaxId(selectedCustomer.taxId)}` : ''}
+              </Text>
+              <TouchableOpacity onPress={clearSelectedCustomer}>
+                <MaterialCommunityIcons name="close" size={18} color={colors.primary} />
+              </TouchableOpacity>
+            </View>
+          )}
+
           <Input
             label="Nombre completo"
             placeholder="Nombre del cliente"
@@ -607,13 +1607,22 @@ const CreateQuoteScreen: React.FC<CreateQuoteScreenProps> = ({ navigation }) =>
               </Text>
             </View>
 
-            <Button
-              title="Agregar"
-              variant="outline"
-              size="sm"
-              onPress={() => setShowProductPicker(true)}
-              leftIcon={<MaterialCommunityIcons name="plus" size={14} color={colors.primary} style={{ marginRight: 4 }} />}
-            />
+            <View style={{ flexDirection: 'row', gap: LAYOUT.SPACING.SM }}>
+              <Button
+                title="Escanear"
+                variant="outline"
+                size="sm"
+                onPress={openScanner}
+                leftIcon={<MaterialCommunityIcons name="barcode-scan" size={14} color={colors.primary} style={{ marginRight: 4 }} />}
+              />
+              <Button
+                title="Agregar"
+                variant="outline"
+                size="sm"
+                onPress={() => setShowProductPicker(true)}
+                leftIcon={<MaterialCommunityIcons name="plus" size={14} color={colors.primary} style={{ marginRight: 4 }} />}
+              />
+            </View>
           </View>
 
           {(formData.items?.length || 0) === 0 ? (
@@ -635,7 +1644,7 @@ const CreateQuoteScreen: React.FC<CreateQuoteScreenProps> = ({ navigation }) =>
           ) : (
             <View key="cart-items-container">
               {formData.items?.map((item, index) => (
-                <View key={`cart-item-${item.product?._id || 'unknown'}-${index}`}>
+                <View key={`cart-item-${item.product?._id || 'unknown'}-${item.variant?._id || ''}-${index}`}>
                   {renderCartItem({ item, index })}
                 </View>
               ))}
@@ -653,6 +1662,46 @@ const CreateQuoteScreen: React.FC<CreateQuoteScreenProps> = ({ navigation }) =>
           )}
         </Card>
 
+        {/* Custom Lines Section */}
+        <Card variant="outlined" padding="lg" style={{ marginBottom: LAYOUT.SPACING.LG }}>
+          <View style={{
+            flexDirection: 'row',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            marginBottom: LAYOUT.SPACING.MD,
+          }}>
+            <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+              <MaterialCommunityIcons name="hammer-wrench" size={20} color={colors.text} style={{ marginRight: 8 }} />
+              <Text style={{
+                fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+                fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+                color: colors.text,
+              }}>
+                Otros conceptos ({formData.customItems.length})
+              </Text>
+            </View>
+
+            <Button
+              title="Agregar"
+              variant="outline"
+              size="sm"
+              onPress={addCustomLine}
+              leftIcon={<MaterialCommunityIcons name="plus" size={14} color={colors.primary} style={{ marginRight: 4 }} />}
+            />
+          </View>
+
+          {formData.customItems.length === 0 ? (
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+              color: colors.textSecondary,
+            }}>
+              Mano de obra, envío o instalación que no están en el catálogo. No usan stock
+            </Text>
+          ) : (
+            formData.customItems.map(renderCustomLine)
+          )}
+        </Card>
+
         {/* Pricing Section */}
         <Card variant="outlined" padding="lg" style={{ marginBottom: LAYOUT.SPACING.LG }}>
           <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: LAYOUT.SPACING.MD }}>
@@ -666,35 +1715,23 @@ const CreateQuoteScreen: React.FC<CreateQuoteScreenProps> = ({ navigation }) =>
             </Text>
           </View>
 
-          <View style={{ flexDirection: 'row', gap: LAYOUT.SPACING.MD }}>
-            <View style={{ flex: 1 }}>
-              <Input
-                label="Descuento (%)"
-                placeholder="0"
-                value={formData.discount}
-                onChangeText={(text) => handleInputChange('form', 'discount', text)}
-                error={errors.discount}
-                keyboardType="numeric"
-                leftIcon={
-                  <MaterialCommunityIcons name="tag-outline" size={20} color={colors.textSecondary} />
-                }
-              />
-            </View>
-
-            <View style={{ flex: 1 }}>
-              <Input
-                label="Impuesto (%)"
-                placeholder="21"
-                value={formData.tax}
-                onChangeText={(text) => handleInputChange('form', 'tax', text)}
-                error={errors.tax}
-                keyboardType="numeric"
-                leftIcon={
-                  <MaterialCommunityIcons name="chart-bar" size={20} color={colors.textSecondary} />
-                }
-              />
-            </View>
-          </View>
+          <Input
+            label="Descuento general (%)"
+            placeholder="0"
+            value={formData.discount}
+            onChangeText={(text) => handleInputChange('form', 'discount', text)}
+            error={errors.discount}
+            keyboardType="numeric"
+            leftIcon={
+              <MaterialCommunityIcons name="tag-outline" size={20} color={colors.textSecondary} />
+            }
+          />
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+            color: colors.textSecondary,
+          }}>
+            Se aplica después del descuento de cada línea. El IVA sale de la alícuota de cada producto
+          </Text>
 
           {/* Totals Summary */}
           <View style={{
@@ -715,12 +1752,14 @@ const CreateQuoteScreen: React.FC<CreateQuoteScreenProps> = ({ navigation }) =>
               </View>
             )}
 
-            {totals.taxAmount > 0 && (
-              <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginBottom: LAYOUT.SPACING.XS }}>
-                <Text style={{ fontSize: TYPOGRAPHY.FONT_SIZE.MD, color: colors.textSecondary }}>Impuesto:</Text>
-                <Text style={{ fontSize: TYPOGRAPHY.FONT_SIZE.MD, color: colors.text }}>+${totals.taxAmount.toLocaleString('es-AR')}</Text>
+            {totals.taxes.map(tax => (
+              <View key={tax.rate} style={{ flexDirection: 'row', justifyContent: 'space-between', marginBottom: LAYOUT.SPACING.XS }}>
+                <Text style={{ fontSize: TYPOGRAPHY.FONT_SIZE.MD, color: colors.textSecondary }}>
+                  {productService.formatTaxRate(tax.rate)} s/ ${tax.base.toLocaleString('es-AR')}:
+                </Text>
+                <Text style={{ fontSize: TYPOGRAPHY.FONT_SIZE.MD, color: colors.text }}>+${tax.amount.toLocaleString('es-AR')}</Text>
               </View>
-            )}
+            ))}
 
             <View style={{
               flexDirection: 'row',
@@ -745,7 +1784,30 @@ const CreateQuoteScreen: React.FC<CreateQuoteScreenProps> = ({ navigation }) =>
                 ${totals.total.toLocaleString('es-AR')}
               </Text>
             </View>
+
+            {canViewMargin && totals.marginPercentage !== undefined && (
+              <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginTop: LAYOUT.SPACING.SM }}>
+                <Text style={{ fontSize: TYPOGRAPHY.FONT_SIZE.MD, color: colors.textSecondary }}>Margen:</Text>
+                <Text style={{
+                  fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+                  fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+                  color: quoteService.isMarginBelowMinimum(totals.marginPercentage) ? colors.error : colors.success,
+                }}>
+                  ${(totals.margin as number).toLocaleString('es-AR')} ({quoteService.formatMargin(totals.marginPercentage)})
+                </Text>
+              </View>
+            )}
           </View>
+
+          {canViewMargin && quoteService.isMarginBelowMinimum(totals.marginPercentage) && (
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+              color: colors.error,
+              marginTop: LAYOUT.SPACING.SM,
+            }}>
+              El margen queda bajo el mínimo de {MARGIN_CONFIG.MIN_MARGIN_PERCENTAGE}%. Al guardarlo como administrador queda aprobado.
+            </Text>
+          )}
         </Card>
 
         {/* Notes Section */}
@@ -765,6 +1827,60 @@ const CreateQuoteScreen: React.FC<CreateQuoteScreenProps> = ({ navigation }) =>
           />
         </Card>
 
+        {/* Save As Template */}
+        {hasLines && (showSaveTemplate ? (
+          <Card variant="outlined" padding="lg" style={{ marginBottom: LAYOUT.SPACING.LG }}>
+            <Input
+              label="Nombre de la plantilla"
+              placeholder="Ej: Puesto de trabajo completo"
+              value={templateName}
+              onChangeText={(text) => {
+                setTemplateName(text);
+                setTemplateError('');
+              }}
+              error={templateError}
+              autoFocus
+            />
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+              color: colors.textSecondary,
+              marginBottom: LAYOUT.SPACING.MD,
+            }}>
+              Guarda productos, cantidades, conceptos, descuento y notas. El cliente no se guarda
+            </Text>
+            <View style={{ flexDirection: 'row', gap: LAYOUT.SPACING.SM }}>
+              <Button
+                title="Cancelar"
+                variant="outline"
+                size="sm"
+                onPress={() => {
+                  setShowSaveTemplate(false);
+                  setTemplateError('');
+                }}
+                disabled={isSavingTemplate}
+                style={{ flex: 1 }}
+              />
+              <Button
+                title="Guardar plantilla"
+                size="sm"
+                onPress={handleSaveTemplate}
+                loading={isSavingTemplate}
+                disabled={isSavingTemplate}
+                style={{ flex: 1 }}
+              />
+            </View>
+          </Card>
+        ) : (
+          <Button
+            title="Guardar como plantilla"
+            variant="ghost"
+            size="sm"
+            onPress={() => setShowSaveTemplate(true)}
+            leftIcon={<MaterialCommunityIcons name="content-save-outline" size={14} color={colors.primary} style={{ marginRight: 4 }} />}
+            style={{ alignSelf: 'flex-start', marginBottom: LAYOUT.SPACING.LG }}
+          />
+        ))}
+
         {/* Actions */}
         <View style={{
           flexDirection: 'row',
@@ -780,13 +1896,13 @@ const CreateQuoteScreen: React.FC<CreateQuoteScreenProps> = ({ navigation }) =>
           />
 
           <Button
-            title="Crear Presupuesto"
+            title={isEditing ? 'Guardar Cambios' : 'Crear Presupuesto'}
             onPress={handleSubmit}
             loading={isSaving}
-            disabled={isSaving || (formData.items?.length || 0) === 0}
+            disabled={isSaving || !hasLines}
             style={{
               flex: 2,
-              opacity: (isSaving || (formData.items?.length || 0) === 0) ? 0.5 : 1
+              opacity: (isSaving || !hasLines) ? 0.5 : 1
             }}
           />
         </View>
@@ -2,7 +2,7 @@
 // QUOTE DETAIL SCREEN - PRESUPUESTOS APP
 // ===============================
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useCallback } from 'react';
 import {
   View,
   Text,
@@ -13,27 +13,35 @@ import {
 } from 'react-native';
 import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
 import { StackScreenProps } from '@react-navigation/stack';
+import { useFocusEffect } from '@react-navigation/native';
 
 // Components
 import Card from '../../components/common/Card';
 import Button from '../../components/common/Button';
 import Loading from '../../components/common/Loading';
 import ErrorMessage from '../../components/common/ErrorMessage';
+import QuoteRevisionTimeline from '../../components/quotes/QuoteRevisionTimeline';
+import ProductImage from '../../components/products/ProductImage';
+import BundleBreakdown from '../../components/quotes/BundleBreakdown';
 
 // Context
 import { useAuth } from '../../context/AuthContext';
 import { useTheme } from '../../context/ThemeContext';
 
 // Services
+import * as authService from '../../services/authService';
 import * as quoteService from '../../services/quoteService';
 import * as paymentService from '../../services/paymentService';
 import * as productService from '../../services/productService';
+import * as documentService from '../../services/documentService';
+import * as customerService from '../../services/customerService';
+import * as priceService from '../../services/priceService';
 
 // Types
-import { Quote, QuoteItem, QuoteStackParamList } from '../../types';
+import { CreateQuoteRequest, Payment, Product, Quote, QuoteCustomItem, QuoteItem, QuoteRevision, QuoteStackParamList } from '../../types';
 
 // Constants
-import { COLORS, LAYOUT, TYPOGRAPHY } from '../../constants/config';
+import { COLORS, LAYOUT, TYPOGRAPHY, MARGIN_CONFIG } from '../../constants/config';
 
 // ===============================
 // TYPES
@@ -64,18 +72,26 @@ const QuoteDetailScreen: React.FC<QuoteDetailScreenProps> = ({ route, navigation
   // ===============================
 
   const [quote, setQuote] = useState<Quote | null>(null);
+  const [revisions, setRevisions] = useState<QuoteRevision[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string>('');
   const [isDeleting, setIsDeleting] = useState(false);
   const [isGeneratingPayment, setIsGeneratingPayment] = useState(false);
+  const [isSharing, setIsSharing] = useState(false);
+  const [isRequoting, setIsRequoting] = useState(false);
+  const [isApprovingMargin, setIsApprovingMargin] = useState(false);
+  const [receiptAction, setReceiptAction] = useState<'view' | 'share' | null>(null);
 
   // ===============================
   // EFFECTS
   // ===============================
 
-  useEffect(() => {
-    loadQuote();
-  }, [quoteId]);
+  // Recargar al volver a la pantalla (ej. después de editar el presupuesto)
+  useFocusEffect(
+    useCallback(() => {
+      loadQuote();
+    }, [quoteId])
+  );
 
   // ===============================
   // HANDLERS
@@ -85,8 +101,15 @@ const QuoteDetailScreen: React.FC<QuoteDetailScreenProps> = ({ route, navigation
     try {
       setError('');
       setIsLoading(true);
-      const quoteData = await quoteService.getQuoteById(quoteId);
+      const quoteData = await quoteService.getQuoteById(quoteId, {
+        onRevalidate: setQuote,
+      });
       setQuote(quoteData);
+
+      // Un presupuesto guardado sin conexión todavía no tiene historial en el servidor
+      if (!quoteData.pendingSync) {
+        loadRevisions();
+      }
     } catch (err: any) {
       setError(err.message || 'Error cargando presupuesto');
     } finally {
@@ -94,10 +117,27 @@ const QuoteDetailScreen: React.FC<QuoteDetailScreenProps> = ({ route, navigation
     }
   };
 
+  const loadRevisions = async () => {
+    try {
+      const revisionsData = await quoteService.getQuoteRevisions(quoteId);
+      setRevisions(revisionsData);
+    } catch (err: any) {
+      // El historial es complementario, no bloquea la pantalla
+      console.error('Error loading quote revisions:', err);
+    }
+  };
+
   const handleEditQuote = () => {
-    if (!quote) return;
-    // Navigate to edit (could be same CreateQuote screen with edit mode)
-    navigation.navigate('CreateQuote', { quoteId: quote._id } as any);
+    if (!quote || !quoteService.canEditQuote(quote)) return;
+    navigation.navigate('CreateQuote', { quoteId: quote._id });
+  };
+
+  const handleCustomerHistory = () => {
+    if (!quote?.customer.email) return;
+    navigation.navigate('CustomerHistory', {
+      email: quote.customer.email,
+      name: quote.customer.name,
+    });
   };
 
   const handleDeleteQuote = () => {
@@ -143,6 +183,59 @@ const QuoteDetailScreen: React.FC<QuoteDetailScreenProps> = ({ route, navigation
     }
   };
 
+  const handleRequote = () => {
+    if (!quote || !quoteService.canRequote(quote)) return;
+
+    const { data, skippedItems } = quoteService.buildRequoteData(quote);
+    const items = quote.items.filter(item => !skippedItems.includes(item));
+
+    if (items.length === 0 && !data.customItems?.length) {
+      Alert.alert('Error', 'Ninguno de los productos del presupuesto sigue disponible');
+      return;
+    }
+
+    const totals = quoteService.calculateQuoteTotals(
+      items.map(item => ({
+        product: item.product,
+        variant: quoteService.getQuoteItemVariant(item),
+        quantity: item.quantity,
+        discount: item.discount,
+        taxRate: item.taxRate,
+      })),
+      data.discount,
+      data.customItems
+    );
+    const skippedNames = skippedItems.map(item => quoteService.formatItemName(item.productSnapshot)).join(', ');
+
+    Alert.alert(
+      'Re-presupuestar',
+      `Se creará un presupuesto nuevo para ${quote.customer.name} a precios actuales por ${productService.formatPrice(totals.total)} (antes ${productService.formatPrice(quote.total)}).` +
+        (skippedNames ? `\n\nQuedan afuera los productos o variantes dados de baja: ${skippedNames}.` : ''),
+      [
+        {
+          text: 'Cancelar',
+          style: 'cancel',
+        },
+        {
+          text: 'Crear',
+          onPress: () => confirmRequote(data, items.map(item => item.product)),
+        },
+      ]
+    );
+  };
+
+  const confirmRequote = async (data: CreateQuoteRequest, products: Product[]) => {
+    try {
+      setIsRequoting(true);
+      const newQuote = await quoteService.createQuote(data, products);
+      navigation.replace('QuoteDetail', { quoteId: newQuote._id });
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Error creando presupuesto');
+    } finally {
+      setIsRequoting(false);
+    }
+  };
+
   const handleGeneratePayment = async () => {
     if (!quote) return;
 
@@ -159,21 +252,101 @@ const QuoteDetailScreen: React.FC<QuoteDetailScreenProps> = ({ route, navigation
     }
   };
 
+  const handleApproveMargin = () => {
+    if (!quote) return;
+
+    Alert.alert(
+      'Aprobar margen',
+      `El presupuesto ${quote.quoteNumber} queda con un margen menor al ${MARGIN_CONFIG.MIN_MARGIN_PERCENTAGE}%. ¿Aprobarlo para que se pueda cobrar?`,
+      [
+        {
+          text: 'Cancelar',
+          style: 'cancel',
+        },
+        {
+          text: 'Aprobar',
+          onPress: confirmApproveMargin,
+        },
+      ]
+    );
+  };
+
+  const confirmApproveMargin = async () => {
+    if (!quote) return;
+
+    try {
+      setIsApprovingMargin(true);
+      const approvedQuote = await quoteService.approveQuoteMargin(quote._id);
+      setQuote(approvedQuote);
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Error aprobando margen');
+    } finally {
+      setIsApprovingMargin(false);
+    }
+  };
+
   const handleShareQuote = async () => {
     if (!quote) return;
 
     try {
-      const text = `Presupuesto ${quote.quoteNumber}\nCliente: ${quote.customer.name}\nTotal: ${productService.formatPrice(quote.total)}\nEstado: ${quoteService.formatQuoteStatus(quote.status).label}`;
-      await Share.share({
-        message: text,
-        title: `Presupuesto ${quote.quoteNumber}`,
-      });
+      setIsSharing(true);
+
+      // Sin soporte para compartir archivos se comparte el resumen en texto
+      if (!(await documentService.canSharePdf())) {
+        const text = `Presupuesto ${quote.quoteNumber}\nCliente: ${quote.customer.name}\nTotal: ${productService.formatPrice(quote.total)}\nEstado: ${quoteService.formatQuoteStatus(quote.status).label}`;
+        await Share.share({
+          message: text,
+          title: `Presupuesto ${quote.quoteNumber}`,
+        });
+        return;
+      }
+
+      await documentService.shareQuotePdf(quote, await loadPaymentForDocument());
     } catch (err: any) {
       console.error('Error sharing quote:', err);
+      Alert.alert('Error', err.message || 'Error generando el PDF del presupuesto');
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const loadPaymentForDocument = async (): Promise<Payment | null> => {
+    if (!quote?.paymentId || quote.status !== 'pending') return null;
+
+    try {
+      const result = await paymentService.getPaymentStatus(quote.paymentId);
+      return result.payment;
+    } catch (err: any) {
+      // El PDF se genera igual, sin QR ni link de pago
+      console.error('Error loading payment for document:', err);
+      return null;
+    }
+  };
+
+  // El comprobante se vuelve a generar a partir del pago; el número lo conserva el backend
+  const handleReceipt = async (action: 'view' | 'share') => {
+    if (!quote?.paymentId) return;
+
+    try {
+      setReceiptAction(action);
+      const { payment } = await paymentService.getPaymentStatus(quote.paymentId);
+      const receipt = await paymentService.getPaymentReceipt(payment._id);
+
+      if (action === 'view') {
+        await documentService.viewReceiptPdf(quote, payment, receipt);
+      } else {
+        await documentService.shareReceiptPdf(quote, payment, receipt);
+      }
+    } catch (err: any) {
+      console.error('Error generating receipt:', err);
+      Alert.alert('Error', err.message || 'Error generando el comprobante');
+    } finally {
+      setReceiptAction(null);
     }
   };
 
   const canManageQuotes = user?.role === 'admin' || user?.role === 'seller';
+  const canApproveMargin = authService.isAdmin(user);
 
   // ===============================
   // LOADING STATE
@@ -204,6 +377,57 @@ const QuoteDetailScreen: React.FC<QuoteDetailScreenProps> = ({ route, navigation
   // RENDER FUNCTIONS
   // ===============================
 
+  // En los cobrados el precio quedó cerrado; en el resto se avisa si la lista cambió
+  const showPriceChanges = quote.status !== 'paid';
+  const changedItemsCount = showPriceChanges
+    ? quote.items.filter(quoteService.hasCatalogPriceChanged).length
+    : 0;
+  const canRequote = canManageQuotes && quoteService.canRequote(quote);
+  const needsMarginApproval = quoteService.needsMarginApproval(quote);
+  // Con el costo copiado en los ítems (solo llega a administradores)
+  const profitMargin = canApproveMargin ? quoteService.getQuoteSummary(quote).profitMargin : undefined;
+
+  const renderCustomItem = (item: QuoteCustomItem, index: number) => (
+    <View
+      key={`custom-${index}`}
+      style={{
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingVertical: LAYOUT.SPACING.MD,
+        borderBottomWidth: index < (quote.customItems?.length || 0) - 1 ? 1 : 0,
+        borderBottomColor: colors.border,
+      }}
+    >
+      <View style={{ flex: 1, marginRight: LAYOUT.SPACING.MD }}>
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+          fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+          color: colors.text,
+          marginBottom: LAYOUT.SPACING.XS,
+        }}>
+          {item.description}
+        </Text>
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+          color: colors.textTertiary,
+        }}>
+          {productService.formatPrice(item.unitPrice)} x {item.quantity}
+          {item.discount ? ` • -${item.discount}%` : ''}
+          {` • ${productService.formatTaxRate(item.taxRate)}`}
+        </Text>
+      </View>
+
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+        fontWeight: TYPOGRAPHY.FONT_WEIGHT.BOLD,
+        color: colors.primary,
+      }}>
+        {productService.formatPrice(item.subtotal)}
+      </Text>
+    </View>
+  );
+
   const renderQuoteItem = (item: QuoteItem, index: number) => (
     <View
       key={index}
@@ -216,6 +440,13 @@ const QuoteDetailScreen: React.FC<QuoteDetailScreenProps> = ({ route, navigation
         borderBottomColor: colors.border,
       }}
     >
+      <ProductImage
+        uri={item.product ? productService.getProductImages(item.product)[0] : undefined}
+        size={44}
+        borderRadius={LAYOUT.BORDER_RADIUS.SM}
+        style={{ marginRight: LAYOUT.SPACING.MD }}
+      />
+
       <View style={{ flex: 1, marginRight: LAYOUT.SPACING.MD }}>
         <Text style={{
           fontSize: TYPOGRAPHY.FONT_SIZE.MD,
@@ -226,6 +457,21 @@ const QuoteDetailScreen: React.FC<QuoteDetailScreenProps> = ({ route, navigation
           {item.product.name}
         </Text>
 
+        {item.productSnapshot.variant && (
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+            fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+            color: colors.textSecondary,
+            marginBottom: LAYOUT.SPACING.XS,
+          }}>
+            {item.productSnapshot.variant.label} · {item.productSnapshot.variant.sku}
+          </Text>
+        )}
+
+        {item.productSnapshot.components && (
+          <BundleBreakdown components={item.productSnapshot.components} quantity={item.quantity} />
+        )}
+
         {item.product.description && (
           <Text style={{
             fontSize: TYPOGRAPHY.FONT_SIZE.SM,
@@ -241,7 +487,22 @@ const QuoteDetailScreen: React.FC<QuoteDetailScreenProps> = ({ route, navigation
           color: colors.textTertiary,
         }}>
           {productService.formatPrice(item.productSnapshot.price)} x {item.quantity}
+          {item.discount ? ` • -${item.discount}%` : ''}
+          {item.taxRate !== undefined ? ` • ${productService.formatTaxRate(item.taxRate)}` : ''}
         </Text>
+
+        {showPriceChanges && quoteService.hasCatalogPriceChanged(item) && (
+          <View style={{ flexDirection: 'row', alignItems: 'center', marginTop: LAYOUT.SPACING.XS }}>
+            <MaterialCommunityIcons name={quoteService.getCurrentItemPrice(item) > item.productSnapshot.price ? 'tag-arrow-up-outline' : 'tag-arrow-down-outline'} size={14} color={colors.warning} style={{ marginRight: 4 }} />
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+              color: colors.warning,
+            }}>
+              Precio actual: {productService.formatPrice(quoteService.getCurrentItemPrice(item))} ({priceService.formatPriceVariation(item.productSnapshot.price, quoteService.getCurrentItemPrice(item))})
+            </Text>
+          </View>
+        )}
       </View>
 
       <Text style={{
@@ -327,6 +588,72 @@ const QuoteDetailScreen: React.FC<QuoteDetailScreenProps> = ({ route, navigation
         </View>
       </Card>
 
+      {/* Pending Sync Notice */}
+      {quote.pendingSync && (
+        <Card
+          variant="filled"
+          padding="md"
+          style={{
+            marginBottom: LAYOUT.SPACING.LG,
+            backgroundColor: COLORS.warningLight + '20',
+            borderWidth: 1,
+            borderColor: colors.warning,
+          }}
+        >
+          <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+            <MaterialCommunityIcons name="cloud-upload-outline" size={20} color={colors.warning} style={{ marginRight: 8 }} />
+            <Text style={{
+              flex: 1,
+              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+              color: colors.warning,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+            }}>
+              Guardado sin conexión. Se enviará al servidor al recuperar la señal; hasta entonces no se puede cobrar ni editar.
+            </Text>
+          </View>
+        </Card>
+      )}
+
+      {/* Margin Approval Notice */}
+      {needsMarginApproval && (
+        <Card
+          variant="filled"
+          padding="md"
+          style={{
+            marginBottom: LAYOUT.SPACING.LG,
+            backgroundColor: COLORS.warningLight + '20',
+            borderWidth: 1,
+            borderColor: colors.warning,
+          }}
+        >
+          <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+            <MaterialCommunityIcons name="shield-alert-outline" size={20} color={colors.warning} style={{ marginRight: 8 }} />
+            <Text style={{
+              flex: 1,
+              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+              color: colors.warning,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+            }}>
+              El margen después del descuento quedó bajo el mínimo de {MARGIN_CONFIG.MIN_MARGIN_PERCENTAGE}%
+              {quote.marginApproval?.marginPercentage !== undefined && ` (${quoteService.formatMargin(quote.marginApproval.marginPercentage)})`}.
+              {' '}Un administrador tiene que aprobarlo antes de cobrar.
+            </Text>
+          </View>
+
+          {canApproveMargin && (
+            <Button
+              title="Aprobar margen"
+              variant="outline"
+              size="sm"
+              onPress={handleApproveMargin}
+              loading={isApprovingMargin}
+              disabled={isApprovingMargin}
+              style={{ alignSelf: 'flex-start', marginTop: LAYOUT.SPACING.SM }}
+            />
+          )}
+        </Card>
+      )}
+
       {/* Expiration Warning */}
       {isExpired && (
         <Card
@@ -376,17 +703,69 @@ const QuoteDetailScreen: React.FC<QuoteDetailScreenProps> = ({ route, navigation
         </Card>
       )}
 
+      {/* Price Changes Notice */}
+      {changedItemsCount > 0 && (
+        <Card
+          variant="filled"
+          padding="md"
+          style={{
+            marginBottom: LAYOUT.SPACING.LG,
+            backgroundColor: COLORS.warningLight + '20',
+            borderWidth: 1,
+            borderColor: colors.warning,
+          }}
+        >
+          <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+            <MaterialCommunityIcons name="tag-multiple-outline" size={20} color={colors.warning} style={{ marginRight: 8 }} />
+            <Text style={{
+              flex: 1,
+              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+              color: colors.warning,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+            }}>
+              {changedItemsCount === 1
+                ? '1 producto cambió de precio desde que se presupuestó.'
+                : `${changedItemsCount} productos cambiaron de precio desde que se presupuestó.`}
+              {canRequote && ' Puedes re-presupuestarlo a precios actuales.'}
+            </Text>
+          </View>
+        </Card>
+      )}
+
       {/* Customer Info */}
       <Card variant="outlined" padding="lg" style={{ marginBottom: LAYOUT.SPACING.LG }}>
-        <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: LAYOUT.SPACING.MD }}>
-          <MaterialCommunityIcons name="account-outline" size={20} color={colors.text} style={{ marginRight: 8 }} />
-          <Text style={{
-            fontSize: TYPOGRAPHY.FONT_SIZE.LG,
-            fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
-            color: colors.text,
-          }}>
-            Cliente
-          </Text>
+        <View style={{
+          flexDirection: 'row',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          marginBottom: LAYOUT.SPACING.MD,
+        }}>
+          <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+            <MaterialCommunityIcons name="account-outline" size={20} color={colors.text} style={{ marginRight: 8 }} />
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+              color: colors.text,
+            }}>
+              Cliente
+            </Text>
+          </View>
+
+          {quote.customer.email && (
+            <TouchableOpacity
+              onPress={handleCustomerHistory}
+              style={{ flexDirection: 'row', alignItems: 'center' }}
+            >
+              <MaterialCommunityIcons name="history" size={16} color={colors.primary} style={{ marginRight: 4 }} />
+              <Text style={{
+                fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+                fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+                color: colors.primary,
+              }}>
+                Ver historial
+              </Text>
+            </TouchableOpacity>
+          )}
         </View>
 
         <View style={{ marginBottom: LAYOUT.SPACING.SM }}>
@@ -399,6 +778,20 @@ const QuoteDetailScreen: React.FC<QuoteDetailScreenProps> = ({ route, navigation
           </Text>
         </View>
 
+        {quote.customer.taxId && (
+          <View style={{ marginBottom: LAYOUT.SPACING.SM }}>
+            <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+              <MaterialCommunityIcons name="card-account-details-outline" size={16} color={colors.textSecondary} style={{ marginRight: 6 }} />
+              <Text style={{
+                fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+                color: colors.textSecondary,
+              }}>
+                CUIT {customerService.formatTaxId(quote.customer.taxId)}
+              </Text>
+            </View>
+          </View>
+        )}
+
         {quote.customer.email && (
           <View style={{ marginBottom: LAYOUT.SPACING.SM }}>
             <View style={{ flexDirection: 'row', alignItems: 'center' }}>
@@ -443,24 +836,44 @@ const QuoteDetailScreen: React.FC<QuoteDetailScreenProps> = ({ route, navigation
       </Card>
 
       {/* Items */}
-      <Card variant="outlined" padding="lg" style={{ marginBottom: LAYOUT.SPACING.LG }}>
-        <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: LAYOUT.SPACING.MD }}>
-          <MaterialCommunityIcons name="package-variant" size={20} color={colors.text} style={{ marginRight: 8 }} />
-          <Text style={{
-            fontSize: TYPOGRAPHY.FONT_SIZE.LG,
-            fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
-            color: colors.text,
-          }}>
-            Productos ({quote.items?.length || 0})
-          </Text>
-        </View>
+      {(quote.items.length > 0 || !quote.customItems?.length) && (
+        <Card variant="outlined" padding="lg" style={{ marginBottom: LAYOUT.SPACING.LG }}>
+          <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: LAYOUT.SPACING.MD }}>
+            <MaterialCommunityIcons name="package-variant" size={20} color={colors.text} style={{ marginRight: 8 }} />
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+              color: colors.text,
+            }}>
+              Productos ({quote.items?.length || 0})
+            </Text>
+          </View>
 
-        {quote.items?.map((item, index) => (
-          <View key={item.product?._id || index}>
-            {renderQuoteItem(item, index)}
+          {quote.items?.map((item, index) => (
+            <View key={item.product?._id || index}>
+              {renderQuoteItem(item, index)}
+            </View>
+          ))}
+        </Card>
+      )}
+
+      {/* Custom Items */}
+      {quote.customItems && quote.customItems.length > 0 && (
+        <Card variant="outlined" padding="lg" style={{ marginBottom: LAYOUT.SPACING.LG }}>
+          <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: LAYOUT.SPACING.MD }}>
+            <MaterialCommunityIcons name="hammer-wrench" size={20} color={colors.text} style={{ marginRight: 8 }} />
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+              color: colors.text,
+            }}>
+              Otros conceptos ({quote.customItems.length})
+            </Text>
           </View>
-        ))}
-      </Card>
+
+          {quote.customItems.map(renderCustomItem)}
+        </Card>
+      )}
 
       {/* Totals */}
       <Card variant="outlined" padding="lg" style={{ marginBottom: LAYOUT.SPACING.LG }}>
@@ -517,27 +930,30 @@ const QuoteDetailScreen: React.FC<QuoteDetailScreenProps> = ({ route, navigation
           </View>
         )}
 
-        {quote.tax && quote.tax > 0 && (
-          <View style={{
-            flexDirection: 'row',
-            justifyContent: 'space-between',
-            alignItems: 'center',
-            marginBottom: LAYOUT.SPACING.SM,
-          }}>
+        {quoteService.getQuoteTaxes(quote).map(tax => (
+          <View
+            key={tax.rate}
+            style={{
+              flexDirection: 'row',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: LAYOUT.SPACING.SM,
+            }}
+          >
             <Text style={{
               fontSize: TYPOGRAPHY.FONT_SIZE.MD,
               color: colors.textSecondary,
             }}>
-              Impuestos
+              {productService.formatTaxRate(tax.rate)} s/ {productService.formatPrice(tax.base)}
             </Text>
             <Text style={{
               fontSize: TYPOGRAPHY.FONT_SIZE.MD,
               color: colors.text,
             }}>
-              +{productService.formatPrice(quote.tax)}
+              +{productService.formatPrice(tax.amount)}
             </Text>
           </View>
-        )}
+        ))}
 
         <View style={{
           flexDirection: 'row',
@@ -562,6 +978,29 @@ const QuoteDetailScreen: React.FC<QuoteDetailScreenProps> = ({ route, navigation
             {productService.formatPrice(quote.total)}
           </Text>
         </View>
+
+        {profitMargin !== undefined && (
+          <View style={{
+            flexDirection: 'row',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            marginTop: LAYOUT.SPACING.SM,
+          }}>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+              color: colors.textSecondary,
+            }}>
+              Margen{quote.marginApproval?.status === 'approved' ? ' (aprobado)' : ''}
+            </Text>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+              color: quoteService.isMarginBelowMinimum(profitMargin) ? colors.error : colors.success,
+            }}>
+              {quoteService.formatMargin(profitMargin)}
+            </Text>
+          </View>
+        )}
       </Card>
 
       {/* Notes */}
@@ -587,38 +1026,82 @@ const QuoteDetailScreen: React.FC<QuoteDetailScreenProps> = ({ route, navigation
         </Card>
       )}
 
+      {/* Revision History */}
+      {revisions.length > 0 && (
+        <QuoteRevisionTimeline revisions={revisions} />
+      )}
+
       {/* Actions */}
       <View style={{ gap: LAYOUT.SPACING.MD }}>
         {/* Share Button */}
         <Button
-          title="Compartir Presupuesto"
+          title="Compartir PDF"
           variant="outline"
           onPress={handleShareQuote}
+          loading={isSharing}
+          disabled={isSharing}
           fullWidth
           leftIcon={<MaterialCommunityIcons name="share-variant-outline" size={18} color={colors.primary} style={{ marginRight: LAYOUT.SPACING.SM }} />}
         />
 
+        {/* Receipt Buttons */}
+        {quote.status === 'paid' && quote.paymentId && (
+          <View style={{ flexDirection: 'row', gap: LAYOUT.SPACING.MD }}>
+            <Button
+              title="Ver Comprobante"
+              variant="outline"
+              onPress={() => handleReceipt('view')}
+              loading={receiptAction === 'view'}
+              disabled={receiptAction !== null}
+              style={{ flex: 1 }}
+              leftIcon={<MaterialCommunityIcons name="receipt" size={18} color={colors.primary} style={{ marginRight: LAYOUT.SPACING.SM }} />}
+            />
+
+            <Button
+              title="Descargar"
+              variant="outline"
+              onPress={() => handleReceipt('share')}
+              loading={receiptAction === 'share'}
+              disabled={receiptAction !== null}
+              style={{ flex: 1 }}
+              leftIcon={<MaterialCommunityIcons name="download-outline" size={18} color={colors.primary} style={{ marginRight: LAYOUT.SPACING.SM }} />}
+            />
+          </View>
+        )}
+
         {/* Payment Button */}
-        {quote.status === 'pending' && !isExpired && canManageQuotes && (
+        {quote.status === 'pending' && !isExpired && canManageQuotes && !quote.pendingSync && (
           <Button
             title="Generar Código QR de Pago"
             onPress={handleGeneratePayment}
             loading={isGeneratingPayment}
-            disabled={isGeneratingPayment}
+            disabled={isGeneratingPayment || needsMarginApproval}
             fullWidth
             leftIcon={<MaterialCommunityIcons name="credit-card-outline" size={18} color="#FFFFFF" style={{ marginRight: LAYOUT.SPACING.SM }} />}
           />
         )}
 
+        {/* Requote Button */}
+        {canRequote && (
+          <Button
+            title="Re-presupuestar a precios actuales"
+            onPress={handleRequote}
+            loading={isRequoting}
+            disabled={isRequoting}
+            fullWidth
+            leftIcon={<MaterialCommunityIcons name="file-refresh-outline" size={18} color="#FFFFFF" style={{ marginRight: LAYOUT.SPACING.SM }} />}
+          />
+        )}
+
         {/* Admin Actions */}
-        {canManageQuotes && (
+        {canManageQuotes && !quote.pendingSync && (
           <View style={{ gap: LAYOUT.SPACING.SM }}>
             <Button
               title="Editar Presupuesto"
               variant="outline"
               onPress={handleEditQuote}
               fullWidth
-              disabled={quote.status !== 'pending' || isExpired}
+              disabled={!quoteService.canEditQuote(quote)}
               leftIcon={<MaterialCommunityIcons name="pencil-outline" size={18} color={colors.primary} style={{ marginRight: LAYOUT.SPACING.SM }} />}
             />
 
@@ -9,19 +9,24 @@ import {
   FlatList,
   RefreshControl,
   TouchableOpacity,
+  Alert,
 } from 'react-native';
 import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
 import { StackScreenProps } from '@react-navigation/stack';
+import { useFocusEffect } from '@react-navigation/native';
 
 // Components
 import Card from '../../components/common/Card';
 import Input from '../../components/common/Input';
 import Loading from '../../components/common/Loading';
 import ErrorMessage from '../../components/common/ErrorMessage';
+import SyncStatusBanner from '../../components/sync/SyncStatusBanner';
+import PendingSyncBadge from '../../components/sync/PendingSyncBadge';
 
 // Context
 import { useAuth } from '../../context/AuthContext';
 import { useTheme } from '../../context/ThemeContext';
+import { useSync } from '../../context/SyncContext';
 
 // Services
 import * as quoteService from '../../services/quoteService';
@@ -49,6 +54,7 @@ const QuoteListScreen: React.FC<QuoteListScreenProps> = ({ navigation }) => {
 
   const { user } = useAuth();
   const { colors } = useTheme();
+  const { queue } = useSync();
 
   // ===============================
   // STATE
@@ -65,9 +71,13 @@ const QuoteListScreen: React.FC<QuoteListScreenProps> = ({ navigation }) => {
   // EFFECTS
   // ===============================
 
-  useEffect(() => {
-    loadQuotes();
-  }, []);
+  // Al volver a la pantalla se muestra el cache al instante; también recarga
+  // cuando la cola offline cambia (alta local o sincronización)
+  useFocusEffect(
+    useCallback(() => {
+      loadQuotes();
+    }, [queue.length])
+  );
 
   useEffect(() => {
     filterQuotes();
@@ -77,7 +87,7 @@ const QuoteListScreen: React.FC<QuoteListScreenProps> = ({ navigation }) => {
   // HANDLERS
   // ===============================
 
-  const loadQuotes = async () => {
+  const loadQuotes = async (forceRefresh = false) => {
     try {
       setError('');
       const response = await quoteService.getQuotes({
@@ -85,6 +95,9 @@ const QuoteListScreen: React.FC<QuoteListScreenProps> = ({ navigation }) => {
         limit: 50,
         sortBy: 'createdAt',
         sortOrder: 'desc',
+      }, {
+        forceRefresh,
+        onRevalidate: fresh => setQuotes(fresh.items),
       });
       setQuotes(response.items);
     } catch (err: any) {
@@ -96,7 +109,7 @@ const QuoteListScreen: React.FC<QuoteListScreenProps> = ({ navigation }) => {
 
   const handleRefresh = useCallback(async () => {
     setIsRefreshing(true);
-    await loadQuotes();
+    await loadQuotes(true);
     setIsRefreshing(false);
   }, []);
 
@@ -125,6 +138,12 @@ const QuoteListScreen: React.FC<QuoteListScreenProps> = ({ navigation }) => {
   };
 
   const handlePayQuote = (quote: Quote) => {
+    // Con el margen bajo el mínimo se cobra recién cuando lo aprueba un administrador
+    if (quoteService.needsMarginApproval(quote)) {
+      Alert.alert('Aprobación pendiente', 'Un administrador tiene que aprobar el margen de este presupuesto antes de cobrarlo');
+      return;
+    }
+
     // Navigate to payment creation
     navigation.navigate('PaymentQR', { paymentId: quote.paymentId || '' });
   };
@@ -183,6 +202,10 @@ const QuoteListScreen: React.FC<QuoteListScreenProps> = ({ navigation }) => {
             </View>
           </View>
 
+          {item.pendingSync && (
+            <PendingSyncBadge style={{ marginBottom: LAYOUT.SPACING.XS }} />
+          )}
+
           <Text style={{
             fontSize: TYPOGRAPHY.FONT_SIZE.MD,
             fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
@@ -264,8 +287,31 @@ const QuoteListScreen: React.FC<QuoteListScreenProps> = ({ navigation }) => {
           </View>
         )}
 
+        {/* Margin Approval Warning */}
+        {quoteService.needsMarginApproval(item) && (
+          <View style={{
+            backgroundColor: COLORS.warningLight + '20',
+            padding: LAYOUT.SPACING.SM,
+            borderRadius: LAYOUT.BORDER_RADIUS.SM,
+            marginBottom: LAYOUT.SPACING.SM,
+            borderWidth: 1,
+            borderColor: colors.warning,
+          }}>
+            <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'center' }}>
+              <MaterialCommunityIcons name="shield-alert-outline" size={16} color={colors.warning} style={{ marginRight: 6 }} />
+              <Text style={{
+                fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+                color: colors.warning,
+                fontWeight: TYPOGRAPHY.FONT_WEIGHT.MEDIUM,
+              }}>
+                Margen pendiente de aprobación
+              </Text>
+            </View>
+          </View>
+        )}
+
         {/* Actions */}
-        {item.status === 'pending' && canManageQuotes && (
+        {item.status === 'pending' && canManageQuotes && !item.pendingSync && (
           <View style={{
             flexDirection: 'row',
             gap: LAYOUT.SPACING.SM,
@@ -384,6 +430,8 @@ const QuoteListScreen: React.FC<QuoteListScreenProps> = ({ navigation }) => {
 
   return (
     <View style={{ flex: 1, backgroundColor: colors.background }}>
+      <SyncStatusBanner onPress={() => navigation.getParent()?.navigate('Profile', { screen: 'SyncStatus' })} />
+
       {/* Search Header */}
       <View style={{
         paddingHorizontal: LAYOUT.SPACING.LG,
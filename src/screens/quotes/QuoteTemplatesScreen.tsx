@@ -0,0 +1,519 @@
+// ===============================
+// QUOTE TEMPLATES SCREEN - PRESUPUESTOS APP
+// ===============================
+
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+import { StackScreenProps } from '@react-navigation/stack';
+import { useFocusEffect } from '@react-navigation/native';
+
+// Components
+import Button from '../../components/common/Button';
+import Card from '../../components/common/Card';
+import Input from '../../components/common/Input';
+import Loading from '../../components/common/Loading';
+import ErrorMessage from '../../components/common/ErrorMessage';
+
+// Context
+import { useTheme } from '../../context/ThemeContext';
+
+// Services
+import * as productService from '../../services/productService';
+import * as quoteTemplateService from '../../services/quoteTemplateService';
+
+// Types
+import {
+  QuoteTemplate,
+  QuoteTemplateItem,
+  QuoteStackParamList,
+  CreateQuoteTemplateRequest,
+} from '../../types';
+
+// Constants
+import { LAYOUT, TYPOGRAPHY } from '../../constants/config';
+
+// ===============================
+// TYPES
+// ===============================
+
+type QuoteTemplatesScreenProps = StackScreenProps<QuoteStackParamList, 'QuoteTemplates'>;
+
+type TemplateCustomItem = NonNullable<QuoteTemplate['customItems']>[number];
+
+// Las cantidades y precios se editan como texto; el resto de cada línea se conserva
+interface TemplateFormData {
+  name: string;
+  items: Array<{ item: QuoteTemplateItem; quantity: string }>;
+  customItems: Array<{ item: TemplateCustomItem; unitPrice: string; quantity: string }>;
+  discount: string;
+  notes: string;
+}
+
+// ===============================
+// QUOTE TEMPLATES SCREEN
+// ===============================
+
+const QuoteTemplatesScreen: React.FC<QuoteTemplatesScreenProps> = ({ navigation }) => {
+  // ===============================
+  // HOOKS
+  // ===============================
+
+  const { colors } = useTheme();
+
+  // ===============================
+  // STATE
+  // ===============================
+
+  const [templates, setTemplates] = useState<QuoteTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>('');
+  // Plantilla abierta para editar; solo una a la vez
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<TemplateFormData | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  // ===============================
+  // EFFECTS
+  // ===============================
+
+  // Recargar al volver a la pantalla (ej. después de guardar una plantilla desde un presupuesto)
+  useFocusEffect(
+    useCallback(() => {
+      loadTemplates();
+    }, [])
+  );
+
+  // ===============================
+  // HANDLERS
+  // ===============================
+
+  const loadTemplates = async () => {
+    try {
+      setError('');
+      setTemplates(await quoteTemplateService.getQuoteTemplates());
+    } catch (err: any) {
+      setError(err.message || 'Error cargando plantillas');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleUseTemplate = (template: QuoteTemplate) => {
+    navigation.navigate('CreateQuote', { templateId: template._id });
+  };
+
+  const handleStartEdit = (template: QuoteTemplate) => {
+    setEditingId(template._id);
+    setErrors({});
+    setFormData({
+      name: template.name,
+      items: template.items.map(item => ({ item, quantity: item.quantity.toString() })),
+      customItems: (template.customItems || []).map(item => ({
+        item,
+        unitPrice: item.unitPrice.toString(),
+        quantity: item.quantity.toString(),
+      })),
+      discount: template.discount ? template.discount.toString() : '',
+      notes: template.notes || '',
+    });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setFormData(null);
+    setErrors({});
+  };
+
+  const updateForm = (changes: Partial<TemplateFormData>) => {
+    setFormData(prev => prev && { ...prev, ...changes });
+  };
+
+  const toRequest = (data: TemplateFormData): CreateQuoteTemplateRequest => ({
+    name: data.name.trim(),
+    items: data.items.map(({ item, quantity }) => ({
+      productId: item.productId,
+      variantId: item.variantId,
+      quantity: parseInt(quantity) || 0,
+      discount: item.discount,
+      taxRate: item.taxRate,
+    })),
+    customItems: data.customItems.map(({ item, unitPrice, quantity }) => ({
+      description: item.description,
+      unitPrice: parseFloat(unitPrice),
+      quantity: parseFloat(quantity),
+      discount: item.discount,
+      taxRate: item.taxRate,
+    })),
+    discount: parseFloat(data.discount || '0'),
+    notes: data.notes.trim(),
+  });
+
+  const handleSave = async () => {
+    if (!editingId || !formData) return;
+
+    const templateData = toRequest(formData);
+    const validation = quoteTemplateService.validateQuoteTemplateData(templateData);
+    setErrors(validation.errors);
+    if (!validation.isValid) return;
+
+    try {
+      setIsSaving(true);
+      const updated = await quoteTemplateService.updateQuoteTemplate(editingId, templateData);
+      setTemplates(prev => prev.map(template => template._id === updated._id ? updated : template));
+      handleCancelEdit();
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Error actualizando plantilla');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = (template: QuoteTemplate) => {
+    Alert.alert(
+      'Eliminar Plantilla',
+      `¿Estás seguro que quieres eliminar "${template.name}"? Los presupuestos creados con ella no cambian.`,
+      [
+        {
+          text: 'Cancelar',
+          style: 'cancel',
+        },
+        {
+          text: 'Eliminar',
+          style: 'destructive',
+          onPress: () => confirmDelete(template),
+        },
+      ]
+    );
+  };
+
+  const confirmDelete = async (template: QuoteTemplate) => {
+    try {
+      await quoteTemplateService.deleteQuoteTemplate(template._id);
+      setTemplates(prev => prev.filter(item => item._id !== template._id));
+      if (editingId === template._id) handleCancelEdit();
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Error eliminando plantilla');
+    }
+  };
+
+  // ===============================
+  // RENDER FUNCTIONS
+  // ===============================
+
+  const renderLine = (key: string, quantity: number, label: string, detail?: string) => (
+    <View key={key} style={{ flexDirection: 'row', marginTop: LAYOUT.SPACING.XS }}>
+      <Text style={{
+        width: 36,
+        fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+        fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+        color: colors.primary,
+      }}>
+        {quantity} x
+      </Text>
+      <Text style={{
+        flex: 1,
+        fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+        color: colors.text,
+      }} numberOfLines={1}>
+        {label}{detail ? ` • ${detail}` : ''}
+      </Text>
+    </View>
+  );
+
+  const renderEditLine = (
+    key: string,
+    label: string,
+    quantity: string,
+    onQuantityChange: (text: string) => void,
+    onRemove: () => void,
+    unitPrice?: { value: string; onChange: (text: string) => void }
+  ) => (
+    <View
+      key={key}
+      style={{
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: LAYOUT.SPACING.SM,
+        paddingTop: LAYOUT.SPACING.SM,
+        borderTopWidth: 1,
+        borderTopColor: colors.border,
+      }}
+    >
+      <Text style={{
+        flex: 1,
+        fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+        color: colors.text,
+      }} numberOfLines={2}>
+        {label}
+      </Text>
+      {unitPrice && (
+        <View style={{ width: 96 }}>
+          <Input
+            placeholder="Precio"
+            value={unitPrice.value}
+            onChangeText={unitPrice.onChange}
+            keyboardType="numeric"
+          />
+        </View>
+      )}
+      <View style={{ width: 64 }}>
+        <Input
+          placeholder="1"
+          value={quantity}
+          onChangeText={onQuantityChange}
+          keyboardType="numeric"
+        />
+      </View>
+      <TouchableOpacity onPress={onRemove}>
+        <MaterialCommunityIcons name="delete-outline" size={20} color={colors.error} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderEditForm = (data: TemplateFormData) => (
+    <View>
+      <Input
+        label="Nombre"
+        value={data.name}
+        onChangeText={(text) => updateForm({ name: text })}
+        error={errors.name}
+        required
+      />
+
+      {data.items.map((line, index) => renderEditLine(
+        `item-${line.item.productId}-${line.item.variantId || ''}-${index}`,
+        line.item.name,
+        line.quantity,
+        (text) => updateForm({ items: data.items.map((current, i) => i === index ? { ...current, quantity: text } : current) }),
+        () => updateForm({ items: data.items.filter((_, i) => i !== index) })
+      ))}
+
+      {data.customItems.map((line, index) => renderEditLine(
+        `custom-${index}`,
+        line.item.description,
+        line.quantity,
+        (text) => updateForm({ customItems: data.customItems.map((current, i) => i === index ? { ...current, quantity: text } : current) }),
+        () => updateForm({ customItems: data.customItems.filter((_, i) => i !== index) }),
+        {
+          value: line.unitPrice,
+          onChange: (text) => updateForm({ customItems: data.customItems.map((current, i) => i === index ? { ...current, unitPrice: text } : current) }),
+        }
+      ))}
+
+      {errors.items && (
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+          color: colors.error,
+          marginBottom: LAYOUT.SPACING.SM,
+        }}>
+          {errors.items}
+        </Text>
+      )}
+
+      <View style={{ marginTop: LAYOUT.SPACING.SM }}>
+        <Input
+          label="Descuento general (%)"
+          placeholder="0"
+          value={data.discount}
+          onChangeText={(text) => updateForm({ discount: text })}
+          error={errors.discount}
+          keyboardType="numeric"
+        />
+        <Input
+          label="Notas"
+          placeholder="Se copian al presupuesto"
+          value={data.notes}
+          onChangeText={(text) => updateForm({ notes: text })}
+          error={errors.notes}
+          multiline
+          numberOfLines={2}
+          style={{ textAlignVertical: 'top' }}
+        />
+      </View>
+
+      <View style={{ flexDirection: 'row', gap: LAYOUT.SPACING.SM }}>
+        <Button
+          title="Cancelar"
+          variant="outline"
+          size="sm"
+          onPress={handleCancelEdit}
+          disabled={isSaving}
+          style={{ flex: 1 }}
+        />
+        <Button
+          title="Guardar"
+          size="sm"
+          onPress={handleSave}
+          loading={isSaving}
+          disabled={isSaving}
+          style={{ flex: 1 }}
+        />
+      </View>
+    </View>
+  );
+
+  const renderTemplateCard = ({ item }: { item: QuoteTemplate }) => {
+    const isEditingCard = editingId === item._id && formData;
+
+    return (
+      <Card variant="outlined" padding="md" style={{ marginBottom: LAYOUT.SPACING.MD }}>
+        <View style={{
+          flexDirection: 'row',
+          alignItems: 'center',
+          marginBottom: LAYOUT.SPACING.SM,
+        }}>
+          <View style={{ flex: 1 }}>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+              color: colors.text,
+            }}>
+              {item.name}
+            </Text>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+              color: colors.textSecondary,
+            }}>
+              {quoteTemplateService.formatTemplateSummary(item)}
+            </Text>
+          </View>
+
+          {!isEditingCard && (
+            <View style={{ flexDirection: 'row', alignItems: 'center', gap: LAYOUT.SPACING.MD }}>
+              <TouchableOpacity onPress={() => handleStartEdit(item)}>
+                <MaterialCommunityIcons name="pencil-outline" size={20} color={colors.primary} />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => handleDelete(item)}>
+                <MaterialCommunityIcons name="delete-outline" size={20} color={colors.error} />
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+
+        {isEditingCard ? renderEditForm(formData) : (
+          <>
+            {item.items.map((line, index) => renderLine(
+              `item-${line.productId}-${line.variantId || ''}-${index}`,
+              line.quantity,
+              line.name,
+              line.discount ? `-${line.discount}%` : undefined
+            ))}
+            {(item.customItems || []).map((line, index) => renderLine(
+              `custom-${index}`,
+              line.quantity,
+              line.description,
+              productService.formatPrice(line.unitPrice)
+            ))}
+
+            {item.notes && (
+              <Text style={{
+                fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+                color: colors.textSecondary,
+                fontStyle: 'italic',
+                marginTop: LAYOUT.SPACING.SM,
+              }} numberOfLines={2}>
+                {item.notes}
+              </Text>
+            )}
+
+            <Button
+              title="Usar plantilla"
+              variant="outline"
+              size="sm"
+              onPress={() => handleUseTemplate(item)}
+              leftIcon={<MaterialCommunityIcons name="file-document-edit-outline" size={14} color={colors.primary} style={{ marginRight: 4 }} />}
+              style={{ alignSelf: 'flex-start', marginTop: LAYOUT.SPACING.MD }}
+            />
+          </>
+        )}
+      </Card>
+    );
+  };
+
+  const renderEmptyState = () => (
+    <View style={{
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      paddingVertical: LAYOUT.SPACING.XXL,
+    }}>
+      <MaterialCommunityIcons name="text-box-multiple-outline" size={48} color={colors.primary} style={{ marginBottom: LAYOUT.SPACING.MD }} />
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+        fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+        color: colors.text,
+        marginBottom: LAYOUT.SPACING.SM,
+        textAlign: 'center',
+      }}>
+        No hay plantillas
+      </Text>
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+        color: colors.textSecondary,
+        textAlign: 'center',
+        paddingHorizontal: LAYOUT.SPACING.LG,
+      }}>
+        Arma un presupuesto con los productos que vendes seguido y toca "Guardar como plantilla"
+      </Text>
+    </View>
+  );
+
+  // ===============================
+  // LOADING STATE
+  // ===============================
+
+  if (isLoading) {
+    return <Loading message="Cargando plantillas..." />;
+  }
+
+  // ===============================
+  // RENDER
+  // ===============================
+
+  return (
+    <View style={{ flex: 1, backgroundColor: colors.background }}>
+      {/* Error Message */}
+      {error && (
+        <ErrorMessage
+          message={error}
+          variant="banner"
+          onRetry={loadTemplates}
+        />
+      )}
+
+      {/* Templates List */}
+      <FlatList
+        data={templates}
+        keyExtractor={(item) => item._id}
+        renderItem={renderTemplateCard}
+        extraData={[editingId, formData, errors, isSaving]}
+        contentContainerStyle={{
+          padding: LAYOUT.SPACING.LG,
+          flexGrow: 1,
+        }}
+        ListHeaderComponent={templates.length > 0 ? (
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+            color: colors.textSecondary,
+            marginBottom: LAYOUT.SPACING.MD,
+          }}>
+            Las plantillas guardan cantidades, no precios: al usarlas se cotiza al precio actual y se revisa el stock
+          </Text>
+        ) : null}
+        ListEmptyComponent={renderEmptyState}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      />
+    </View>
+  );
+};
+
+export default QuoteTemplatesScreen;
@@ -0,0 +1,316 @@
+// ===============================
+// DOCUMENT SETTINGS SCREEN - PRESUPUESTOS APP
+// ===============================
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  Switch,
+} from 'react-native';
+import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+import { StackScreenProps } from '@react-navigation/stack';
+
+// Components
+import Button from '../../components/common/Button';
+import Input from '../../components/common/Input';
+import Card from '../../components/common/Card';
+import ErrorMessage from '../../components/common/ErrorMessage';
+import Loading from '../../components/common/Loading';
+
+// Context
+import { useAuth } from '../../context/AuthContext';
+import { useTheme } from '../../context/ThemeContext';
+
+// Services
+import * as documentService from '../../services/documentService';
+import * as authService from '../../services/authService';
+
+// Types
+import { CompanyInfo, DocumentTemplate, ProfileStackParamList } from '../../types';
+
+// Constants
+import { LAYOUT, TYPOGRAPHY } from '../../constants/config';
+
+// ===============================
+// TYPES
+// ===============================
+
+type DocumentSettingsScreenProps = StackScreenProps<ProfileStackParamList, 'DocumentSettings'>;
+
+// ===============================
+// DOCUMENT SETTINGS SCREEN
+// ===============================
+
+const DocumentSettingsScreen: React.FC<DocumentSettingsScreenProps> = ({ navigation }) => {
+  // ===============================
+  // HOOKS
+  // ===============================
+
+  const { user } = useAuth();
+  const { colors } = useTheme();
+
+  // ===============================
+  // STATE
+  // ===============================
+
+  const [template, setTemplate] = useState<DocumentTemplate>(documentService.getDefaultDocumentTemplate());
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  // ===============================
+  // EFFECTS
+  // ===============================
+
+  useEffect(() => {
+    loadTemplate();
+  }, []);
+
+  // ===============================
+  // HANDLERS
+  // ===============================
+
+  const loadTemplate = async () => {
+    try {
+      setIsLoading(true);
+      setTemplate(await documentService.getDocumentTemplate());
+    } catch (err: any) {
+      setError(err.message || 'Error cargando plantilla');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCompanyChange = (field: keyof CompanyInfo, value: string) => {
+    setTemplate(prev => ({ ...prev, company: { ...prev.company, [field]: value } }));
+  };
+
+  const handleSave = async () => {
+    if (!template.company.name.trim()) {
+      setError('El nombre de la empresa es obligatorio');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError('');
+      await documentService.saveDocumentTemplate(template);
+      Alert.alert('Éxito', 'Plantilla guardada correctamente', [
+        { text: 'OK', onPress: () => navigation.goBack() },
+      ]);
+    } catch (err: any) {
+      setError(err.message || 'Error guardando plantilla');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = () => {
+    Alert.alert(
+      'Restaurar plantilla',
+      '¿Querés volver a la plantilla por defecto? Se perderán los cambios.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Restaurar',
+          style: 'destructive',
+          onPress: async () => {
+            await documentService.resetDocumentTemplate();
+            setTemplate(documentService.getDefaultDocumentTemplate());
+          },
+        },
+      ]
+    );
+  };
+
+  // ===============================
+  // PERMISSIONS
+  // ===============================
+
+  if (!authService.isAdmin(user)) {
+    return (
+      <View style={{ flex: 1, backgroundColor: colors.background }}>
+        <ErrorMessage
+          message="Solo los administradores pueden configurar los documentos"
+          variant="card"
+          severity="warning"
+          style={{ margin: LAYOUT.SPACING.LG }}
+        />
+      </View>
+    );
+  }
+
+  // ===============================
+  // LOADING STATE
+  // ===============================
+
+  if (isLoading) {
+    return <Loading message="Cargando plantilla..." />;
+  }
+
+  // ===============================
+  // RENDER
+  // ===============================
+
+  return (
+    <KeyboardAvoidingView
+      style={{ flex: 1 }}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView
+        style={{ flex: 1, backgroundColor: colors.background }}
+        contentContainerStyle={{ padding: LAYOUT.SPACING.LG }}
+        keyboardShouldPersistTaps="handled"
+      >
+        {error && (
+          <ErrorMessage
+            message={error}
+            variant="inline"
+            onDismiss={() => setError('')}
+            style={{ marginBottom: LAYOUT.SPACING.MD }}
+          />
+        )}
+
+        {/* Company */}
+        <Card variant="outlined" padding="lg" style={{ marginBottom: LAYOUT.SPACING.LG }}>
+          <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: LAYOUT.SPACING.MD }}>
+            <MaterialCommunityIcons name="domain" size={20} color={colors.text} style={{ marginRight: 8 }} />
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+              color: colors.text,
+            }}>
+              Datos de la Empresa
+            </Text>
+          </View>
+
+          <Input
+            label="Nombre"
+            value={template.company.name}
+            onChangeText={(text) => handleCompanyChange('name', text)}
+            required
+          />
+          <Input
+            label="CUIT"
+            value={template.company.taxId}
+            onChangeText={(text) => handleCompanyChange('taxId', text)}
+            keyboardType="numeric"
+          />
+          <Input
+            label="Dirección"
+            value={template.company.address}
+            onChangeText={(text) => handleCompanyChange('address', text)}
+          />
+          <Input
+            label="Teléfono"
+            value={template.company.phone}
+            onChangeText={(text) => handleCompanyChange('phone', text)}
+            keyboardType="phone-pad"
+          />
+          <Input
+            label="Email"
+            value={template.company.email}
+            onChangeText={(text) => handleCompanyChange('email', text)}
+            keyboardType="email-address"
+            autoCapitalize="none"
+          />
+          <Input
+            label="URL del logo"
+            placeholder="https://ejemplo.com/logo.png"
+            value={template.company.logoUrl}
+            onChangeText={(text) => handleCompanyChange('logoUrl', text)}
+            keyboardType="url"
+            autoCapitalize="none"
+          />
+        </Card>
+
+        {/* Layout */}
+        <Card variant="outlined" padding="lg" style={{ marginBottom: LAYOUT.SPACING.LG }}>
+          <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: LAYOUT.SPACING.MD }}>
+            <MaterialCommunityIcons name="file-document-outline" size={20} color={colors.text} style={{ marginRight: 8 }} />
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+              color: colors.text,
+            }}>
+              Diseño del Documento
+            </Text>
+          </View>
+
+          <Input
+            label="Color principal"
+            placeholder="#007AFF"
+            value={template.primaryColor}
+            onChangeText={(text) => setTemplate(prev => ({ ...prev, primaryColor: text }))}
+            autoCapitalize="none"
+          />
+          <Input
+            label="Texto del pie"
+            value={template.footerText}
+            onChangeText={(text) => setTemplate(prev => ({ ...prev, footerText: text }))}
+            multiline
+          />
+
+          <View style={{
+            flexDirection: 'row',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            marginBottom: LAYOUT.SPACING.MD,
+          }}>
+            <Text style={{ fontSize: TYPOGRAPHY.FONT_SIZE.MD, color: colors.text, flex: 1 }}>
+              Incluir QR y link de pago
+            </Text>
+            <Switch
+              value={template.showPaymentQR}
+              onValueChange={(value) => setTemplate(prev => ({ ...prev, showPaymentQR: value }))}
+              trackColor={{ false: colors.border, true: colors.primary }}
+              thumbColor={'#FFFFFF'}
+            />
+          </View>
+
+          <Input
+            label="Plantilla HTML personalizada (avanzado)"
+            placeholder="Dejar vacío para usar la plantilla por defecto"
+            value={template.customHtml}
+            onChangeText={(text) => setTemplate(prev => ({ ...prev, customHtml: text }))}
+            multiline
+            numberOfLines={6}
+            autoCapitalize="none"
+            autoCorrect={false}
+            style={{ textAlignVertical: 'top', fontFamily: 'monospace' }}
+            helperText="Variables disponibles: {{company.name}}, {{customer.name}}, {{#items}}...{{/items}}, {{#totals.taxes}}...{{/totals.taxes}}, {{totals.total}}, {{notes}}"
+          />
+        </Card>
+
+        {/* Actions */}
+        <View style={{
+          flexDirection: 'row',
+          gap: LAYOUT.SPACING.MD,
+          marginBottom: LAYOUT.SPACING.XL,
+        }}>
+          <Button
+            title="Restaurar"
+            variant="outline"
+            onPress={handleReset}
+            style={{ flex: 1 }}
+            disabled={isSaving}
+          />
+          <Button
+            title="Guardar"
+            onPress={handleSave}
+            loading={isSaving}
+            disabled={isSaving}
+            style={{ flex: 2 }}
+          />
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+export default DocumentSettingsScreen;
@@ -0,0 +1,315 @@
+// ===============================
+// SYNC STATUS SCREEN - PRESUPUESTOS APP
+// ===============================
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+import { StackScreenProps } from '@react-navigation/stack';
+
+// Components
+import Button from '../../components/common/Button';
+import Card from '../../components/common/Card';
+
+// Context
+import { useSync } from '../../context/SyncContext';
+import { useTheme } from '../../context/ThemeContext';
+
+// Services
+import * as syncService from '../../services/syncService';
+
+// Types
+import { OfflineMutation, ProfileStackParamList } from '../../types';
+
+// Constants
+import { LAYOUT, TYPOGRAPHY } from '../../constants/config';
+
+// ===============================
+// TYPES
+// ===============================
+
+type SyncStatusScreenProps = StackScreenProps<ProfileStackParamList, 'SyncStatus'>;
+
+// ===============================
+// SYNC STATUS SCREEN
+// ===============================
+
+const SyncStatusScreen: React.FC<SyncStatusScreenProps> = () => {
+  // ===============================
+  // HOOKS
+  // ===============================
+
+  const { colors } = useTheme();
+  const {
+    isOnline,
+    isSyncing,
+    queue,
+    pendingCount,
+    conflicts,
+    lastSync,
+    syncNow,
+    retryMutation,
+    overwriteMutation,
+    discardMutation,
+  } = useSync();
+
+  // ===============================
+  // STATE
+  // ===============================
+
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  // ===============================
+  // HANDLERS
+  // ===============================
+
+  const handleRetry = async (mutation: OfflineMutation) => {
+    try {
+      setRetryingId(mutation.id);
+      await retryMutation(mutation.id);
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'No se pudo reintentar el cambio');
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  const handleOverwrite = (mutation: OfflineMutation) => {
+    Alert.alert(
+      'Conservar mis cambios',
+      `"${syncService.describeMutation(mutation)}" reemplazará los cambios que se hicieron en el servidor mientras estabas sin conexión.`,
+      [
+        {
+          text: 'Cancelar',
+          style: 'cancel',
+        },
+        {
+          text: 'Conservar',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setRetryingId(mutation.id);
+              await overwriteMutation(mutation.id);
+            } catch (err: any) {
+              Alert.alert('Error', err.message || 'No se pudieron conservar los cambios');
+            } finally {
+              setRetryingId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleDiscard = (mutation: OfflineMutation) => {
+    Alert.alert(
+      'Descartar cambio',
+      `Se perderá "${syncService.describeMutation(mutation)}". Esta acción no se puede deshacer.`,
+      [
+        {
+          text: 'Cancelar',
+          style: 'cancel',
+        },
+        {
+          text: 'Descartar',
+          style: 'destructive',
+          onPress: () => discardMutation(mutation.id),
+        },
+      ]
+    );
+  };
+
+  // ===============================
+  // RENDER FUNCTIONS
+  // ===============================
+
+  const renderMutation = (mutation: OfflineMutation) => {
+    const isConflict = mutation.status === 'conflict';
+    const statusColor = isConflict ? colors.error : colors.warning;
+
+    return (
+      <Card
+        key={mutation.id}
+        variant="outlined"
+        padding="md"
+        style={{
+          marginBottom: LAYOUT.SPACING.MD,
+          borderLeftWidth: 4,
+          borderLeftColor: statusColor,
+        }}
+      >
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+          fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+          color: colors.text,
+          marginBottom: LAYOUT.SPACING.XS,
+        }}>
+          {syncService.describeMutation(mutation)}
+        </Text>
+
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+          color: colors.textSecondary,
+          marginBottom: isConflict ? LAYOUT.SPACING.SM : 0,
+        }}>
+          {isConflict ? 'Conflicto' : 'Pendiente'} • guardado el {new Date(mutation.createdAt).toLocaleString('es-AR')}
+        </Text>
+
+        {isConflict && (
+          <>
+            <View style={{
+              flexDirection: 'row',
+              alignItems: 'flex-start',
+              backgroundColor: colors.error + '15',
+              padding: LAYOUT.SPACING.SM,
+              borderRadius: LAYOUT.BORDER_RADIUS.SM,
+              marginBottom: LAYOUT.SPACING.MD,
+            }}>
+              <MaterialCommunityIcons name="alert-circle-outline" size={16} color={colors.error} style={{ marginRight: 6, marginTop: 1 }} />
+              <Text style={{
+                flex: 1,
+                fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+                color: colors.error,
+              }}>
+                {mutation.error}
+              </Text>
+            </View>
+
+            <View style={{ flexDirection: 'row', gap: LAYOUT.SPACING.SM }}>
+              <Button
+                title="Descartar"
+                variant="outline"
+                size="sm"
+                onPress={() => handleDiscard(mutation)}
+                disabled={retryingId !== null}
+                style={{ flex: 1 }}
+              />
+              <Button
+                title="Reintentar"
+                size="sm"
+                onPress={() => handleRetry(mutation)}
+                loading={retryingId === mutation.id}
+                disabled={!isOnline || retryingId !== null}
+                style={{ flex: 1 }}
+              />
+            </View>
+
+            {/* Una edición de producto en conflicto se puede forzar sobre la versión del servidor */}
+            {mutation.type === 'updateProduct' && (
+              <Button
+                title="Conservar mis cambios"
+                variant="outline"
+                size="sm"
+                onPress={() => handleOverwrite(mutation)}
+                disabled={!isOnline || retryingId !== null}
+                style={{ marginTop: LAYOUT.SPACING.SM }}
+              />
+            )}
+          </>
+        )}
+      </Card>
+    );
+  };
+
+  // ===============================
+  // RENDER
+  // ===============================
+
+  return (
+    <ScrollView
+      style={{ flex: 1, backgroundColor: colors.background }}
+      contentContainerStyle={{ padding: LAYOUT.SPACING.LG }}
+    >
+      {/* Status */}
+      <Card variant="outlined" padding="lg" style={{ marginBottom: LAYOUT.SPACING.LG }}>
+        <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: LAYOUT.SPACING.MD }}>
+          <MaterialCommunityIcons
+            name={isOnline ? 'cloud-check-outline' : 'cloud-off-outline'}
+            size={28}
+            color={isOnline ? colors.success : colors.warning}
+            style={{ marginRight: LAYOUT.SPACING.MD }}
+          />
+          <View style={{ flex: 1 }}>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+              color: colors.text,
+            }}>
+              {isOnline ? 'Conectado' : 'Sin conexión'}
+            </Text>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+              color: colors.textSecondary,
+            }}>
+              {lastSync
+                ? `Última sincronización: ${new Date(lastSync).toLocaleString('es-AR')}`
+                : 'Todavía no se sincronizaron cambios'}
+            </Text>
+          </View>
+        </View>
+
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+          color: colors.textSecondary,
+          marginBottom: LAYOUT.SPACING.MD,
+          lineHeight: 20,
+        }}>
+          Los presupuestos y productos que guardes sin señal quedan en el dispositivo y se envían en orden al recuperar la conexión.
+        </Text>
+
+        <Button
+          title={isSyncing ? 'Sincronizando...' : `Sincronizar ahora${pendingCount > 0 ? ` (${pendingCount})` : ''}`}
+          onPress={syncNow}
+          loading={isSyncing}
+          disabled={!isOnline || isSyncing || pendingCount === 0}
+          fullWidth
+          leftIcon={<MaterialCommunityIcons name="sync" size={18} color="#FFFFFF" style={{ marginRight: LAYOUT.SPACING.SM }} />}
+        />
+      </Card>
+
+      {/* Queue */}
+      {queue.length === 0 ? (
+        <View style={{ padding: LAYOUT.SPACING.XL, alignItems: 'center' }}>
+          <MaterialCommunityIcons name="check-circle-outline" size={48} color={colors.success} style={{ marginBottom: LAYOUT.SPACING.MD }} />
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+            color: colors.textSecondary,
+            textAlign: 'center',
+          }}>
+            No hay cambios pendientes
+          </Text>
+        </View>
+      ) : (
+        <>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+            fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+            color: colors.text,
+            marginBottom: LAYOUT.SPACING.MD,
+          }}>
+            Cambios guardados en el dispositivo ({queue.length})
+          </Text>
+
+          {conflicts.length > 0 && (
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+              color: colors.textSecondary,
+              marginBottom: LAYOUT.SPACING.MD,
+            }}>
+              Los cambios con conflicto fueron rechazados por el servidor. Corrige el dato desde la app y descártalos, o reinténtalos si ya se resolvió.
+            </Text>
+          )}
+
+          {queue.map(renderMutation)}
+        </>
+      )}
+    </ScrollView>
+  );
+};
+
+export default SyncStatusScreen;
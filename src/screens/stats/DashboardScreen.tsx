@@ -0,0 +1,483 @@
+// ===============================
+// DASHBOARD SCREEN - PRESUPUESTOS APP
+// ===============================
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  RefreshControl,
+  TouchableOpacity,
+} from 'react-native';
+import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+import { StackScreenProps } from '@react-navigation/stack';
+
+// Components
+import Card from '../../components/common/Card';
+import Loading from '../../components/common/Loading';
+import ErrorMessage from '../../components/common/ErrorMessage';
+import BarChart from '../../components/stats/BarChart';
+import LineChart from '../../components/stats/LineChart';
+
+// Context
+import { useAuth } from '../../context/AuthContext';
+import { useTheme } from '../../context/ThemeContext';
+
+// Services
+import * as authService from '../../services/authService';
+import * as statsService from '../../services/statsService';
+import * as quoteService from '../../services/quoteService';
+import * as paymentService from '../../services/paymentService';
+
+// Types
+import { DashboardStats, Quote, StatsRange, StatsStackParamList } from '../../types';
+
+// Constants
+import { LAYOUT, TYPOGRAPHY } from '../../constants/config';
+
+// ===============================
+// TYPES
+// ===============================
+
+type DashboardScreenProps = StackScreenProps<StatsStackParamList, 'Dashboard'>;
+
+// ===============================
+// CONSTANTS
+// ===============================
+
+const RANGE_OPTIONS: Array<{ value: StatsRange; label: string }> = [
+  { value: '7d', label: '7 días' },
+  { value: '30d', label: '30 días' },
+  { value: '90d', label: '90 días' },
+  { value: '12m', label: '12 meses' },
+];
+
+const QUOTE_STATUSES: Quote['status'][] = ['paid', 'pending', 'expired', 'cancelled'];
+
+const formatCurrency = (value: number): string => `$${Math.round(value).toLocaleString('es-AR')}`;
+
+// ===============================
+// DASHBOARD SCREEN
+// ===============================
+
+const DashboardScreen: React.FC<DashboardScreenProps> = () => {
+  // ===============================
+  // HOOKS
+  // ===============================
+
+  const { user } = useAuth();
+  const { colors } = useTheme();
+  const canViewStats = authService.canViewStats(user);
+
+  // ===============================
+  // STATE
+  // ===============================
+
+  const [range, setRange] = useState<StatsRange>('30d');
+  const [stats, setStats] = useState<DashboardStats | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  // ===============================
+  // EFFECTS
+  // ===============================
+
+  useEffect(() => {
+    if (canViewStats) {
+      loadStats();
+    }
+  }, [range, canViewStats]);
+
+  // ===============================
+  // HANDLERS
+  // ===============================
+
+  const loadStats = async (forceRefresh = false) => {
+    try {
+      setError('');
+      const data = await statsService.getDashboardStats(range, forceRefresh);
+      setStats(data);
+    } catch (err: any) {
+      setError(err.message || 'Error cargando estadísticas');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadStats(true);
+    setIsRefreshing(false);
+  };
+
+  const handleRangeChange = (value: StatsRange) => {
+    if (value === range) return;
+    setIsLoading(true);
+    setRange(value);
+  };
+
+  // ===============================
+  // PERMISSIONS
+  // ===============================
+
+  if (!canViewStats) {
+    return (
+      <View style={{ flex: 1, backgroundColor: colors.background }}>
+        <ErrorMessage
+          message="Solo los administradores pueden ver las estadísticas de ventas"
+          variant="card"
+          severity="warning"
+          style={{ margin: LAYOUT.SPACING.LG }}
+        />
+      </View>
+    );
+  }
+
+  // ===============================
+  // RENDER FUNCTIONS
+  // ===============================
+
+  const renderRangeSelector = () => (
+    <View style={{
+      flexDirection: 'row',
+      backgroundColor: colors.backgroundSecondary,
+      borderRadius: LAYOUT.BORDER_RADIUS.MD,
+      padding: 4,
+      marginBottom: LAYOUT.SPACING.LG,
+    }}>
+      {RANGE_OPTIONS.map(option => {
+        const selected = option.value === range;
+        return (
+          <TouchableOpacity
+            key={option.value}
+            onPress={() => handleRangeChange(option.value)}
+            style={{
+              flex: 1,
+              alignItems: 'center',
+              paddingVertical: LAYOUT.SPACING.SM,
+              borderRadius: LAYOUT.BORDER_RADIUS.SM,
+              backgroundColor: selected ? colors.background : 'transparent',
+            }}
+          >
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+              fontWeight: selected ? TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD : TYPOGRAPHY.FONT_WEIGHT.REGULAR,
+              color: selected ? colors.primary : colors.textSecondary,
+            }}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderKpi = (icon: React.ComponentProps<typeof MaterialCommunityIcons>['name'], label: string, value: string, color: string, caption?: string) => (
+    <Card variant="outlined" padding="md" style={{ width: '48%', marginBottom: LAYOUT.SPACING.MD }}>
+      <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: LAYOUT.SPACING.SM }}>
+        <MaterialCommunityIcons name={icon} size={18} color={color} style={{ marginRight: 6 }} />
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+          color: colors.textSecondary,
+          flex: 1,
+        }}>
+          {label}
+        </Text>
+      </View>
+      <Text style={{
+        fontSize: TYPOGRAPHY.FONT_SIZE.XL,
+        fontWeight: TYPOGRAPHY.FONT_WEIGHT.BOLD,
+        color: colors.text,
+      }}>
+        {value}
+      </Text>
+      {caption && (
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.XS,
+          color: colors.textTertiary,
+          marginTop: 2,
+        }}>
+          {caption}
+        </Text>
+      )}
+    </Card>
+  );
+
+  const renderSectionTitle = (title: string) => (
+    <Text style={{
+      fontSize: TYPOGRAPHY.FONT_SIZE.LG,
+      fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+      color: colors.text,
+      marginBottom: LAYOUT.SPACING.MD,
+    }}>
+      {title}
+    </Text>
+  );
+
+  const renderStatusBreakdown = (data: DashboardStats) => {
+    const total = data.quoteStats.total;
+
+    return (
+      <Card variant="outlined" padding="lg" style={{ marginBottom: LAYOUT.SPACING.LG }}>
+        {renderSectionTitle('Presupuestos por estado')}
+
+        {/* Barra apilada */}
+        <View style={{
+          flexDirection: 'row',
+          height: 12,
+          borderRadius: LAYOUT.BORDER_RADIUS.PILL,
+          overflow: 'hidden',
+          backgroundColor: colors.backgroundSecondary,
+          marginBottom: LAYOUT.SPACING.MD,
+        }}>
+          {total > 0 && QUOTE_STATUSES.map(status => (
+            <View
+              key={status}
+              style={{
+                flex: data.quoteStats[status],
+                backgroundColor: quoteService.formatQuoteStatus(status).color,
+              }}
+            />
+          ))}
+        </View>
+
+        {QUOTE_STATUSES.map(status => {
+          const statusInfo = quoteService.formatQuoteStatus(status);
+          const count = data.quoteStats[status];
+
+          return (
+            <View
+              key={status}
+              style={{
+                flexDirection: 'row',
+                alignItems: 'center',
+                marginBottom: LAYOUT.SPACING.SM,
+              }}
+            >
+              <View style={{
+                width: 10,
+                height: 10,
+                borderRadius: 5,
+                backgroundColor: statusInfo.color,
+                marginRight: LAYOUT.SPACING.SM,
+              }} />
+              <Text style={{
+                flex: 1,
+                fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+                color: colors.text,
+              }}>
+                {statusInfo.label}
+              </Text>
+              <Text style={{
+                fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+                fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+                color: colors.text,
+              }}>
+                {count}
+              </Text>
+              <Text style={{
+                width: 52,
+                textAlign: 'right',
+                fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+                color: colors.textSecondary,
+              }}>
+                {total > 0 ? `${Math.round((count / total) * 100)}%` : '-'}
+              </Text>
+            </View>
+          );
+        })}
+      </Card>
+    );
+  };
+
+  const renderRevenueCharts = (data: DashboardStats) => {
+    let accumulated = 0;
+    const cumulative = data.revenue.map(point => {
+      accumulated += point.amount;
+      return { label: point.label, value: accumulated };
+    });
+
+    return (
+      <>
+        <Card variant="outlined" padding="lg" style={{ marginBottom: LAYOUT.SPACING.LG }}>
+          {renderSectionTitle(range === '12m' ? 'Ingresos por mes' : range === '90d' ? 'Ingresos por semana' : 'Ingresos por día')}
+          <BarChart
+            data={data.revenue.map(point => ({ label: point.label, value: point.amount }))}
+            color={colors.success}
+          />
+        </Card>
+
+        <Card variant="outlined" padding="lg" style={{ marginBottom: LAYOUT.SPACING.LG }}>
+          {renderSectionTitle('Ingresos acumulados')}
+          <LineChart data={cumulative} color={colors.primary} />
+        </Card>
+      </>
+    );
+  };
+
+  const renderPaymentMethods = (data: DashboardStats) => {
+    const methods = data.paymentStats.paymentMethods || [];
+    if (methods.length === 0) return null;
+
+    return (
+      <Card variant="outlined" padding="lg" style={{ marginBottom: LAYOUT.SPACING.LG }}>
+        {renderSectionTitle('Medios de pago')}
+
+        {methods.map(method => (
+          <View
+            key={method._id}
+            style={{
+              flexDirection: 'row',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: LAYOUT.SPACING.SM,
+            }}
+          >
+            <Text style={{
+              flex: 1,
+              fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+              color: colors.text,
+            }}>
+              {paymentService.formatPaymentMethod(method._id)}
+            </Text>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.SM,
+              color: colors.textSecondary,
+              marginRight: LAYOUT.SPACING.MD,
+            }}>
+              {method.count} pago{method.count !== 1 ? 's' : ''}
+            </Text>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+              fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+              color: colors.text,
+            }}>
+              {formatCurrency(method.amount)}
+            </Text>
+          </View>
+        ))}
+      </Card>
+    );
+  };
+
+  const renderTopProducts = (data: DashboardStats) => (
+    <Card variant="outlined" padding="lg" style={{ marginBottom: LAYOUT.SPACING.LG }}>
+      {renderSectionTitle('Productos más cotizados')}
+
+      {data.topProducts.length === 0 ? (
+        <Text style={{
+          fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+          color: colors.textSecondary,
+        }}>
+          Sin presupuestos en el período
+        </Text>
+      ) : data.topProducts.map((product, index) => (
+        <View
+          key={product._id}
+          style={{
+            flexDirection: 'row',
+            alignItems: 'center',
+            paddingVertical: LAYOUT.SPACING.SM,
+            borderTopWidth: index > 0 ? 1 : 0,
+            borderTopColor: colors.border,
+          }}
+        >
+          <Text style={{
+            width: 24,
+            fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+            fontWeight: TYPOGRAPHY.FONT_WEIGHT.BOLD,
+            color: colors.primary,
+          }}>
+            {index + 1}
+          </Text>
+          <View style={{ flex: 1, marginRight: LAYOUT.SPACING.SM }}>
+            <Text
+              style={{
+                fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+                color: colors.text,
+              }}
+              numberOfLines={1}
+            >
+              {product.name}
+            </Text>
+            <Text style={{
+              fontSize: TYPOGRAPHY.FONT_SIZE.XS,
+              color: colors.textSecondary,
+            }}>
+              {product.count} unidad{product.count !== 1 ? 'es' : ''}
+            </Text>
+          </View>
+          <Text style={{
+            fontSize: TYPOGRAPHY.FONT_SIZE.MD,
+            fontWeight: TYPOGRAPHY.FONT_WEIGHT.SEMIBOLD,
+            color: colors.text,
+          }}>
+            {formatCurrency(product.totalValue)}
+          </Text>
+        </View>
+      ))}
+    </Card>
+  );
+
+  // ===============================
+  // RENDER
+  // ===============================
+
+  return (
+    <ScrollView
+      style={{ flex: 1, backgroundColor: colors.background }}
+      contentContainerStyle={{ padding: LAYOUT.SPACING.LG }}
+      refreshControl={
+        <RefreshControl
+          refreshing={isRefreshing}
+          onRefresh={handleRefresh}
+          colors={[colors.primary]}
+          tintColor={colors.primary}
+        />
+      }
+    >
+      {renderRangeSelector()}
+
+      {error && (
+        <ErrorMessage
+          message={error}
+          variant="inline"
+          onRetry={() => loadStats(true)}
+          style={{ marginBottom: LAYOUT.SPACING.LG }}
+        />
+      )}
+
+      {isLoading ? (
+        <Loading variant="inline" message="Cargando estadísticas..." style={{ paddingVertical: LAYOUT.SPACING.XXL }} />
+      ) : stats && (
+        <>
+          {/* KPI Cards */}
+          <View style={{
+            flexDirection: 'row',
+            flexWrap: 'wrap',
+            justifyContent: 'space-between',
+            marginBottom: LAYOUT.SPACING.SM,
+          }}>
+            {renderKpi('cash-multiple', 'Ingresos', formatCurrency(stats.paymentStats.totalAmount), colors.success,
+              `${stats.paymentStats.approvedPayments} pagos aprobados`)}
+            {renderKpi('clipboard-text-outline', 'Presupuestos', `${stats.quoteStats.total}`, colors.primary,
+              `${formatCurrency(stats.quoteStats.totalValue)} cotizado`)}
+            {renderKpi('swap-horizontal', 'Conversión', `${stats.quoteStats.conversionRate.toFixed(1)}%`, colors.warning,
+              'Presupuestos pagados')}
+            {renderKpi('receipt', 'Ticket promedio', formatCurrency(stats.paymentStats.averageAmount), colors.primary,
+              `Aprobación ${stats.paymentStats.approvalRate.toFixed(1)}%`)}
+          </View>
+
+          {renderRevenueCharts(stats)}
+          {renderStatusBreakdown(stats)}
+          {renderTopProducts(stats)}
+          {renderPaymentMethods(stats)}
+        </>
+      )}
+    </ScrollView>
+  );
+};
+
+export default DashboardScreen;
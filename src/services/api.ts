@@ -5,8 +5,9 @@
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import Constants from 'expo-constants';
-import { ApiResponse } from '../types';
-import { STORAGE_CONFIG, API_CONFIG, ERROR_CONFIG } from '../constants/config';
+import { ApiResponse, ApiCacheOptions } from '../types';
+import { STORAGE_CONFIG, API_CONFIG, ERROR_CONFIG, CACHE_CONFIG, DEV_CONFIG } from '../constants/config';
+import { setCacheItem, getCacheEntry, removeCacheItems, cleanExpiredCache } from '../utils/storage';
 
 declare const global: { navigationRef?: any };
 
@@ -29,6 +30,12 @@ const api: AxiosInstance = axios.create({
   },
 });
 
+// En modo demo las requests se resuelven en memoria sin backend. Se carga recién acá
+// para que el backend simulado y sus datos no se evalúen en producción
+if (DEV_CONFIG.MOCK_API) {
+  api.defaults.adapter = (require('./mock/mockAdapter') as typeof import('./mock/mockAdapter')).mockAdapter;
+}
+
 // ===============================
 // INTERCEPTOR DE REQUEST
 // ===============================
@@ -114,6 +121,7 @@ api.interceptors.response.use(
           STORAGE_CONFIG.KEYS.AUTH_TOKEN,
           STORAGE_CONFIG.KEYS.USER_DATA,
         ]);
+        await invalidateCache();
 
         // Emitir evento para redirigir a login
         // Nota: Esto se puede manejar mejor con un context o event emitter
@@ -149,22 +157,139 @@ api.interceptors.response.use(
   }
 );
 
+// ===============================
+// CACHE DE LECTURAS
+// ===============================
+
+// Requests en curso por clave, para no duplicar revalidaciones simultáneas
+const inflightRequests = new Map<string, Promise<ApiResponse<any>>>();
+
+// Se incrementa al invalidar: las respuestas pedidas antes de una mutación no se guardan
+let cacheGeneration = 0;
+
+/**
+ * Clave de cache para un endpoint y sus filtros
+ */
+const buildCacheKey = (url: string, config?: AxiosRequestConfig): string => {
+  const params = config?.params
+    ? JSON.stringify(config.params, Object.keys(config.params).sort())
+    : '';
+
+  return `${CACHE_CONFIG.KEY_PREFIX}${url}${params}`;
+};
+
+/**
+ * Pedir un endpoint y guardar la respuesta exitosa en cache
+ */
+const fetchAndCache = <T>(
+  url: string,
+  config: AxiosRequestConfig | undefined,
+  key: string,
+  ttl: number
+): Promise<ApiResponse<T>> => {
+  const inflight = inflightRequests.get(key);
+  if (inflight) return inflight;
+
+  const generation = cacheGeneration;
+  const request: Promise<ApiResponse<T>> = api.get(url, config)
+    .then(async response => {
+      const data: ApiResponse<T> = response.data;
+
+      if (data?.success && generation === cacheGeneration) {
+        await setCacheItem(key, data, ttl + CACHE_CONFIG.MAX_STALE);
+      }
+
+      return data;
+    })
+    .catch(error => {
+      throw handleApiError(error);
+    })
+    .finally(() => {
+      if (inflightRequests.get(key) === request) {
+        inflightRequests.delete(key);
+      }
+    });
+
+  inflightRequests.set(key, request);
+  return request;
+};
+
+/**
+ * Invalidar las lecturas cacheadas de los endpoints indicados (prefijos de URL).
+ * Sin argumentos limpia todo el cache de la API
+ */
+export const invalidateCache = async (...endpoints: string[]): Promise<void> => {
+  cacheGeneration++;
+  inflightRequests.clear();
+
+  const prefixes = endpoints.length > 0 ? endpoints : [''];
+  await Promise.all(
+    prefixes.map(endpoint => removeCacheItems(`${CACHE_CONFIG.KEY_PREFIX}${endpoint}`))
+  );
+};
+
+/**
+ * Borrar las lecturas cacheadas que ya pasaron el límite de MAX_STALE. Cada filtro,
+ * búsqueda y página es una clave distinta y solo se descarta al volver a leerla,
+ * así que se barre al iniciar la app
+ */
+export const pruneExpiredCache = async (): Promise<void> => {
+  await cleanExpiredCache(CACHE_CONFIG.KEY_PREFIX);
+};
+
 // ===============================
 // HELPER FUNCTIONS
 // ===============================
 
 /**
- * Wrapper para requests GET
+ * Wrapper para requests GET. Con `cache` aplica stale-while-revalidate:
+ * dentro del TTL responde desde el dispositivo; vencido responde la copia
+ * guardada y avisa por `onRevalidate` cuando llega la respuesta nueva
  */
 export const get = async <T = any>(
   url: string,
-  config?: AxiosRequestConfig
+  config?: AxiosRequestConfig,
+  cache?: ApiCacheOptions<T>
 ): Promise<ApiResponse<T>> => {
+  if (!cache) {
+    try {
+      const response = await api.get(url, config);
+      return response.data;
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  }
+
+  const key = buildCacheKey(url, config);
+  const cached = cache.forceRefresh ? null : await getCacheEntry<ApiResponse<T>>(key);
+
+  if (cached) {
+    if (Date.now() - cached.timestamp > cache.ttl) {
+      fetchAndCache<T>(url, config, key, cache.ttl)
+        .then(response => {
+          if (JSON.stringify(response) !== JSON.stringify(cached.data)) {
+            cache.onRevalidate?.(response);
+          }
+        })
+        .catch(error => {
+          if (__DEV__) {
+            console.log('♻️ Cache revalidation failed:', url, error?.message);
+          }
+        });
+    }
+
+    return cached.data;
+  }
+
   try {
-    const response = await api.get(url, config);
-    return response.data;
+    return await fetchAndCache<T>(url, config, key, cache.ttl);
   } catch (error) {
-    throw handleApiError(error);
+    // Sin conexión, la última copia guardada es mejor que un error
+    if (cache.forceRefresh && isNetworkError(error)) {
+      const fallback = await getCacheEntry<ApiResponse<T>>(key);
+      if (fallback) return fallback.data;
+    }
+    throw error;
   }
 };
 
@@ -265,6 +390,13 @@ const handleApiError = (error: any) => {
   };
 };
 
+/**
+ * Verificar si un error de API se debe a falta de conexión (no hubo respuesta del servidor)
+ */
+export const isNetworkError = (error: any): boolean => {
+  return error?.error?.code === 'NETWORK_ERROR';
+};
+
 /**
  * Función para establecer el token de autenticación
  */
@@ -286,6 +418,7 @@ export const clearAuth = async () => {
     STORAGE_CONFIG.KEYS.AUTH_TOKEN,
     STORAGE_CONFIG.KEYS.USER_DATA,
   ]);
+  await invalidateCache();
   delete api.defaults.headers.Authorization;
 };
 
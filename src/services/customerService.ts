@@ -0,0 +1,247 @@
+// ===============================
+// CUSTOMER SERVICE - PRESUPUESTOS APP
+// ===============================
+
+import {
+  Customer,
+  QuoteCustomer,
+  CreateCustomerRequest,
+  UpdateCustomerRequest,
+  CustomersResponse,
+  CustomerFilters,
+  ApiResponse
+} from '../types';
+import { get, post, put, del } from './api';
+import { API_ENDPOINTS } from '../types';
+import { validateEmail } from './authService';
+
+// ===============================
+// CUSTOMER SERVICE FUNCTIONS
+// ===============================
+
+/**
+ * Obtener lista de clientes con filtros
+ */
+export const getCustomers = async (
+  filters?: CustomerFilters
+): Promise<CustomersResponse> => {
+  try {
+    const queryParams = new URLSearchParams();
+
+    if (filters) {
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== null && value !== '') {
+          queryParams.append(key, value.toString());
+        }
+      });
+    }
+
+    const url = `${API_ENDPOINTS.CUSTOMERS.LIST}?${queryParams.toString()}`;
+    const response: ApiResponse<CustomersResponse> = await get(url);
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Error obteniendo clientes');
+    }
+
+    return response.data;
+  } catch (error: any) {
+    throw new Error(error.message || 'Error obteniendo clientes');
+  }
+};
+
+/**
+ * Obtener cliente por ID
+ */
+export const getCustomerById = async (id: string): Promise<Customer> => {
+  try {
+    const response: ApiResponse<Customer> = await get(
+      API_ENDPOINTS.CUSTOMERS.GET(id)
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Error obteniendo cliente');
+    }
+
+    return response.data;
+  } catch (error: any) {
+    throw new Error(error.message || 'Error obteniendo cliente');
+  }
+};
+
+/**
+ * Crear nuevo cliente
+ */
+export const createCustomer = async (
+  customerData: CreateCustomerRequest
+): Promise<Customer> => {
+  try {
+    const response: ApiResponse<Customer> = await post(
+      API_ENDPOINTS.CUSTOMERS.CREATE,
+      customerData
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Error creando cliente');
+    }
+
+    return response.data;
+  } catch (error: any) {
+    throw new Error(error.message || 'Error creando cliente');
+  }
+};
+
+/**
+ * Actualizar cliente existente
+ */
+export const updateCustomer = async (
+  id: string,
+  customerData: UpdateCustomerRequest
+): Promise<Customer> => {
+  try {
+    const response: ApiResponse<Customer> = await put(
+      API_ENDPOINTS.CUSTOMERS.UPDATE(id),
+      customerData
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Error actualizando cliente');
+    }
+
+    return response.data;
+  } catch (error: any) {
+    throw new Error(error.message || 'Error actualizando cliente');
+  }
+};
+
+/**
+ * Eliminar cliente (soft delete, los presupuestos conservan sus datos)
+ */
+export const deleteCustomer = async (id: string): Promise<void> => {
+  try {
+    const response: ApiResponse = await del(API_ENDPOINTS.CUSTOMERS.DELETE(id));
+
+    if (!response.success) {
+      throw new Error(response.message || 'Error eliminando cliente');
+    }
+  } catch (error: any) {
+    throw new Error(error.message || 'Error eliminando cliente');
+  }
+};
+
+// ===============================
+// UTILITY FUNCTIONS
+// ===============================
+
+/**
+ * Validar datos del cliente
+ */
+export const validateCustomerData = (data: CreateCustomerRequest): {
+  isValid: boolean;
+  errors: Record<string, string>;
+} => {
+  const errors: Record<string, string> = {};
+
+  // Validar nombre
+  if (!data.name || data.name.trim().length < 2) {
+    errors.name = 'El nombre debe tener al menos 2 caracteres';
+  }
+
+  // Validar email si se proporciona
+  if (data.email && !validateEmail(data.email)) {
+    errors.email = 'El email no es válido';
+  }
+
+  // Validar teléfono si se proporciona
+  if (data.phone && !/^[\+]?[1-9][\d]{0,15}$/.test(data.phone.replace(/[\s\-\(\)]/g, ''))) {
+    errors.phone = 'El teléfono no es válido';
+  }
+
+  // Validar CUIT/CUIL si se proporciona
+  if (data.taxId && !validateTaxId(data.taxId)) {
+    errors.taxId = 'El CUIT no es válido';
+  }
+
+  // Validar notas
+  if (data.notes && data.notes.length > 500) {
+    errors.notes = 'Las notas no pueden superar los 500 caracteres';
+  }
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors,
+  };
+};
+
+/**
+ * Validar CUIT/CUIL (11 dígitos con dígito verificador)
+ */
+export const validateTaxId = (taxId: string): boolean => {
+  const digits = taxId.replace(/\D/g, '');
+  if (digits.length !== 11) return false;
+
+  const weights = [5, 4, 3, 2, 7, 6, 5, 4, 3, 2];
+  const sum = weights.reduce((acc, weight, index) => acc + weight * Number(digits[index]), 0);
+  const remainder = 11 - (sum % 11);
+  const checkDigit = remainder === 11 ? 0 : remainder === 10 ? 9 : remainder;
+
+  return checkDigit === Number(digits[10]);
+};
+
+/**
+ * Formatear CUIT/CUIL como XX-XXXXXXXX-X
+ */
+export const formatTaxId = (taxId?: string): string => {
+  if (!taxId) return '';
+
+  const digits = taxId.replace(/\D/g, '');
+  if (digits.length !== 11) return taxId;
+
+  return `${digits.slice(0, 2)}-${digits.slice(2, 10)}-${digits.slice(10)}`;
+};
+
+/**
+ * Filtrar clientes localmente por nombre, email, teléfono o CUIT
+ */
+export const filterCustomers = (
+  customers: Customer[],
+  search: string
+): Customer[] => {
+  const searchTerm = search.trim().toLowerCase();
+  if (!searchTerm) return customers;
+
+  const searchDigits = searchTerm.replace(/\D/g, '');
+
+  return customers.filter(customer =>
+    customer.name.toLowerCase().includes(searchTerm) ||
+    customer.email?.toLowerCase().includes(searchTerm) ||
+    (searchDigits.length > 0 && (
+      customer.phone?.replace(/\D/g, '').includes(searchDigits) ||
+      customer.taxId?.replace(/\D/g, '').includes(searchDigits)
+    ))
+  );
+};
+
+/**
+ * Convertir un cliente del directorio en los datos que se guardan en el presupuesto
+ */
+export const toQuoteCustomer = (customer: Customer): QuoteCustomer => ({
+  customerId: customer._id,
+  name: customer.name,
+  email: customer.email,
+  phone: customer.phone,
+  address: customer.address,
+  taxId: customer.taxId,
+});
+
+export default {
+  getCustomers,
+  getCustomerById,
+  createCustomer,
+  updateCustomer,
+  deleteCustomer,
+  validateCustomerData,
+  validateTaxId,
+  formatTaxId,
+  filterCustomers,
+  toQuoteCustomer,
+};
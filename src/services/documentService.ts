@@ -0,0 +1,392 @@
+// ===============================
+// DOCUMENT SERVICE - PRESUPUESTOS APP
+// ===============================
+
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { File } from 'expo-file-system';
+import {
+  Quote,
+  Payment,
+  PaymentReceipt,
+  DocumentTemplate,
+} from '../types';
+import { DOCUMENT_CONFIG, IMAGE_CONFIG, STORAGE_CONFIG } from '../constants/config';
+import { DEFAULT_QUOTE_TEMPLATE, DEFAULT_RECEIPT_TEMPLATE } from '../constants/documentTemplates';
+import { renderTemplate } from '../utils/templateRenderer';
+import { getItem, setItem, removeItem } from '../utils/storage';
+import { formatBundleComponents, formatPrice, formatTaxRate, getProductImages } from './productService';
+import { formatItemName, getQuoteSummary, getQuoteTaxes } from './quoteService';
+import { formatPaymentMethod } from './paymentService';
+import { formatTaxId } from './customerService';
+
+// ===============================
+// TEMPLATE FUNCTIONS
+// ===============================
+
+/**
+ * Obtener plantilla por defecto a partir de la configuración
+ */
+export const getDefaultDocumentTemplate = (): DocumentTemplate => ({
+  company: {
+    name: DOCUMENT_CONFIG.COMPANY.NAME,
+    address: DOCUMENT_CONFIG.COMPANY.ADDRESS,
+    phone: DOCUMENT_CONFIG.COMPANY.PHONE,
+    email: DOCUMENT_CONFIG.COMPANY.EMAIL,
+    taxId: DOCUMENT_CONFIG.COMPANY.TAX_ID,
+    logoUrl: DOCUMENT_CONFIG.COMPANY.LOGO_URL,
+  },
+  primaryColor: DOCUMENT_CONFIG.PRIMARY_COLOR,
+  footerText: DOCUMENT_CONFIG.FOOTER_TEXT,
+  showPaymentQR: true,
+  customHtml: '',
+});
+
+/**
+ * Obtener plantilla de documentos configurada (o la de por defecto)
+ */
+export const getDocumentTemplate = async (): Promise<DocumentTemplate> => {
+  const defaults = getDefaultDocumentTemplate();
+  const stored = await getItem<Partial<DocumentTemplate>>(STORAGE_CONFIG.KEYS.DOCUMENT_TEMPLATE);
+
+  if (!stored) {
+    return defaults;
+  }
+
+  return {
+    ...defaults,
+    ...stored,
+    company: { ...defaults.company, ...stored.company },
+  };
+};
+
+/**
+ * Guardar plantilla de documentos (solo admin)
+ */
+export const saveDocumentTemplate = async (template: DocumentTemplate): Promise<void> => {
+  try {
+    await setItem(STORAGE_CONFIG.KEYS.DOCUMENT_TEMPLATE, template);
+  } catch (error: any) {
+    throw new Error(error.message || 'Error guardando plantilla');
+  }
+};
+
+/**
+ * Restaurar plantilla por defecto
+ */
+export const resetDocumentTemplate = async (): Promise<void> => {
+  try {
+    await removeItem(STORAGE_CONFIG.KEYS.DOCUMENT_TEMPLATE);
+  } catch (error: any) {
+    throw new Error(error.message || 'Error restaurando plantilla');
+  }
+};
+
+// ===============================
+// QUOTE DOCUMENT
+// ===============================
+
+const formatDate = (date: string): string => {
+  return new Date(date).toLocaleDateString('es-AR', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+};
+
+const mapDocumentItems = (quote: Quote) => {
+  const productLines = quote.items.map(item => ({
+    name: formatItemName(item.productSnapshot),
+    sku: item.productSnapshot.variant?.sku,
+    components: item.productSnapshot.components && formatBundleComponents(item.productSnapshot.components),
+    image: item.product ? getProductImages(item.product)[0] : undefined,
+    quantity: item.quantity,
+    unitPrice: formatPrice(item.productSnapshot.price),
+    discount: item.discount ? `${item.discount}%` : undefined,
+    taxRate: item.taxRate !== undefined ? formatTaxRate(item.taxRate) : undefined,
+    subtotal: formatPrice(item.subtotal),
+  }));
+
+  // Las líneas libres van después de los productos, en la misma tabla
+  const customLines = (quote.customItems || []).map(item => ({
+    name: item.description,
+    quantity: item.quantity,
+    unitPrice: formatPrice(item.unitPrice),
+    discount: item.discount ? `${item.discount}%` : undefined,
+    taxRate: formatTaxRate(item.taxRate),
+    subtotal: formatPrice(item.subtotal),
+  }));
+
+  return [...productLines, ...customLines];
+};
+
+/**
+ * Desglose de IVA por alícuota para la plantilla
+ */
+const mapDocumentTaxes = (quote: Quote) => {
+  return getQuoteTaxes(quote).map(tax => ({
+    label: formatTaxRate(tax.rate),
+    base: formatPrice(tax.base),
+    amount: formatPrice(tax.amount),
+  }));
+};
+
+/**
+ * Armar datos del presupuesto para la plantilla
+ */
+export const buildQuoteDocumentData = (
+  quote: Quote,
+  template: DocumentTemplate,
+  payment?: Payment | null
+): Record<string, any> => {
+  const summary = getQuoteSummary(quote);
+  const hasQR = template.showPaymentQR && payment?.qrCode?.startsWith('data:image/');
+  const paymentLink = payment?.initPoint || payment?.qrCodeData;
+
+  return {
+    company: template.company,
+    primaryColor: template.primaryColor,
+    footerText: template.footerText,
+    document: {
+      number: quote.quoteNumber,
+      date: formatDate(quote.createdAt),
+      expiresAt: formatDate(quote.expiresAt),
+    },
+    customer: { ...quote.customer, taxId: formatTaxId(quote.customer.taxId) },
+    items: mapDocumentItems(quote),
+    totals: {
+      subtotal: formatPrice(quote.subtotal),
+      discount: formatPrice(quote.discount),
+      discountPercentage: Number(summary.discountPercentage.toFixed(2)),
+      tax: formatPrice(quote.tax),
+      taxPercentage: Number(summary.taxPercentage.toFixed(2)),
+      taxes: mapDocumentTaxes(quote),
+      total: formatPrice(quote.total),
+      hasDiscount: quote.discount > 0,
+      hasTax: quote.tax > 0,
+    },
+    notes: quote.notes,
+    payment: quote.status === 'pending' && (hasQR || paymentLink)
+      ? {
+          qrImage: hasQR ? payment?.qrCode : undefined,
+          link: paymentLink,
+        }
+      : null,
+  };
+};
+
+/**
+ * Renderizar HTML del presupuesto
+ */
+export const renderQuoteHtml = (
+  quote: Quote,
+  template: DocumentTemplate,
+  payment?: Payment | null
+): string => {
+  const html = template.customHtml?.trim() || DEFAULT_QUOTE_TEMPLATE;
+  return renderTemplate(html, buildQuoteDocumentData(quote, template, payment));
+};
+
+// ===============================
+// RECEIPT DOCUMENT
+// ===============================
+
+/**
+ * Armar datos del comprobante de pago para la plantilla
+ */
+export const buildReceiptDocumentData = (
+  quote: Quote,
+  payment: Payment,
+  receipt: PaymentReceipt,
+  template: DocumentTemplate
+): Record<string, any> => {
+  const paidAt = new Date(payment.paidAt || payment.updatedAt).toLocaleDateString('es-AR', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+  return {
+    company: template.company,
+    primaryColor: template.primaryColor,
+    footerText: template.footerText,
+    document: {
+      number: receipt.receiptNumber,
+      date: formatDate(receipt.issuedAt),
+    },
+    quoteNumber: quote.quoteNumber,
+    customer: { ...quote.customer, taxId: formatTaxId(quote.customer.taxId) },
+    items: mapDocumentItems(quote),
+    totals: {
+      subtotal: formatPrice(quote.subtotal),
+      discount: formatPrice(quote.discount),
+      tax: formatPrice(quote.tax),
+      taxes: mapDocumentTaxes(quote),
+      hasDiscount: quote.discount > 0,
+      hasTax: quote.tax > 0,
+    },
+    payment: {
+      amount: formatPrice(payment.amount),
+      paidAt,
+      method: formatPaymentMethod(payment.paymentMethod),
+      mercadopagoId: payment.mercadopagoId,
+    },
+  };
+};
+
+/**
+ * Renderizar HTML del comprobante de pago
+ */
+export const renderReceiptHtml = (
+  quote: Quote,
+  payment: Payment,
+  receipt: PaymentReceipt,
+  template: DocumentTemplate
+): string => {
+  return renderTemplate(
+    DEFAULT_RECEIPT_TEMPLATE,
+    buildReceiptDocumentData(quote, payment, receipt, template)
+  );
+};
+
+// ===============================
+// PDF FUNCTIONS
+// ===============================
+
+/**
+ * Generar PDF a partir de HTML y devolver la URI del archivo
+ */
+export const generatePdf = async (html: string): Promise<string> => {
+  try {
+    const { uri } = await Print.printToFileAsync({
+      html,
+      width: DOCUMENT_CONFIG.PAGE.WIDTH,
+      height: DOCUMENT_CONFIG.PAGE.HEIGHT,
+    });
+
+    return uri;
+  } catch (error: any) {
+    throw new Error(error.message || 'Error generando PDF');
+  }
+};
+
+/**
+ * Compartir un PDF con el share sheet nativo
+ */
+export const sharePdf = async (uri: string, title: string): Promise<void> => {
+  const isAvailable = await Sharing.isAvailableAsync();
+
+  if (!isAvailable) {
+    throw new Error('Compartir archivos no está disponible en este dispositivo');
+  }
+
+  await Sharing.shareAsync(uri, {
+    mimeType: DOCUMENT_CONFIG.MIME_TYPE,
+    UTI: DOCUMENT_CONFIG.UTI,
+    dialogTitle: title,
+  });
+};
+
+/**
+ * Incrustar en base64 las imágenes de producto guardadas en el dispositivo: el motor
+ * de impresión no siempre puede leer archivos locales. Si una no se puede leer, se omite
+ */
+const embedLocalImages = async (quote: Quote): Promise<Quote> => {
+  const items = await Promise.all(quote.items.map(async item => {
+    const image = item.product ? getProductImages(item.product)[0] : undefined;
+    if (!image?.startsWith('file://')) return item;
+
+    try {
+      const base64 = await new File(image).base64();
+      const dataUri = `data:${IMAGE_CONFIG.MIME_TYPE};base64,${base64}`;
+      return { ...item, product: { ...item.product, imageUrl: dataUri, images: [dataUri] } };
+    } catch (error) {
+      return { ...item, product: { ...item.product, imageUrl: undefined, images: [] } };
+    }
+  }));
+
+  return { ...quote, items };
+};
+
+/**
+ * Generar y compartir el PDF de un presupuesto
+ */
+export const shareQuotePdf = async (
+  quote: Quote,
+  payment?: Payment | null
+): Promise<void> => {
+  const template = await getDocumentTemplate();
+  const uri = await generatePdf(renderQuoteHtml(await embedLocalImages(quote), template, payment));
+  await sharePdf(uri, `Presupuesto ${quote.quoteNumber}`);
+};
+
+/**
+ * Generar el PDF de un comprobante de pago y devolver la URI del archivo
+ */
+export const generateReceiptPdf = async (
+  quote: Quote,
+  payment: Payment,
+  receipt: PaymentReceipt
+): Promise<string> => {
+  const template = await getDocumentTemplate();
+  return generatePdf(renderReceiptHtml(quote, payment, receipt, template));
+};
+
+/**
+ * Generar y compartir el PDF de un comprobante de pago
+ */
+export const shareReceiptPdf = async (
+  quote: Quote,
+  payment: Payment,
+  receipt: PaymentReceipt
+): Promise<void> => {
+  const uri = await generateReceiptPdf(quote, payment, receipt);
+  await sharePdf(uri, `Comprobante ${receipt.receiptNumber}`);
+};
+
+/**
+ * Abrir la vista previa nativa del comprobante de pago
+ */
+export const viewReceiptPdf = async (
+  quote: Quote,
+  payment: Payment,
+  receipt: PaymentReceipt
+): Promise<void> => {
+  try {
+    const uri = await generateReceiptPdf(quote, payment, receipt);
+    await Print.printAsync({ uri });
+  } catch (error: any) {
+    throw new Error(error.message || 'Error abriendo comprobante');
+  }
+};
+
+/**
+ * Verificar si se pueden compartir archivos en el dispositivo
+ */
+export const canSharePdf = async (): Promise<boolean> => {
+  try {
+    return await Sharing.isAvailableAsync();
+  } catch {
+    return false;
+  }
+};
+
+export default {
+  getDefaultDocumentTemplate,
+  getDocumentTemplate,
+  saveDocumentTemplate,
+  resetDocumentTemplate,
+  buildQuoteDocumentData,
+  renderQuoteHtml,
+  buildReceiptDocumentData,
+  renderReceiptHtml,
+  generatePdf,
+  sharePdf,
+  shareQuotePdf,
+  generateReceiptPdf,
+  shareReceiptPdf,
+  viewReceiptPdf,
+  canSharePdf,
+};
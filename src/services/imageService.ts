@@ -0,0 +1,131 @@
+// ===============================
+// IMAGE SERVICE - PRESUPUESTOS APP
+// ===============================
+
+import * as ImagePicker from 'expo-image-picker';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { File } from 'expo-file-system';
+import { UploadedImage, ApiResponse } from '../types';
+import { uploadFile } from './api';
+import { API_ENDPOINTS } from '../types';
+import { IMAGE_CONFIG, LIMITS } from '../constants/config';
+import * as syncService from './syncService';
+
+// ===============================
+// TYPES
+// ===============================
+
+export type ImageSource = 'camera' | 'library';
+
+interface PickedImage {
+  uri: string;
+  width: number;
+  height: number;
+}
+
+// ===============================
+// IMAGE SERVICE FUNCTIONS
+// ===============================
+
+/**
+ * Sacar una foto o elegirla de la galería, con recorte cuadrado.
+ * Devuelve null si el usuario cancela
+ */
+export const pickImage = async (source: ImageSource): Promise<PickedImage | null> => {
+  try {
+    const permission = source === 'camera'
+      ? await ImagePicker.requestCameraPermissionsAsync()
+      : await ImagePicker.requestMediaLibraryPermissionsAsync();
+
+    if (!permission.granted) {
+      throw new Error(source === 'camera'
+        ? 'Se necesita permiso para usar la cámara'
+        : 'Se necesita permiso para acceder a la galería');
+    }
+
+    const options: ImagePicker.ImagePickerOptions = {
+      mediaTypes: ['images'],
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 1,
+    };
+    const result = source === 'camera'
+      ? await ImagePicker.launchCameraAsync(options)
+      : await ImagePicker.launchImageLibraryAsync(options);
+
+    if (result.canceled || !result.assets?.length) {
+      return null;
+    }
+
+    const { uri, width, height } = result.assets[0];
+    return { uri, width, height };
+  } catch (error: any) {
+    throw new Error(error.message || 'Error obteniendo la imagen');
+  }
+};
+
+/**
+ * Reducir y comprimir la imagen a JPEG probando cada paso de
+ * `IMAGE_CONFIG.COMPRESSION_STEPS` hasta que pese menos de `LIMITS.MAX_IMAGE_SIZE`
+ */
+export const compressImage = async (image: PickedImage): Promise<{ uri: string; size: number }> => {
+  for (const step of IMAGE_CONFIG.COMPRESSION_STEPS) {
+    const context = ImageManipulator.manipulate(image.uri);
+
+    if (Math.max(image.width, image.height) > step.maxDimension) {
+      context.resize(image.width >= image.height
+        ? { width: step.maxDimension }
+        : { height: step.maxDimension });
+    }
+
+    const rendered = await context.renderAsync();
+    const result = await rendered.saveAsync({ compress: step.quality, format: SaveFormat.JPEG });
+    const size = new File(result.uri).size;
+
+    if (size <= LIMITS.MAX_IMAGE_SIZE) {
+      return { uri: result.uri, size };
+    }
+  }
+
+  throw new Error(`No se pudo reducir la imagen a menos de ${LIMITS.MAX_IMAGE_SIZE / (1024 * 1024)}MB`);
+};
+
+/**
+ * Comprimir y subir una imagen de producto. Devuelve la URL que hay que guardar en el producto
+ */
+export const uploadProductImage = async (
+  image: PickedImage,
+  onProgress?: (progress: number) => void
+): Promise<string> => {
+  try {
+    // Las imágenes no se encolan: el archivo comprimido vive en el cache del dispositivo
+    if (!(await syncService.isOnline())) {
+      throw new Error('Se necesita conexión para subir imágenes');
+    }
+
+    const compressed = await compressImage(image);
+    const response: ApiResponse<UploadedImage> = await uploadFile(
+      API_ENDPOINTS.UPLOADS.IMAGE,
+      {
+        uri: compressed.uri,
+        name: `producto-${Date.now()}.${IMAGE_CONFIG.FILE_EXTENSION}`,
+        type: IMAGE_CONFIG.MIME_TYPE,
+      },
+      onProgress
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Error subiendo imagen');
+    }
+
+    return response.data.url;
+  } catch (error: any) {
+    throw new Error(error.message || 'Error subiendo imagen');
+  }
+};
+
+export default {
+  pickImage,
+  compressImage,
+  uploadProductImage,
+};
@@ -0,0 +1,1778 @@
+// ===============================
+// MOCK API ADAPTER - PRESUPUESTOS APP
+// ===============================
+
+import { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import {
+  ApiResponse,
+  User,
+  Product,
+  ProductVariant,
+  ProductBundle,
+  Customer,
+  Quote,
+  QuoteItem,
+  QuoteCustomItem,
+  QuoteMarginApproval,
+  QuoteTemplate,
+  QuoteTemplateItem,
+  Payment,
+  QuoteStats,
+  PaymentStats,
+  CreatePaymentResponse,
+  CreateProductRequest,
+  ProductVariantRequest,
+  CreateCustomerRequest,
+  CreateQuoteRequest,
+  CreateQuoteTemplateRequest,
+  CreateStockMovementRequest,
+  BulkPriceUpdateRequest,
+  API_ENDPOINTS,
+} from '../../types';
+import { MARGIN_CONFIG, MOCK_CONFIG, PAGINATION, STOCK_CONFIG, TAX_CONFIG } from '../../constants/config';
+import {
+  db,
+  MockUser,
+  MockPayment,
+  generateMockId,
+  formatMockQuoteNumber,
+  formatMockReceiptNumber,
+  calculateMockTotals,
+  calculateMockMargin,
+  isMockMarginBelowMinimum,
+  buildMockRevision,
+  applyMockMovement,
+  applyMockPriceChange,
+  applyMockVariantPriceChange,
+  toMockVariantSnapshot,
+  refreshMockBundle,
+} from './mockDatabase';
+
+// ===============================
+// TYPES
+// ===============================
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+
+interface MockRequest {
+  method: HttpMethod;
+  path: string;
+  params: Record<string, string>;
+  query: Record<string, string>;
+  body: any;
+  user: MockUser | null;
+}
+
+interface MockResult {
+  status: number;
+  body: ApiResponse;
+}
+
+interface MockError {
+  status: number;
+  message: string;
+  code: string;
+  details?: any;
+}
+
+interface MockRoute {
+  method: HttpMethod;
+  pattern: RegExp;
+  keys: string[];
+  isPublic: boolean;
+  handler: (request: MockRequest) => MockResult;
+}
+
+// ===============================
+// HELPERS
+// ===============================
+
+const DAY = 24 * 60 * 60 * 1000;
+const TOKEN_PREFIX = 'mock-token-';
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const now = (): string => new Date().toISOString();
+
+const ok = <T>(data: T, message = 'OK', status = 200): MockResult => ({
+  status,
+  body: { success: true, message, data: clone(data) },
+});
+
+const fail = (status: number, message: string, code = `HTTP_${status}`, details?: any): never => {
+  const error: MockError = { status, message, code, details };
+  throw error;
+};
+
+const isMockError = (error: any): error is MockError => {
+  return typeof error?.status === 'number' && typeof error?.message === 'string';
+};
+
+const requireAdmin = (request: MockRequest): void => {
+  if (request.user?.role !== 'admin') {
+    fail(403, 'No tienes permisos para esta acción', 'FORBIDDEN');
+  }
+};
+
+const toPublicUser = ({ password, ...user }: MockUser): User => user;
+
+// Campos que el backend solo envía a administradores
+const ADMIN_ONLY_FIELDS = ['cost', 'marginPercentage'];
+
+/**
+ * Quitar de una respuesta (ya clonada) los campos que solo ven los administradores
+ */
+const hideAdminFields = (value: any): void => {
+  if (Array.isArray(value)) {
+    value.forEach(hideAdminFields);
+  } else if (value && typeof value === 'object') {
+    ADMIN_ONLY_FIELDS.forEach(field => delete value[field]);
+    Object.values(value).forEach(hideAdminFields);
+  }
+};
+
+const includesText = (value: string | undefined, search: string): boolean => {
+  return Boolean(value && value.toLowerCase().includes(search));
+};
+
+/**
+ * Parsear el query string sin depender de URLSearchParams (incompleto en React Native)
+ */
+const parseQuery = (queryString: string): Record<string, string> => {
+  const query: Record<string, string> = {};
+
+  queryString.split('&').filter(Boolean).forEach(pair => {
+    const [key, ...rest] = pair.split('=');
+    const decode = (text: string) => decodeURIComponent(text.replace(/\+/g, ' '));
+    query[decode(key)] = decode(rest.join('='));
+  });
+
+  return query;
+};
+
+const parseBody = (data: any): any => {
+  if (typeof data !== 'string') return data || {};
+
+  try {
+    return JSON.parse(data);
+  } catch (error) {
+    return {};
+  }
+};
+
+const paginate = <T>(items: T[], query: Record<string, string>, defaultLimit: number) => {
+  const page = Math.max(Number(query.page) || PAGINATION.DEFAULT_PAGE, 1);
+  const limit = Math.min(Math.max(Number(query.limit) || defaultLimit, 1), PAGINATION.MAX_LIMIT);
+  const total = items.length;
+  const totalPages = Math.max(Math.ceil(total / limit), 1);
+
+  return {
+    items: items.slice((page - 1) * limit, page * limit),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages,
+      hasNextPage: page < totalPages,
+      hasPreviousPage: page > 1,
+    },
+  };
+};
+
+const sortBy = <T>(items: T[], field: string | undefined, order: string | undefined, fallback: keyof T): T[] => {
+  const key = (field || fallback) as keyof T;
+  const direction = order === 'asc' ? 1 : -1;
+
+  return [...items].sort((a, b) => {
+    const first = a[key] as any;
+    const second = b[key] as any;
+
+    if (typeof first === 'number' && typeof second === 'number') {
+      return (first - second) * direction;
+    }
+
+    return String(first ?? '').localeCompare(String(second ?? ''), 'es') * direction;
+  });
+};
+
+const inDateRange = (date: string, query: Record<string, string>): boolean => {
+  const time = new Date(date).getTime();
+
+  if (query.dateFrom && time < new Date(query.dateFrom).getTime()) return false;
+  // dateTo incluye todo el día indicado
+  if (query.dateTo && time >= new Date(query.dateTo).getTime() + DAY) return false;
+
+  return true;
+};
+
+// ===============================
+// LÓGICA DE NEGOCIO
+// ===============================
+
+const findProduct = (id: string): Product => {
+  const product = db.products.find(item => item._id === id);
+  return product || fail(404, 'Producto no encontrado', 'NOT_FOUND');
+};
+
+/**
+ * Variante de un ítem o movimiento: requerida si el producto tiene variantes
+ */
+const findVariant = (product: Product, variantId: string | undefined): ProductVariant | undefined => {
+  if (!product.variants?.length) return undefined;
+
+  const variant = product.variants.find(item => item._id === variantId);
+  return variant || fail(400, 'Variante no disponible', 'VALIDATION_ERROR', [{ field: 'variantId', message: `${product.name}: elige una variante` }]);
+};
+
+const findQuote = (id: string): Quote => {
+  const quote = db.quotes.find(item => item._id === id);
+  return quote || fail(404, 'Presupuesto no encontrado', 'NOT_FOUND');
+};
+
+const findPayment = (id: string): MockPayment => {
+  const payment = db.payments.find(item => item._id === id);
+  return payment || fail(404, 'Pago no encontrado', 'NOT_FOUND');
+};
+
+const findCustomer = (id: string): Customer => {
+  const customer = db.customers.find(item => item._id === id && item.isActive !== false);
+  return customer || fail(404, 'Cliente no encontrado', 'NOT_FOUND');
+};
+
+const findQuoteTemplate = (id: string): QuoteTemplate => {
+  const template = db.quoteTemplates.find(item => item._id === id);
+  return template || fail(404, 'Plantilla no encontrada', 'NOT_FOUND');
+};
+
+/**
+ * Los ítems del presupuesto devuelven el producto actual, como el populate del backend
+ */
+const populateQuote = (quote: Quote): Quote => ({
+  ...quote,
+  items: quote.items.map(item => ({
+    ...item,
+    product: db.products.find(product => product._id === item.product._id) || item.product,
+  })),
+});
+
+const toPublicPayment = ({ approveAt, ...payment }: MockPayment): Payment => payment;
+
+/**
+ * Stock que todavía se puede presupuestar (el resto está reservado por presupuestos pendientes)
+ */
+const getAvailableStock = (product: Pick<Product, 'stock' | 'reservedStock'>): number => {
+  return Math.max(product.stock - (product.reservedStock || 0), 0);
+};
+
+/**
+ * Recalcular stock, reservas y precio de los kits después de cambios en sus componentes.
+ * Los cambios de precio de los kits con descuento quedan en el historial
+ */
+const syncBundles = (): void => {
+  db.products.filter(product => product.bundle).forEach(product => {
+    const price = refreshMockBundle(product, db.products);
+    if (price !== product.price) {
+      applyMockPriceChange(db.priceHistory, product, price, { reason: 'Cambio de precio de los componentes' });
+    }
+  });
+};
+
+/**
+ * Productos (y variantes) cuyo stock mueve un ítem: el propio o, en los kits, los
+ * componentes que tenía al presupuestarse
+ */
+const getStockLines = (item: QuoteItem): Array<{ product: Product; variant?: ProductVariant; quantity: number }> => {
+  if (item.productSnapshot.components) {
+    return item.productSnapshot.components.flatMap(component => {
+      const product = db.products.find(candidate => candidate._id === component.product);
+      return product ? [{ product, quantity: item.quantity * component.quantity }] : [];
+    });
+  }
+
+  const product = db.products.find(candidate => candidate._id === item.product._id);
+  const variant = product?.variants?.find(candidate => candidate._id === item.productSnapshot.variant?._id);
+  return product ? [{ product, variant, quantity: item.quantity }] : [];
+};
+
+/**
+ * Reservar (cantidad positiva) o liberar (negativa) el stock de los ítems de un presupuesto
+ */
+const adjustReservedStock = (items: QuoteItem[], direction: 1 | -1): void => {
+  items.flatMap(getStockLines).forEach(({ product, variant, quantity }) => {
+    product.reservedStock = Math.max((product.reservedStock || 0) + direction * quantity, 0);
+    product.updatedAt = now();
+    if (variant) {
+      variant.reservedStock = Math.max((variant.reservedStock || 0) + direction * quantity, 0);
+    }
+  });
+  syncBundles();
+};
+
+const reserveStock = (items: QuoteItem[]): void => adjustReservedStock(items, 1);
+const releaseStock = (items: QuoteItem[]): void => adjustReservedStock(items, -1);
+
+const isSkuTaken = (sku: string, productId?: string): boolean => {
+  return db.products.some(product =>
+    product._id !== productId &&
+    product.isActive &&
+    (product.sku?.toUpperCase() === sku || product.variants?.some(variant => variant.sku === sku))
+  );
+};
+
+/**
+ * Armar las variantes pedidas para un producto. Las existentes conservan stock y
+ * reservas; las nuevas empiezan en cero y devuelven aparte su stock inicial, que se
+ * registra como movimiento. No modifica el producto hasta que todo es válido
+ */
+const buildVariants = (
+  product: Pick<Product, '_id' | 'stock' | 'variants'>,
+  options: Product['options'],
+  requested: ProductVariantRequest[]
+): { variants: ProductVariant[]; initialStock: Array<{ variant: ProductVariant; quantity: number }> } => {
+  const axes = (options || []).filter(option => option.name?.trim() && option.values?.length);
+  const current = product.variants || [];
+  const seen = new Set<string>();
+  const initialStock: Array<{ variant: ProductVariant; quantity: number }> = [];
+
+  if (requested.length > 0 && axes.length === 0) {
+    fail(400, 'Las variantes necesitan al menos una opción', 'VALIDATION_ERROR', [{ field: 'options', message: 'Indica las opciones (talle, color, modelo)' }]);
+  }
+
+  // Los kits referencian productos simples: un componente no puede pasar a tener variantes
+  if (requested.length > 0 && db.products.some(candidate =>
+    candidate.isActive && candidate.bundle?.components.some(component => component.product === product._id)
+  )) {
+    fail(400, 'El producto forma parte de un kit', 'COMPONENT_IN_BUNDLE', [{ field: 'variants', message: 'Quita el producto de los kits antes de agregarle variantes' }]);
+  }
+
+  // El stock sin variante no se puede repartir solo: primero hay que llevarlo a cero
+  if (requested.length > 0 && current.length === 0 && product.stock > 0) {
+    fail(400, 'El producto tiene stock sin variante', 'VARIANT_STOCK_CONFLICT', [{ field: 'variants', message: `Ajusta el stock actual (${product.stock}) a cero antes de agregar variantes` }]);
+  }
+
+  const variants = requested.map(item => {
+    const sku = String(item.sku || '').trim().toUpperCase();
+    const values = axes.map(option => item.options?.[option.name]);
+    const combination = values.join(' / ');
+
+    if (!sku || values.some((value, index) => !value || !axes[index].values.includes(value))) {
+      return fail(400, 'Variante inválida', 'VALIDATION_ERROR', [{ field: 'variants', message: `La variante ${sku || combination} no coincide con las opciones` }]);
+    }
+    if (seen.has(sku) || seen.has(combination) || isSkuTaken(sku, product._id)) {
+      return fail(409, 'Hay variantes repetidas', 'DUPLICATE_VARIANT', [{ field: 'variants', message: `${sku} (${combination}) está repetida` }]);
+    }
+    if (item.price !== undefined && item.price !== null && !(item.price > 0)) {
+      return fail(400, 'Precio de variante inválido', 'VALIDATION_ERROR', [{ field: 'variants', message: `${sku}: el precio debe ser mayor a 0` }]);
+    }
+    seen.add(sku);
+    seen.add(combination);
+
+    const variantOptions = Object.fromEntries(axes.map((option, index) => [option.name, values[index] as string]));
+    const existing = current.find(variant => variant._id === item._id);
+    if (existing) {
+      return { ...existing, sku, options: variantOptions, price: item.price ?? undefined };
+    }
+
+    const variant: ProductVariant = {
+      _id: generateMockId(),
+      sku,
+      options: variantOptions,
+      price: item.price ?? undefined,
+      stock: 0,
+      reservedStock: 0,
+    };
+    if (Number(item.stock) > 0) {
+      initialStock.push({ variant, quantity: Math.floor(Number(item.stock)) });
+    }
+    return variant;
+  });
+
+  const removed = current.filter(variant => !variants.some(item => item._id === variant._id));
+  const blocked = removed.find(variant => variant.stock > 0 || (variant.reservedStock || 0) > 0);
+  if (blocked) {
+    fail(400, 'No se puede quitar una variante con stock', 'VARIANT_HAS_STOCK', [{ field: 'variants', message: `${blocked.sku} tiene stock o reservas` }]);
+  }
+
+  return { variants, initialStock };
+};
+
+/**
+ * Registrar como movimientos el stock inicial de las variantes nuevas
+ */
+const applyInitialVariantStock = (
+  product: Product,
+  initialStock: Array<{ variant: ProductVariant; quantity: number }>,
+  createdBy?: string
+): void => {
+  initialStock.forEach(({ variant, quantity }) => {
+    const target = product.variants?.find(item => item._id === variant._id);
+    if (target) {
+      applyMockMovement(db.stockMovements, product, 'adjustment', quantity, { reason: 'Stock inicial', createdBy }, target);
+    }
+  });
+};
+
+/**
+ * Armar el kit pedido validando sus componentes: productos activos, sin variantes ni
+ * otros kits, y sin repetir
+ */
+const buildBundle = (productId: string, requested: ProductBundle): ProductBundle => {
+  const components = Array.isArray(requested.components) ? requested.components : [];
+  const discount = Number(requested.discount || 0);
+  const seen = new Set<string>();
+
+  if (components.length === 0) {
+    fail(400, 'El kit necesita al menos un producto', 'VALIDATION_ERROR', [{ field: 'bundle', message: 'Agrega los productos que forman el kit' }]);
+  }
+
+  if (!['fixed', 'discount'].includes(requested.pricing)) {
+    fail(400, 'Precio de kit inválido', 'VALIDATION_ERROR', [{ field: 'bundle', message: 'Elige precio propio o descuento' }]);
+  }
+
+  if (requested.pricing === 'discount' && !(discount >= 0 && discount < 100)) {
+    fail(400, 'Descuento inválido', 'VALIDATION_ERROR', [{ field: 'bundleDiscount', message: 'El descuento debe estar entre 0 y 99%' }]);
+  }
+
+  return {
+    components: components.map(component => {
+      const product = db.products.find(candidate => candidate._id === component.product && candidate.isActive);
+      const quantity = Number(component.quantity);
+
+      if (!product || product._id === productId) {
+        return fail(400, 'Componente no disponible', 'VALIDATION_ERROR', [{ field: 'bundle', message: `Producto ${component.product} no disponible` }]);
+      }
+      if (product.bundle || product.variants?.length) {
+        return fail(400, 'Componente inválido', 'VALIDATION_ERROR', [{ field: 'bundle', message: `${product.name}: un kit solo puede incluir productos sin variantes que no sean kits` }]);
+      }
+      if (!Number.isInteger(quantity) || quantity < 1) {
+        return fail(400, 'Cantidad inválida', 'VALIDATION_ERROR', [{ field: 'bundle', message: `Cantidad inválida para ${product.name}` }]);
+      }
+      if (seen.has(product._id)) {
+        return fail(409, 'Hay productos repetidos en el kit', 'DUPLICATE_COMPONENT', [{ field: 'bundle', message: `${product.name} está repetido` }]);
+      }
+      seen.add(product._id);
+
+      return { product: product._id, name: product.name, sku: product.sku, quantity };
+    }),
+    pricing: requested.pricing,
+    discount: requested.pricing === 'discount' ? discount : undefined,
+  };
+};
+
+/**
+ * La alícuota de IVA de un producto o una línea tiene que ser una de TAX_CONFIG
+ */
+const assertTaxRate = (taxRate?: number) => {
+  if (taxRate !== undefined && !(TAX_CONFIG.IVA_RATES as readonly number[]).includes(taxRate)) {
+    fail(400, 'Alícuota de IVA inválida', 'INVALID_TAX_RATE', [{ field: 'taxRate', message: `IVA ${taxRate}% no es una alícuota válida` }]);
+  }
+};
+
+/**
+ * Armar los ítems de un presupuesto validando productos y stock disponible.
+ * `heldItems` son los ítems que el presupuesto ya tiene reservados (al editar).
+ */
+const buildQuoteItems = (items: CreateQuoteRequest['items'], heldItems: QuoteItem[] = []): QuoteItem[] => {
+  if (!Array.isArray(items)) {
+    fail(400, 'Productos inválidos', 'VALIDATION_ERROR');
+  }
+
+  const built = items.map(item => {
+    const product = db.products.find(candidate => candidate._id === item.productId);
+
+    if (!product || !product.isActive) {
+      return fail(400, 'Producto no disponible', 'VALIDATION_ERROR', [{ field: 'items', message: `Producto ${item.productId} no disponible` }]);
+    }
+
+    if (!item.quantity || item.quantity < 1) {
+      return fail(400, 'Cantidad inválida', 'VALIDATION_ERROR', [{ field: 'items', message: `Cantidad inválida para ${product.name}` }]);
+    }
+
+    const missingComponent = product.bundle?.components.find(component =>
+      !db.products.some(candidate => candidate._id === component.product && candidate.isActive)
+    );
+    if (missingComponent) {
+      return fail(400, 'Producto no disponible', 'VALIDATION_ERROR', [{ field: 'items', message: `${product.name}: ${missingComponent.name} no está disponible` }]);
+    }
+
+    if (item.discount !== undefined && (item.discount < 0 || item.discount > 100)) {
+      return fail(400, 'Descuento inválido', 'VALIDATION_ERROR', [{ field: 'items', message: `Descuento inválido para ${product.name}` }]);
+    }
+
+    // La alícuota de la línea pisa la del producto
+    assertTaxRate(item.taxRate);
+    const taxRate = item.taxRate ?? product.taxRate ?? TAX_CONFIG.DEFAULT_IVA_RATE;
+
+    // Con variantes el precio es el de la variante elegida
+    const variant = findVariant(product, item.variantId);
+    const price = variant?.price ?? product.price;
+
+    return {
+      product,
+      productSnapshot: {
+        name: product.name,
+        price,
+        variant: variant && toMockVariantSnapshot(variant),
+        components: product.bundle && clone(product.bundle.components),
+        cost: product.cost,
+      },
+      quantity: item.quantity,
+      discount: item.discount || undefined,
+      taxRate,
+      subtotal: price * item.quantity * (1 - (item.discount || 0) / 100),
+    };
+  });
+
+  // El stock se valida por producto (o variante) sumando todas las líneas, porque un
+  // kit consume las mismas unidades que sus componentes vendidos sueltos
+  const demand = new Map<string, { product: Product; variant?: ProductVariant; quantity: number; held: number }>();
+  const stockKey = (product: Product, variant?: ProductVariant) => `${product._id}:${variant?._id || ''}`;
+
+  built.flatMap(getStockLines).forEach(({ product, variant, quantity }) => {
+    const entry = demand.get(stockKey(product, variant)) || { product, variant, quantity: 0, held: 0 };
+    entry.quantity += quantity;
+    demand.set(stockKey(product, variant), entry);
+  });
+  heldItems.flatMap(getStockLines).forEach(({ product, variant, quantity }) => {
+    const entry = demand.get(stockKey(product, variant));
+    if (entry) entry.held += quantity;
+  });
+
+  demand.forEach(({ product, variant, quantity, held }) => {
+    const available = getAvailableStock(variant || product) + held;
+
+    if (available < quantity) {
+      const name = variant ? `${product.name} (${toMockVariantSnapshot(variant).label})` : product.name;
+      fail(400, 'Stock insuficiente', 'INSUFFICIENT_STOCK', [{ field: 'items', message: `${name}: stock disponible ${available}` }]);
+    }
+  });
+
+  return built;
+};
+
+/**
+ * Líneas libres del presupuesto. No son productos: no se controla ni reserva stock
+ */
+const buildCustomItems = (customItems: CreateQuoteRequest['customItems'] = []): QuoteCustomItem[] => {
+  if (!Array.isArray(customItems)) {
+    fail(400, 'Líneas libres inválidas', 'VALIDATION_ERROR');
+  }
+
+  return customItems.map(item => {
+    const description = item.description?.trim();
+    const details = (message: string) => [{ field: 'customItems', message }];
+
+    if (!description) {
+      fail(400, 'Descripción requerida', 'VALIDATION_ERROR', details('Cada línea libre necesita una descripción'));
+    }
+    if (typeof item.unitPrice !== 'number' || !(item.unitPrice >= 0)) {
+      fail(400, 'Precio inválido', 'VALIDATION_ERROR', details(`Precio inválido para ${description}`));
+    }
+    if (!item.quantity || item.quantity <= 0) {
+      fail(400, 'Cantidad inválida', 'VALIDATION_ERROR', details(`Cantidad inválida para ${description}`));
+    }
+    if (item.discount !== undefined && (item.discount < 0 || item.discount > 100)) {
+      fail(400, 'Descuento inválido', 'VALIDATION_ERROR', details(`Descuento inválido para ${description}`));
+    }
+    assertTaxRate(item.taxRate);
+
+    return {
+      description: description as string,
+      unitPrice: item.unitPrice,
+      quantity: item.quantity,
+      discount: item.discount || undefined,
+      taxRate: item.taxRate ?? TAX_CONFIG.DEFAULT_IVA_RATE,
+      subtotal: item.unitPrice * item.quantity * (1 - (item.discount || 0) / 100),
+    };
+  });
+};
+
+/**
+ * Líneas de producto de una plantilla. Se valida que el producto exista, pero no el
+ * stock ni el precio: se recalculan contra el catálogo cada vez que se usa
+ */
+const buildTemplateItems = (items: CreateQuoteTemplateRequest['items']): QuoteTemplateItem[] => {
+  if (!Array.isArray(items)) {
+    fail(400, 'Productos inválidos', 'VALIDATION_ERROR');
+  }
+
+  return items.map(item => {
+    const product = db.products.find(candidate => candidate._id === item.productId);
+
+    if (!product || !product.isActive) {
+      return fail(400, 'Producto no disponible', 'VALIDATION_ERROR', [{ field: 'items', message: `Producto ${item.productId} no disponible` }]);
+    }
+    if (!item.quantity || item.quantity < 1) {
+      return fail(400, 'Cantidad inválida', 'VALIDATION_ERROR', [{ field: 'items', message: `Cantidad inválida para ${product.name}` }]);
+    }
+    if (item.discount !== undefined && (item.discount < 0 || item.discount > 100)) {
+      return fail(400, 'Descuento inválido', 'VALIDATION_ERROR', [{ field: 'items', message: `Descuento inválido para ${product.name}` }]);
+    }
+    assertTaxRate(item.taxRate);
+
+    const variant = findVariant(product, item.variantId);
+
+    return {
+      productId: product._id,
+      variantId: variant?._id,
+      name: variant ? `${product.name} (${toMockVariantSnapshot(variant).label})` : product.name,
+      quantity: item.quantity,
+      discount: item.discount || undefined,
+      taxRate: item.taxRate,
+    };
+  });
+};
+
+/**
+ * Validar nombre, descuento y líneas de una plantilla (alta o cambios parciales)
+ */
+const buildQuoteTemplate = (data: Partial<CreateQuoteTemplateRequest>, current?: QuoteTemplate) => {
+  const name = data.name !== undefined ? data.name.trim() : current?.name;
+
+  if (!name) {
+    fail(400, 'El nombre es requerido', 'VALIDATION_ERROR');
+  }
+  if (data.discount !== undefined && (data.discount < 0 || data.discount > 100)) {
+    fail(400, 'Descuento inválido', 'VALIDATION_ERROR');
+  }
+
+  const items = data.items ? buildTemplateItems(data.items) : current?.items || [];
+  const customItems = data.customItems
+    ? buildCustomItems(data.customItems).map(({ subtotal, ...item }) => item)
+    : current?.customItems || [];
+
+  if (items.length === 0 && customItems.length === 0) {
+    fail(400, 'La plantilla debe tener al menos un producto o una línea libre', 'VALIDATION_ERROR');
+  }
+
+  return {
+    name: name as string,
+    items,
+    customItems: customItems.length > 0 ? customItems : undefined,
+    discount: data.discount !== undefined ? data.discount || undefined : current?.discount,
+    notes: data.notes !== undefined ? data.notes || undefined : current?.notes,
+  };
+};
+
+/**
+ * Un presupuesto necesita al menos una línea, de productos o libre
+ */
+const assertQuoteHasLines = (items: QuoteItem[], customItems: QuoteCustomItem[]) => {
+  if (items.length === 0 && customItems.length === 0) {
+    fail(400, 'El presupuesto debe tener al menos un producto o una línea libre', 'VALIDATION_ERROR');
+  }
+};
+
+/**
+ * Controlar el margen después del descuento contra MARGIN_CONFIG. Los presupuestos de
+ * administradores se aprueban solos; los de vendedores bajo el mínimo se rechazan o
+ * quedan pendientes de aprobación según BELOW_MIN_ACTION
+ */
+const resolveMarginApproval = (
+  items: QuoteItem[],
+  discountPercentage: number,
+  user: MockUser | null
+): QuoteMarginApproval | undefined => {
+  const marginPercentage = calculateMockMargin(items, discountPercentage);
+  if (!isMockMarginBelowMinimum(marginPercentage)) return undefined;
+
+  if (user?.role === 'admin') {
+    return { status: 'approved', marginPercentage, approvedBy: user._id, approvedAt: now() };
+  }
+
+  if (MARGIN_CONFIG.BELOW_MIN_ACTION === 'block') {
+    fail(400, 'El margen del presupuesto es menor al mínimo permitido', 'MARGIN_TOO_LOW', [{ field: 'discount', message: `El margen no puede ser menor al ${MARGIN_CONFIG.MIN_MARGIN_PERCENTAGE}%` }]);
+  }
+
+  return { status: 'pending', marginPercentage, requestedBy: user?._id };
+};
+
+/**
+ * Aprobar un pago simulado: el presupuesto pasa a pagado y la reserva se convierte
+ * en descuento de stock
+ */
+const approvePayment = (payment: MockPayment): void => {
+  const quote = db.quotes.find(item => item._id === payment.quote);
+  const paidAt = now();
+
+  payment.status = 'approved';
+  payment.paidAt = paidAt;
+  payment.paymentMethod = payment.paymentMethod || 'account_money';
+  payment.mercadopagoId = payment.mercadopagoId || `${Math.floor(1000000000 + Math.random() * 8999999999)}`;
+  payment.updatedAt = paidAt;
+
+  if (quote) {
+    // Si el presupuesto ya había vencido su reserva se liberó antes
+    if (quote.status === 'pending') {
+      releaseStock(quote.items);
+    }
+
+    quote.status = 'paid';
+    quote.paymentId = payment._id;
+    quote.updatedAt = paidAt;
+
+    // Los kits descuentan el stock de cada componente
+    quote.items.forEach(item => {
+      getStockLines(item).forEach(({ product, variant, quantity }) => {
+        applyMockMovement(db.stockMovements, product, 'sale', -quantity, {
+          reason: item.productSnapshot.components ? `Kit ${item.productSnapshot.name}` : undefined,
+          reference: quote.quoteNumber,
+          quote: quote._id,
+          createdAt: paidAt,
+        }, variant);
+        product.updatedAt = paidAt;
+      });
+    });
+    syncBundles();
+  }
+};
+
+/**
+ * Avanzar el tiempo simulado: aprobar pagos vencida la demora y expirar presupuestos
+ */
+const settleState = (): void => {
+  const currentTime = Date.now();
+
+  db.payments.forEach(payment => {
+    if (payment.status !== 'pending') return;
+
+    if (currentTime >= payment.approveAt) {
+      approvePayment(payment);
+    } else if (payment.expiresAt && currentTime > new Date(payment.expiresAt).getTime()) {
+      payment.status = 'cancelled';
+      payment.updatedAt = now();
+    }
+  });
+
+  db.quotes.forEach(quote => {
+    if (quote.status === 'pending' && currentTime > new Date(quote.expiresAt).getTime()) {
+      quote.status = 'expired';
+      quote.updatedAt = now();
+      releaseStock(quote.items);
+    }
+  });
+
+  syncBundles();
+};
+
+// ===============================
+// ROUTER
+// ===============================
+
+const routes: MockRoute[] = [];
+
+const route = (
+  method: HttpMethod,
+  path: string,
+  handler: MockRoute['handler'],
+  isPublic = false
+): void => {
+  const keys: string[] = [];
+  // Algunos endpoints codifican el parámetro (encodeURIComponent(':code') -> '%3Acode')
+  const pattern = new RegExp(`^${decodeURIComponent(path).replace(/:(\w+)/g, (_, key) => {
+    keys.push(key);
+    return '([^/]+)';
+  })}/?$`);
+
+  routes.push({ method, pattern, keys, isPublic, handler });
+};
+
+// ===============================
+// RUTAS - AUTH
+// ===============================
+
+route('GET', '/health', () => ok({ status: 'ok', mock: true }), true);
+
+route('POST', API_ENDPOINTS.AUTH.LOGIN, ({ body }) => {
+  const user = db.users.find(candidate =>
+    candidate.email.toLowerCase() === String(body.email || '').toLowerCase()
+  );
+
+  if (!user || user.password !== body.password || user.isActive === false) {
+    fail(401, 'Email o contraseña incorrectos', 'INVALID_CREDENTIALS');
+  }
+
+  return ok({ user: toPublicUser(user as MockUser), token: `${TOKEN_PREFIX}${(user as MockUser)._id}` }, 'Sesión iniciada');
+}, true);
+
+route('POST', API_ENDPOINTS.AUTH.REGISTER, ({ body }) => {
+  if (!body.email || !body.password || !body.name) {
+    fail(400, 'Nombre, email y contraseña son requeridos', 'VALIDATION_ERROR');
+  }
+
+  if (db.users.some(candidate => candidate.email.toLowerCase() === body.email.toLowerCase())) {
+    fail(409, 'Ya existe un usuario con ese email', 'DUPLICATE_EMAIL');
+  }
+
+  const user: MockUser = {
+    _id: generateMockId(),
+    email: body.email.toLowerCase(),
+    name: body.name,
+    role: body.role === 'admin' ? 'admin' : 'seller',
+    isActive: true,
+    password: body.password,
+    createdAt: now(),
+    updatedAt: now(),
+  };
+  db.users.push(user);
+
+  return ok({ user: toPublicUser(user), token: `${TOKEN_PREFIX}${user._id}` }, 'Usuario registrado', 201);
+}, true);
+
+route('GET', API_ENDPOINTS.AUTH.ME, ({ user }) => ok(toPublicUser(user as MockUser)));
+
+route('PUT', API_ENDPOINTS.AUTH.ME, ({ user, body }) => {
+  const current = user as MockUser;
+  if (body.name) current.name = body.name;
+  if (body.email) current.email = String(body.email).toLowerCase();
+  current.updatedAt = now();
+
+  return ok(toPublicUser(current), 'Perfil actualizado');
+});
+
+route('PUT', API_ENDPOINTS.AUTH.CHANGE_PASSWORD, ({ user, body }) => {
+  const current = user as MockUser;
+
+  if (current.password !== body.currentPassword) {
+    fail(400, 'La contraseña actual es incorrecta', 'INVALID_PASSWORD');
+  }
+
+  current.password = body.newPassword;
+  return ok(null, 'Contraseña actualizada');
+});
+
+// ===============================
+// RUTAS - PRODUCTOS
+// ===============================
+
+route('GET', API_ENDPOINTS.PRODUCTS.LIST, ({ query }) => {
+  const search = (query.search || '').toLowerCase();
+  const onlyActive = query.isActive !== 'false';
+
+  const products = db.products.filter(product =>
+    product.isActive === onlyActive &&
+    (!query.category || product.category === query.category) &&
+    (!search ||
+      includesText(product.name, search) ||
+      includesText(product.description, search) ||
+      includesText(product.sku, search) ||
+      includesText(product.barcode, search) ||
+      Boolean(product.variants?.some(variant => includesText(variant.sku, search))))
+  );
+
+  return ok(paginate(sortBy(products, query.sortBy, query.sortOrder || 'asc', 'name'), query, PAGINATION.PRODUCTS_PER_PAGE));
+});
+
+route('GET', API_ENDPOINTS.PRODUCTS.CATEGORIES, () => {
+  const categories = Array.from(new Set(
+    db.products.filter(product => product.isActive).map(product => product.category)
+  )).sort((a, b) => a.localeCompare(b, 'es'));
+
+  return ok(categories);
+});
+
+route('GET', API_ENDPOINTS.PRODUCTS.LOW_STOCK, () => {
+  const reorderPoint = (product: Product) => product.reorderPoint ?? STOCK_CONFIG.DEFAULT_REORDER_POINT;
+  const products = db.products
+    // Los kits se reponen comprando sus componentes
+    .filter(product => product.isActive && !product.bundle && getAvailableStock(product) <= reorderPoint(product))
+    .sort((a, b) => (getAvailableStock(a) - reorderPoint(a)) - (getAvailableStock(b) - reorderPoint(b)));
+
+  return ok(products);
+});
+
+// Los SKU de las variantes también se leen: la app elige la variante a partir del código
+route('GET', API_ENDPOINTS.PRODUCTS.BY_BARCODE(':code'), ({ params }) => {
+  const code = params.code.trim();
+  const sku = code.toUpperCase();
+  const product = db.products.find(candidate =>
+    candidate.isActive &&
+    (candidate.barcode === code ||
+      candidate.sku?.toUpperCase() === sku ||
+      Boolean(candidate.variants?.some(variant => variant.sku === sku)))
+  );
+
+  return product ? ok(product) : fail(404, 'Producto no encontrado', 'NOT_FOUND');
+});
+
+route('POST', API_ENDPOINTS.PRODUCTS.CREATE, ({ body, user }) => {
+  const { clientId, variants: requestedVariants, bundle: requestedBundle, ...data } = body as CreateProductRequest;
+
+  // Reintento de un alta hecha sin conexión: se devuelve el producto ya creado
+  if (clientId && db.clientIds[clientId]) {
+    return ok(findProduct(db.clientIds[clientId]), 'Producto ya creado');
+  }
+
+  if (!data.name || !data.category || data.price === undefined || data.stock === undefined) {
+    fail(400, 'Nombre, precio, stock y categoría son requeridos', 'VALIDATION_ERROR');
+  }
+
+  // El costo solo lo cargan administradores; el de los kits sale de los componentes
+  if (user?.role !== 'admin' || requestedBundle || data.cost === null) {
+    delete data.cost;
+  } else if (data.cost !== undefined && !(data.cost >= 0)) {
+    fail(400, 'Costo inválido', 'VALIDATION_ERROR', [{ field: 'cost', message: 'El costo no puede ser negativo' }]);
+  }
+  assertTaxRate(data.taxRate);
+
+  if (data.barcode && db.products.some(product => product.isActive && product.barcode === data.barcode)) {
+    fail(409, 'Ya existe un producto con ese código de barras', 'DUPLICATE_BARCODE');
+  }
+
+  const productId = generateMockId();
+  const { variants, initialStock } = buildVariants({ _id: productId, stock: 0 }, data.options, requestedVariants || []);
+  const bundle = requestedBundle ? buildBundle(productId, requestedBundle) : undefined;
+
+  if (bundle && variants.length > 0) {
+    fail(400, 'Un kit no puede tener variantes', 'VALIDATION_ERROR', [{ field: 'variants', message: 'Quita las variantes o los componentes del kit' }]);
+  }
+
+  const product: Product = {
+    ...data,
+    options: variants.length > 0 ? data.options : undefined,
+    variants: variants.length > 0 ? variants : undefined,
+    bundle,
+    imageUrl: data.images ? data.images[0] : data.imageUrl,
+    _id: productId,
+    stock: 0,
+    reservedStock: 0,
+    isActive: true,
+    createdAt: now(),
+    updatedAt: now(),
+  };
+  db.products.push(product);
+
+  // Con variantes el stock inicial se carga por variante; los kits no tienen stock propio
+  if (bundle) {
+    syncBundles();
+  } else if (variants.length > 0) {
+    applyInitialVariantStock(product, initialStock, user?._id);
+  } else if (data.stock > 0) {
+    applyMockMovement(db.stockMovements, product, 'adjustment', data.stock, {
+      reason: 'Stock inicial',
+      createdBy: user?._id,
+    });
+  }
+  if (clientId) db.clientIds[clientId] = product._id;
+
+  return ok(product, 'Producto creado', 201);
+});
+
+route('GET', API_ENDPOINTS.PRODUCTS.GET(':id'), ({ params }) => ok(findProduct(params.id)));
+
+route('PUT', API_ENDPOINTS.PRODUCTS.UPDATE(':id'), ({ params, body, user }) => {
+  const product = findProduct(params.id);
+  // Reserva y stock los maneja el servidor a partir de presupuestos y movimientos
+  const { clientId, _id, reservedStock, stock, price, options, variants: requestedVariants, bundle: requestedBundle, ...changes } = body;
+
+  if (changes.barcode && db.products.some(candidate =>
+    candidate._id !== product._id && candidate.isActive && candidate.barcode === changes.barcode
+  )) {
+    fail(409, 'Ya existe un producto con ese código de barras', 'DUPLICATE_BARCODE');
+  }
+
+  if (user?.role !== 'admin' || requestedBundle || (requestedBundle === undefined && product.bundle)) {
+    delete changes.cost;
+  } else if (changes.cost === null) {
+    // Vaciar el costo lo borra: el producto deja de tener margen
+    changes.cost = undefined;
+  } else if (changes.cost !== undefined && !(changes.cost >= 0)) {
+    fail(400, 'Costo inválido', 'VALIDATION_ERROR', [{ field: 'cost', message: 'El costo no puede ser negativo' }]);
+  }
+  assertTaxRate(changes.taxRate);
+
+  const variantChanges = Array.isArray(requestedVariants)
+    ? buildVariants(product, options, requestedVariants)
+    : null;
+  const bundle = requestedBundle ? buildBundle(product._id, requestedBundle) : requestedBundle;
+
+  if (bundle && !product.bundle && (product.stock > 0 || (product.reservedStock || 0) > 0 || product.variants?.length)) {
+    fail(400, 'El producto tiene stock propio', 'BUNDLE_STOCK_CONFLICT', [{ field: 'bundle', message: 'Lleva el stock a cero y quita las variantes antes de convertirlo en kit' }]);
+  }
+  if (bundle && variantChanges?.variants.length) {
+    fail(400, 'Un kit no puede tener variantes', 'VALIDATION_ERROR', [{ field: 'variants', message: 'Quita las variantes o los componentes del kit' }]);
+  }
+
+  // El precio de un kit con descuento sale de sus componentes
+  const isDiscountBundle = (bundle === undefined ? product.bundle : bundle)?.pricing === 'discount';
+  if (variantChanges) {
+    const hasVariants = variantChanges.variants.length > 0;
+    // Los cambios del precio propio de las variantes existentes también van al historial
+    variantChanges.variants.forEach(variant => {
+      const previous = product.variants?.find(candidate => candidate._id === variant._id);
+      const requestedPrice = variant.price;
+      if (previous && (previous.price ?? product.price) !== (requestedPrice ?? product.price)) {
+        variant.price = previous.price;
+        applyMockVariantPriceChange(db.priceHistory, product, variant, requestedPrice, { createdBy: user?._id });
+      }
+    });
+    product.options = hasVariants ? options : undefined;
+    product.variants = hasVariants ? variantChanges.variants : undefined;
+    applyInitialVariantStock(product, variantChanges.initialStock, user?._id);
+  }
+  if (price !== undefined && price !== product.price && !isDiscountBundle) {
+    applyMockPriceChange(db.priceHistory, product, price, { createdBy: user?._id });
+  }
+  if (bundle) {
+    product.bundle = bundle;
+    syncBundles();
+  } else if (bundle === null && product.bundle) {
+    // Deja de ser kit: empieza sin stock ni costo propios
+    product.bundle = undefined;
+    product.stock = 0;
+    product.reservedStock = 0;
+    product.cost = undefined;
+  }
+  // La imagen principal es siempre la primera de la galería
+  if (Array.isArray(changes.images)) {
+    changes.imageUrl = changes.images[0];
+  }
+  Object.assign(product, changes, { updatedAt: now() });
+  return ok(product, 'Producto actualizado');
+});
+
+route('POST', API_ENDPOINTS.PRODUCTS.BULK_PRICE, (request) => {
+  requireAdmin(request);
+  const { changes, reason } = request.body as BulkPriceUpdateRequest;
+
+  if (!Array.isArray(changes) || changes.length === 0) {
+    fail(400, 'No hay precios para actualizar', 'VALIDATION_ERROR');
+  }
+
+  // Se valida todo el lote antes de escribir: se actualizan todos los precios o ninguno
+  const seen = new Set<string>();
+  const invalid: Array<{ field: string; message: string }> = [];
+  const stale: Array<{ field: string; message: string }> = [];
+
+  const targets = changes.map(change => {
+    const product = db.products.find(candidate => candidate._id === change.productId && candidate.isActive);
+
+    if (!product || seen.has(change.productId)) {
+      invalid.push({ field: change.productId, message: product ? 'Producto repetido' : 'Producto no encontrado' });
+    } else if (typeof change.price !== 'number' || !(change.price > 0)) {
+      invalid.push({ field: product.name, message: 'El precio debe ser mayor a 0' });
+    } else if (product.bundle?.pricing === 'discount') {
+      invalid.push({ field: product.name, message: 'El precio del kit se calcula con sus componentes' });
+    } else if (product.price !== change.previousPrice) {
+      stale.push({ field: product.name, message: `El precio actual es ${product.price}` });
+    }
+    seen.add(change.productId);
+
+    // Las variantes con precio propio se ajustan en el mismo lote
+    const variants = (product && change.variants || []).map(variantChange => {
+      const variant = product?.variants?.find(candidate => candidate._id === variantChange.variantId);
+
+      if (!variant) {
+        invalid.push({ field: product!.name, message: 'Variante no encontrada' });
+      } else if (typeof variantChange.price !== 'number' || !(variantChange.price > 0)) {
+        invalid.push({ field: `${product!.name} (${toMockVariantSnapshot(variant).label})`, message: 'El precio debe ser mayor a 0' });
+      } else if (variant.price !== variantChange.previousPrice) {
+        stale.push({ field: `${product!.name} (${toMockVariantSnapshot(variant).label})`, message: `El precio actual es ${variant.price ?? product!.price}` });
+      }
+
+      return { variant: variant as ProductVariant, price: variantChange.price };
+    });
+
+    return { product: product as Product, price: change.price, variants };
+  });
+
+  if (invalid.length > 0) {
+    fail(400, 'Hay precios inválidos en la actualización', 'VALIDATION_ERROR', invalid);
+  }
+  if (stale.length > 0) {
+    fail(409, 'Algunos precios cambiaron mientras preparabas la actualización', 'PRICE_CONFLICT', stale);
+  }
+
+  const batch = generateMockId();
+  targets.forEach(({ product, price, variants }) => {
+    const details = {
+      reason: reason?.trim() || undefined,
+      batch,
+      createdBy: request.user?._id,
+    };
+    if (price !== product.price) {
+      applyMockPriceChange(db.priceHistory, product, price, details);
+    }
+    variants.forEach(target => {
+      applyMockVariantPriceChange(db.priceHistory, product, target.variant, target.price, details);
+    });
+    product.updatedAt = now();
+  });
+  syncBundles();
+
+  return ok({ updated: targets.length, products: targets.map(target => target.product) }, 'Precios actualizados');
+});
+
+route('GET', API_ENDPOINTS.PRODUCTS.PRICE_HISTORY(':id'), ({ params }) => {
+  findProduct(params.id);
+  const changes = db.priceHistory
+    .filter(change => change.product === params.id)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  return ok(changes);
+});
+
+route('GET', API_ENDPOINTS.PRODUCTS.MOVEMENTS(':id'), ({ params, query }) => {
+  findProduct(params.id);
+  const movements = db.stockMovements
+    .filter(movement => movement.product === params.id)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const { items, pagination } = paginate(movements, query, PAGINATION.STOCK_MOVEMENTS_PER_PAGE);
+
+  return ok({
+    items,
+    total: pagination.total,
+    page: pagination.page,
+    limit: pagination.limit,
+    totalPages: pagination.totalPages,
+  });
+});
+
+route('POST', API_ENDPOINTS.PRODUCTS.CREATE_MOVEMENT(':id'), ({ params, body, user }) => {
+  const product = findProduct(params.id);
+  const data = body as CreateStockMovementRequest;
+  const quantity = Number(data.quantity);
+  const variant = findVariant(product, data.variantId);
+
+  if (product.bundle) {
+    fail(400, 'Los kits no tienen stock propio', 'BUNDLE_STOCK', [{ field: 'quantity', message: 'Registra el movimiento en cada componente' }]);
+  }
+
+  if (!['purchase', 'adjustment', 'return'].includes(data.type)) {
+    fail(400, 'Tipo de movimiento inválido', 'VALIDATION_ERROR');
+  }
+
+  if (!Number.isInteger(quantity) || quantity === 0 || (data.type !== 'adjustment' && quantity < 0)) {
+    fail(400, 'Cantidad inválida', 'VALIDATION_ERROR', [{ field: 'quantity', message: 'La cantidad debe ser un entero distinto de cero' }]);
+  }
+
+  if (data.type === 'adjustment' && !data.reason?.trim()) {
+    fail(400, 'El ajuste requiere un motivo', 'VALIDATION_ERROR', [{ field: 'reason', message: 'Indica el motivo del ajuste' }]);
+  }
+
+  const currentStock = (variant || product).stock;
+  if (currentStock + quantity < 0) {
+    fail(400, 'El stock no puede quedar negativo', 'INSUFFICIENT_STOCK', [{ field: 'quantity', message: `Stock actual ${currentStock}` }]);
+  }
+
+  const movement = applyMockMovement(db.stockMovements, product, data.type, quantity, {
+    reason: data.reason?.trim() || undefined,
+    reference: data.reference?.trim() || undefined,
+    createdBy: user?._id,
+  }, variant);
+  product.updatedAt = now();
+  syncBundles();
+
+  return ok({ movement, product }, 'Movimiento registrado', 201);
+});
+
+route('DELETE', API_ENDPOINTS.PRODUCTS.DELETE(':id'), ({ params }) => {
+  const product = findProduct(params.id);
+  product.isActive = false;
+  product.updatedAt = now();
+
+  return ok(null, 'Producto eliminado');
+});
+
+// ===============================
+// RUTAS - CLIENTES
+// ===============================
+
+route('GET', API_ENDPOINTS.CUSTOMERS.LIST, ({ query }) => {
+  const search = (query.search || '').toLowerCase();
+  const digits = search.replace(/\D/g, '');
+
+  const customers = db.customers.filter(customer =>
+    customer.isActive !== false &&
+    (!search ||
+      includesText(customer.name, search) ||
+      includesText(customer.email, search) ||
+      includesText(customer.phone, search) ||
+      Boolean(digits && customer.taxId?.includes(digits)))
+  );
+
+  return ok(paginate(sortBy(customers, query.sortBy, query.sortOrder || 'asc', 'name'), query, PAGINATION.DEFAULT_LIMIT));
+});
+
+route('POST', API_ENDPOINTS.CUSTOMERS.CREATE, ({ body, user }) => {
+  const data = body as CreateCustomerRequest;
+
+  if (!data.name) {
+    fail(400, 'El nombre es requerido', 'VALIDATION_ERROR');
+  }
+
+  const customer: Customer = {
+    ...data,
+    _id: generateMockId(),
+    isActive: true,
+    createdBy: user?._id,
+    createdAt: now(),
+    updatedAt: now(),
+  };
+  db.customers.push(customer);
+
+  return ok(customer, 'Cliente creado', 201);
+});
+
+route('GET', API_ENDPOINTS.CUSTOMERS.GET(':id'), ({ params }) => ok(findCustomer(params.id)));
+
+route('PUT', API_ENDPOINTS.CUSTOMERS.UPDATE(':id'), ({ params, body }) => {
+  const customer = findCustomer(params.id);
+  const { _id, ...changes } = body;
+
+  Object.assign(customer, changes, { updatedAt: now() });
+  return ok(customer, 'Cliente actualizado');
+});
+
+route('DELETE', API_ENDPOINTS.CUSTOMERS.DELETE(':id'), (request) => {
+  requireAdmin(request);
+  const customer = findCustomer(request.params.id);
+  customer.isActive = false;
+  customer.updatedAt = now();
+
+  return ok(null, 'Cliente eliminado');
+});
+
+// ===============================
+// RUTAS - PRESUPUESTOS
+// ===============================
+
+route('GET', API_ENDPOINTS.QUOTES.LIST, ({ query }) => {
+  const search = (query.customerSearch || '').toLowerCase();
+
+  const quotes = db.quotes.filter(quote =>
+    (!query.status || quote.status === query.status) &&
+    (!search || includesText(quote.customer.name, search) || includesText(quote.customer.email, search)) &&
+    inDateRange(quote.createdAt, query)
+  );
+
+  const page = paginate(sortBy(quotes, query.sortBy, query.sortOrder, 'createdAt'), query, PAGINATION.QUOTES_PER_PAGE);
+  return ok({ ...page, items: page.items.map(populateQuote) });
+});
+
+route('GET', API_ENDPOINTS.QUOTES.STATS, ({ query }) => {
+  const quotes = db.quotes.filter(quote => inDateRange(quote.createdAt, query));
+  const count = (status: Quote['status']) => quotes.filter(quote => quote.status === status).length;
+  const totalValue = quotes.reduce((sum, quote) => sum + quote.total, 0);
+  const productTotals = new Map<string, { _id: string; name?: string; count: number; totalValue: number }>();
+
+  quotes.forEach(quote => {
+    quote.items.forEach(item => {
+      const entry = productTotals.get(item.product._id) || {
+        _id: item.product._id,
+        name: item.productSnapshot.name,
+        count: 0,
+        totalValue: 0,
+      };
+      entry.count += item.quantity;
+      entry.totalValue += item.subtotal;
+      productTotals.set(item.product._id, entry);
+    });
+  });
+
+  const stats: QuoteStats = {
+    total: quotes.length,
+    pending: count('pending'),
+    paid: count('paid'),
+    cancelled: count('cancelled'),
+    expired: count('expired'),
+    totalValue,
+    averageValue: quotes.length > 0 ? totalValue / quotes.length : 0,
+    conversionRate: quotes.length > 0 ? (count('paid') / quotes.length) * 100 : 0,
+    topProducts: Array.from(productTotals.values())
+      .sort((a, b) => b.totalValue - a.totalValue)
+      .slice(0, 5),
+  };
+
+  return ok(stats);
+});
+
+route('GET', API_ENDPOINTS.QUOTES.BY_CUSTOMER(':email'), ({ params }) => {
+  const email = params.email.toLowerCase();
+  const quotes = db.quotes.filter(quote => quote.customer.email?.toLowerCase() === email);
+
+  return ok(sortBy(quotes, 'createdAt', 'desc', 'createdAt').map(populateQuote));
+});
+
+route('POST', API_ENDPOINTS.QUOTES.CREATE, ({ body, user }) => {
+  const { clientId, ...data } = body as CreateQuoteRequest;
+
+  if (clientId && db.clientIds[clientId]) {
+    return ok(populateQuote(findQuote(db.clientIds[clientId])), 'Presupuesto ya creado');
+  }
+
+  if (!data.customer?.name) {
+    fail(400, 'Error de validación', 'VALIDATION_ERROR', [{ field: 'customer.name', message: 'El nombre del cliente es requerido' }]);
+  }
+
+  const items = buildQuoteItems(data.items);
+  const customItems = buildCustomItems(data.customItems);
+  assertQuoteHasLines(items, customItems);
+  const marginApproval = resolveMarginApproval(items, data.discount || 0, user);
+  const createdAt = new Date();
+  db.counters.quote++;
+
+  const quote: Quote = {
+    _id: generateMockId(),
+    quoteNumber: formatMockQuoteNumber(createdAt, db.counters.quote),
+    customer: data.customer,
+    items,
+    customItems: customItems.length > 0 ? customItems : undefined,
+    ...calculateMockTotals(items, data.discount, customItems),
+    status: 'pending',
+    expiresAt: new Date(createdAt.getTime() + MOCK_CONFIG.QUOTE_VALIDITY_DAYS * DAY).toISOString(),
+    notes: data.notes,
+    version: 1,
+    marginApproval,
+    createdBy: user?._id,
+    createdAt: createdAt.toISOString(),
+    updatedAt: createdAt.toISOString(),
+  };
+
+  db.quotes.push(quote);
+  reserveStock(items);
+  db.revisions.push(buildMockRevision(quote, user?._id));
+  if (clientId) db.clientIds[clientId] = quote._id;
+
+  return ok(populateQuote(quote), 'Presupuesto creado', 201);
+});
+
+route('GET', API_ENDPOINTS.QUOTES.GET(':id'), ({ params }) => ok(populateQuote(findQuote(params.id))));
+
+route('PUT', API_ENDPOINTS.QUOTES.UPDATE(':id'), ({ params, body, user }) => {
+  const quote = findQuote(params.id);
+
+  if (quote.status !== 'pending') {
+    fail(400, 'Solo se pueden editar presupuestos pendientes', 'QUOTE_LOCKED');
+  }
+
+  const { clientId, ...data } = body as CreateQuoteRequest;
+  const items = data.items ? buildQuoteItems(data.items, quote.items) : quote.items;
+  const customItems = data.customItems ? buildCustomItems(data.customItems) : quote.customItems || [];
+  assertQuoteHasLines(items, customItems);
+
+  // El presupuesto guarda montos; si no llega un descuento nuevo se conserva el actual
+  const previousDiscount = quote.subtotal > 0 ? (quote.discount / quote.subtotal) * 100 : 0;
+  const discount = data.discount ?? previousDiscount;
+
+  // Cada edición vuelve a controlar el margen: una aprobación anterior no cubre los cambios
+  const marginApproval = resolveMarginApproval(items, discount, user);
+
+  if (data.items) {
+    releaseStock(quote.items);
+    reserveStock(items);
+  }
+
+  Object.assign(quote, {
+    customer: data.customer || quote.customer,
+    items,
+    customItems: customItems.length > 0 ? customItems : undefined,
+    ...calculateMockTotals(items, discount, customItems),
+    marginApproval,
+    notes: data.notes !== undefined ? data.notes : quote.notes,
+    version: (quote.version || 1) + 1,
+    updatedAt: now(),
+  });
+  db.revisions.push(buildMockRevision(quote, user?._id));
+
+  return ok(populateQuote(quote), 'Presupuesto actualizado');
+});
+
+route('PUT', API_ENDPOINTS.QUOTES.CANCEL(':id'), ({ params }) => {
+  const quote = findQuote(params.id);
+
+  if (quote.status !== 'pending') {
+    fail(400, 'Solo se pueden cancelar presupuestos pendientes', 'QUOTE_LOCKED');
+  }
+
+  quote.status = 'cancelled';
+  quote.updatedAt = now();
+  releaseStock(quote.items);
+
+  db.payments
+    .filter(payment => payment.quote === quote._id && payment.status === 'pending')
+    .forEach(payment => {
+      payment.status = 'cancelled';
+      payment.updatedAt = now();
+    });
+
+  return ok(null, 'Presupuesto cancelado');
+});
+
+route('POST', API_ENDPOINTS.QUOTES.APPROVE_MARGIN(':id'), (request) => {
+  requireAdmin(request);
+  const quote = findQuote(request.params.id);
+
+  if (quote.status !== 'pending') {
+    fail(400, 'Solo se pueden aprobar presupuestos pendientes', 'QUOTE_LOCKED');
+  }
+  if (quote.marginApproval?.status !== 'pending') {
+    fail(400, 'El presupuesto no tiene una aprobación de margen pendiente', 'NO_PENDING_APPROVAL');
+  }
+
+  quote.marginApproval = {
+    ...quote.marginApproval,
+    status: 'approved',
+    approvedBy: request.user?._id,
+    approvedAt: now(),
+  };
+  quote.updatedAt = now();
+
+  return ok(populateQuote(quote), 'Margen aprobado');
+});
+
+route('GET', API_ENDPOINTS.QUOTES.REVISIONS(':id'), ({ params }) => {
+  findQuote(params.id);
+  return ok(db.revisions.filter(revision => revision.quote === params.id));
+});
+
+// ===============================
+// RUTAS - PLANTILLAS DE PRESUPUESTO
+// ===============================
+
+route('GET', API_ENDPOINTS.QUOTE_TEMPLATES.LIST, ({ query }) => {
+  const search = (query.search || '').toLowerCase();
+  const templates = db.quoteTemplates.filter(template => !search || includesText(template.name, search));
+
+  return ok(paginate(sortBy(templates, query.sortBy, query.sortOrder || 'asc', 'name'), query, PAGINATION.DEFAULT_LIMIT));
+});
+
+route('POST', API_ENDPOINTS.QUOTE_TEMPLATES.CREATE, ({ body, user }) => {
+  const template: QuoteTemplate = {
+    ...buildQuoteTemplate(body as CreateQuoteTemplateRequest),
+    _id: generateMockId(),
+    createdBy: user?._id,
+    createdAt: now(),
+    updatedAt: now(),
+  };
+  db.quoteTemplates.push(template);
+
+  return ok(template, 'Plantilla creada', 201);
+});
+
+route('PUT', API_ENDPOINTS.QUOTE_TEMPLATES.UPDATE(':id'), ({ params, body }) => {
+  const template = findQuoteTemplate(params.id);
+
+  Object.assign(template, buildQuoteTemplate(body, template), { updatedAt: now() });
+  return ok(template, 'Plantilla actualizada');
+});
+
+route('DELETE', API_ENDPOINTS.QUOTE_TEMPLATES.DELETE(':id'), ({ params }) => {
+  const template = findQuoteTemplate(params.id);
+  db.quoteTemplates.splice(db.quoteTemplates.indexOf(template), 1);
+
+  return ok(null, 'Plantilla eliminada');
+});
+
+// ===============================
+// RUTAS - PAGOS
+// ===============================
+
+route('POST', API_ENDPOINTS.PAYMENTS.CREATE, ({ body }) => {
+  const quote = findQuote(body.quoteId);
+
+  if (quote.status !== 'pending') {
+    fail(400, 'Solo se pueden cobrar presupuestos pendientes', 'QUOTE_NOT_PENDING');
+  }
+
+  if (quote.marginApproval?.status === 'pending') {
+    fail(403, 'El margen del presupuesto está bajo el mínimo y necesita la aprobación de un administrador', 'MARGIN_APPROVAL_REQUIRED');
+  }
+
+  // Un presupuesto tiene un único pago pendiente a la vez
+  let payment = db.payments.find(candidate => candidate.quote === quote._id && candidate.status === 'pending');
+
+  if (!payment) {
+    const createdAt = new Date();
+    const preferenceId = `MOCK-${generateMockId()}`;
+    const qrCodeData = `00020101021243650016COM.MERCADOLIBRE02013063${preferenceId}5204970053030325802AR5909MOCK SHOP6004CABA63040000`;
+
+    payment = {
+      _id: generateMockId(),
+      quote: quote._id,
+      status: 'pending',
+      amount: quote.total,
+      qrCode: qrCodeData,
+      qrCodeData,
+      initPoint: `https://www.mercadopago.com.ar/checkout/v1/redirect?pref_id=${preferenceId}`,
+      preferenceId,
+      externalReference: quote._id,
+      expiresAt: new Date(createdAt.getTime() + MOCK_CONFIG.PAYMENT_EXPIRATION_MINUTES * 60 * 1000).toISOString(),
+      approveAt: createdAt.getTime() + MOCK_CONFIG.PAYMENT_APPROVAL_DELAY,
+      createdAt: createdAt.toISOString(),
+      updatedAt: createdAt.toISOString(),
+    };
+    db.payments.push(payment);
+  }
+
+  quote.paymentId = payment._id;
+
+  const response: CreatePaymentResponse = {
+    paymentId: payment._id,
+    preferenceId: payment.preferenceId as string,
+    qrCode: payment.qrCode as string,
+    qrCodeData: payment.qrCodeData as string,
+    initPoint: payment.initPoint as string,
+    amount: payment.amount,
+    expiresAt: payment.expiresAt as string,
+  };
+
+  return ok(response, 'Orden de pago creada', 201);
+});
+
+route('GET', API_ENDPOINTS.PAYMENTS.STATS, (request) => {
+  requireAdmin(request);
+
+  const payments = db.payments.filter(payment => inDateRange(payment.createdAt, request.query));
+  const approved = payments.filter(payment => payment.status === 'approved');
+  const totalAmount = approved.reduce((sum, payment) => sum + payment.amount, 0);
+  const methods = new Map<string, { _id: string; count: number; amount: number }>();
+
+  approved.forEach(payment => {
+    const method = payment.paymentMethod || 'account_money';
+    const entry = methods.get(method) || { _id: method, count: 0, amount: 0 };
+    entry.count++;
+    entry.amount += payment.amount;
+    methods.set(method, entry);
+  });
+
+  const stats: PaymentStats = {
+    totalPayments: payments.length,
+    totalAmount,
+    averageAmount: approved.length > 0 ? totalAmount / approved.length : 0,
+    approvedPayments: approved.length,
+    rejectedPayments: payments.filter(payment => payment.status === 'rejected').length,
+    pendingPayments: payments.filter(payment => payment.status === 'pending').length,
+    approvalRate: payments.length > 0 ? (approved.length / payments.length) * 100 : 0,
+    paymentMethods: Array.from(methods.values()),
+  };
+
+  return ok(stats);
+});
+
+route('GET', API_ENDPOINTS.PAYMENTS.LIST, (request) => {
+  requireAdmin(request);
+  const { query } = request;
+
+  const payments = db.payments.filter(payment =>
+    (!query.status || payment.status === query.status) &&
+    inDateRange(payment.createdAt, query) &&
+    (!query.minAmount || payment.amount >= Number(query.minAmount)) &&
+    (!query.maxAmount || payment.amount <= Number(query.maxAmount))
+  );
+
+  const { items, pagination } = paginate(
+    sortBy(payments, query.sortBy, query.sortOrder, 'createdAt'),
+    query,
+    PAGINATION.PAYMENTS_PER_PAGE
+  );
+
+  return ok({
+    payments: items.map(toPublicPayment),
+    total: pagination.total,
+    page: pagination.page,
+    limit: pagination.limit,
+    totalPages: pagination.totalPages,
+  });
+});
+
+route('GET', API_ENDPOINTS.PAYMENTS.STATUS(':id'), ({ params }) => {
+  const payment = findPayment(params.id);
+  const quote = findQuote(payment.quote);
+
+  return ok({ payment: toPublicPayment(payment), quote: populateQuote(quote) });
+});
+
+route('POST', API_ENDPOINTS.PAYMENTS.CANCEL(':id'), ({ params }) => {
+  const payment = findPayment(params.id);
+
+  if (payment.status !== 'pending') {
+    fail(400, 'Solo se pueden cancelar pagos pendientes', 'PAYMENT_NOT_PENDING');
+  }
+
+  payment.status = 'cancelled';
+  payment.updatedAt = now();
+
+  const quote = db.quotes.find(item => item._id === payment.quote);
+  if (quote?.paymentId === payment._id) {
+    quote.paymentId = undefined;
+  }
+
+  return ok(null, 'Pago cancelado');
+});
+
+route('POST', API_ENDPOINTS.PAYMENTS.RECEIPT(':id'), ({ params }) => {
+  const payment = findPayment(params.id);
+
+  if (payment.status !== 'approved') {
+    fail(400, 'El pago todavía no fue aprobado', 'PAYMENT_NOT_APPROVED');
+  }
+
+  // Idempotente: el número se asigna una sola vez
+  let receipt = db.receipts.find(item => item.payment === payment._id);
+
+  if (!receipt) {
+    db.counters.receipt++;
+    receipt = {
+      _id: generateMockId(),
+      receiptNumber: formatMockReceiptNumber(db.counters.receipt),
+      payment: payment._id,
+      quote: payment.quote,
+      issuedAt: now(),
+    };
+    payment.receiptNumber = receipt.receiptNumber;
+    db.receipts.push(receipt);
+  }
+
+  return ok(receipt);
+});
+
+// Simula la notificación de MercadoPago: { paymentId, status: 'approved' | 'rejected' }
+route('POST', API_ENDPOINTS.PAYMENTS.WEBHOOK, ({ body }) => {
+  const payment = findPayment(body.paymentId);
+
+  if (payment.status === 'pending') {
+    if (body.status === 'rejected') {
+      payment.status = 'rejected';
+      payment.updatedAt = now();
+    } else {
+      approvePayment(payment);
+    }
+  }
+
+  return ok(toPublicPayment(payment), 'Notificación procesada');
+}, true);
+
+// ===============================
+// RUTAS - ARCHIVOS
+// ===============================
+
+// Sin servidor de archivos la "URL" publicada es el archivo local ya comprimido.
+// En React Native el FormData expone sus partes con getParts()
+route('POST', API_ENDPOINTS.UPLOADS.IMAGE, ({ body }) => {
+  const parts: any[] = typeof body?.getParts === 'function' ? body.getParts() : [];
+  const file = parts.find(part => part.fieldName === 'file');
+
+  if (!file?.uri) {
+    fail(400, 'No se recibió ninguna imagen', 'VALIDATION_ERROR');
+  }
+
+  if (file.type && !String(file.type).startsWith('image/')) {
+    fail(400, 'El archivo no es una imagen', 'INVALID_FILE_TYPE');
+  }
+
+  return ok({ url: file.uri }, 'Imagen subida', 201);
+});
+
+// ===============================
+// REQUEST HANDLING
+// ===============================
+
+const getAuthenticatedUser = (config: InternalAxiosRequestConfig): MockUser | null => {
+  const header = String(config.headers?.Authorization || config.headers?.authorization || '');
+  const token = header.replace(/^Bearer\s+/i, '');
+
+  if (!token.startsWith(TOKEN_PREFIX)) return null;
+
+  const user = db.users.find(candidate => candidate._id === token.slice(TOKEN_PREFIX.length));
+  return user && user.isActive !== false ? user : null;
+};
+
+const handleRequest = (config: InternalAxiosRequestConfig): MockResult => {
+  const method = (config.method || 'get').toUpperCase() as HttpMethod;
+  const [rawPath, queryString = ''] = (config.url || '').replace(/^https?:\/\/[^/]+/, '').split('?');
+  const path = rawPath.replace(/^\/api(?=\/)/, '');
+
+  try {
+    settleState();
+
+    for (const candidate of routes) {
+      if (candidate.method !== method) continue;
+
+      const match = candidate.pattern.exec(path);
+      if (!match) continue;
+
+      const user = getAuthenticatedUser(config);
+      if (!candidate.isPublic && !user) {
+        fail(401, 'Token inválido o expirado', 'UNAUTHORIZED');
+      }
+
+      const params: Record<string, string> = {};
+      candidate.keys.forEach((key, index) => {
+        params[key] = decodeURIComponent(match[index + 1]);
+      });
+
+      const result = candidate.handler({
+        method,
+        path,
+        params,
+        query: { ...parseQuery(queryString), ...(config.params || {}) },
+        body: parseBody(config.data),
+        user,
+      });
+
+      if (user?.role !== 'admin') {
+        hideAdminFields(result.body.data);
+      }
+      return result;
+    }
+
+    return fail(404, `Ruta no encontrada: ${method} ${path}`, 'NOT_FOUND');
+  } catch (error: any) {
+    if (isMockError(error)) {
+      return {
+        status: error.status,
+        body: {
+          success: false,
+          message: error.message,
+          error: { code: error.code, details: error.details },
+        },
+      };
+    }
+
+    console.error('Mock API error:', error);
+    return {
+      status: 500,
+      body: { success: false, message: 'Error interno del servidor simulado', error: { code: 'HTTP_500' } },
+    };
+  }
+};
+
+// ===============================
+// ADAPTER
+// ===============================
+
+/**
+ * Adapter de axios que resuelve todas las rutas de API_ENDPOINTS contra datos en memoria
+ */
+export const mockAdapter: AxiosAdapter = async (config) => {
+  await new Promise(resolve => setTimeout(resolve, MOCK_CONFIG.LATENCY));
+
+  const { status, body } = handleRequest(config);
+  const response: AxiosResponse = {
+    data: body,
+    status,
+    statusText: body.message,
+    headers: {},
+    config,
+    request: {},
+  };
+
+  if (__DEV__) {
+    console.log('🧪 Mock API:', config.method?.toUpperCase(), config.url, status);
+  }
+
+  if (status >= 400) {
+    throw new AxiosError(
+      body.message,
+      status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response
+    );
+  }
+
+  return response;
+};
+
+export default mockAdapter;
@@ -0,0 +1,784 @@
+// ===============================
+// MOCK DATABASE - PRESUPUESTOS APP
+// ===============================
+
+import {
+  User,
+  Product,
+  ProductOption,
+  ProductVariant,
+  ProductVariantSnapshot,
+  ProductBundle,
+  BundlePricing,
+  Customer,
+  Quote,
+  QuoteItem,
+  QuoteCustomItem,
+  QuoteTaxLine,
+  QuoteRevision,
+  QuoteTemplate,
+  QuoteTemplateItem,
+  Payment,
+  PaymentReceipt,
+  StockMovement,
+  StockMovementType,
+  PriceChange,
+} from '../../types';
+import { MARGIN_CONFIG, MOCK_CONFIG, TAX_CONFIG } from '../../constants/config';
+
+// ===============================
+// TYPES
+// ===============================
+
+export interface MockUser extends User {
+  password: string;
+}
+
+// El pago simulado guarda cuándo debe aprobarse solo
+export interface MockPayment extends Payment {
+  approveAt: number;
+}
+
+export interface MockDatabase {
+  users: MockUser[];
+  products: Product[];
+  customers: Customer[];
+  quotes: Quote[];
+  revisions: QuoteRevision[];
+  quoteTemplates: QuoteTemplate[];
+  payments: MockPayment[];
+  receipts: PaymentReceipt[];
+  stockMovements: StockMovement[];
+  priceHistory: PriceChange[];
+  clientIds: Record<string, string>; // clientId enviado por la app -> _id creado
+  counters: {
+    quote: number;
+    receipt: number;
+  };
+}
+
+// ===============================
+// HELPERS
+// ===============================
+
+const DAY = 24 * 60 * 60 * 1000;
+
+let idCounter = 0;
+
+/**
+ * Generar un ID con el formato de ObjectId de MongoDB (24 caracteres hex)
+ */
+export const generateMockId = (): string => {
+  idCounter++;
+  const timestamp = Math.floor(Date.now() / 1000).toString(16).padStart(8, '0');
+  const counter = idCounter.toString(16).padStart(6, '0');
+  const random = Math.floor(Math.random() * 0xffffffffff).toString(16).padStart(10, '0');
+  return `${timestamp}${random}${counter}`.slice(0, 24);
+};
+
+const daysAgo = (days: number): string => new Date(Date.now() - days * DAY).toISOString();
+
+/**
+ * Número de presupuesto con el formato del backend: Q-YYYYMMDD-XXXX
+ */
+export const formatMockQuoteNumber = (date: Date, sequence: number): string => {
+  const year = date.getFullYear();
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `Q-${year}${month}${day}-${sequence.toString().padStart(4, '0')}`;
+};
+
+/**
+ * Número de comprobante correlativo: R-0001-XXXXXXXX
+ */
+export const formatMockReceiptNumber = (sequence: number): string => {
+  return `R-0001-${sequence.toString().padStart(8, '0')}`;
+};
+
+/**
+ * Totales con la misma regla que el backend: el subtotal de cada línea (de productos
+ * o libre) ya tiene su descuento; el descuento general se reparte entre las líneas y
+ * el IVA se calcula sobre lo que queda, agrupado por alícuota
+ */
+export const calculateMockTotals = (
+  items: QuoteItem[],
+  discountPercentage = 0,
+  customItems: QuoteCustomItem[] = []
+): Pick<Quote, 'subtotal' | 'discount' | 'tax' | 'taxes' | 'total'> => {
+  const lines = [...items, ...customItems];
+  const subtotal = lines.reduce((sum, item) => sum + item.subtotal, 0);
+  const discount = (subtotal * discountPercentage) / 100;
+  const taxes: QuoteTaxLine[] = [];
+
+  lines.forEach(item => {
+    const rate = item.taxRate ?? TAX_CONFIG.DEFAULT_IVA_RATE;
+    const base = item.subtotal * (1 - discountPercentage / 100);
+    const entry = taxes.find(tax => tax.rate === rate);
+
+    if (entry) {
+      entry.base += base;
+      entry.amount += (base * rate) / 100;
+    } else {
+      taxes.push({ rate, base, amount: (base * rate) / 100 });
+    }
+  });
+
+  const tax = taxes.reduce((sum, entry) => sum + entry.amount, 0);
+
+  return {
+    subtotal,
+    discount,
+    tax,
+    taxes: taxes.sort((a, b) => a.rate - b.rate),
+    total: subtotal - discount + tax,
+  };
+};
+
+/**
+ * Margen porcentual sobre el total después del descuento (sin impuestos), con el costo
+ * copiado en cada ítem. Sin costo en alguna línea no se puede calcular; las líneas
+ * libres no tienen costo y quedan afuera
+ */
+export const calculateMockMargin = (items: QuoteItem[], discountPercentage = 0): number | undefined => {
+  if (items.length === 0 || items.some(item => item.productSnapshot.cost === undefined)) return undefined;
+
+  const cost = items.reduce((sum, item) => sum + (item.productSnapshot.cost as number) * item.quantity, 0);
+  const net = items.reduce((sum, item) => sum + item.subtotal, 0) * (1 - discountPercentage / 100);
+  if (net <= 0) return cost > 0 ? -100 : 0;
+
+  return Math.round(((net - cost) / net) * 1000) / 10;
+};
+
+/**
+ * Verificar si un margen quedó bajo MARGIN_CONFIG.MIN_MARGIN_PERCENTAGE
+ */
+export const isMockMarginBelowMinimum = (marginPercentage: number | undefined): boolean => {
+  return marginPercentage !== undefined && marginPercentage < MARGIN_CONFIG.MIN_MARGIN_PERCENTAGE;
+};
+
+/**
+ * Armar el snapshot de versión de un presupuesto
+ */
+export const buildMockRevision = (quote: Quote, createdBy?: string): QuoteRevision => ({
+  _id: generateMockId(),
+  quote: quote._id,
+  version: quote.version || 1,
+  items: quote.items.map(item => ({
+    productId: item.product._id,
+    productSnapshot: { ...item.productSnapshot },
+    quantity: item.quantity,
+    discount: item.discount,
+    taxRate: item.taxRate,
+    subtotal: item.subtotal,
+  })),
+  customItems: quote.customItems?.map(item => ({ ...item })),
+  subtotal: quote.subtotal,
+  discount: quote.discount,
+  tax: quote.tax,
+  total: quote.total,
+  notes: quote.notes,
+  createdBy,
+  createdAt: quote.updatedAt,
+});
+
+/**
+ * Variante copiada en presupuestos y movimientos: la etiqueta son sus valores en orden
+ */
+export const toMockVariantSnapshot = (variant: ProductVariant): ProductVariantSnapshot => ({
+  _id: variant._id,
+  sku: variant.sku,
+  label: Object.values(variant.options).join(' / '),
+});
+
+/**
+ * Registrar un movimiento de stock: actualiza el stock físico y guarda el saldo resultante.
+ * Con `variant` se mueve el stock de la variante y el total del producto acompaña
+ */
+export const applyMockMovement = (
+  movements: StockMovement[],
+  product: Product,
+  type: StockMovementType,
+  quantity: number,
+  details: Partial<Pick<StockMovement, 'reason' | 'reference' | 'quote' | 'createdBy' | 'createdAt'>> = {},
+  variant?: ProductVariant
+): StockMovement => {
+  const target = variant || product;
+  const previous = target.stock;
+  target.stock = Math.max(previous + quantity, 0);
+  if (variant) {
+    product.stock += variant.stock - previous;
+  }
+
+  const movement: StockMovement = {
+    _id: generateMockId(),
+    product: product._id,
+    variant: variant && toMockVariantSnapshot(variant),
+    type,
+    quantity: target.stock - previous,
+    balance: target.stock,
+    ...details,
+    createdAt: details.createdAt || new Date().toISOString(),
+  };
+  movements.push(movement);
+
+  return movement;
+};
+
+/**
+ * Recalcular lo que un kit deriva de sus componentes: nombre y SKU de cada uno, costo, kits
+ * que se pueden armar con el stock físico y cuántos de esos comprometen las reservas.
+ * Devuelve el precio que le corresponde (el propio o la suma con descuento)
+ */
+export const refreshMockBundle = (product: Product, products: Product[]): number => {
+  const bundle = product.bundle as ProductBundle;
+  let stock = Infinity;
+  let available = Infinity;
+  let componentsTotal = 0;
+  let componentsCost: number | undefined = 0;
+
+  bundle.components.forEach(component => {
+    const target = products.find(item => item._id === component.product);
+    if (!target || !target.isActive) {
+      stock = 0;
+      available = 0;
+      componentsCost = undefined;
+      return;
+    }
+
+    component.name = target.name;
+    component.sku = target.sku;
+    stock = Math.min(stock, Math.floor(target.stock / component.quantity));
+    available = Math.min(available, Math.floor(Math.max(target.stock - (target.reservedStock || 0), 0) / component.quantity));
+    componentsTotal += target.price * component.quantity;
+    componentsCost = componentsCost === undefined || target.cost === undefined
+      ? undefined
+      : componentsCost + target.cost * component.quantity;
+  });
+
+  // El costo del kit es el de sus componentes; si a alguno le falta, queda sin costo
+  product.cost = componentsCost;
+  product.stock = Number.isFinite(stock) ? stock : 0;
+  product.reservedStock = product.stock - (Number.isFinite(available) ? available : 0);
+
+  return bundle.pricing === 'discount'
+    ? Math.round(componentsTotal * (1 - (bundle.discount || 0) / 100))
+    : product.price;
+};
+
+/**
+ * Cambiar el precio de lista de un producto dejando registro en el historial
+ */
+export const applyMockPriceChange = (
+  history: PriceChange[],
+  product: Product,
+  price: number,
+  details: Partial<Pick<PriceChange, 'reason' | 'batch' | 'createdBy' | 'createdAt'>> = {}
+): PriceChange => {
+  const change: PriceChange = {
+    _id: generateMockId(),
+    product: product._id,
+    previousPrice: product.price,
+    price,
+    ...details,
+    createdAt: details.createdAt || new Date().toISOString(),
+  };
+  product.price = price;
+  history.push(change);
+
+  return change;
+};
+
+/**
+ * Cambiar el precio propio de una variante dejando registro en el historial del producto.
+ * Sin precio la variante vuelve a usar el del producto
+ */
+export const applyMockVariantPriceChange = (
+  history: PriceChange[],
+  product: Product,
+  variant: ProductVariant,
+  price: number | undefined,
+  details: Partial<Pick<PriceChange, 'reason' | 'batch' | 'createdBy' | 'createdAt'>> = {}
+): PriceChange => {
+  const change: PriceChange = {
+    _id: generateMockId(),
+    product: product._id,
+    variant: variant._id,
+    variantLabel: toMockVariantSnapshot(variant).label,
+    previousPrice: variant.price ?? product.price,
+    price: price ?? product.price,
+    ...details,
+    createdAt: details.createdAt || new Date().toISOString(),
+  };
+  variant.price = price;
+  history.push(change);
+
+  return change;
+};
+
+// ===============================
+// SEED
+// ===============================
+
+type SeedQuoteLine = [number, number, number?, number?];
+
+const seedProduct = (
+  name: string,
+  description: string,
+  price: number,
+  stock: number,
+  category: string,
+  sku: string,
+  barcode?: string,
+  reorderPoint?: number
+): Product => ({
+  _id: generateMockId(),
+  name,
+  description,
+  price,
+  stock,
+  category,
+  sku,
+  barcode,
+  reorderPoint,
+  reservedStock: 0,
+  isActive: true,
+  createdAt: daysAgo(60),
+  updatedAt: daysAgo(10),
+});
+
+// Variantes de seed: una por combinación, con el SKU del producto más un sufijo
+const seedVariants = (
+  product: Product,
+  options: ProductOption[],
+  variants: Array<{ suffix: string; values: string[]; stock: number; price?: number }>
+): void => {
+  product.options = options;
+  product.variants = variants.map(({ suffix, values, stock, price }) => ({
+    _id: generateMockId(),
+    sku: `${product.sku}-${suffix}`,
+    options: Object.fromEntries(options.map((option, index) => [option.name, values[index]])),
+    price,
+    stock,
+    reservedStock: 0,
+  }));
+  product.stock = product.variants.reduce((sum, variant) => sum + variant.stock, 0);
+};
+
+// Kits de seed: [producto, unidades por kit]; el nombre y el stock los completa refreshMockBundle
+const seedBundle = (
+  product: Product,
+  products: Product[],
+  pricing: BundlePricing,
+  components: Array<[number, number]>,
+  discount?: number
+): void => {
+  product.bundle = {
+    components: components.map(([index, quantity]) => ({
+      product: products[index]._id,
+      name: products[index].name,
+      sku: products[index].sku,
+      quantity,
+    })),
+    pricing,
+    discount,
+  };
+};
+
+// Líneas de seed: [producto, cantidad, variante, descuento de la línea]
+const seedQuoteItems = (products: Product[], lines: SeedQuoteLine[]): QuoteItem[] => {
+  return lines.map(([index, quantity, variantIndex, discount]) => {
+    const product = products[index];
+    const variant = variantIndex !== undefined ? product.variants?.[variantIndex] : undefined;
+    const price = variant?.price ?? product.price;
+    return {
+      product,
+      productSnapshot: {
+        name: product.name,
+        price,
+        variant: variant && toMockVariantSnapshot(variant),
+        components: product.bundle?.components.map(component => ({ ...component })),
+        cost: product.cost,
+      },
+      quantity,
+      discount,
+      taxRate: product.taxRate ?? TAX_CONFIG.DEFAULT_IVA_RATE,
+      subtotal: price * quantity * (1 - (discount || 0) / 100),
+    };
+  });
+};
+
+const createSeed = (): MockDatabase => {
+  const admin: MockUser = {
+    _id: generateMockId(),
+    email: 'admin@test.com',
+    name: 'Administrador Demo',
+    role: 'admin',
+    isActive: true,
+    password: MOCK_CONFIG.DEMO_PASSWORD,
+    createdAt: daysAgo(90),
+    updatedAt: daysAgo(90),
+  };
+
+  const seller: MockUser = {
+    _id: generateMockId(),
+    email: 'vendedor@test.com',
+    name: 'Vendedor Demo',
+    role: 'seller',
+    isActive: true,
+    password: MOCK_CONFIG.DEMO_PASSWORD,
+    createdAt: daysAgo(90),
+    updatedAt: daysAgo(90),
+  };
+
+  const products: Product[] = [
+    seedProduct('Notebook Lenovo IdeaPad 15"', 'Ryzen 5, 16 GB RAM, SSD 512 GB', 890000, 12, 'Computación', 'COM-NOT-0001', '7791234567898', 15),
+    seedProduct('Monitor Samsung 24" IPS', 'Full HD, 75 Hz, HDMI y DisplayPort', 215000, 25, 'Computación', 'COM-MON-0002', '8806090000010'),
+    seedProduct('Mouse Logitech M280', 'Inalámbrico, 1000 DPI', 18500, 60, 'Accesorios', 'ACC-MOU-0003', '5099206027299'),
+    seedProduct('Teclado mecánico Redragon Kumara', 'Switches blue, retroiluminado', 52000, 4, 'Gaming', 'GAM-TEC-0004', '6950376750518'),
+    seedProduct('Auriculares Sony WH-CH520', 'Bluetooth, 50 h de batería', 79000, 18, 'Audio', 'AUD-AUR-0005', '4548736141018'),
+    seedProduct('Parlante JBL Flip 6', 'Resistente al agua IP67', 165000, 3, 'Audio', 'AUD-PAR-0006', '6925281993121'),
+    seedProduct('Smartphone Motorola Moto G54', '256 GB, 8 GB RAM', 420000, 9, 'Telefonía', 'TEL-SMA-0007', '0840023245015'),
+    seedProduct('Smart TV TCL 50" 4K', 'Google TV, HDR10', 610000, 0, 'Video', 'VID-SMA-0008', '6921732894115'),
+    seedProduct('Silla de oficina ergonómica', 'Respaldo mesh, apoyabrazos regulables', 185000, 7, 'Oficina', 'OFI-SIL-0009'),
+    seedProduct('Cafetera Oster Prima Latte', 'Espresso con espumador de leche', 245000, 14, 'Hogar', 'HOG-CAF-0010', '0053891140430', 15),
+    seedProduct('Cable HDMI 2.1 2 m', 'Soporta 8K a 60 Hz', 9500, 120, 'Accesorios', 'ACC-CAB-0011', '7798123450019', 30),
+    seedProduct('Joystick DualSense PS5', 'Control inalámbrico original', 115000, 2, 'Gaming', 'GAM-JOY-0012', '0711719399506'),
+    seedProduct('Mochila para notebook Targus', 'Compartimento acolchado, resistente al agua', 42000, 0, 'Accesorios', 'ACC-MOC-0013'),
+    seedProduct('Kit home office', 'Notebook, monitor y mouse inalámbrico', 0, 0, 'Computación', 'COM-KIT-0014'),
+    seedProduct('Combo gamer', 'Teclado mecánico y joystick DualSense', 155000, 0, 'Gaming', 'GAM-KIT-0015'),
+  ];
+
+  seedVariants(products[12], [
+    { name: 'Tamaño', values: ['14"', '15.6"'] },
+    { name: 'Color', values: ['Negro', 'Gris'] },
+  ], [
+    { suffix: '14N', values: ['14"', 'Negro'], stock: 6 },
+    { suffix: '14G', values: ['14"', 'Gris'], stock: 4 },
+    { suffix: '15N', values: ['15.6"', 'Negro'], stock: 8, price: 47000 },
+    { suffix: '15G', values: ['15.6"', 'Gris'], stock: 0, price: 47000 },
+  ]);
+
+  // Costos de compra (los kits suman los de sus componentes)
+  const costs: Record<number, number> = {
+    0: 720000, 1: 158000, 2: 11000, 3: 33000, 4: 52000, 5: 118000, 6: 330000,
+    7: 470000, 8: 112000, 9: 171000, 10: 3800, 11: 86000, 12: 24000,
+  };
+  Object.entries(costs).forEach(([index, cost]) => {
+    products[Number(index)].cost = cost;
+  });
+
+  // Informática y telefonía tributan IVA reducido; el resto usa la alícuota general
+  [0, 1, 2, 3, 6, 13].forEach(index => {
+    products[index].taxRate = 10.5;
+  });
+
+  seedBundle(products[13], products, 'discount', [[0, 1], [1, 1], [2, 1]], 8);
+  seedBundle(products[14], products, 'fixed', [[3, 1], [11, 1]]);
+  const bundles = products.filter(product => product.bundle);
+
+  const customers: Customer[] = [
+    {
+      _id: generateMockId(),
+      name: 'Estudio Contable Pérez',
+      email: 'compras@estudioperez.com.ar',
+      phone: '1145678901',
+      address: 'Av. Corrientes 1234, CABA',
+      taxId: '30711111111',
+      isActive: true,
+      createdBy: admin._id,
+      createdAt: daysAgo(45),
+      updatedAt: daysAgo(45),
+    },
+    {
+      _id: generateMockId(),
+      name: 'María Gómez',
+      email: 'maria.gomez@gmail.com',
+      phone: '1156781234',
+      isActive: true,
+      createdBy: seller._id,
+      createdAt: daysAgo(20),
+      updatedAt: daysAgo(20),
+    },
+    {
+      _id: generateMockId(),
+      name: 'Colegio San Martín',
+      email: 'administracion@colegiosanmartin.edu.ar',
+      phone: '1143219876',
+      address: 'Belgrano 550, Quilmes',
+      taxId: '30522222220',
+      isActive: true,
+      createdBy: seller._id,
+      createdAt: daysAgo(12),
+      updatedAt: daysAgo(12),
+    },
+  ];
+
+  const buildSeedQuote = (
+    sequence: number,
+    customer: Customer,
+    lines: SeedQuoteLine[],
+    status: Quote['status'],
+    createdDaysAgo: number,
+    discountPercentage = 0,
+    customItems: QuoteCustomItem[] = []
+  ): Quote => {
+    const items = seedQuoteItems(products, lines);
+    const totals = calculateMockTotals(items, discountPercentage, customItems);
+    const createdAt = daysAgo(createdDaysAgo);
+    const marginPercentage = calculateMockMargin(items, discountPercentage);
+
+    return {
+      _id: generateMockId(),
+      quoteNumber: formatMockQuoteNumber(new Date(createdAt), sequence),
+      customer: {
+        customerId: customer._id,
+        name: customer.name,
+        email: customer.email,
+        phone: customer.phone,
+        address: customer.address,
+        taxId: customer.taxId,
+      },
+      items,
+      customItems: customItems.length > 0 ? customItems : undefined,
+      ...totals,
+      status,
+      expiresAt: status === 'expired'
+        ? daysAgo(createdDaysAgo - MOCK_CONFIG.QUOTE_VALIDITY_DAYS)
+        : new Date(new Date(createdAt).getTime() + MOCK_CONFIG.QUOTE_VALIDITY_DAYS * DAY).toISOString(),
+      version: 1,
+      // Los pendientes del vendedor con margen bajo esperan la aprobación de un administrador
+      marginApproval: status === 'pending' && isMockMarginBelowMinimum(marginPercentage)
+        ? { status: 'pending', marginPercentage, requestedBy: seller._id }
+        : undefined,
+      createdBy: seller._id,
+      createdAt,
+      updatedAt: createdAt,
+    };
+  };
+
+  // Historial de precios: el precio de seedProduct es el vigente; los presupuestos
+  // anteriores a la última lista guardan en el snapshot los precios de entonces
+  const priceHistory: PriceChange[] = [];
+  const initialPrices: Record<number, number> = { 0: 760000, 2: 16900, 3: 46000, 8: 168000, 9: 229000 };
+  const priceUpdates: Array<{ createdDaysAgo: number; reason: string; prices: Record<number, number> }> = [
+    { createdDaysAgo: 50, reason: 'Aumento del proveedor', prices: { 0: 820000, 3: 52000 } },
+    { createdDaysAgo: 25, reason: 'Actualización de lista de precios', prices: { 0: 890000, 2: 18500, 8: 185000, 9: 245000 } },
+  ];
+
+  const applySeedPriceUpdate = ({ createdDaysAgo, reason, prices }: typeof priceUpdates[number]) => {
+    const batch = generateMockId();
+    Object.entries(prices).forEach(([index, price]) => {
+      applyMockPriceChange(priceHistory, products[Number(index)], price, {
+        reason,
+        batch,
+        createdBy: admin._id,
+        createdAt: daysAgo(createdDaysAgo),
+      });
+    });
+  };
+
+  Object.entries(initialPrices).forEach(([index, price]) => {
+    products[Number(index)].price = price;
+  });
+  applySeedPriceUpdate(priceUpdates[0]);
+
+  const olderQuotes: Quote[] = [
+    buildSeedQuote(1, customers[0], [[0, 2], [1, 2], [2, 2]], 'paid', 40, 5),
+    buildSeedQuote(2, customers[2], [[8, 3]], 'expired', 35),
+  ];
+
+  applySeedPriceUpdate(priceUpdates[1]);
+  bundles.forEach(product => {
+    product.price = refreshMockBundle(product, products);
+  });
+
+  const quotes: Quote[] = [
+    ...olderQuotes,
+    buildSeedQuote(3, customers[1], [[6, 1], [4, 1]], 'cancelled', 15),
+    buildSeedQuote(4, customers[0], [[9, 1], [10, 4]], 'paid', 8),
+    buildSeedQuote(5, customers[2], [[0, 5], [2, 5]], 'pending', 3, 10),
+    buildSeedQuote(6, customers[1], [[4, 1], [5, 1, undefined, 10], [12, 2, 2], [13, 1]], 'pending', 1, 0, [
+      { description: 'Instalación y configuración en domicilio', unitPrice: 35000, quantity: 1, taxRate: 21, subtotal: 35000 },
+    ]),
+  ];
+
+  // Plantillas de los paquetes que se presupuestan seguido. Solo guardan cantidades:
+  // el precio sale del catálogo al usarlas
+  const templateItem = (index: number, quantity: number): QuoteTemplateItem => ({
+    productId: products[index]._id,
+    name: products[index].name,
+    quantity,
+  });
+
+  const quoteTemplates: QuoteTemplate[] = [
+    {
+      _id: generateMockId(),
+      name: 'Puesto de trabajo completo',
+      items: [templateItem(0, 1), templateItem(1, 1), templateItem(2, 1), templateItem(3, 1), templateItem(8, 1)],
+      customItems: [
+        { description: 'Instalación y configuración en domicilio', unitPrice: 35000, quantity: 1, taxRate: 21 },
+      ],
+      notes: 'Incluye armado del puesto y configuración del equipo',
+      createdBy: seller._id,
+      createdAt: daysAgo(20),
+      updatedAt: daysAgo(20),
+    },
+    {
+      _id: generateMockId(),
+      name: 'Sala de reuniones',
+      items: [templateItem(7, 1), templateItem(5, 1), templateItem(10, 2)],
+      discount: 5,
+      createdBy: admin._id,
+      createdAt: daysAgo(10),
+      updatedAt: daysAgo(10),
+    },
+  ];
+
+  // Los presupuestos pendientes mantienen reservado su stock (el de los componentes en los kits)
+  quotes.filter(quote => quote.status === 'pending').forEach(quote => {
+    quote.items.forEach(item => {
+      if (item.productSnapshot.components) {
+        item.productSnapshot.components.forEach(component => {
+          const target = products.find(candidate => candidate._id === component.product) as Product;
+          target.reservedStock = (target.reservedStock || 0) + item.quantity * component.quantity;
+        });
+        return;
+      }
+
+      const variant = item.product.variants?.find(candidate => candidate._id === item.productSnapshot.variant?._id);
+      item.product.reservedStock = (item.product.reservedStock || 0) + item.quantity;
+      if (variant) {
+        variant.reservedStock = (variant.reservedStock || 0) + item.quantity;
+      }
+    });
+  });
+
+  // Los presupuestos pagados tienen su pago aprobado y comprobante emitido
+  const payments: MockPayment[] = [];
+  const receipts: PaymentReceipt[] = [];
+
+  quotes.filter(quote => quote.status === 'paid').forEach((quote, index) => {
+    const paidAt = new Date(new Date(quote.createdAt).getTime() + DAY).toISOString();
+    const payment: MockPayment = {
+      _id: generateMockId(),
+      quote: quote._id,
+      mercadopagoId: `${1300000000 + index}`,
+      status: 'approved',
+      amount: quote.total,
+      paymentMethod: index === 0 ? 'credit_card' : 'account_money',
+      externalReference: quote._id,
+      paidAt,
+      receiptNumber: formatMockReceiptNumber(index + 1),
+      approveAt: new Date(paidAt).getTime(),
+      createdAt: quote.createdAt,
+      updatedAt: paidAt,
+    };
+
+    quote.paymentId = payment._id;
+    payments.push(payment);
+    receipts.push({
+      _id: generateMockId(),
+      receiptNumber: payment.receiptNumber as string,
+      payment: payment._id,
+      quote: quote._id,
+      issuedAt: paidAt,
+    });
+  });
+
+  // Historial de stock: una compra inicial que cubre lo vendido y el stock actual,
+  // y las ventas de los presupuestos pagados
+  const stockMovements: StockMovement[] = [];
+  const sales = payments.flatMap(payment => {
+    const quote = quotes.find(item => item._id === payment.quote) as Quote;
+    return quote.items.map(item => ({ item, quote, paidAt: payment.paidAt as string }));
+  });
+  const damaged: Record<number, number> = { 3: 2 };
+
+  products.forEach((product, index) => {
+    // Los kits no tienen stock propio
+    if (product.bundle) return;
+
+    // Los productos con variantes ingresan stock por variante (no tienen ventas en el seed)
+    if (product.variants) {
+      product.stock = 0;
+      product.variants.forEach(variant => {
+        const purchased = variant.stock;
+        variant.stock = 0;
+        if (purchased > 0) {
+          applyMockMovement(stockMovements, product, 'purchase', purchased, {
+            reason: 'Stock inicial',
+            reference: `Remito 0001-${(index + 1).toString().padStart(8, '0')}`,
+            createdBy: admin._id,
+            createdAt: daysAgo(60),
+          }, variant);
+        }
+      });
+      return;
+    }
+
+    const productSales = sales.filter(sale => sale.item.product._id === product._id);
+    const sold = productSales.reduce((sum, sale) => sum + sale.item.quantity, 0);
+    const purchased = product.stock + sold + (damaged[index] || 0);
+
+    product.stock = 0;
+    if (purchased > 0) {
+      applyMockMovement(stockMovements, product, 'purchase', purchased, {
+        reason: 'Stock inicial',
+        reference: `Remito 0001-${(index + 1).toString().padStart(8, '0')}`,
+        createdBy: admin._id,
+        createdAt: daysAgo(60),
+      });
+    }
+
+    if (damaged[index]) {
+      applyMockMovement(stockMovements, product, 'adjustment', -damaged[index], {
+        reason: 'Unidades dañadas en depósito',
+        createdBy: admin._id,
+        createdAt: daysAgo(20),
+      });
+    }
+
+    productSales
+      .sort((a, b) => a.paidAt.localeCompare(b.paidAt))
+      .forEach(sale => {
+        applyMockMovement(stockMovements, product, 'sale', -sale.item.quantity, {
+          reference: sale.quote.quoteNumber,
+          quote: sale.quote._id,
+          createdAt: sale.paidAt,
+        });
+      });
+  });
+
+  bundles.forEach(product => refreshMockBundle(product, products));
+
+  return {
+    users: [admin, seller],
+    products,
+    customers,
+    quotes,
+    revisions: quotes.map(quote => buildMockRevision(quote, quote.createdBy)),
+    quoteTemplates,
+    payments,
+    receipts,
+    stockMovements,
+    priceHistory,
+    clientIds: {},
+    counters: {
+      quote: quotes.length,
+      receipt: receipts.length,
+    },
+  };
+};
+
+// ===============================
+// DATABASE
+// ===============================
+
+export const db: MockDatabase = createSeed();
+
+/**
+ * Volver a los datos iniciales
+ */
+export const resetMockDatabase = (): void => {
+  Object.assign(db, createSeed());
+};
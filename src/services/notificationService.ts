@@ -0,0 +1,123 @@
+// ===============================
+// NOTIFICATION SERVICE - PRESUPUESTOS APP
+// ===============================
+
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { Product } from '../types';
+import { FEATURE_FLAGS, NOTIFICATION_CONFIG } from '../constants/config';
+
+// ===============================
+// CONFIGURATION
+// ===============================
+
+const { LOW_STOCK } = NOTIFICATION_CONFIG;
+
+let isConfigured = false;
+
+/**
+ * Configurar cómo se muestran las notificaciones y el canal de Android
+ */
+const configureNotifications = async (): Promise<void> => {
+  if (isConfigured) return;
+
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: false,
+      shouldSetBadge: false,
+    }),
+  });
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(LOW_STOCK.CHANNEL_ID, {
+      name: 'Alertas de stock',
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+  }
+
+  isConfigured = true;
+};
+
+/**
+ * Solicitar permiso para mostrar notificaciones (solo pregunta la primera vez)
+ */
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+};
+
+// ===============================
+// LOW STOCK SUMMARY
+// ===============================
+
+/**
+ * Texto del resumen: los primeros productos y cuántos más quedan
+ */
+export const buildLowStockSummary = (products: Product[]): string => {
+  const listed = products
+    .slice(0, LOW_STOCK.MAX_PRODUCTS_IN_BODY)
+    .map(product => `${product.name} (${Math.max(product.stock - (product.reservedStock || 0), 0)})`)
+    .join(', ');
+  const remaining = products.length - LOW_STOCK.MAX_PRODUCTS_IN_BODY;
+
+  return remaining > 0 ? `${listed} y ${remaining} más` : listed;
+};
+
+/**
+ * Cancelar el resumen diario de stock bajo
+ */
+export const cancelLowStockSummary = async (): Promise<void> => {
+  try {
+    await Notifications.cancelScheduledNotificationAsync(LOW_STOCK.IDENTIFIER);
+  } catch (error) {
+    console.error('Error cancelling low stock notification:', error);
+  }
+};
+
+/**
+ * Programar el resumen diario con los productos bajo el punto de reposición.
+ * Reemplaza el anterior; si no hay productos en falta se cancela.
+ */
+export const scheduleLowStockSummary = async (products: Product[]): Promise<void> => {
+  if (!FEATURE_FLAGS.ENABLE_PUSH_NOTIFICATIONS || Platform.OS === 'web') return;
+
+  try {
+    await cancelLowStockSummary();
+    if (products.length === 0) return;
+
+    await configureNotifications();
+    const granted = await requestNotificationPermission();
+    if (!granted) return;
+
+    await Notifications.scheduleNotificationAsync({
+      identifier: LOW_STOCK.IDENTIFIER,
+      content: {
+        title: products.length === 1
+          ? '1 producto con stock bajo'
+          : `${products.length} productos con stock bajo`,
+        body: buildLowStockSummary(products),
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DAILY,
+        hour: LOW_STOCK.HOUR,
+        minute: LOW_STOCK.MINUTE,
+        channelId: LOW_STOCK.CHANNEL_ID,
+      },
+    });
+  } catch (error) {
+    console.error('Error scheduling low stock notification:', error);
+  }
+};
+
+export default {
+  requestNotificationPermission,
+  buildLowStockSummary,
+  cancelLowStockSummary,
+  scheduleLowStockSummary,
+};
@@ -8,12 +8,17 @@ import {
   CreatePaymentResponse,
   PaymentsResponse,
   PaymentFilters,
+  PaymentHistoryFilters,
   PaymentStats,
+  PaymentReceipt,
   Quote,
-  ApiResponse
+  ApiResponse,
+  CachedReadOptions
 } from '../types';
-import { get, post } from './api';
+import { get, post, invalidateCache } from './api';
 import { API_ENDPOINTS } from '../types';
+import { CACHE_CONFIG, PAGINATION } from '../constants/config';
+import { getPaymentFilters, setPaymentFilters } from '../utils/storage';
 
 // ===============================
 // PAYMENT SERVICE FUNCTIONS
@@ -36,6 +41,8 @@ export const createPayment = async (
       throw new Error(response.message || 'Error creando orden de pago');
     }
 
+    // El presupuesto queda asociado al pago
+    await invalidateCache(API_ENDPOINTS.PAYMENTS.LIST, API_ENDPOINTS.QUOTES.LIST);
     return response.data;
   } catch (error: any) {
     throw new Error(error.message || 'Error creando orden de pago');
@@ -58,6 +65,11 @@ export const getPaymentStatus = async (paymentId: string): Promise<{
       throw new Error(response.message || 'Error obteniendo estado del pago');
     }
 
+    // Un pago resuelto cambia el estado del presupuesto; si se aprobó, también el stock
+    if (response.data.payment.status !== 'pending') {
+      await invalidateCache(API_ENDPOINTS.PAYMENTS.LIST, API_ENDPOINTS.QUOTES.LIST, API_ENDPOINTS.PRODUCTS.LIST);
+    }
+
     return response.data;
   } catch (error: any) {
     throw new Error(error.message || 'Error obteniendo estado del pago');
@@ -74,16 +86,39 @@ export const cancelPayment = async (paymentId: string): Promise<void> => {
     if (!response.success) {
       throw new Error(response.message || 'Error cancelando pago');
     }
+
+    await invalidateCache(API_ENDPOINTS.PAYMENTS.LIST, API_ENDPOINTS.QUOTES.LIST);
   } catch (error: any) {
     throw new Error(error.message || 'Error cancelando pago');
   }
 };
 
+/**
+ * Obtener comprobante de un pago aprobado.
+ * El backend lo emite la primera vez (número correlativo) y luego devuelve siempre el mismo.
+ */
+export const getPaymentReceipt = async (paymentId: string): Promise<PaymentReceipt> => {
+  try {
+    const response: ApiResponse<PaymentReceipt> = await post(
+      API_ENDPOINTS.PAYMENTS.RECEIPT(paymentId)
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Error obteniendo comprobante');
+    }
+
+    return response.data;
+  } catch (error: any) {
+    throw new Error(error.message || 'Error obteniendo comprobante');
+  }
+};
+
 /**
  * Obtener lista de pagos (solo admin)
  */
 export const getPayments = async (
-  filters?: PaymentFilters
+  filters?: PaymentFilters,
+  options?: CachedReadOptions<PaymentsResponse>
 ): Promise<PaymentsResponse> => {
   try {
     const queryParams = new URLSearchParams();
@@ -97,7 +132,15 @@ export const getPayments = async (
     }
 
     const url = `${API_ENDPOINTS.PAYMENTS.LIST}?${queryParams.toString()}`;
-    const response: ApiResponse<PaymentsResponse> = await get(url);
+    const response: ApiResponse<PaymentsResponse> = await get(url, undefined, {
+      ttl: CACHE_CONFIG.TTL.PAYMENTS,
+      forceRefresh: options?.forceRefresh,
+      onRevalidate: fresh => {
+        if (fresh.success && fresh.data) {
+          options?.onRevalidate?.(fresh.data);
+        }
+      },
+    });
 
     if (!response.success || !response.data) {
       throw new Error(response.message || 'Error obteniendo pagos');
@@ -114,7 +157,8 @@ export const getPayments = async (
  */
 export const getPaymentStats = async (
   dateFrom?: string,
-  dateTo?: string
+  dateTo?: string,
+  options?: CachedReadOptions<PaymentStats>
 ): Promise<PaymentStats> => {
   try {
     const queryParams = new URLSearchParams();
@@ -123,7 +167,15 @@ export const getPaymentStats = async (
     if (dateTo) queryParams.append('dateTo', dateTo);
 
     const url = `${API_ENDPOINTS.PAYMENTS.STATS}?${queryParams.toString()}`;
-    const response: ApiResponse<PaymentStats> = await get(url);
+    const response: ApiResponse<PaymentStats> = await get(url, undefined, {
+      ttl: CACHE_CONFIG.TTL.PAYMENTS,
+      forceRefresh: options?.forceRefresh,
+      onRevalidate: fresh => {
+        if (fresh.success && fresh.data) {
+          options?.onRevalidate?.(fresh.data);
+        }
+      },
+    });
 
     if (!response.success || !response.data) {
       throw new Error(response.message || 'Error obteniendo estadísticas de pagos');
@@ -284,6 +336,7 @@ export const formatPaymentMethod = (method?: string): string => {
     debit_card: 'Tarjeta de Débito',
     bank_transfer: 'Transferencia Bancaria',
     digital_wallet: 'Billetera Digital',
+    account_money: 'Dinero en Cuenta',
     cash: 'Efectivo',
   };
 
@@ -420,6 +473,98 @@ export const sortPayments = (
   });
 };
 
+// ===============================
+// HISTORIAL DE PAGOS
+// ===============================
+
+export const DEFAULT_PAYMENT_HISTORY_FILTERS: PaymentHistoryFilters = {
+  dateRange: 'all',
+};
+
+/**
+ * Fecha local en el formato que espera el backend (YYYY-MM-DD)
+ */
+export const formatDateParam = (date: Date): string => {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Resolver el rango de fechas del historial. Los rangos relativos se calculan
+ * al momento de consultar, así "Últimos 7 días" guardado sigue siendo relativo.
+ */
+export const resolvePaymentDateRange = (filters: PaymentHistoryFilters): {
+  dateFrom?: string;
+  dateTo?: string;
+} => {
+  const today = new Date();
+
+  switch (filters.dateRange) {
+    case 'today':
+      return { dateFrom: formatDateParam(today), dateTo: formatDateParam(today) };
+    case 'week': {
+      const from = new Date(today);
+      from.setDate(from.getDate() - 6);
+      return { dateFrom: formatDateParam(from), dateTo: formatDateParam(today) };
+    }
+    case 'month':
+      return {
+        dateFrom: formatDateParam(new Date(today.getFullYear(), today.getMonth(), 1)),
+        dateTo: formatDateParam(today),
+      };
+    case 'custom':
+      return { dateFrom: filters.dateFrom, dateTo: filters.dateTo };
+    default:
+      return {};
+  }
+};
+
+/**
+ * Convertir los filtros del historial en parámetros de PAYMENTS.LIST
+ */
+export const buildPaymentQuery = (
+  filters: PaymentHistoryFilters,
+  page = 1,
+  limit = PAGINATION.PAYMENTS_PER_PAGE
+): PaymentFilters => ({
+  page,
+  limit,
+  status: filters.status,
+  ...resolvePaymentDateRange(filters),
+  minAmount: filters.minAmount,
+  maxAmount: filters.maxAmount,
+  sortBy: 'createdAt',
+  sortOrder: 'desc',
+});
+
+/**
+ * Cantidad de filtros activos (para el indicador del botón de filtros)
+ */
+export const countActivePaymentFilters = (filters: PaymentHistoryFilters): number => {
+  return [
+    filters.status,
+    filters.dateRange !== 'all' ? filters.dateRange : undefined,
+    filters.minAmount,
+    filters.maxAmount,
+  ].filter(value => value !== undefined).length;
+};
+
+/**
+ * Obtener filtros guardados del historial de pagos
+ */
+export const getSavedPaymentFilters = async (): Promise<PaymentHistoryFilters> => {
+  const saved = await getPaymentFilters();
+  return saved ? { ...DEFAULT_PAYMENT_HISTORY_FILTERS, ...saved } : DEFAULT_PAYMENT_HISTORY_FILTERS;
+};
+
+/**
+ * Guardar filtros del historial de pagos
+ */
+export const savePaymentFilters = async (filters: PaymentHistoryFilters): Promise<void> => {
+  await setPaymentFilters(filters);
+};
+
 /**
  * Obtener resumen del pago
  */
@@ -462,6 +607,7 @@ export default {
   createPayment,
   getPaymentStatus,
   cancelPayment,
+  getPaymentReceipt,
   getPayments,
   getPaymentStats,
   validatePaymentData,
@@ -475,5 +621,11 @@ export default {
   calculateMercadoPagoFees,
   filterPayments,
   sortPayments,
+  formatDateParam,
+  resolvePaymentDateRange,
+  buildPaymentQuery,
+  countActivePaymentFilters,
+  getSavedPaymentFilters,
+  savePaymentFilters,
   getPaymentSummary,
 };
\ No newline at end of file
@@ -0,0 +1,192 @@
+// ===============================
+// PRICE SERVICE - PRESUPUESTOS APP
+// ===============================
+
+import {
+  Product,
+  PriceChange,
+  PriceAdjustment,
+  BulkPriceChange,
+  BulkPriceUpdateRequest,
+  BulkPriceUpdateResponse,
+  ApiResponse,
+  CachedReadOptions,
+} from '../types';
+import { get, post, invalidateCache } from './api';
+import { API_ENDPOINTS } from '../types';
+import { CACHE_CONFIG, FORM_CONFIG, PRICE_CONFIG } from '../constants/config';
+
+// ===============================
+// PRICE SERVICE FUNCTIONS
+// ===============================
+
+/**
+ * Obtener los cambios de precio de un producto, del más antiguo al más reciente
+ */
+export const getPriceHistory = async (
+  productId: string,
+  options?: CachedReadOptions<PriceChange[]>
+): Promise<PriceChange[]> => {
+  try {
+    const response: ApiResponse<PriceChange[]> = await get(API_ENDPOINTS.PRODUCTS.PRICE_HISTORY(productId), undefined, {
+      ttl: CACHE_CONFIG.TTL.PRODUCTS,
+      forceRefresh: options?.forceRefresh,
+      onRevalidate: fresh => {
+        if (fresh.success && fresh.data) {
+          options?.onRevalidate?.(fresh.data);
+        }
+      },
+    });
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Error obteniendo historial de precios');
+    }
+
+    return response.data;
+  } catch (error: any) {
+    throw new Error(error.message || 'Error obteniendo historial de precios');
+  }
+};
+
+/**
+ * Actualizar varios precios en una sola operación. El backend aplica todos los
+ * cambios o ninguno, y rechaza el lote si algún precio cambió desde la vista previa
+ */
+export const updatePricesInBulk = async (
+  data: BulkPriceUpdateRequest
+): Promise<BulkPriceUpdateResponse> => {
+  try {
+    const response: ApiResponse<BulkPriceUpdateResponse> = await post(
+      API_ENDPOINTS.PRODUCTS.BULK_PRICE,
+      data
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Error actualizando precios');
+    }
+
+    await invalidateCache(API_ENDPOINTS.PRODUCTS.LIST);
+    return response.data;
+  } catch (error: any) {
+    throw new Error(error.message || 'Error actualizando precios');
+  }
+};
+
+// ===============================
+// UTILITY FUNCTIONS
+// ===============================
+
+/**
+ * Redondear un precio al múltiplo más cercano de `step`
+ */
+export const roundToStep = (price: number, step: number): number => {
+  if (step <= 0) return price;
+  return Number((Math.round(price / step) * step).toFixed(2));
+};
+
+/**
+ * Calcular el precio nuevo de un producto según el ajuste
+ */
+export const calculateAdjustedPrice = (price: number, adjustment: PriceAdjustment): number => {
+  const adjusted = adjustment.mode === 'percentage'
+    ? price * (1 + adjustment.value / 100)
+    : price + adjustment.value;
+
+  return roundToStep(adjusted, adjustment.roundingStep);
+};
+
+/**
+ * Armar los cambios de precio de un lote, descartando los productos que no cambian.
+ * Las variantes con precio propio reciben el mismo ajuste que el producto
+ */
+export const buildPriceChanges = (
+  products: Product[],
+  adjustment: PriceAdjustment
+): BulkPriceChange[] => {
+  return products
+    .map(product => {
+      const variants = (product.variants || [])
+        .filter(variant => variant.price !== undefined)
+        .map(variant => ({
+          variantId: variant._id,
+          previousPrice: variant.price as number,
+          price: calculateAdjustedPrice(variant.price as number, adjustment),
+        }))
+        .filter(change => change.price !== change.previousPrice);
+
+      return {
+        productId: product._id,
+        previousPrice: product.price,
+        price: calculateAdjustedPrice(product.price, adjustment),
+        ...(variants.length > 0 && { variants }),
+      };
+    })
+    .filter(change => change.price !== change.previousPrice || change.variants);
+};
+
+/**
+ * Cantidad de precios de variantes que cambian en un lote
+ */
+export const countVariantPriceChanges = (changes: BulkPriceChange[]): number => {
+  return changes.reduce((sum, change) => sum + (change.variants?.length || 0), 0);
+};
+
+/**
+ * Validar el ajuste y los precios resultantes antes de aplicarlos
+ */
+export const validatePriceAdjustment = (
+  adjustment: PriceAdjustment,
+  changes: BulkPriceChange[]
+): {
+  isValid: boolean;
+  errors: Record<string, string>;
+} => {
+  const errors: Record<string, string> = {};
+
+  if (!Number.isFinite(adjustment.value) || adjustment.value === 0) {
+    errors.value = 'Ingresa un valor distinto de cero';
+  } else if (adjustment.mode === 'percentage' && adjustment.value <= -100) {
+    errors.value = 'La reducción debe ser menor al 100%';
+  } else if (adjustment.mode === 'percentage' && adjustment.value > PRICE_CONFIG.MAX_BULK_PERCENTAGE) {
+    errors.value = `El aumento no puede superar el ${PRICE_CONFIG.MAX_BULK_PERCENTAGE}%`;
+  }
+
+  const belowMinimum = changes.filter(change =>
+    change.price < FORM_CONFIG.VALIDATION.MIN_PRICE ||
+    change.variants?.some(variant => variant.price < FORM_CONFIG.VALIDATION.MIN_PRICE)
+  ).length;
+  if (!errors.value && belowMinimum > 0) {
+    errors.value = `${belowMinimum} producto${belowMinimum !== 1 ? 's quedarían' : ' quedaría'} con precio 0 o negativo`;
+  }
+
+  if (!errors.value && changes.length === 0) {
+    errors.products = 'Ningún precio cambia con este ajuste';
+  }
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors,
+  };
+};
+
+/**
+ * Formatear la variación entre dos precios: +12,5% / -3%
+ */
+export const formatPriceVariation = (previousPrice: number, price: number): string => {
+  if (previousPrice <= 0) return '';
+
+  const variation = ((price - previousPrice) / previousPrice) * 100;
+  const formatted = variation.toLocaleString('es-AR', { maximumFractionDigits: 1 });
+  return variation > 0 ? `+${formatted}%` : `${formatted}%`;
+};
+
+export default {
+  getPriceHistory,
+  updatePricesInBulk,
+  roundToStep,
+  calculateAdjustedPrice,
+  buildPriceChanges,
+  countVariantPriceChanges,
+  validatePriceAdjustment,
+  formatPriceVariation,
+};
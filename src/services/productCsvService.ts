@@ -0,0 +1,400 @@
+// ===============================
+// PRODUCT CSV SERVICE - PRESUPUESTOS APP
+// ===============================
+
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import { File, Paths } from 'expo-file-system';
+import {
+  Product,
+  CreateProductRequest,
+  ProductImportRow,
+  ProductImportResult,
+} from '../types';
+import { CSV_CONFIG, FILTER_CONFIG, IMAGE_CONFIG, LIMITS } from '../constants/config';
+import { CsvDelimiter, detectDelimiter, parseCsv, toCsv, unescapeFormulaCell } from '../utils/csv';
+import * as productService from './productService';
+import * as stockService from './stockService';
+import * as syncService from './syncService';
+
+// ===============================
+// TYPES
+// ===============================
+
+type ProductCsvField = keyof typeof CSV_CONFIG.PRODUCT_COLUMNS;
+
+type DecimalSeparator = '.' | ',';
+
+const CSV_FIELDS = Object.keys(CSV_CONFIG.PRODUCT_COLUMNS) as ProductCsvField[];
+
+// ===============================
+// HELPERS
+// ===============================
+
+/**
+ * Normalizar un encabezado o texto para compararlo: sin tildes, minúsculas y con guiones bajos
+ */
+const normalizeKey = (value: string): string => {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, '_');
+};
+
+/**
+ * Ubicar la columna de cada campo a partir del encabezado
+ */
+const mapColumns = (header: string[]): Partial<Record<ProductCsvField, number>> => {
+  const normalized = header.map(normalizeKey);
+  const columns: Partial<Record<ProductCsvField, number>> = {};
+
+  CSV_FIELDS.forEach(field => {
+    const aliases: readonly string[] = CSV_CONFIG.PRODUCT_COLUMNS[field];
+    const index = normalized.findIndex(name => aliases.includes(name));
+    if (index !== -1) columns[field] = index;
+  });
+
+  return columns;
+};
+
+/**
+ * Separador decimal de la planilla: Excel en es-AR exporta con ";" y coma decimal
+ */
+const getFileDecimalSeparator = (delimiter: CsvDelimiter): DecimalSeparator => delimiter === ';' ? ',' : '.';
+
+/**
+ * Separador decimal de una celda, null si es un entero. Con los dos separadores el último
+ * es el decimal, y uno repetido es de miles. Uno solo seguido de tres dígitos ("1.500") es de
+ * miles si no es el decimal de la planilla; si lo es, no se puede saber y es 'ambiguous'
+ */
+const readDecimalSeparator = (text: string, fileSeparator: DecimalSeparator): DecimalSeparator | null | 'ambiguous' => {
+  const dots = text.split('.').length - 1;
+  const commas = text.split(',').length - 1;
+
+  if (dots > 0 && commas > 0) return text.lastIndexOf(',') > text.lastIndexOf('.') ? ',' : '.';
+  if (dots + commas !== 1) return null;
+
+  const separator: DecimalSeparator = dots > 0 ? '.' : ',';
+  const [integerPart, fraction] = text.split(separator);
+  const looksLikeThousands = fraction.length === 3 && /^-?[1-9]\d{0,2}$/.test(integerPart);
+
+  if (!looksLikeThousands) return separator;
+  return separator === fileSeparator ? 'ambiguous' : null;
+};
+
+const isAmbiguousCsvNumber = (value: string, fileSeparator: DecimalSeparator): boolean => {
+  return readDecimalSeparator(value.replace(/[\s$]/g, ''), fileSeparator) === 'ambiguous';
+};
+
+/**
+ * Interpretar un número escrito como "1234.5", "1234,5" o "$ 1.234,50".
+ * Devuelve undefined si la celda está vacía y NaN si no es un número o es ambiguo
+ */
+const parseCsvNumber = (value: string, fileSeparator: DecimalSeparator): number | undefined => {
+  const text = value.replace(/[\s$]/g, '');
+  if (!text) return undefined;
+
+  const decimalSeparator = readDecimalSeparator(text, fileSeparator);
+  if (decimalSeparator === 'ambiguous') return NaN;
+
+  const thousandSeparator = decimalSeparator === ',' || (decimalSeparator === null && text.includes('.')) ? '.' : ',';
+  const [integerPart, ...fraction] = decimalSeparator ? text.split(decimalSeparator) : [text];
+
+  // Los miles van en grupos de tres: "1.23.4" no es un número
+  const groups = integerPart.replace(/^-/, '').split(thousandSeparator);
+  if (fraction.length > 1 || (groups.length > 1 && !groups.every((group, index) => index === 0 ? /^\d{1,3}$/.test(group) : /^\d{3}$/.test(group)))) {
+    return NaN;
+  }
+
+  const normalized = `${integerPart.split(thousandSeparator).join('')}${fraction.length > 0 ? `.${fraction[0]}` : ''}`;
+  return /^-?\d+(\.\d+)?$/.test(normalized) ? Number(normalized) : NaN;
+};
+
+/**
+ * Usar el nombre de categoría de la app si coincide sin distinguir tildes ni mayúsculas
+ */
+const matchCategory = (category: string): string => {
+  const key = normalizeKey(category);
+  return FILTER_CONFIG.PRODUCT_CATEGORIES.find(option => normalizeKey(option) === key) || category;
+};
+
+/**
+ * Campos editables de un producto existente, base de las filas que lo actualizan
+ */
+const toProductRequest = (product: Product): CreateProductRequest => ({
+  name: product.name,
+  description: product.description,
+  price: product.price,
+  taxRate: product.taxRate,
+  stock: product.stock,
+  category: product.category,
+  sku: product.sku,
+  barcode: product.barcode,
+  imageUrl: product.imageUrl,
+  images: product.images,
+  reorderPoint: product.reorderPoint,
+});
+
+// ===============================
+// IMPORT
+// ===============================
+
+/**
+ * Elegir un archivo CSV del dispositivo y devolver su contenido (null si se cancela)
+ */
+export const pickProductsCsv = async (): Promise<string | null> => {
+  try {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: [...CSV_CONFIG.PICKER_TYPES],
+      copyToCacheDirectory: true,
+    });
+
+    if (result.canceled || !result.assets?.length) {
+      return null;
+    }
+
+    const asset = result.assets[0];
+    if (asset.size && asset.size > LIMITS.MAX_FILE_SIZE) {
+      throw new Error(`El archivo supera el máximo de ${LIMITS.MAX_FILE_SIZE / (1024 * 1024)}MB`);
+    }
+
+    return await new File(asset.uri).text();
+  } catch (error: any) {
+    throw new Error(error.message || 'Error leyendo el archivo');
+  }
+};
+
+/**
+ * Convertir el CSV en filas de importación. Cada fila se valida con
+ * `productService.validateProductData` y se marca como alta o actualización
+ * según su SKU coincida con un producto de `catalog`
+ */
+export const buildImportRows = (text: string, catalog: Product[]): ProductImportRow[] => {
+  const delimiter = detectDelimiter(text);
+  const [header, ...rows] = parseCsv(text, delimiter);
+  const fileSeparator = getFileDecimalSeparator(delimiter);
+
+  if (!header || rows.length === 0) {
+    throw new Error('El archivo está vacío o solo tiene encabezado');
+  }
+
+  const columns = mapColumns(header);
+  if (columns.name === undefined || columns.price === undefined) {
+    throw new Error(
+      `El archivo debe tener al menos las columnas "${CSV_CONFIG.PRODUCT_COLUMNS.name[0]}" y "${CSV_CONFIG.PRODUCT_COLUMNS.price[0]}"`
+    );
+  }
+
+  const productsBySku = new Map<string, Product>();
+  catalog.forEach(product => {
+    if (product.sku) productsBySku.set(product.sku.toUpperCase(), product);
+  });
+  const skuLines = new Map<string, number>();
+
+  return rows.map((cells, index) => {
+    const line = index + 2;
+    const errors: Record<string, string> = {};
+
+    const readText = (field: ProductCsvField): string | undefined => {
+      const column = columns[field];
+      const value = column !== undefined ? unescapeFormulaCell((cells[column] || '').trim()) : '';
+      return value || undefined;
+    };
+
+    const readNumber = (field: ProductCsvField, integer = false): number | undefined => {
+      const text = readText(field);
+      const value = text !== undefined ? parseCsvNumber(text, fileSeparator) : undefined;
+
+      if (text !== undefined && isAmbiguousCsvNumber(text, fileSeparator)) {
+        errors[field] = `"${text}" es ambiguo: escríbelo sin separador de miles`;
+        return undefined;
+      }
+      if (value !== undefined && (Number.isNaN(value) || (integer && !Number.isInteger(value)))) {
+        errors[field] = `"${text}" no es un número ${integer ? 'entero ' : ''}válido`;
+        return undefined;
+      }
+      return value;
+    };
+
+    const category = readText('category');
+    const values: Partial<CreateProductRequest> = {
+      name: readText('name'),
+      description: readText('description'),
+      price: readNumber('price'),
+      taxRate: readNumber('taxRate'),
+      stock: readNumber('stock', true),
+      category: category && matchCategory(category),
+      sku: readText('sku'),
+      barcode: readText('barcode'),
+      reorderPoint: readNumber('reorderPoint', true),
+      imageUrl: readText('imageUrl'),
+    };
+
+    // Las celdas vacías no pisan los datos del producto existente
+    const definedValues = Object.fromEntries(
+      Object.entries(values).filter(([, value]) => value !== undefined)
+    ) as Partial<CreateProductRequest>;
+
+    const skuKey = values.sku?.toUpperCase();
+    const existingProduct = skuKey ? productsBySku.get(skuKey) : undefined;
+
+    const data: CreateProductRequest = existingProduct
+      ? { ...toProductRequest(existingProduct), ...definedValues, sku: existingProduct.sku }
+      : {
+          name: '',
+          description: '',
+          price: 0,
+          stock: 0,
+          category: '',
+          ...definedValues,
+        };
+
+    // La imagen del CSV pasa a ser la principal de la galería del producto existente
+    if (existingProduct && definedValues.imageUrl) {
+      data.images = [
+        definedValues.imageUrl,
+        ...productService.getProductImages(existingProduct).filter(url => url !== definedValues.imageUrl),
+      ].slice(0, IMAGE_CONFIG.MAX_PRODUCT_IMAGES);
+    }
+
+    if (skuKey) {
+      const firstLine = skuLines.get(skuKey);
+      if (firstLine !== undefined) {
+        errors.sku = `SKU repetido (fila ${firstLine})`;
+      } else {
+        skuLines.set(skuKey, line);
+      }
+    }
+
+    // El stock de los kits sale de sus componentes y el de las variantes se mueve por variante
+    if (
+      existingProduct &&
+      (productService.isBundle(existingProduct) || productService.hasVariants(existingProduct)) &&
+      definedValues.stock !== undefined &&
+      definedValues.stock !== existingProduct.stock
+    ) {
+      errors.stock = 'El stock de kits y productos con variantes no se importa';
+    }
+
+    const validation = productService.validateProductData(data);
+
+    return {
+      line,
+      data,
+      action: existingProduct ? 'update' : 'create',
+      existingProduct,
+      errors: { ...validation.errors, ...errors },
+    };
+  });
+};
+
+/**
+ * Actualizar un producto desde el CSV. El cambio de stock se registra como
+ * ajuste, salvo en productos creados sin conexión que todavía no tienen movimientos.
+ * El ajuste va después de los datos: si falla la actualización el stock no se tocó
+ */
+const updateImportedProduct = async (
+  product: Product,
+  data: CreateProductRequest
+): Promise<void> => {
+  if (syncService.isLocalId(product._id)) {
+    await productService.updateProduct(product._id, data, product);
+    return;
+  }
+
+  const { stock, ...changes } = data;
+  await productService.updateProduct(product._id, changes, product);
+
+  const adjustment = stockService.buildStockAdjustment(product, stock, CSV_CONFIG.IMPORT_STOCK_REASON);
+  if (adjustment) {
+    try {
+      await stockService.createStockMovement(product._id, adjustment);
+    } catch (error: any) {
+      throw new Error(`Datos actualizados, pero no se registró el ajuste de stock: ${error.message}`);
+    }
+  }
+};
+
+/**
+ * Crear o actualizar los productos de las filas sin errores, de a uno.
+ * Los errores de cada fila se informan en el resultado sin cortar la importación
+ */
+export const importProducts = async (
+  rows: ProductImportRow[],
+  onProgress?: (processed: number, total: number) => void
+): Promise<ProductImportResult> => {
+  const validRows = rows.filter(row => Object.keys(row.errors).length === 0);
+  const result: ProductImportResult = { created: 0, updated: 0, failed: [] };
+
+  for (const [index, row] of validRows.entries()) {
+    try {
+      if (row.action === 'update' && row.existingProduct) {
+        await updateImportedProduct(row.existingProduct, row.data);
+        result.updated++;
+      } else {
+        await productService.createProduct(row.data);
+        result.created++;
+      }
+    } catch (error: any) {
+      result.failed.push({
+        line: row.line,
+        name: row.data.name,
+        message: error.message || 'Error importando producto',
+      });
+    }
+
+    onProgress?.(index + 1, validRows.length);
+  }
+
+  return result;
+};
+
+// ===============================
+// EXPORT
+// ===============================
+
+/**
+ * Armar el CSV de una lista de productos con las mismas columnas que acepta la importación
+ */
+export const buildProductsCsv = (products: Product[]): string => {
+  const header = CSV_FIELDS.map(field => CSV_CONFIG.PRODUCT_COLUMNS[field][0]);
+  const rows = products.map(product => CSV_FIELDS.map(field => product[field]));
+
+  // El BOM hace que Excel abra el archivo como UTF-8 (tildes y ñ)
+  return '\uFEFF' + toCsv([header, ...rows]);
+};
+
+/**
+ * Exportar productos a un CSV y abrir el share sheet nativo
+ */
+export const exportProductsCsv = async (products: Product[]): Promise<void> => {
+  try {
+    const isAvailable = await Sharing.isAvailableAsync();
+    if (!isAvailable) {
+      throw new Error('Compartir archivos no está disponible en este dispositivo');
+    }
+
+    const date = new Date().toISOString().slice(0, 10);
+    const file = new File(Paths.cache, `${CSV_CONFIG.EXPORT_FILE_PREFIX}-${date}.csv`);
+    file.create({ overwrite: true });
+    file.write(buildProductsCsv(products));
+
+    await Sharing.shareAsync(file.uri, {
+      mimeType: CSV_CONFIG.MIME_TYPE,
+      UTI: CSV_CONFIG.UTI,
+      dialogTitle: 'Exportar productos',
+    });
+  } catch (error: any) {
+    throw new Error(error.message || 'Error exportando productos');
+  }
+};
+
+export default {
+  pickProductsCsv,
+  buildImportRows,
+  importProducts,
+  buildProductsCsv,
+  exportProductsCsv,
+};
@@ -4,25 +4,35 @@
 
 import {
   Product,
+  ProductOption,
+  ProductVariant,
+  ProductVariantRequest,
+  ProductBundle,
+  BundleComponent,
   CreateProductRequest,
   UpdateProductRequest,
   ProductsResponse,
   ProductFilters,
   ApiResponse,
-  PaginatedResponse
+  PaginatedResponse,
+  CachedReadOptions
 } from '../types';
-import { get, post, put, del } from './api';
+import { get, post, put, del, invalidateCache } from './api';
 import { API_ENDPOINTS } from '../types';
+import * as syncService from './syncService';
+import { CACHE_CONFIG, IMAGE_CONFIG, PAGINATION, STOCK_CONFIG, TAX_CONFIG } from '../constants/config';
 
 // ===============================
 // PRODUCT SERVICE FUNCTIONS
 // ===============================
 
 /**
- * Obtener lista de productos con filtros
+ * Obtener lista de productos con filtros. Responde desde el cache si hay una
+ * copia y avisa por `options.onRevalidate` cuando llega la versión nueva
  */
 export const getProducts = async (
-  filters?: ProductFilters
+  filters?: ProductFilters,
+  options?: CachedReadOptions<ProductsResponse>
 ): Promise<ProductsResponse> => {
   try {
     const queryParams = new URLSearchParams();
@@ -35,14 +45,32 @@ export const getProducts = async (
       });
     }
 
+    // Los productos creados sin conexión se muestran al principio de la primera página
+    const withPending = async (data: ProductsResponse): Promise<ProductsResponse> => ({
+      ...data,
+      items: await syncService.applyPendingMutations(
+        'product',
+        data.items,
+        (filters?.page || 1) === 1
+      ),
+    });
+
     const url = `${API_ENDPOINTS.PRODUCTS.LIST}?${queryParams.toString()}`;
-    const response: ApiResponse<ProductsResponse> = await get(url);
+    const response: ApiResponse<ProductsResponse> = await get(url, undefined, {
+      ttl: CACHE_CONFIG.TTL.PRODUCTS,
+      forceRefresh: options?.forceRefresh,
+      onRevalidate: async fresh => {
+        if (fresh.success && fresh.data && options?.onRevalidate) {
+          options.onRevalidate(await withPending(fresh.data));
+        }
+      },
+    });
 
     if (!response.success || !response.data) {
       throw new Error(response.message || 'Error obteniendo productos');
     }
 
-    return response.data;
+    return withPending(response.data);
   } catch (error: any) {
     throw new Error(error.message || 'Error obteniendo productos');
   }
@@ -51,10 +79,27 @@ export const getProducts = async (
 /**
  * Obtener producto por ID
  */
-export const getProductById = async (id: string): Promise<Product> => {
+export const getProductById = async (
+  id: string,
+  options?: CachedReadOptions<Product>
+): Promise<Product> => {
   try {
+    const pendingProduct = await syncService.getPendingEntity<Product>('product', id);
+    if (pendingProduct) return pendingProduct;
+    id = await syncService.resolveId(id);
+
     const response: ApiResponse<Product> = await get(
-      API_ENDPOINTS.PRODUCTS.GET(id)
+      API_ENDPOINTS.PRODUCTS.GET(id),
+      undefined,
+      {
+        ttl: CACHE_CONFIG.TTL.PRODUCTS,
+        forceRefresh: options?.forceRefresh,
+        onRevalidate: fresh => {
+          if (fresh.success && fresh.data) {
+            options?.onRevalidate?.(fresh.data);
+          }
+        },
+      }
     );
 
     if (!response.success || !response.data) {
@@ -68,37 +113,60 @@ export const getProductById = async (id: string): Promise<Product> => {
 };
 
 /**
- * Crear nuevo producto
+ * Crear nuevo producto. Sin conexión se encola y se devuelve una versión local
  */
 export const createProduct = async (
   productData: CreateProductRequest
 ): Promise<Product> => {
+  // El clientId permite al backend descartar duplicados si el envío se reintenta
+  const payload: CreateProductRequest = {
+    ...productData,
+    clientId: productData.clientId || syncService.generateClientId(),
+  };
+
   try {
+    if (await syncService.shouldQueueMutation()) {
+      return await queueCreateProduct(payload);
+    }
+
     const response: ApiResponse<Product> = await post(
       API_ENDPOINTS.PRODUCTS.CREATE,
-      productData
+      payload
     );
 
     if (!response.success || !response.data) {
       throw new Error(response.message || 'Error creando producto');
     }
 
+    await invalidateCache(API_ENDPOINTS.PRODUCTS.LIST);
     return response.data;
   } catch (error: any) {
+    if (syncService.canQueueAfterError(error)) {
+      return queueCreateProduct(payload);
+    }
     throw new Error(error.message || 'Error creando producto');
   }
 };
 
 /**
- * Actualizar producto existente
+ * Actualizar producto existente. Sin conexión se encola sobre `baseProduct`
+ * (la versión que el usuario estaba editando) para poder detectar conflictos
  */
 export const updateProduct = async (
   id: string,
-  productData: UpdateProductRequest
+  productData: UpdateProductRequest,
+  baseProduct?: Product
 ): Promise<Product> => {
+  const targetId = await syncService.resolveId(id);
+
   try {
+    // Un producto creado sin conexión todavía no existe en el servidor
+    if (syncService.isLocalId(targetId) || await syncService.shouldQueueMutation()) {
+      return await queueUpdateProduct(targetId, productData, baseProduct);
+    }
+
     const response: ApiResponse<Product> = await put(
-      API_ENDPOINTS.PRODUCTS.UPDATE(id),
+      API_ENDPOINTS.PRODUCTS.UPDATE(targetId),
       productData
     );
 
@@ -106,22 +174,118 @@ export const updateProduct = async (
       throw new Error(response.message || 'Error actualizando producto');
     }
 
+    await invalidateCache(API_ENDPOINTS.PRODUCTS.LIST);
     return response.data;
   } catch (error: any) {
+    if (syncService.canQueueAfterError(error)) {
+      return queueUpdateProduct(targetId, productData, baseProduct);
+    }
     throw new Error(error.message || 'Error actualizando producto');
   }
 };
 
+/**
+ * Encolar el alta de un producto para enviarla al recuperar la conexión
+ */
+const queueCreateProduct = (productData: CreateProductRequest): Promise<Product> => {
+  const clientId = productData.clientId as string;
+  const now = new Date().toISOString();
+
+  return syncService.enqueueMutation<Product>({
+    type: 'createProduct',
+    entity: 'product',
+    method: 'post',
+    url: API_ENDPOINTS.PRODUCTS.CREATE,
+    payload: productData,
+    clientId,
+    optimistic: {
+      ...productData,
+      variants: buildOfflineVariants(productData.variants),
+      bundle: productData.bundle || undefined,
+      _id: clientId,
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+    },
+  });
+};
+
+/**
+ * Encolar la edición de un producto para enviarla al recuperar la conexión
+ */
+const queueUpdateProduct = async (
+  id: string,
+  productData: UpdateProductRequest,
+  baseProduct?: Product
+): Promise<Product> => {
+  // Si ya hay cambios pendientes, la edición se aplica sobre la última versión local
+  const current = (await syncService.getPendingEntity<Product>('product', id)) || baseProduct;
+
+  if (!current) {
+    throw new Error('Sin conexión: no se pudo guardar el producto');
+  }
+
+  return syncService.enqueueMutation<Product>({
+    type: 'updateProduct',
+    entity: 'product',
+    method: 'put',
+    url: API_ENDPOINTS.PRODUCTS.UPDATE(id),
+    payload: productData,
+    clientId: id,
+    optimistic: {
+      ...current,
+      ...productData,
+      cost: productData.cost === null ? undefined : productData.cost ?? current.cost,
+      variants: productData.variants ? buildOfflineVariants(productData.variants, current.variants) : current.variants,
+      bundle: productData.bundle === undefined ? current.bundle : productData.bundle || undefined,
+      _id: id,
+      updatedAt: new Date().toISOString(),
+    },
+    // Solo se compara contra versiones confirmadas por el servidor
+    baseUpdatedAt: baseProduct && !baseProduct.pendingSync ? baseProduct.updatedAt : undefined,
+  });
+};
+
+/**
+ * Variantes de la versión local de un producto guardado sin conexión: las nuevas
+ * reciben un ID local y las existentes conservan stock y reservas
+ */
+const buildOfflineVariants = (
+  requested: ProductVariantRequest[] | undefined,
+  current: ProductVariant[] = []
+): ProductVariant[] | undefined => {
+  if (!requested?.length) return undefined;
+
+  return requested.map(variant => {
+    const existing = current.find(item => item._id === variant._id);
+    return {
+      _id: existing?._id || syncService.generateClientId(),
+      sku: variant.sku,
+      options: variant.options,
+      price: variant.price,
+      stock: existing ? existing.stock : variant.stock || 0,
+      reservedStock: existing?.reservedStock,
+    };
+  });
+};
+
 /**
  * Eliminar producto (soft delete)
  */
 export const deleteProduct = async (id: string): Promise<void> => {
   try {
-    const response: ApiResponse = await del(API_ENDPOINTS.PRODUCTS.DELETE(id));
+    const targetId = await syncService.resolveId(id);
+    if (syncService.isLocalId(targetId)) {
+      throw new Error('El producto todavía no se sincronizó con el servidor');
+    }
+
+    const response: ApiResponse = await del(API_ENDPOINTS.PRODUCTS.DELETE(targetId));
 
     if (!response.success) {
       throw new Error(response.message || 'Error eliminando producto');
     }
+
+    await invalidateCache(API_ENDPOINTS.PRODUCTS.LIST);
   } catch (error: any) {
     throw new Error(error.message || 'Error eliminando producto');
   }
@@ -133,7 +297,9 @@ export const deleteProduct = async (id: string): Promise<void> => {
 export const getProductCategories = async (): Promise<string[]> => {
   try {
     const response: ApiResponse<string[]> = await get(
-      API_ENDPOINTS.PRODUCTS.CATEGORIES
+      API_ENDPOINTS.PRODUCTS.CATEGORIES,
+      undefined,
+      { ttl: CACHE_CONFIG.TTL.PRODUCTS }
     );
 
     if (!response.success || !response.data) {
@@ -149,10 +315,22 @@ export const getProductCategories = async (): Promise<string[]> => {
 /**
  * Obtener productos con stock bajo
  */
-export const getLowStockProducts = async (): Promise<Product[]> => {
+export const getLowStockProducts = async (
+  options?: CachedReadOptions<Product[]>
+): Promise<Product[]> => {
   try {
     const response: ApiResponse<Product[]> = await get(
-      API_ENDPOINTS.PRODUCTS.LOW_STOCK
+      API_ENDPOINTS.PRODUCTS.LOW_STOCK,
+      undefined,
+      {
+        ttl: CACHE_CONFIG.TTL.PRODUCTS,
+        forceRefresh: options?.forceRefresh,
+        onRevalidate: fresh => {
+          if (fresh.success && fresh.data) {
+            options?.onRevalidate?.(fresh.data);
+          }
+        },
+      }
     );
 
     if (!response.success || !response.data) {
@@ -165,6 +343,30 @@ export const getLowStockProducts = async (): Promise<Product[]> => {
   }
 };
 
+/**
+ * Buscar producto por código de barras o SKU escaneado.
+ * Devuelve null si no existe ningún producto con ese código.
+ */
+export const getProductByBarcode = async (code: string): Promise<Product | null> => {
+  try {
+    const response: ApiResponse<Product> = await get(
+      API_ENDPOINTS.PRODUCTS.BY_BARCODE(normalizeBarcode(code))
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Error buscando producto');
+    }
+
+    return response.data;
+  } catch (error: any) {
+    const errorCode = error?.error?.code;
+    if (errorCode === 'HTTP_404' || errorCode === 'NOT_FOUND') {
+      return null;
+    }
+    throw new Error(error.message || 'Error buscando producto');
+  }
+};
+
 /**
  * Buscar productos por texto
  */
@@ -185,6 +387,33 @@ export const searchProducts = async (
   }
 };
 
+/**
+ * Obtener todos los productos que cumplen los filtros, recorriendo todas las páginas
+ */
+export const getAllProducts = async (
+  filters?: Omit<ProductFilters, 'page' | 'limit'>
+): Promise<Product[]> => {
+  try {
+    const products: Product[] = [];
+    let page = 1;
+    let hasNextPage = true;
+
+    while (hasNextPage) {
+      const result = await getProducts(
+        { ...filters, page, limit: PAGINATION.MAX_LIMIT },
+        { forceRefresh: true }
+      );
+      products.push(...result.items);
+      hasNextPage = result.pagination.hasNextPage;
+      page++;
+    }
+
+    return products;
+  } catch (error: any) {
+    throw new Error(error.message || 'Error obteniendo productos');
+  }
+};
+
 /**
  * Validar datos del producto
  */
@@ -209,6 +438,16 @@ export const validateProductData = (data: CreateProductRequest): {
     errors.price = 'El precio debe ser mayor a 0';
   }
 
+  // Validar costo si se proporciona
+  if (data.cost !== undefined && (typeof data.cost !== 'number' || isNaN(data.cost) || data.cost < 0)) {
+    errors.cost = 'El costo no puede ser negativo';
+  }
+
+  // Validar alícuota de IVA si se proporciona
+  if (data.taxRate !== undefined && !isValidTaxRate(data.taxRate)) {
+    errors.taxRate = 'Alícuota de IVA inválida';
+  }
+
   // Validar stock
   if (typeof data.stock !== 'number' || data.stock < 0) {
     errors.stock = 'El stock no puede ser negativo';
@@ -224,17 +463,111 @@ export const validateProductData = (data: CreateProductRequest): {
     errors.sku = 'El SKU debe tener entre 3 y 20 caracteres alfanuméricos';
   }
 
+  // Validar punto de reposición si se proporciona
+  if (data.reorderPoint !== undefined && (!Number.isInteger(data.reorderPoint) || data.reorderPoint < 0)) {
+    errors.reorderPoint = 'El punto de reposición debe ser un número entero positivo';
+  }
+
+  // Validar código de barras si se proporciona
+  if (data.barcode && !isValidBarcode(data.barcode)) {
+    errors.barcode = 'El código de barras no es válido';
+  }
+
   // Validar URL de imagen si se proporciona
   if (data.imageUrl && !isValidUrl(data.imageUrl)) {
     errors.imageUrl = 'La URL de la imagen no es válida';
   }
 
+  // Validar galería de imágenes
+  if (data.images && data.images.length > IMAGE_CONFIG.MAX_PRODUCT_IMAGES) {
+    errors.images = `Se permiten hasta ${IMAGE_CONFIG.MAX_PRODUCT_IMAGES} imágenes por producto`;
+  }
+
+  // Validar opciones y variantes
+  if (data.variants && data.variants.length > 0) {
+    Object.assign(errors, validateVariants(data.options || [], data.variants));
+  }
+
+  // Validar componentes del kit
+  if (data.bundle) {
+    Object.assign(errors, validateBundle(data.bundle));
+    if (data.variants && data.variants.length > 0) {
+      errors.bundle = 'Un kit no puede tener variantes';
+    }
+  }
+
   return {
     isValid: Object.keys(errors).length === 0,
     errors,
   };
 };
 
+/**
+ * Validar opciones y variantes: cada variante necesita un SKU propio y una
+ * combinación de valores distinta. Los errores de cada variante van en `variant<índice>`
+ */
+const validateVariants = (
+  options: ProductOption[],
+  variants: ProductVariantRequest[]
+): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  const optionNames = options.map(option => option.name.trim().toLowerCase());
+
+  if (options.length === 0 || options.some(option => !option.name.trim() || option.values.length === 0)) {
+    errors.options = 'Cada opción necesita un nombre y al menos un valor';
+  } else if (new Set(optionNames).size !== optionNames.length) {
+    errors.options = 'Hay opciones repetidas';
+  }
+
+  const seenSkus = new Set<string>();
+  const seenCombinations = new Set<string>();
+
+  variants.forEach((variant, index) => {
+    const sku = variant.sku.trim().toUpperCase();
+    const combination = getVariantLabel(variant);
+
+    if (!/^[A-Z0-9\-_]{3,20}$/.test(sku)) {
+      errors[`variant${index}`] = 'El SKU debe tener entre 3 y 20 caracteres alfanuméricos';
+    } else if (seenSkus.has(sku)) {
+      errors[`variant${index}`] = 'SKU repetido';
+    } else if (seenCombinations.has(combination)) {
+      errors[`variant${index}`] = 'Combinación repetida';
+    } else if (variant.price !== undefined && !(variant.price > 0)) {
+      errors[`variant${index}`] = 'El precio debe ser mayor a 0';
+    } else if (variant.stock !== undefined && (!Number.isInteger(variant.stock) || variant.stock < 0)) {
+      errors[`variant${index}`] = 'El stock debe ser un número entero positivo';
+    }
+
+    seenSkus.add(sku);
+    seenCombinations.add(combination);
+  });
+
+  return errors;
+};
+
+/**
+ * Validar el kit: al menos un componente, cantidades enteras y sin productos repetidos
+ */
+const validateBundle = (bundle: ProductBundle): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  const productIds = bundle.components.map(component => component.product);
+
+  if (bundle.components.length === 0) {
+    errors.bundle = 'Agrega los productos que forman el kit';
+  } else if (bundle.components.some(component => !Number.isInteger(component.quantity) || component.quantity < 1)) {
+    errors.bundle = 'Las cantidades deben ser números enteros mayores a 0';
+  } else if (new Set(productIds).size !== productIds.length) {
+    errors.bundle = 'Hay productos repetidos en el kit';
+  }
+
+  const discount = bundle.discount ?? 0;
+  if (bundle.pricing === 'discount' && !(discount >= 0 && discount < 100)) {
+    errors.bundleDiscount = 'El descuento debe estar entre 0 y 99%';
+  }
+
+  return errors;
+};
+
 /**
  * Validar URL
  */
@@ -247,6 +580,33 @@ const isValidUrl = (url: string): boolean => {
   }
 };
 
+/**
+ * Normalizar código escaneado o tipeado (sin espacios)
+ */
+export const normalizeBarcode = (code: string): string => {
+  return code.replace(/\s+/g, '').trim();
+};
+
+/**
+ * Validar código de barras: EAN-13 y UPC-A se verifican con su dígito de control;
+ * el resto (EAN-8, UPC-E, Code 128) se acepta como texto imprimible de 4 a 48 caracteres
+ */
+export const isValidBarcode = (code: string): boolean => {
+  const value = normalizeBarcode(code);
+
+  if (/^\d+$/.test(value) && [12, 13].includes(value.length)) {
+    const digits = value.split('').map(Number);
+    const checkDigit = digits.pop() as number;
+    // Pesos 3/1 alternados desde el dígito más cercano al verificador
+    const sum = digits
+      .reverse()
+      .reduce((acc, digit, index) => acc + digit * (index % 2 === 0 ? 3 : 1), 0);
+    return (10 - (sum % 10)) % 10 === checkDigit;
+  }
+
+  return /^[\x21-\x7E]{4,48}$/.test(value);
+};
+
 /**
  * Formatear precio para mostrar
  */
@@ -258,9 +618,161 @@ export const formatPrice = (price: number, currency = '$'): string => {
 };
 
 /**
- * Obtener estado del stock
+ * Imágenes del producto, la principal primero. Los productos cargados solo con
+ * `imageUrl` (por ejemplo desde un CSV) tienen una galería de una imagen
+ */
+export const getProductImages = (product: Pick<Product, 'imageUrl' | 'images'>): string[] => {
+  if (product.images) return product.images;
+  return product.imageUrl ? [product.imageUrl] : [];
+};
+
+/**
+ * Verificar si el producto se vende por variantes
+ */
+export const hasVariants = (product: Pick<Product, 'variants'>): boolean => {
+  return Boolean(product.variants?.length);
+};
+
+/**
+ * Verificar si el producto es un kit armado con otros productos
+ */
+export const isBundle = (product: Pick<Product, 'bundle'>): boolean => {
+  return Boolean(product.bundle);
+};
+
+/**
+ * Los kits solo pueden incluir productos activos sin variantes que no sean otros kits
+ */
+export const canBeBundleComponent = (product: Product): boolean => {
+  return product.isActive && !isBundle(product) && !hasVariants(product);
+};
+
+/**
+ * Precio de un kit con descuento: la suma de sus componentes menos el porcentaje,
+ * redondeado a pesos como lo calcula el backend
+ */
+export const calculateBundlePrice = (
+  components: Array<{ product: Pick<Product, 'price'>; quantity: number }>,
+  discount = 0
+): number => {
+  const total = components.reduce((sum, component) => sum + component.product.price * component.quantity, 0);
+  return Math.round(total * (1 - discount / 100));
+};
+
+/**
+ * Margen porcentual a precio de lista (de la variante, si se indica). Sin costo cargado
+ * o para vendedores, que no lo reciben, no se calcula
+ */
+export const getListPriceMargin = (product: Pick<Product, 'price' | 'cost'>, variant?: ProductVariant): number | undefined => {
+  const price = getUnitPrice(product, variant);
+  if (product.cost === undefined || price <= 0) return undefined;
+  return ((price - product.cost) / price) * 100;
+};
+
+/**
+ * Alícuota de IVA del producto; sin una propia usa la general
+ */
+export const getTaxRate = (product: Pick<Product, 'taxRate'>): number => {
+  return product.taxRate ?? TAX_CONFIG.DEFAULT_IVA_RATE;
+};
+
+/**
+ * Verificar que la alícuota sea una de las vigentes
+ */
+export const isValidTaxRate = (rate: number): boolean => {
+  return (TAX_CONFIG.IVA_RATES as readonly number[]).includes(rate);
+};
+
+/**
+ * Formatear alícuota de IVA
+ */
+export const formatTaxRate = (rate: number): string => {
+  return rate === 0 ? 'Exento' : `IVA ${rate}%`;
+};
+
+/**
+ * Desglose de un kit en una línea (ej: "1 x Notebook, 2 x Mouse")
+ */
+export const formatBundleComponents = (components: BundleComponent[]): string => {
+  return components.map(component => `${component.quantity} x ${component.name}`).join(', ');
+};
+
+/**
+ * Etiqueta de una variante con sus valores en el orden de las opciones (ej: "M / Rojo")
  */
-export const getStockStatus = (stock: number): {
+export const getVariantLabel = (variant: Pick<ProductVariant, 'options'>): string => {
+  return Object.values(variant.options).join(' / ');
+};
+
+/**
+ * Precio unitario a presupuestar: el de la variante o, si no tiene, el del producto
+ */
+export const getUnitPrice = (product: Pick<Product, 'price'>, variant?: Pick<ProductVariant, 'price'>): number => {
+  return variant?.price ?? product.price;
+};
+
+/**
+ * Variante cuyo SKU coincide con un código escaneado
+ */
+export const findVariantByCode = (product: Product, code: string): ProductVariant | undefined => {
+  const sku = normalizeBarcode(code).toUpperCase();
+  return product.variants?.find(variant => variant.sku.toUpperCase() === sku);
+};
+
+/**
+ * Separar los valores de una opción escritos con comas, sin vacíos ni repetidos
+ */
+export const parseOptionValues = (text: string): string[] => {
+  return Array.from(new Set(text.split(',').map(value => value.trim()).filter(Boolean)));
+};
+
+/**
+ * Todas las combinaciones de valores de las opciones (producto cartesiano)
+ */
+export const buildVariantCombinations = (options: ProductOption[]): Array<Record<string, string>> => {
+  return options.reduce<Array<Record<string, string>>>(
+    (combinations, option) => combinations.flatMap(combination =>
+      option.values.map(value => ({ ...combination, [option.name]: value }))
+    ),
+    [{}]
+  );
+};
+
+/**
+ * Unidades reservadas por presupuestos pendientes
+ */
+export const getReservedStock = (product: Pick<Product, 'reservedStock'>): number => {
+  return Math.max(product.reservedStock || 0, 0);
+};
+
+/**
+ * Unidades que todavía se pueden presupuestar: stock físico menos reservado
+ */
+export const getAvailableStock = (product: Pick<Product, 'stock' | 'reservedStock'>): number => {
+  return Math.max(product.stock - getReservedStock(product), 0);
+};
+
+/**
+ * Punto de reposición del producto (o el general si no tiene uno propio)
+ */
+export const getReorderPoint = (product: Pick<Product, 'reorderPoint'>): number => {
+  return product.reorderPoint ?? STOCK_CONFIG.DEFAULT_REORDER_POINT;
+};
+
+/**
+ * Verificar si el stock disponible está en o por debajo del punto de reposición
+ */
+export const isLowStock = (product: Pick<Product, 'stock' | 'reservedStock' | 'reorderPoint'>): boolean => {
+  return getAvailableStock(product) <= getReorderPoint(product);
+};
+
+/**
+ * Obtener estado del stock según el punto de reposición del producto
+ */
+export const getStockStatus = (
+  stock: number,
+  reorderPoint: number = STOCK_CONFIG.DEFAULT_REORDER_POINT
+): {
   status: 'high' | 'medium' | 'low' | 'out';
   label: string;
   color: string;
@@ -273,7 +785,7 @@ export const getStockStatus = (stock: number): {
     };
   }
 
-  if (stock <= 5) {
+  if (stock <= reorderPoint) {
     return {
       status: 'low',
       label: 'Stock bajo',
@@ -281,7 +793,7 @@ export const getStockStatus = (stock: number): {
     };
   }
 
-  if (stock <= 20) {
+  if (stock <= reorderPoint * STOCK_CONFIG.MEDIUM_STOCK_FACTOR) {
     return {
       status: 'medium',
       label: 'Stock medio',
@@ -340,17 +852,31 @@ export const generateSKU = (name: string, category: string): string => {
 };
 
 /**
- * Verificar disponibilidad de stock
+ * SKU de una variante: el del producto más las iniciales de cada valor (ej: REM-001-MRO)
+ */
+export const generateVariantSKU = (baseSku: string, values: string[]): string => {
+  const suffix = values
+    .map(value => value.replace(/[^a-z0-9]/gi, '').slice(0, 2).toUpperCase())
+    .join('');
+
+  return `${baseSku.slice(0, 19 - suffix.length)}-${suffix}`.slice(0, 20);
+};
+
+/**
+ * Verificar disponibilidad de stock. `heldQuantity` son las unidades que el
+ * presupuesto en edición ya tiene reservadas de este producto. Con variantes se
+ * pasa la variante, que tiene su propio stock y reservas.
  */
 export const checkStockAvailability = (
-  product: Product,
-  requestedQuantity: number
+  product: Pick<Product, 'stock' | 'reservedStock'>,
+  requestedQuantity: number,
+  heldQuantity = 0
 ): {
   available: boolean;
   availableQuantity: number;
   message: string;
 } => {
-  const availableQuantity = Math.max(0, product.stock);
+  const availableQuantity = getAvailableStock(product) + heldQuantity;
   const available = requestedQuantity <= availableQuantity;
 
   let message = '';
@@ -389,7 +915,8 @@ export const filterProducts = (
       const matchesSearch =
         product.name.toLowerCase().includes(searchTerm) ||
         product.description.toLowerCase().includes(searchTerm) ||
-        product.sku?.toLowerCase().includes(searchTerm);
+        product.sku?.toLowerCase().includes(searchTerm) ||
+        product.barcode?.includes(searchTerm);
 
       if (!matchesSearch) return false;
     }
@@ -426,13 +953,37 @@ export default {
   deleteProduct,
   getProductCategories,
   getLowStockProducts,
+  getProductByBarcode,
   searchProducts,
+  getAllProducts,
   validateProductData,
+  normalizeBarcode,
+  isValidBarcode,
   formatPrice,
+  getProductImages,
+  hasVariants,
+  isBundle,
+  canBeBundleComponent,
+  calculateBundlePrice,
+  getListPriceMargin,
+  getTaxRate,
+  isValidTaxRate,
+  formatTaxRate,
+  formatBundleComponents,
+  getVariantLabel,
+  getUnitPrice,
+  findVariantByCode,
+  parseOptionValues,
+  buildVariantCombinations,
+  getReservedStock,
+  getAvailableStock,
+  getReorderPoint,
+  isLowStock,
   getStockStatus,
   calculateInventoryValue,
   getTopSellingProducts,
   generateSKU,
+  generateVariantSKU,
   checkStockAvailability,
   filterProducts,
 };
\ No newline at end of file
@@ -4,25 +4,45 @@
 
 import {
   Quote,
+  QuoteItem,
+  QuoteCustomItem,
   CreateQuoteRequest,
+  UpdateQuoteRequest,
   QuotesResponse,
   QuoteFilters,
   QuoteStats,
+  QuoteRevision,
+  QuoteRevisionItem,
+  QuoteRevisionDiff,
+  QuoteRevisionItemDiff,
+  QuoteRevisionTotalDiff,
+  CustomerQuoteStats,
   Customer,
   Product,
-  ApiResponse
+  ProductVariant,
+  QuoteLineTotals,
+  QuoteTaxLine,
+  ApiResponse,
+  CachedReadOptions
 } from '../types';
-import { get, post, put } from './api';
+import { get, post, put, invalidateCache } from './api';
 import { API_ENDPOINTS } from '../types';
+import * as syncService from './syncService';
+import * as productService from './productService';
+import { CACHE_CONFIG, MARGIN_CONFIG, OFFLINE_CONFIG, TAX_CONFIG } from '../constants/config';
 
 // ===============================
 // QUOTE SERVICE FUNCTIONS
 // ===============================
 
 /**
- * Obtener lista de presupuestos con filtros
+ * Obtener lista de presupuestos con filtros. Responde desde el cache si hay una
+ * copia y avisa por `options.onRevalidate` cuando llega la versión nueva
  */
-export const getQuotes = async (filters?: QuoteFilters): Promise<QuotesResponse> => {
+export const getQuotes = async (
+  filters?: QuoteFilters,
+  options?: CachedReadOptions<QuotesResponse>
+): Promise<QuotesResponse> => {
   try {
     const queryParams = new URLSearchParams();
 
@@ -34,14 +54,29 @@ export const getQuotes = async (filters?: QuoteFilters): Promise<QuotesResponse>
       });
     }
 
+    // Los presupuestos creados sin conexión se muestran al principio de la primera página
+    const includeCreated = (filters?.page || 1) === 1 && (!filters?.status || filters.status === 'pending');
+    const withPending = async (data: QuotesResponse): Promise<QuotesResponse> => ({
+      ...data,
+      items: await syncService.applyPendingMutations('quote', data.items, includeCreated),
+    });
+
     const url = `${API_ENDPOINTS.QUOTES.LIST}?${queryParams.toString()}`;
-    const response: ApiResponse<QuotesResponse> = await get(url);
+    const response: ApiResponse<QuotesResponse> = await get(url, undefined, {
+      ttl: CACHE_CONFIG.TTL.QUOTES,
+      forceRefresh: options?.forceRefresh,
+      onRevalidate: async fresh => {
+        if (fresh.success && fresh.data && options?.onRevalidate) {
+          options.onRevalidate(await withPending(fresh.data));
+        }
+      },
+    });
 
     if (!response.success || !response.data) {
       throw new Error(response.message || 'Error obteniendo presupuestos');
     }
 
-    return response.data;
+    return withPending(response.data);
   } catch (error: any) {
     throw new Error(error.message || 'Error obteniendo presupuestos');
   }
@@ -50,9 +85,26 @@ export const getQuotes = async (filters?: QuoteFilters): Promise<QuotesResponse>
 /**
  * Obtener presupuesto por ID
  */
-export const getQuoteById = async (id: string): Promise<Quote> => {
+export const getQuoteById = async (
+  id: string,
+  options?: CachedReadOptions<Quote>
+): Promise<Quote> => {
   try {
-    const response: ApiResponse<Quote> = await get(API_ENDPOINTS.QUOTES.GET(id));
+    if (syncService.isLocalId(id)) {
+      const pendingQuote = await syncService.getPendingEntity<Quote>('quote', id);
+      if (pendingQuote) return pendingQuote;
+      id = await syncService.resolveId(id);
+    }
+
+    const response: ApiResponse<Quote> = await get(API_ENDPOINTS.QUOTES.GET(id), undefined, {
+      ttl: CACHE_CONFIG.TTL.QUOTES,
+      forceRefresh: options?.forceRefresh,
+      onRevalidate: fresh => {
+        if (fresh.success && fresh.data) {
+          options?.onRevalidate?.(fresh.data);
+        }
+      },
+    });
 
     if (!response.success || !response.data) {
       throw new Error(response.message || 'Error obteniendo presupuesto');
@@ -65,21 +117,41 @@ export const getQuoteById = async (id: string): Promise<Quote> => {
 };
 
 /**
- * Crear nuevo presupuesto
+ * Crear nuevo presupuesto. Sin conexión se encola y se devuelve una versión local;
+ * `products` se usa para mostrar esa versión hasta que el servidor la confirme
  */
-export const createQuote = async (quoteData: CreateQuoteRequest): Promise<Quote> => {
+export const createQuote = async (
+  quoteData: CreateQuoteRequest,
+  products: Product[] = []
+): Promise<Quote> => {
+  // El clientId permite al backend descartar duplicados si el envío se reintenta
+  const payload: CreateQuoteRequest = {
+    ...quoteData,
+    clientId: quoteData.clientId || syncService.generateClientId(),
+  };
+
   try {
+    if (await syncService.shouldQueueMutation()) {
+      return await queueCreateQuote(payload, products);
+    }
+
     const response: ApiResponse<Quote> = await post(
       API_ENDPOINTS.QUOTES.CREATE,
-      quoteData
+      payload
     );
 
     if (!response.success || !response.data) {
       throw new Error(response.message || 'Error creando presupuesto');
     }
 
+    // El alta reserva stock de los productos presupuestados
+    await invalidateCache(API_ENDPOINTS.QUOTES.LIST, API_ENDPOINTS.PRODUCTS.LIST);
     return response.data;
   } catch (error: any) {
+    if (syncService.canQueueAfterError(error)) {
+      return queueCreateQuote(payload, products);
+    }
+
     console.log('🔍 Error detallado en createQuote:', error);
     console.log('🔍 Error response:', error.response?.data);
     console.log('🔍 Error status:', error.response?.status);
@@ -105,6 +177,138 @@ export const createQuote = async (quoteData: CreateQuoteRequest): Promise<Quote>
   }
 };
 
+/**
+ * Encolar la creación de un presupuesto para enviarla al recuperar la conexión
+ */
+const queueCreateQuote = (
+  quoteData: CreateQuoteRequest,
+  products: Product[]
+): Promise<Quote> => {
+  const clientId = quoteData.clientId as string;
+
+  return syncService.enqueueMutation<Quote>({
+    type: 'createQuote',
+    entity: 'quote',
+    method: 'post',
+    url: API_ENDPOINTS.QUOTES.CREATE,
+    payload: quoteData,
+    clientId,
+    optimistic: buildOfflineQuote(clientId, quoteData, products),
+  });
+};
+
+/**
+ * Armar la versión local de un presupuesto creado sin conexión
+ */
+const buildOfflineQuote = (
+  clientId: string,
+  quoteData: CreateQuoteRequest,
+  products: Product[]
+): Quote => {
+  const items = quoteData.items.map(item => {
+    const product: Product = products.find(p => p._id === item.productId) || {
+      _id: item.productId,
+      name: 'Producto',
+      description: '',
+      price: 0,
+      stock: 0,
+      category: '',
+      isActive: true,
+    };
+    const variant = product.variants?.find(candidate => candidate._id === item.variantId);
+    const price = productService.getUnitPrice(product, variant);
+    const taxRate = item.taxRate ?? productService.getTaxRate(product);
+
+    return {
+      product,
+      productSnapshot: {
+        name: product.name,
+        price,
+        variant: variant && {
+          _id: variant._id,
+          sku: variant.sku,
+          label: productService.getVariantLabel(variant),
+        },
+        components: product.bundle?.components.map(component => ({ ...component })),
+        cost: product.cost,
+      },
+      quantity: item.quantity,
+      discount: item.discount,
+      taxRate,
+      subtotal: price * item.quantity * (1 - (item.discount || 0) / 100),
+    };
+  });
+
+  const customItems: QuoteCustomItem[] = (quoteData.customItems || []).map(item => ({
+    ...item,
+    taxRate: item.taxRate ?? TAX_CONFIG.DEFAULT_IVA_RATE,
+    subtotal: item.unitPrice * item.quantity * (1 - (item.discount || 0) / 100),
+  }));
+
+  const totals = calculateQuoteTotals(
+    items.map(item => ({
+      product: item.product,
+      variant: getQuoteItemVariant(item),
+      quantity: item.quantity,
+      discount: item.discount,
+      taxRate: item.taxRate,
+    })),
+    quoteData.discount,
+    customItems
+  );
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + OFFLINE_CONFIG.QUOTE_VALIDITY_DAYS * 24 * 60 * 60 * 1000);
+
+  return {
+    _id: clientId,
+    quoteNumber: `OFFLINE-${clientId.slice(-4).toUpperCase()}`,
+    customer: quoteData.customer,
+    items,
+    customItems: customItems.length > 0 ? customItems : undefined,
+    subtotal: totals.subtotal,
+    discount: totals.discountAmount,
+    tax: totals.taxAmount,
+    taxes: totals.taxes,
+    total: totals.total,
+    status: 'pending',
+    expiresAt: expiresAt.toISOString(),
+    notes: quoteData.notes,
+    pendingSync: true,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+};
+
+/**
+ * Actualizar presupuesto existente (solo pendientes)
+ */
+export const updateQuote = async (
+  id: string,
+  quoteData: UpdateQuoteRequest
+): Promise<Quote> => {
+  try {
+    const response: ApiResponse<Quote> = await put(
+      API_ENDPOINTS.QUOTES.UPDATE(id),
+      quoteData
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Error actualizando presupuesto');
+    }
+
+    await invalidateCache(API_ENDPOINTS.QUOTES.LIST, API_ENDPOINTS.PRODUCTS.LIST);
+    return response.data;
+  } catch (error: any) {
+    if (error.error?.details) {
+      const details = error.error.details;
+      const detailMessages = Array.isArray(details) ? details.map((d: any) => d.message || d).join(', ') : details;
+      throw new Error(`Error de validación: ${detailMessages}`);
+    }
+
+    throw new Error(error.message || 'Error actualizando presupuesto');
+  }
+};
+
 /**
  * Cancelar presupuesto
  */
@@ -115,17 +319,56 @@ export const cancelQuote = async (id: string): Promise<void> => {
     if (!response.success) {
       throw new Error(response.message || 'Error cancelando presupuesto');
     }
+
+    // Cancelar libera el stock reservado
+    await invalidateCache(API_ENDPOINTS.QUOTES.LIST, API_ENDPOINTS.PRODUCTS.LIST);
   } catch (error: any) {
     throw new Error(error.message || 'Error cancelando presupuesto');
   }
 };
 
+/**
+ * Aprobar el margen de un presupuesto que quedó bajo el mínimo (solo administradores)
+ */
+export const approveQuoteMargin = async (id: string): Promise<Quote> => {
+  try {
+    const response: ApiResponse<Quote> = await post(API_ENDPOINTS.QUOTES.APPROVE_MARGIN(id));
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Error aprobando margen');
+    }
+
+    await invalidateCache(API_ENDPOINTS.QUOTES.LIST);
+    return response.data;
+  } catch (error: any) {
+    throw new Error(error.message || 'Error aprobando margen');
+  }
+};
+
 /**
  * Obtener estadísticas de presupuestos
  */
-export const getQuoteStats = async (): Promise<QuoteStats> => {
+export const getQuoteStats = async (
+  dateFrom?: string,
+  dateTo?: string,
+  options?: CachedReadOptions<QuoteStats>
+): Promise<QuoteStats> => {
   try {
-    const response: ApiResponse<QuoteStats> = await get(API_ENDPOINTS.QUOTES.STATS);
+    const queryParams = new URLSearchParams();
+
+    if (dateFrom) queryParams.append('dateFrom', dateFrom);
+    if (dateTo) queryParams.append('dateTo', dateTo);
+
+    const url = `${API_ENDPOINTS.QUOTES.STATS}?${queryParams.toString()}`;
+    const response: ApiResponse<QuoteStats> = await get(url, undefined, {
+      ttl: CACHE_CONFIG.TTL.QUOTES,
+      forceRefresh: options?.forceRefresh,
+      onRevalidate: fresh => {
+        if (fresh.success && fresh.data) {
+          options?.onRevalidate?.(fresh.data);
+        }
+      },
+    });
 
     if (!response.success || !response.data) {
       throw new Error(response.message || 'Error obteniendo estadísticas');
@@ -156,6 +399,127 @@ export const getQuotesByCustomer = async (email: string): Promise<Quote[]> => {
   }
 };
 
+/**
+ * Calcular métricas de un cliente a partir de sus presupuestos
+ */
+export const getCustomerQuoteStats = (quotes: Quote[]): CustomerQuoteStats => {
+  const paidQuotes = quotes.filter(quote => quote.status === 'paid');
+  const quotedValue = quotes.reduce((sum, quote) => sum + quote.total, 0);
+  const paidValue = paidQuotes.reduce((sum, quote) => sum + quote.total, 0);
+
+  // Último contacto: la fecha más reciente de creación o modificación de un presupuesto
+  const lastContactAt = quotes
+    .map(quote => quote.updatedAt || quote.createdAt)
+    .sort((a, b) => new Date(b).getTime() - new Date(a).getTime())[0];
+
+  return {
+    quoteCount: quotes.length,
+    paidCount: paidQuotes.length,
+    quotedValue,
+    paidValue,
+    conversionRate: quotes.length > 0 ? (paidQuotes.length / quotes.length) * 100 : 0,
+    averageTicket: paidQuotes.length > 0 ? paidValue / paidQuotes.length : 0,
+    lastContactAt,
+  };
+};
+
+/**
+ * Obtener historial de versiones del presupuesto (ordenado por versión)
+ */
+export const getQuoteRevisions = async (id: string): Promise<QuoteRevision[]> => {
+  try {
+    const response: ApiResponse<QuoteRevision[]> = await get(
+      API_ENDPOINTS.QUOTES.REVISIONS(id)
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Error obteniendo historial del presupuesto');
+    }
+
+    return [...response.data].sort((a, b) => a.version - b.version);
+  } catch (error: any) {
+    throw new Error(error.message || 'Error obteniendo historial del presupuesto');
+  }
+};
+
+/**
+ * Líneas de una versión para compararlas: las libres se identifican por su descripción
+ * y por cuántas líneas anteriores la repiten
+ */
+const getRevisionLines = (revision: QuoteRevision): QuoteRevisionItem[] => [
+  ...revision.items,
+  ...(revision.customItems || []).map((item, index, customItems) => ({
+    productId: `custom:${item.description}:${customItems.slice(0, index).filter(other => other.description === item.description).length}`,
+    productSnapshot: { name: item.description, price: item.unitPrice },
+    quantity: item.quantity,
+    discount: item.discount,
+    taxRate: item.taxRate,
+    subtotal: item.subtotal,
+  })),
+];
+
+/**
+ * Comparar dos versiones de un presupuesto línea por línea
+ */
+export const diffQuoteRevisions = (
+  from: QuoteRevision,
+  to: QuoteRevision
+): QuoteRevisionDiff => {
+  const items: QuoteRevisionItemDiff[] = [];
+  const fromLines = getRevisionLines(from);
+  const toLines = getRevisionLines(to);
+  // Cada variante de un producto es una línea distinta
+  const lineKey = (item: QuoteRevisionItem) => `${item.productId}:${item.productSnapshot.variant?._id || ''}`;
+  const toItems = new Map(toLines.map(item => [lineKey(item), item]));
+  const fromKeys = new Set(fromLines.map(lineKey));
+
+  fromLines.forEach(before => {
+    const after = toItems.get(lineKey(before));
+
+    if (!after) {
+      items.push({ productId: before.productId, name: formatItemName(before.productSnapshot), type: 'removed', before });
+      return;
+    }
+
+    const changed =
+      before.quantity !== after.quantity ||
+      before.productSnapshot.price !== after.productSnapshot.price ||
+      (before.discount || 0) !== (after.discount || 0) ||
+      before.taxRate !== after.taxRate;
+
+    items.push({
+      productId: before.productId,
+      name: formatItemName(after.productSnapshot),
+      type: changed ? 'changed' : 'unchanged',
+      before,
+      after,
+    });
+  });
+
+  toLines
+    .filter(after => !fromKeys.has(lineKey(after)))
+    .forEach(after => {
+      items.push({ productId: after.productId, name: formatItemName(after.productSnapshot), type: 'added', after });
+    });
+
+  const totalFields: Array<{ field: QuoteRevisionTotalDiff['field']; label: string }> = [
+    { field: 'subtotal', label: 'Subtotal' },
+    { field: 'discount', label: 'Descuento' },
+    { field: 'tax', label: 'Impuestos' },
+    { field: 'total', label: 'Total' },
+  ];
+
+  const totals = totalFields
+    .filter(({ field }) => from[field] !== to[field])
+    .map(({ field, label }) => ({ field, label, before: from[field], after: to[field] }));
+
+  return {
+    items,
+    totals,
+    notesChanged: (from.notes || '') !== (to.notes || ''),
+  };
+};
+
 /**
  * Validar datos del presupuesto
  */
@@ -178,9 +542,9 @@ export const validateQuoteData = (data: CreateQuoteRequest): {
     errors.customerPhone = 'El teléfono no es válido';
   }
 
-  // Validar items
-  if (!data.items || data.items.length === 0) {
-    errors.items = 'Debe agregar al menos un producto';
+  // Validar items: alcanza con productos o con líneas libres
+  if ((!data.items || data.items.length === 0) && (!data.customItems || data.customItems.length === 0)) {
+    errors.items = 'Debe agregar al menos un producto o una línea libre';
   }
 
   if (data.items && data.items.length > 0) {
@@ -196,19 +560,44 @@ export const validateQuoteData = (data: CreateQuoteRequest): {
       if (item.quantity > 1000) {
         errors[`item${index}Quantity`] = 'La cantidad máxima es 1000';
       }
+
+      if (item.discount && (item.discount < 0 || item.discount > 100)) {
+        errors[`item${index}Discount`] = 'El descuento debe estar entre 0 y 100';
+      }
+
+      if (item.taxRate !== undefined && !productService.isValidTaxRate(item.taxRate)) {
+        errors[`item${index}TaxRate`] = 'Alícuota de IVA inválida';
+      }
     });
   }
 
+  data.customItems?.forEach((item, index) => {
+    if (!item.description?.trim()) {
+      errors[`custom${index}Description`] = 'La descripción es obligatoria';
+    }
+
+    if (typeof item.unitPrice !== 'number' || isNaN(item.unitPrice) || item.unitPrice < 0) {
+      errors[`custom${index}Price`] = 'El precio no puede ser negativo';
+    }
+
+    if (!item.quantity || item.quantity <= 0) {
+      errors[`custom${index}Quantity`] = 'La cantidad debe ser mayor a 0';
+    }
+
+    if (item.discount && (item.discount < 0 || item.discount > 100)) {
+      errors[`custom${index}Discount`] = 'El descuento debe estar entre 0 y 100';
+    }
+
+    if (item.taxRate !== undefined && !productService.isValidTaxRate(item.taxRate)) {
+      errors[`custom${index}TaxRate`] = 'Alícuota de IVA inválida';
+    }
+  });
+
   // Validar descuento
   if (data.discount && (data.discount < 0 || data.discount > 100)) {
     errors.discount = 'El descuento debe estar entre 0 y 100';
   }
 
-  // Validar impuesto
-  if (data.tax && (data.tax < 0 || data.tax > 100)) {
-    errors.tax = 'El impuesto debe estar entre 0 y 100';
-  }
-
   // Validar notas
   if (data.notes && data.notes.length > 500) {
     errors.notes = 'Las notas no pueden superar los 500 caracteres';
@@ -237,35 +626,158 @@ const validatePhone = (phone: string): boolean => {
 };
 
 /**
- * Calcular totales del presupuesto
+ * Margen sobre lo facturado sin impuestos. Sin facturación, cualquier costo es pérdida total
+ */
+const calculateMarginPercentage = (net: number, cost: number): number => {
+  if (net <= 0) return cost > 0 ? -100 : 0;
+  return ((net - cost) / net) * 100;
+};
+
+/**
+ * Totales de una línea: su descuento primero y el IVA sobre lo que queda después del
+ * descuento general
+ */
+const calculateLineTotals = (
+  gross: number,
+  lineDiscount: number,
+  taxRate: number,
+  discount: number
+): QuoteLineTotals => {
+  const discountAmount = (gross * lineDiscount) / 100;
+  const subtotal = gross - discountAmount;
+  const net = subtotal * (1 - discount / 100);
+
+  return { subtotal, discountAmount, taxRate, taxAmount: (net * taxRate) / 100 };
+};
+
+/**
+ * Calcular totales del presupuesto. Cada línea lleva su descuento y su alícuota de IVA
+ * (la del producto si no se eligió otra); el descuento general se reparte en proporción
+ * al subtotal de cada línea y el IVA se calcula sobre lo que queda, agrupado por alícuota.
+ * El margen es solo de los productos (las líneas libres no tienen costo) y queda sin
+ * valor si falta el costo de alguno (los vendedores no lo reciben)
  */
 export const calculateQuoteTotals = (
-  items: Array<{ product: Product; quantity: number }>,
+  items: Array<{ product: Product; variant?: ProductVariant; quantity: number; discount?: number; taxRate?: number }>,
   discount = 0,
-  tax = 0
+  customItems: Array<Pick<QuoteCustomItem, 'unitPrice' | 'quantity' | 'discount'> & { taxRate?: number }> = []
 ): {
   subtotal: number;
   discountAmount: number;
   taxAmount: number;
   total: number;
+  lines: QuoteLineTotals[];
+  customLines: QuoteLineTotals[];
+  taxes: QuoteTaxLine[];
+  cost?: number;
+  margin?: number;
+  marginPercentage?: number;
 } => {
-  const subtotal = items.reduce((sum, item) => {
-    return sum + (item.product.price * item.quantity);
-  }, 0);
+  const lines: QuoteLineTotals[] = items.map(item => {
+    const line = calculateLineTotals(
+      productService.getUnitPrice(item.product, item.variant) * item.quantity,
+      item.discount || 0,
+      item.taxRate ?? productService.getTaxRate(item.product),
+      discount
+    );
+
+    if (item.product.cost === undefined) return line;
+
+    const net = line.subtotal * (1 - discount / 100);
+    const cost = item.product.cost * item.quantity;
+
+    return {
+      ...line,
+      cost,
+      margin: net - cost,
+      marginPercentage: calculateMarginPercentage(net, cost),
+    };
+  });
+
+  const customLines = customItems.map(item => calculateLineTotals(
+    item.unitPrice * item.quantity,
+    item.discount || 0,
+    item.taxRate ?? TAX_CONFIG.DEFAULT_IVA_RATE,
+    discount
+  ));
+
+  const allLines = [...lines, ...customLines];
+  const subtotal = allLines.reduce((sum, line) => sum + line.subtotal, 0);
 
   const discountAmount = (subtotal * discount) / 100;
   const afterDiscount = subtotal - discountAmount;
-  const taxAmount = (afterDiscount * tax) / 100;
+
+  const taxes: QuoteTaxLine[] = [];
+  allLines.forEach(line => {
+    const base = line.subtotal * (1 - discount / 100);
+    const entry = taxes.find(tax => tax.rate === line.taxRate);
+
+    if (entry) {
+      entry.base += base;
+      entry.amount += line.taxAmount;
+    } else {
+      taxes.push({ rate: line.taxRate, base, amount: line.taxAmount });
+    }
+  });
+  taxes.sort((a, b) => a.rate - b.rate);
+
+  const taxAmount = taxes.reduce((sum, tax) => sum + tax.amount, 0);
   const total = afterDiscount + taxAmount;
 
+  const hasCost = lines.length > 0 && lines.every(line => line.cost !== undefined);
+  const cost = hasCost ? lines.reduce((sum, line) => sum + (line.cost as number), 0) : undefined;
+  const productsNet = lines.reduce((sum, line) => sum + line.subtotal, 0) * (1 - discount / 100);
+
   return {
     subtotal,
     discountAmount,
     taxAmount,
     total,
+    lines,
+    customLines,
+    taxes,
+    cost,
+    margin: cost !== undefined ? productsNet - cost : undefined,
+    marginPercentage: cost !== undefined ? calculateMarginPercentage(productsNet, cost) : undefined,
   };
 };
 
+/**
+ * Desglose de IVA del presupuesto. Los presupuestos anteriores a las alícuotas por
+ * producto no lo tienen: se muestran como una sola línea con la alícuota efectiva
+ */
+export const getQuoteTaxes = (quote: Quote): QuoteTaxLine[] => {
+  if (quote.taxes) return quote.taxes;
+  if (!quote.tax) return [];
+
+  const base = quote.subtotal - quote.discount;
+  const rate = base > 0 ? Math.round((quote.tax / base) * 1000) / 10 : TAX_CONFIG.DEFAULT_IVA_RATE;
+
+  return [{ rate, base, amount: quote.tax }];
+};
+
+/**
+ * Verificar si un margen quedó bajo el mínimo configurado
+ */
+export const isMarginBelowMinimum = (marginPercentage?: number): boolean => {
+  return marginPercentage !== undefined && marginPercentage < MARGIN_CONFIG.MIN_MARGIN_PERCENTAGE;
+};
+
+/**
+ * Verificar si el presupuesto espera que un administrador apruebe su margen.
+ * Mientras tanto no se puede cobrar
+ */
+export const needsMarginApproval = (quote: Quote): boolean => {
+  return quote.status === 'pending' && quote.marginApproval?.status === 'pending';
+};
+
+/**
+ * Formatear margen porcentual
+ */
+export const formatMargin = (marginPercentage: number): string => {
+  return `${marginPercentage.toFixed(1)}%`;
+};
+
 /**
  * Generar número de presupuesto
  */
@@ -303,6 +815,104 @@ export const isQuoteExpired = (quote: Quote): boolean => {
   return new Date() > new Date(quote.expiresAt);
 };
 
+/**
+ * Verificar si el presupuesto se puede editar
+ * Solo los presupuestos pendientes y vigentes son editables
+ */
+export const canEditQuote = (quote: Quote): boolean => {
+  // Los creados sin conexión se editan recién cuando el servidor los confirma
+  return quote.status === 'pending' && !isQuoteExpired(quote) && !quote.pendingSync;
+};
+
+/**
+ * Nombre de una línea del presupuesto, con la variante presupuestada si tiene
+ */
+export const formatItemName = (snapshot: QuoteItem['productSnapshot']): string => {
+  return snapshot.variant ? `${snapshot.name} (${snapshot.variant.label})` : snapshot.name;
+};
+
+/**
+ * Resumen de las líneas para listados (ej: "3 productos • 1 concepto")
+ */
+export const formatLineCount = (quote: { items: unknown[]; customItems?: unknown[] }): string => {
+  const productCount = quote.items.length;
+  const customCount = quote.customItems?.length || 0;
+
+  return [
+    (productCount > 0 || customCount === 0) && `${productCount} ${productCount === 1 ? 'producto' : 'productos'}`,
+    customCount > 0 && `${customCount} ${customCount === 1 ? 'concepto' : 'conceptos'}`,
+  ].filter(Boolean).join(' • ');
+};
+
+/**
+ * Variante actual del catálogo que corresponde a la línea. Undefined si la línea no
+ * tiene variante o si la variante ya no existe
+ */
+export const getQuoteItemVariant = (item: QuoteItem): ProductVariant | undefined => {
+  const variantId = item.productSnapshot.variant?._id;
+  return variantId ? item.product?.variants?.find(variant => variant._id === variantId) : undefined;
+};
+
+/**
+ * Precio de lista actual de la línea (el de su variante si tiene)
+ */
+export const getCurrentItemPrice = (item: QuoteItem): number => {
+  return productService.getUnitPrice(item.product, getQuoteItemVariant(item));
+};
+
+/**
+ * Verificar si el precio de lista del producto cambió desde que se presupuestó
+ */
+export const hasCatalogPriceChanged = (item: QuoteItem): boolean => {
+  if (!item.product || (item.productSnapshot.variant && !getQuoteItemVariant(item))) return false;
+  return getCurrentItemPrice(item) !== item.productSnapshot.price;
+};
+
+/**
+ * Verificar si el presupuesto se puede volver a presupuestar a precios actuales.
+ * Solo aplica a los vencidos que no llegaron a cobrarse
+ */
+export const canRequote = (quote: Quote): boolean => {
+  if (quote.pendingSync) return false;
+  return quote.status === 'expired' || (quote.status === 'pending' && isQuoteExpired(quote));
+};
+
+/**
+ * Armar un presupuesto nuevo con el mismo cliente, cantidades, descuentos y alícuotas;
+ * el backend lo cotiza a los precios de lista actuales (las líneas libres mantienen el
+ * suyo). Los productos dados de baja y las variantes eliminadas quedan afuera y se
+ * devuelven en `skippedItems`
+ */
+export const buildRequoteData = (quote: Quote): {
+  data: CreateQuoteRequest;
+  skippedItems: QuoteItem[];
+} => {
+  const summary = getQuoteSummary(quote);
+  const toPercentage = (value: number) => Number(value.toFixed(2));
+  // Un producto eliminado llega sin populate (null): va a las líneas omitidas
+  const activeItems = quote.items.filter(item =>
+    item.product && item.product.isActive !== false &&
+    (!item.productSnapshot.variant || getQuoteItemVariant(item))
+  );
+
+  return {
+    data: {
+      customer: quote.customer,
+      items: activeItems.map(item => ({
+        productId: item.product._id,
+        variantId: item.productSnapshot.variant?._id,
+        quantity: item.quantity,
+        discount: item.discount,
+        taxRate: item.taxRate,
+      })),
+      customItems: quote.customItems?.map(({ subtotal, ...item }) => item),
+      discount: toPercentage(summary.discountPercentage),
+      notes: quote.notes,
+    },
+    skippedItems: quote.items.filter(item => !activeItems.includes(item)),
+  };
+};
+
 /**
  * Calcular tiempo restante hasta expiración
  */
@@ -458,20 +1068,23 @@ export const getQuoteSummary = (quote: Quote): {
   avgItemPrice: number;
   discountPercentage: number;
   taxPercentage: number;
-  profitMargin: number;
+  profitMargin?: number; // sin costos en los ítems (vendedores) no se calcula
 } => {
   const itemCount = quote.items.length;
   const totalQuantity = quote.items.reduce((sum, item) => sum + item.quantity, 0);
-  const avgItemPrice = itemCount > 0 ? quote.subtotal / totalQuantity : 0;
+  // Las líneas libres no cuentan como productos
+  const productsSubtotal = quote.items.reduce((sum, item) => sum + item.subtotal, 0);
+  const avgItemPrice = itemCount > 0 ? productsSubtotal / totalQuantity : 0;
 
   const discountPercentage = quote.subtotal > 0 ? (quote.discount / quote.subtotal) * 100 : 0;
   const afterDiscount = quote.subtotal - quote.discount;
   const taxPercentage = afterDiscount > 0 ? (quote.tax / afterDiscount) * 100 : 0;
 
-  // Cálculo simplificado del margen de ganancia (asumiendo costo del 70%)
-  const estimatedCost = quote.subtotal * 0.7;
-  const profit = quote.total - estimatedCost;
-  const profitMargin = quote.total > 0 ? (profit / quote.total) * 100 : 0;
+  // Margen de los productos con el costo copiado en cada ítem al presupuestar
+  const hasCost = itemCount > 0 && quote.items.every(item => item.productSnapshot.cost !== undefined);
+  const cost = quote.items.reduce((sum, item) => sum + (item.productSnapshot.cost || 0) * item.quantity, 0);
+  const productsNet = productsSubtotal * (1 - discountPercentage / 100);
+  const profitMargin = hasCost ? calculateMarginPercentage(productsNet, cost) : undefined;
 
   return {
     itemCount,
@@ -486,14 +1099,31 @@ export default {
   getQuotes,
   getQuoteById,
   createQuote,
+  updateQuote,
   cancelQuote,
+  approveQuoteMargin,
   getQuoteStats,
   getQuotesByCustomer,
+  getCustomerQuoteStats,
+  getQuoteRevisions,
+  diffQuoteRevisions,
   validateQuoteData,
   calculateQuoteTotals,
+  getQuoteTaxes,
+  isMarginBelowMinimum,
+  needsMarginApproval,
+  formatMargin,
   generateQuoteNumber,
   formatQuoteStatus,
   isQuoteExpired,
+  canEditQuote,
+  formatItemName,
+  formatLineCount,
+  getQuoteItemVariant,
+  getCurrentItemPrice,
+  hasCatalogPriceChanged,
+  canRequote,
+  buildRequoteData,
   getTimeUntilExpiration,
   filterQuotes,
   sortQuotes,
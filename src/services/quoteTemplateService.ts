@@ -0,0 +1,218 @@
+// ===============================
+// QUOTE TEMPLATE SERVICE - PRESUPUESTOS APP
+// ===============================
+
+import {
+  Product,
+  QuoteTemplate,
+  ResolvedQuoteTemplate,
+  CreateQuoteTemplateRequest,
+  UpdateQuoteTemplateRequest,
+  QuoteTemplatesResponse,
+  ApiResponse
+} from '../types';
+import { get, post, put, del } from './api';
+import { API_ENDPOINTS } from '../types';
+import * as productService from './productService';
+import { PAGINATION } from '../constants/config';
+
+// ===============================
+// QUOTE TEMPLATE SERVICE FUNCTIONS
+// ===============================
+
+/**
+ * Obtener las plantillas de presupuesto ordenadas por nombre
+ */
+export const getQuoteTemplates = async (): Promise<QuoteTemplate[]> => {
+  try {
+    const url = `${API_ENDPOINTS.QUOTE_TEMPLATES.LIST}?limit=${PAGINATION.MAX_LIMIT}&sortBy=name&sortOrder=asc`;
+    const response: ApiResponse<QuoteTemplatesResponse> = await get(url);
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Error obteniendo plantillas');
+    }
+
+    return response.data.items;
+  } catch (error: any) {
+    throw new Error(error.message || 'Error obteniendo plantillas');
+  }
+};
+
+/**
+ * Crear nueva plantilla
+ */
+export const createQuoteTemplate = async (
+  templateData: CreateQuoteTemplateRequest
+): Promise<QuoteTemplate> => {
+  try {
+    const response: ApiResponse<QuoteTemplate> = await post(
+      API_ENDPOINTS.QUOTE_TEMPLATES.CREATE,
+      templateData
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Error creando plantilla');
+    }
+
+    return response.data;
+  } catch (error: any) {
+    throw new Error(error.message || 'Error creando plantilla');
+  }
+};
+
+/**
+ * Actualizar plantilla existente
+ */
+export const updateQuoteTemplate = async (
+  id: string,
+  templateData: UpdateQuoteTemplateRequest
+): Promise<QuoteTemplate> => {
+  try {
+    const response: ApiResponse<QuoteTemplate> = await put(
+      API_ENDPOINTS.QUOTE_TEMPLATES.UPDATE(id),
+      templateData
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Error actualizando plantilla');
+    }
+
+    return response.data;
+  } catch (error: any) {
+    throw new Error(error.message || 'Error actualizando plantilla');
+  }
+};
+
+/**
+ * Eliminar plantilla (los presupuestos creados con ella no cambian)
+ */
+export const deleteQuoteTemplate = async (id: string): Promise<void> => {
+  try {
+    const response: ApiResponse = await del(API_ENDPOINTS.QUOTE_TEMPLATES.DELETE(id));
+
+    if (!response.success) {
+      throw new Error(response.message || 'Error eliminando plantilla');
+    }
+  } catch (error: any) {
+    throw new Error(error.message || 'Error eliminando plantilla');
+  }
+};
+
+// ===============================
+// UTILITY FUNCTIONS
+// ===============================
+
+/**
+ * Validar datos de la plantilla
+ */
+export const validateQuoteTemplateData = (data: CreateQuoteTemplateRequest): {
+  isValid: boolean;
+  errors: Record<string, string>;
+} => {
+  const errors: Record<string, string> = {};
+
+  // Validar nombre
+  if (!data.name || data.name.trim().length < 2) {
+    errors.name = 'El nombre debe tener al menos 2 caracteres';
+  }
+
+  // Validar líneas
+  if (data.items.length === 0 && (data.customItems?.length || 0) === 0) {
+    errors.items = 'La plantilla debe tener al menos un producto o una línea libre';
+  } else if (data.items.some(item => !item.quantity || item.quantity < 1)) {
+    errors.items = 'Las cantidades deben ser mayores a 0';
+  }
+
+  // Validar descuento
+  if (data.discount !== undefined && (isNaN(data.discount) || data.discount < 0 || data.discount > 100)) {
+    errors.discount = 'El descuento debe estar entre 0 y 100%';
+  }
+
+  // Validar notas
+  if (data.notes && data.notes.length > 500) {
+    errors.notes = 'Las notas no pueden superar los 500 caracteres';
+  }
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors,
+  };
+};
+
+/**
+ * Llevar las líneas de la plantilla al catálogo actual. El precio sale del producto
+ * (o la variante) de hoy y la cantidad se limita al stock disponible; `getHeldQuantity`
+ * suma lo que ya reserva el presupuesto en edición. `catalog` tiene que ser el catálogo
+ * activo completo: un producto que no está se da por dado de baja
+ */
+export const resolveTemplateItems = (
+  template: QuoteTemplate,
+  catalog: Product[],
+  getHeldQuantity: (productId: string, variantId?: string) => number = () => 0
+): ResolvedQuoteTemplate => {
+  const resolved: ResolvedQuoteTemplate = { items: [], skipped: [], adjusted: [] };
+
+  template.items.forEach(item => {
+    const product = catalog.find(candidate => candidate._id === item.productId && candidate.isActive);
+    const variant = item.variantId ? product?.variants?.find(candidate => candidate._id === item.variantId) : undefined;
+
+    // Producto dado de baja, variante eliminada o producto que ahora pide elegir variante
+    if (!product || (productService.hasVariants(product) ? !variant : item.variantId)) {
+      resolved.skipped.push(`${item.name}: ya no está disponible`);
+      return;
+    }
+
+    // Otra línea de la plantilla puede haber tomado unidades del mismo producto
+    const taken = resolved.items
+      .filter(line => line.product._id === product._id && line.variant?._id === variant?._id)
+      .reduce((sum, line) => sum + line.quantity, 0);
+    const stockCheck = productService.checkStockAvailability(
+      variant || product,
+      item.quantity + taken,
+      getHeldQuantity(product._id, variant?._id)
+    );
+    const quantity = Math.min(item.quantity, stockCheck.availableQuantity - taken);
+
+    if (quantity <= 0) {
+      resolved.skipped.push(`${item.name}: sin stock`);
+      return;
+    }
+    if (quantity < item.quantity) {
+      resolved.adjusted.push(`${item.name}: ${quantity} de ${item.quantity} unidades`);
+    }
+
+    resolved.items.push({
+      product,
+      variant,
+      quantity,
+      discount: item.discount,
+      taxRate: item.taxRate ?? productService.getTaxRate(product),
+    });
+  });
+
+  return resolved;
+};
+
+/**
+ * Resumen de las líneas de una plantilla para listados (ej: "3 productos • 1 concepto")
+ */
+export const formatTemplateSummary = (template: QuoteTemplate): string => {
+  const units = template.items.reduce((sum, item) => sum + item.quantity, 0);
+  const customCount = template.customItems?.length || 0;
+
+  return [
+    template.items.length > 0 && `${units} ${units === 1 ? 'producto' : 'productos'}`,
+    customCount > 0 && `${customCount} ${customCount === 1 ? 'concepto' : 'conceptos'}`,
+    template.discount && `${template.discount}% de descuento`,
+  ].filter(Boolean).join(' • ');
+};
+
+export default {
+  getQuoteTemplates,
+  createQuoteTemplate,
+  updateQuoteTemplate,
+  deleteQuoteTemplate,
+  validateQuoteTemplateData,
+  resolveTemplateItems,
+  formatTemplateSummary,
+};
@@ -0,0 +1,217 @@
+// ===============================
+// STATS SERVICE - PRESUPUESTOS APP
+// ===============================
+
+import {
+  Payment,
+  StatsRange,
+  RevenuePoint,
+  DashboardStats,
+} from '../types';
+import * as quoteService from './quoteService';
+import * as paymentService from './paymentService';
+import * as productService from './productService';
+import { PAGINATION } from '../constants/config';
+
+// ===============================
+// TYPES
+// ===============================
+
+interface StatsBucket {
+  start: Date;
+  label: string;
+}
+
+// ===============================
+// CONSTANTS
+// ===============================
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Tope de páginas de pagos aprobados a recorrer para armar la serie de ingresos
+const MAX_PAYMENT_PAGES = 10;
+
+// ===============================
+// RANGOS Y PERÍODOS
+// ===============================
+
+const startOfDay = (date: Date): Date => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+};
+
+const formatDayLabel = (date: Date): string => {
+  return `${date.getDate()}/${date.getMonth() + 1}`;
+};
+
+/**
+ * Períodos del gráfico según el rango: días para 7 y 30 días,
+ * semanas para 90 días y meses para 12 meses
+ */
+export const getStatsBuckets = (range: StatsRange, today = new Date()): StatsBucket[] => {
+  const todayStart = startOfDay(today);
+
+  switch (range) {
+    case '7d':
+    case '30d': {
+      const days = range === '7d' ? 7 : 30;
+      return Array.from({ length: days }, (_, index) => {
+        const start = new Date(todayStart.getTime() - (days - 1 - index) * DAY);
+        return { start, label: formatDayLabel(start) };
+      });
+    }
+    case '90d': {
+      const first = new Date(todayStart.getTime() - 90 * DAY);
+      return Array.from({ length: 13 }, (_, index) => {
+        const start = new Date(first.getTime() + index * 7 * DAY);
+        return { start, label: formatDayLabel(start) };
+      });
+    }
+    case '12m':
+    default:
+      return Array.from({ length: 12 }, (_, index) => {
+        const start = new Date(today.getFullYear(), today.getMonth() - 11 + index, 1);
+        return {
+          start,
+          label: start.toLocaleDateString('es-AR', { month: 'short' }).replace('.', ''),
+        };
+      });
+  }
+};
+
+/**
+ * Rango de fechas (YYYY-MM-DD) que cubre los períodos del gráfico
+ */
+export const resolveStatsRange = (range: StatsRange, today = new Date()): {
+  dateFrom: string;
+  dateTo: string;
+} => {
+  const buckets = getStatsBuckets(range, today);
+
+  return {
+    dateFrom: paymentService.formatDateParam(buckets[0].start),
+    dateTo: paymentService.formatDateParam(today),
+  };
+};
+
+/**
+ * Agrupar pagos aprobados por período. Los períodos sin ventas quedan en cero
+ * para que el gráfico muestre la serie completa. Se agrupa por `createdAt`, el mismo
+ * campo con el que el backend filtra el rango, así la serie suma lo mismo que las estadísticas.
+ */
+export const buildRevenueSeries = (
+  payments: Payment[],
+  range: StatsRange,
+  today = new Date()
+): RevenuePoint[] => {
+  const buckets = getStatsBuckets(range, today);
+  const points: RevenuePoint[] = buckets.map(bucket => ({
+    key: paymentService.formatDateParam(bucket.start),
+    label: bucket.label,
+    amount: 0,
+    count: 0,
+  }));
+
+  payments
+    .filter(payment => payment.status === 'approved')
+    .forEach(payment => {
+      const time = new Date(payment.createdAt).getTime();
+      if (time < buckets[0].start.getTime()) return;
+
+      // Último período cuyo inicio es anterior al pago
+      let index = buckets.length - 1;
+      while (index > 0 && buckets[index].start.getTime() > time) {
+        index--;
+      }
+
+      points[index].amount += payment.amount;
+      points[index].count++;
+    });
+
+  return points;
+};
+
+// ===============================
+// STATS SERVICE FUNCTIONS
+// ===============================
+
+/**
+ * Obtener pagos aprobados del rango recorriendo las páginas de PAYMENTS.LIST
+ */
+export const getApprovedPayments = async (
+  dateFrom: string,
+  dateTo: string,
+  forceRefresh = false
+): Promise<Payment[]> => {
+  const payments: Payment[] = [];
+  let page = 1;
+  let totalPages = 1;
+
+  do {
+    const response = await paymentService.getPayments({
+      page,
+      limit: PAGINATION.MAX_LIMIT,
+      status: 'approved',
+      dateFrom,
+      dateTo,
+      sortBy: 'createdAt',
+      sortOrder: 'asc',
+    }, { forceRefresh });
+
+    payments.push(...response.payments);
+    totalPages = response.totalPages;
+    page++;
+  } while (page <= totalPages && page <= MAX_PAYMENT_PAGES);
+
+  return payments;
+};
+
+/**
+ * Obtener todos los datos del dashboard de ventas para un rango
+ */
+export const getDashboardStats = async (
+  range: StatsRange,
+  forceRefresh = false
+): Promise<DashboardStats> => {
+  try {
+    const { dateFrom, dateTo } = resolveStatsRange(range);
+
+    const [quoteStats, paymentStats, payments] = await Promise.all([
+      quoteService.getQuoteStats(dateFrom, dateTo, { forceRefresh }),
+      paymentService.getPaymentStats(dateFrom, dateTo, { forceRefresh }),
+      getApprovedPayments(dateFrom, dateTo, forceRefresh),
+    ]);
+
+    // Si el backend no envía el nombre se busca el producto (puede estar eliminado)
+    const topProducts = await Promise.all(
+      (quoteStats.topProducts || []).map(async entry => {
+        if (entry.name) {
+          return { ...entry, name: entry.name };
+        }
+
+        try {
+          const product = await productService.getProductById(entry._id);
+          return { ...entry, name: product.name };
+        } catch (error) {
+          return { ...entry, name: 'Producto eliminado' };
+        }
+      })
+    );
+
+    return {
+      quoteStats,
+      paymentStats,
+      revenue: buildRevenueSeries(payments, range),
+      topProducts,
+    };
+  } catch (error: any) {
+    throw new Error(error.message || 'Error obteniendo estadísticas');
+  }
+};
+
+export default {
+  getStatsBuckets,
+  resolveStatsRange,
+  buildRevenueSeries,
+  getApprovedPayments,
+  getDashboardStats,
+};
@@ -0,0 +1,167 @@
+// ===============================
+// STOCK SERVICE - PRESUPUESTOS APP
+// ===============================
+
+import {
+  Product,
+  StockMovement,
+  StockMovementType,
+  StockMovementResponse,
+  CreateStockMovementRequest,
+  PaginatedResponse,
+  ApiResponse,
+  CachedReadOptions,
+} from '../types';
+import { get, post, invalidateCache } from './api';
+import { API_ENDPOINTS } from '../types';
+import { CACHE_CONFIG, FORM_CONFIG, PAGINATION } from '../constants/config';
+
+// ===============================
+// STOCK SERVICE FUNCTIONS
+// ===============================
+
+/**
+ * Obtener los movimientos de stock de un producto, del más reciente al más antiguo
+ */
+export const getStockMovements = async (
+  productId: string,
+  page = 1,
+  limit: number = PAGINATION.STOCK_MOVEMENTS_PER_PAGE,
+  options?: CachedReadOptions<PaginatedResponse<StockMovement>>
+): Promise<PaginatedResponse<StockMovement>> => {
+  try {
+    const url = `${API_ENDPOINTS.PRODUCTS.MOVEMENTS(productId)}?page=${page}&limit=${limit}`;
+    const response: ApiResponse<PaginatedResponse<StockMovement>> = await get(url, undefined, {
+      ttl: CACHE_CONFIG.TTL.PRODUCTS,
+      forceRefresh: options?.forceRefresh,
+      onRevalidate: fresh => {
+        if (fresh.success && fresh.data) {
+          options?.onRevalidate?.(fresh.data);
+        }
+      },
+    });
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Error obteniendo movimientos de stock');
+    }
+
+    return response.data;
+  } catch (error: any) {
+    throw new Error(error.message || 'Error obteniendo movimientos de stock');
+  }
+};
+
+/**
+ * Registrar un movimiento de stock. Devuelve el movimiento y el producto con el stock actualizado
+ */
+export const createStockMovement = async (
+  productId: string,
+  movementData: CreateStockMovementRequest
+): Promise<StockMovementResponse> => {
+  try {
+    const response: ApiResponse<StockMovementResponse> = await post(
+      API_ENDPOINTS.PRODUCTS.CREATE_MOVEMENT(productId),
+      movementData
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Error registrando movimiento de stock');
+    }
+
+    // Cambia el stock del producto, sus listas y el historial de movimientos
+    await invalidateCache(API_ENDPOINTS.PRODUCTS.LIST);
+    return response.data;
+  } catch (error: any) {
+    throw new Error(error.message || 'Error registrando movimiento de stock');
+  }
+};
+
+// ===============================
+// UTILITY FUNCTIONS
+// ===============================
+
+/**
+ * Armar el ajuste que lleva el stock físico de `product` a `targetStock`.
+ * Devuelve null si no hay diferencia.
+ */
+export const buildStockAdjustment = (
+  product: Pick<Product, 'stock'>,
+  targetStock: number,
+  reason: string
+): CreateStockMovementRequest | null => {
+  const quantity = targetStock - product.stock;
+  if (quantity === 0) return null;
+
+  return {
+    type: 'adjustment',
+    quantity,
+    reason: reason.trim(),
+  };
+};
+
+/**
+ * Validar un movimiento antes de enviarlo
+ */
+export const validateStockMovement = (
+  product: Pick<Product, 'stock'>,
+  data: CreateStockMovementRequest
+): {
+  isValid: boolean;
+  errors: Record<string, string>;
+} => {
+  const errors: Record<string, string> = {};
+
+  if (!Number.isInteger(data.quantity) || data.quantity === 0) {
+    errors.quantity = 'La cantidad debe ser un número entero distinto de cero';
+  } else if (data.type !== 'adjustment' && data.quantity < 0) {
+    errors.quantity = 'Las compras y devoluciones suman stock';
+  } else if (product.stock + data.quantity < FORM_CONFIG.VALIDATION.MIN_STOCK) {
+    errors.quantity = `El stock no puede quedar negativo (actual: ${product.stock})`;
+  } else if (product.stock + data.quantity > FORM_CONFIG.VALIDATION.MAX_STOCK) {
+    errors.quantity = `El stock no puede superar ${FORM_CONFIG.VALIDATION.MAX_STOCK}`;
+  }
+
+  // Un ajuste manual siempre tiene que explicar por qué cambia el stock
+  if (data.type === 'adjustment' && !data.reason?.trim()) {
+    errors.reason = 'Indica el motivo del ajuste';
+  }
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors,
+  };
+};
+
+/**
+ * Formatear tipo de movimiento
+ */
+export const formatMovementType = (type: StockMovementType): {
+  label: string;
+  icon: string;
+  color: string;
+} => {
+  const typeMap: Record<StockMovementType, { label: string; icon: string; color: string }> = {
+    purchase: { label: 'Compra', icon: 'truck-delivery-outline', color: '#34C759' },
+    adjustment: { label: 'Ajuste manual', icon: 'tune-variant', color: '#5856D6' },
+    sale: { label: 'Venta', icon: 'cart-outline', color: '#007AFF' },
+    return: { label: 'Devolución', icon: 'keyboard-return', color: '#FF9500' },
+  };
+
+  return typeMap[type] || { label: type, icon: 'swap-vertical', color: '#8E8E93' };
+};
+
+/**
+ * Formatear cantidad con signo: +5 / -3
+ */
+export const formatMovementQuantity = (quantity: number): string => {
+  return quantity > 0 ? `+${quantity}` : `${quantity}`;
+};
+
+export default {
+  getStockMovements,
+  createStockMovement,
+  buildStockAdjustment,
+  validateStockMovement,
+  formatMovementType,
+  formatMovementQuantity,
+};
@@ -0,0 +1,501 @@
+// ===============================
+// SYNC SERVICE - PRESUPUESTOS APP
+// ===============================
+
+import NetInfo from '@react-native-community/netinfo';
+import {
+  Product,
+  Quote,
+  OfflineEntity,
+  OfflineMutation,
+  SyncResult,
+  ApiResponse
+} from '../types';
+import { get, post, put, isNetworkError, invalidateCache } from './api';
+import { API_ENDPOINTS } from '../types';
+import {
+  getOfflineQueue,
+  setOfflineQueue,
+  getOfflineIdMap,
+  setOfflineIdMap,
+  setLastSync,
+} from '../utils/storage';
+import { FEATURE_FLAGS, OFFLINE_CONFIG } from '../constants/config';
+
+// ===============================
+// TYPES
+// ===============================
+
+type QueueListener = (queue: OfflineMutation[]) => void;
+
+type NewOfflineMutation = Omit<OfflineMutation, 'id' | 'status' | 'attempts' | 'createdAt'>;
+
+// ===============================
+// STATE
+// ===============================
+
+const queueListeners = new Set<QueueListener>();
+let isReplaying = false;
+
+// ===============================
+// CONNECTIVITY
+// ===============================
+
+/**
+ * Verificar si hay conexión a internet
+ */
+export const isOnline = async (): Promise<boolean> => {
+  const state = await NetInfo.fetch();
+  return Boolean(state.isConnected) && state.isInternetReachable !== false;
+};
+
+/**
+ * Escuchar cambios de conectividad. Devuelve la función para desuscribirse
+ */
+export const subscribeToConnectivity = (
+  listener: (online: boolean) => void
+): (() => void) => {
+  return NetInfo.addEventListener(state => {
+    listener(Boolean(state.isConnected) && state.isInternetReachable !== false);
+  });
+};
+
+// ===============================
+// QUEUE FUNCTIONS
+// ===============================
+
+/**
+ * Generar ID local para entidades creadas sin conexión
+ */
+export const generateClientId = (): string => {
+  const random = Math.random().toString(36).slice(2, 8);
+  return `${OFFLINE_CONFIG.LOCAL_ID_PREFIX}${Date.now().toString(36)}${random}`;
+};
+
+/**
+ * Verificar si un ID fue generado localmente
+ */
+export const isLocalId = (id: string): boolean => {
+  return id.startsWith(OFFLINE_CONFIG.LOCAL_ID_PREFIX);
+};
+
+/**
+ * Obtener la cola de cambios pendientes
+ */
+export const getQueue = async (): Promise<OfflineMutation[]> => {
+  return (await getOfflineQueue()) as OfflineMutation[];
+};
+
+/**
+ * Suscribirse a cambios en la cola. Devuelve la función para desuscribirse
+ */
+export const subscribeToQueue = (listener: QueueListener): (() => void) => {
+  queueListeners.add(listener);
+  return () => {
+    queueListeners.delete(listener);
+  };
+};
+
+/**
+ * Leer, modificar y guardar la cola. Siempre se relee del storage para no
+ * pisar cambios encolados mientras se sincroniza
+ */
+const updateQueue = async (
+  updater: (queue: OfflineMutation[]) => OfflineMutation[]
+): Promise<OfflineMutation[]> => {
+  const queue = updater(await getQueue());
+  await setOfflineQueue(queue);
+  queueListeners.forEach(listener => listener(queue));
+  return queue;
+};
+
+/**
+ * Decidir si una escritura debe encolarse en lugar de enviarse: sin conexión,
+ * o con cambios anteriores todavía pendientes (para respetar el orden)
+ */
+export const shouldQueueMutation = async (): Promise<boolean> => {
+  if (!FEATURE_FLAGS.ENABLE_OFFLINE_MODE) return false;
+  if (!(await isOnline())) return true;
+
+  const queue = await getQueue();
+  return queue.some(mutation => mutation.status === 'pending');
+};
+
+/**
+ * Verificar si un error permite encolar la escritura (falló la red, no el servidor)
+ */
+export const canQueueAfterError = (error: any): boolean => {
+  return FEATURE_FLAGS.ENABLE_OFFLINE_MODE && isNetworkError(error);
+};
+
+/**
+ * Encolar una escritura y devolver la entidad optimista marcada como pendiente
+ */
+export const enqueueMutation = async <T extends Quote | Product>(
+  mutation: NewOfflineMutation
+): Promise<T> => {
+  await updateQueue(queue => {
+    // Editar un producto creado sin conexión se combina con su alta pendiente
+    const pendingCreate = mutation.type === 'updateProduct'
+      ? queue.find(entry =>
+          entry.type === 'createProduct' &&
+          entry.clientId === mutation.clientId &&
+          entry.status === 'pending'
+        )
+      : undefined;
+
+    if (pendingCreate) {
+      return queue.map(entry =>
+        entry.id === pendingCreate.id
+          ? {
+              ...entry,
+              payload: { ...entry.payload, ...mutation.payload },
+              optimistic: mutation.optimistic,
+            }
+          : entry
+      );
+    }
+
+    return [
+      ...queue,
+      {
+        ...mutation,
+        id: generateClientId(),
+        status: 'pending',
+        attempts: 0,
+        createdAt: new Date().toISOString(),
+      },
+    ];
+  });
+
+  return { ...mutation.optimistic, pendingSync: true } as T;
+};
+
+/**
+ * Traducir un ID local al ID asignado por el servidor (si ya se sincronizó)
+ */
+export const resolveId = async (id: string): Promise<string> => {
+  if (!isLocalId(id)) return id;
+  const idMap = await getOfflineIdMap();
+  return idMap[id] || id;
+};
+
+/**
+ * Obtener la versión local de una entidad con cambios pendientes
+ */
+export const getPendingEntity = async <T extends Quote | Product>(
+  entity: OfflineEntity,
+  id: string
+): Promise<T | null> => {
+  const queue = await getQueue();
+  const mutations = queue.filter(mutation => mutation.entity === entity && mutation.clientId === id);
+  if (mutations.length === 0) return null;
+
+  return { ...mutations[mutations.length - 1].optimistic, pendingSync: true } as T;
+};
+
+/**
+ * Aplicar los cambios pendientes sobre una lista del servidor:
+ * reemplaza los editados y agrega al principio los creados sin conexión
+ */
+export const applyPendingMutations = async <T extends Quote | Product>(
+  entity: OfflineEntity,
+  items: T[],
+  includeCreated = true
+): Promise<T[]> => {
+  const queue = (await getQueue()).filter(mutation => mutation.entity === entity);
+  if (queue.length === 0) return items;
+
+  const latestById = new Map<string, T>();
+  queue.forEach(mutation => {
+    latestById.set(mutation.clientId, { ...mutation.optimistic, pendingSync: true } as T);
+  });
+
+  const merged = items.map(item => latestById.get(item._id) || item);
+  const created = includeCreated
+    ? queue
+        .filter(mutation => mutation.type.startsWith('create'))
+        .map(mutation => latestById.get(mutation.clientId) as T)
+        .filter(item => !items.some(existing => existing._id === item._id))
+    : [];
+
+  return [...created.reverse(), ...merged];
+};
+
+// ===============================
+// REPLAY
+// ===============================
+
+/**
+ * Reemplazar IDs locales ya sincronizados en la URL y el payload
+ */
+const rewriteLocalIds = (
+  mutation: OfflineMutation,
+  idMap: Record<string, string>
+): OfflineMutation => {
+  let url = mutation.url;
+  let payload = JSON.stringify(mutation.payload);
+
+  Object.entries(idMap).forEach(([localId, serverId]) => {
+    url = url.split(localId).join(serverId);
+    payload = payload.split(localId).join(serverId);
+  });
+
+  return {
+    ...mutation,
+    url,
+    clientId: idMap[mutation.clientId] || mutation.clientId,
+    payload: JSON.parse(payload),
+  };
+};
+
+/**
+ * Verificar si un error es transitorio (reintentar más tarde) o un rechazo del servidor
+ */
+const isTransientError = (error: any): boolean => {
+  const code: string = error?.error?.code || '';
+  return isNetworkError(error) || code === 'HTTP_401' || /^HTTP_5\d\d$/.test(code);
+};
+
+const isNotFoundError = (error: any): boolean => {
+  const code = error?.error?.code;
+  return code === 'HTTP_404' || code === 'NOT_FOUND';
+};
+
+/**
+ * Obtener el producto actual del servidor (null si fue eliminado)
+ */
+const fetchServerProduct = async (id: string): Promise<Product | null> => {
+  try {
+    const response: ApiResponse<Product> = await get(API_ENDPOINTS.PRODUCTS.GET(id));
+    return response.success && response.data ? response.data : null;
+  } catch (error: any) {
+    if (isNotFoundError(error)) return null;
+    throw error;
+  }
+};
+
+/**
+ * Detectar conflictos antes de reenviar: productos eliminados, cambios de stock
+ * o ediciones hechas por otro usuario mientras no había conexión
+ */
+const detectConflict = async (mutation: OfflineMutation): Promise<string | null> => {
+  if (mutation.type === 'updateProduct') {
+    const product = await fetchServerProduct(mutation.clientId);
+
+    if (!product) {
+      return 'El producto fue eliminado en el servidor';
+    }
+
+    if (mutation.baseUpdatedAt && product.updatedAt && product.updatedAt !== mutation.baseUpdatedAt) {
+      return 'El producto fue modificado por otro usuario mientras estabas sin conexión';
+    }
+
+    return null;
+  }
+
+  if (mutation.type === 'createQuote') {
+    const quote = mutation.optimistic as Quote;
+    const items: Array<{ productId: string; variantId?: string; quantity: number }> = mutation.payload.items || [];
+
+    for (const [index, item] of items.entries()) {
+      const snapshot = quote.items[index]?.productSnapshot;
+      const name = snapshot
+        ? (snapshot.variant ? `${snapshot.name} (${snapshot.variant.label})` : snapshot.name)
+        : 'producto';
+
+      if (isLocalId(item.productId)) {
+        return `Incluye "${name}", que todavía no se pudo sincronizar`;
+      }
+
+      const product = await fetchServerProduct(item.productId);
+
+      if (!product || !product.isActive) {
+        return `El producto "${name}" ya no está disponible`;
+      }
+
+      // Con variantes el stock que cuenta es el de la variante presupuestada
+      const variant = item.variantId ? product.variants?.find(candidate => candidate._id === item.variantId) : undefined;
+      if (item.variantId && !variant) {
+        return `La variante de "${name}" ya no está disponible`;
+      }
+
+      const stockSource = variant || product;
+      const available = Math.max(stockSource.stock - (stockSource.reservedStock || 0), 0);
+      if (available < item.quantity) {
+        return `Stock insuficiente de "${name}": quedan ${available} disponibles, se pidieron ${item.quantity}`;
+      }
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Reenviar en orden los cambios pendientes. Se detiene al primer error de red;
+ * los rechazos del servidor quedan como conflicto para que el usuario decida
+ */
+export const replayQueue = async (): Promise<SyncResult> => {
+  const emptyResult = async (): Promise<SyncResult> => {
+    const queue = await getQueue();
+    return {
+      synced: 0,
+      pending: queue.filter(mutation => mutation.status === 'pending').length,
+      conflicts: queue.filter(mutation => mutation.status === 'conflict'),
+    };
+  };
+
+  if (isReplaying || !(await isOnline())) {
+    return emptyResult();
+  }
+
+  isReplaying = true;
+  let synced = 0;
+  const newConflicts: OfflineMutation[] = [];
+
+  try {
+    const idMap = await getOfflineIdMap();
+    const pending = (await getQueue()).filter(mutation => mutation.status === 'pending');
+
+    for (const mutation of pending) {
+      const prepared = rewriteLocalIds(mutation, idMap);
+
+      try {
+        const conflict = await detectConflict(prepared);
+
+        if (conflict) {
+          const conflicted = { ...mutation, status: 'conflict' as const, error: conflict };
+          newConflicts.push(conflicted);
+          await updateQueue(queue => queue.map(entry => entry.id === mutation.id ? conflicted : entry));
+          continue;
+        }
+
+        const response: ApiResponse<Quote | Product> = prepared.method === 'post'
+          ? await post(prepared.url, prepared.payload)
+          : await put(prepared.url, prepared.payload);
+
+        if (!response.success || !response.data) {
+          throw new Error(response.message || 'Error sincronizando cambios');
+        }
+
+        if (isLocalId(mutation.clientId)) {
+          idMap[mutation.clientId] = response.data._id;
+          await setOfflineIdMap(idMap);
+        }
+
+        synced++;
+        // Un presupuesto sincronizado también reserva stock
+        await invalidateCache(
+          ...(mutation.entity === 'quote'
+            ? [API_ENDPOINTS.QUOTES.LIST, API_ENDPOINTS.PRODUCTS.LIST]
+            : [API_ENDPOINTS.PRODUCTS.LIST])
+        );
+        await updateQueue(queue => queue.filter(entry => entry.id !== mutation.id));
+      } catch (error: any) {
+        if (isTransientError(error)) {
+          await updateQueue(queue => queue.map(entry =>
+            entry.id === mutation.id ? { ...entry, attempts: entry.attempts + 1 } : entry
+          ));
+          break;
+        }
+
+        const conflicted = {
+          ...mutation,
+          status: 'conflict' as const,
+          error: error.message || 'El servidor rechazó el cambio',
+        };
+        newConflicts.push(conflicted);
+        await updateQueue(queue => queue.map(entry => entry.id === mutation.id ? conflicted : entry));
+      }
+    }
+
+    if (synced > 0) {
+      await setLastSync(Date.now());
+    }
+  } finally {
+    isReplaying = false;
+  }
+
+  const result = await emptyResult();
+  return { ...result, synced, conflicts: newConflicts };
+};
+
+/**
+ * Volver a intentar un cambio marcado como conflicto
+ */
+export const retryMutation = async (id: string): Promise<SyncResult> => {
+  await updateQueue(queue => queue.map(entry =>
+    entry.id === id ? { ...entry, status: 'pending', error: undefined } : entry
+  ));
+  return replayQueue();
+};
+
+/**
+ * Reenviar una edición de producto en conflicto conservando los cambios locales.
+ * La versión actual del servidor pasa a ser la base, así el reintento no vuelve a
+ * detectar el mismo conflicto y la edición pisa lo que cambió otro usuario
+ */
+export const overwriteMutation = async (id: string): Promise<SyncResult> => {
+  const mutation = (await getQueue()).find(entry => entry.id === id);
+
+  if (!mutation || mutation.type !== 'updateProduct') {
+    throw new Error('Solo se pueden conservar ediciones de productos');
+  }
+
+  const product = await fetchServerProduct(await resolveId(mutation.clientId));
+  if (!product) {
+    throw new Error('El producto fue eliminado en el servidor');
+  }
+
+  await updateQueue(queue => queue.map(entry =>
+    entry.id === id
+      ? { ...entry, status: 'pending', error: undefined, baseUpdatedAt: product.updatedAt }
+      : entry
+  ));
+  return replayQueue();
+};
+
+/**
+ * Descartar un cambio pendiente o en conflicto
+ */
+export const discardMutation = async (id: string): Promise<void> => {
+  await updateQueue(queue => queue.filter(entry => entry.id !== id));
+};
+
+/**
+ * Descripción legible de un cambio encolado
+ */
+export const describeMutation = (mutation: OfflineMutation): string => {
+  switch (mutation.type) {
+    case 'createQuote': {
+      const quote = mutation.optimistic as Quote;
+      return `Nuevo presupuesto para ${quote.customer.name}`;
+    }
+    case 'createProduct':
+      return `Nuevo producto: ${(mutation.optimistic as Product).name}`;
+    case 'updateProduct':
+      return `Edición de producto: ${(mutation.optimistic as Product).name}`;
+    default:
+      return 'Cambio pendiente';
+  }
+};
+
+export default {
+  isOnline,
+  subscribeToConnectivity,
+  generateClientId,
+  isLocalId,
+  getQueue,
+  subscribeToQueue,
+  shouldQueueMutation,
+  canQueueAfterError,
+  enqueueMutation,
+  resolveId,
+  getPendingEntity,
+  applyPendingMutations,
+  replayQueue,
+  retryMutation,
+  overwriteMutation,
+  discardMutation,
+  describeMutation,
+};
@@ -22,21 +22,122 @@ export interface Product {
   id?: string;
   name: string;
   description: string;
-  price: number;
-  stock: number;
+  price: number; // precio de las variantes que no tienen uno propio; en kits con descuento lo calcula el backend
+  cost?: number; // costo unitario, el mismo para todas las variantes; solo lo reciben administradores. En kits, la suma de los componentes
+  stock: number; // unidades físicas en depósito; con variantes, la suma de todas; en kits, los que se pueden armar
+  reservedStock?: number; // unidades comprometidas por presupuestos pendientes
   category: string;
   sku?: string;
-  imageUrl?: string;
+  barcode?: string;
+  imageUrl?: string; // imagen principal: la primera de `images`
+  images?: string[];
+  options?: ProductOption[];
+  variants?: ProductVariant[]; // si hay variantes se presupuesta siempre una de ellas
+  bundle?: ProductBundle; // kit armado con otros productos: no tiene stock propio
+  reorderPoint?: number; // stock mínimo antes de reponer; sin valor se usa STOCK_CONFIG.DEFAULT_REORDER_POINT
+  taxRate?: number; // alícuota de IVA (%); sin valor se usa TAX_CONFIG.DEFAULT_IVA_RATE
   isActive: boolean;
+  pendingSync?: boolean; // cambios locales todavía no enviados al servidor
   createdAt?: string;
   updatedAt?: string;
 }
 
+// Eje de variación de un producto (talle, color, modelo) con sus valores posibles
+export interface ProductOption {
+  name: string;
+  values: string[];
+}
+
+// Combinación de valores de las opciones, con SKU, precio y stock propios
+export interface ProductVariant {
+  _id: string;
+  sku: string;
+  options: Record<string, string>; // nombre de la opción -> valor
+  price?: number; // sin valor se usa el precio del producto
+  stock: number;
+  reservedStock?: number;
+}
+
+// Variante copiada en presupuestos y movimientos, con la etiqueta que tenía en ese momento
+export interface ProductVariantSnapshot {
+  _id: string;
+  sku: string;
+  label: string;
+}
+
+// Precio del kit: propio o la suma de los componentes con un descuento
+export type BundlePricing = 'fixed' | 'discount';
+
+export interface ProductBundle {
+  components: BundleComponent[];
+  pricing: BundlePricing;
+  discount?: number; // porcentaje sobre la suma de los componentes (pricing 'discount')
+}
+
+// Producto que forma parte de un kit y unidades que lleva cada kit.
+// También se copia en los ítems del presupuesto con el nombre y SKU de ese momento
+export interface BundleComponent {
+  product: string;
+  name: string;
+  sku?: string;
+  quantity: number;
+}
+
+// Ingreso (cantidad positiva) o egreso (negativa) del stock físico de un producto
+export type StockMovementType = 'purchase' | 'adjustment' | 'sale' | 'return';
+
+export interface StockMovement {
+  _id: string;
+  product: string;
+  variant?: ProductVariantSnapshot;
+  type: StockMovementType;
+  quantity: number;
+  balance: number; // stock físico después del movimiento (de la variante, si tiene)
+  reason?: string;
+  reference?: string; // remito, factura o número de presupuesto
+  quote?: string; // presupuesto que originó la venta
+  createdBy?: string;
+  createdAt: string;
+}
+
+// Cambio del precio de lista de un producto (o del precio propio de una variante),
+// registrado por el backend
+export interface PriceChange {
+  _id: string;
+  product: string;
+  variant?: string; // sin valor es el precio del producto
+  variantLabel?: string;
+  previousPrice: number;
+  price: number;
+  reason?: string;
+  batch?: string; // actualización masiva que lo generó
+  createdBy?: string;
+  createdAt: string;
+}
+
 export interface Customer {
+  _id: string;
+  id?: string;
+  name: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  taxId?: string;
+  notes?: string;
+  isActive?: boolean;
+  createdBy?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Datos del cliente copiados en el presupuesto al crearlo/editarlo
+export interface QuoteCustomer {
+  customerId?: string;
   name: string;
   email?: string;
   phone?: string;
   address?: string;
+  taxId?: string;
 }
 
 export interface QuoteItem {
@@ -44,30 +145,152 @@ export interface QuoteItem {
   productSnapshot: {
     name: string;
     price: number;
+    variant?: ProductVariantSnapshot;
+    components?: BundleComponent[]; // desglose del kit; la reserva y la venta se aplican a estos productos
+    cost?: number; // costo unitario al presupuestar; solo visible para administradores
   };
   quantity: number;
-  subtotal: number;
+  discount?: number; // descuento de la línea (%), antes del descuento general
+  taxRate?: number; // alícuota de IVA aplicada; los presupuestos anteriores usaban un impuesto general
+  subtotal: number; // precio x cantidad menos el descuento de la línea, sin IVA
+}
+
+// Línea libre que no sale del catálogo (mano de obra, envío, instalación):
+// no reserva stock ni tiene costo, así que no entra en el margen
+export interface QuoteCustomItem {
+  description: string;
+  unitPrice: number;
+  quantity: number;
+  discount?: number; // descuento de la línea (%), antes del descuento general
+  taxRate: number;
+  subtotal: number; // precio x cantidad menos el descuento de la línea, sin IVA
+}
+
+// Base imponible e IVA de una alícuota, después de los descuentos
+export interface QuoteTaxLine {
+  rate: number; // 0 es exento
+  base: number;
+  amount: number;
 }
 
 export interface Quote {
   _id: string;
   id?: string;
   quoteNumber: string;
-  customer: Customer;
+  customer: QuoteCustomer;
   items: QuoteItem[];
+  customItems?: QuoteCustomItem[];
   subtotal: number;
-  tax: number;
+  tax: number; // IVA total; el detalle por alícuota está en `taxes`
+  taxes?: QuoteTaxLine[];
   discount: number;
   total: number;
   status: 'pending' | 'paid' | 'cancelled' | 'expired';
   paymentId?: string;
   expiresAt: string;
   notes?: string;
+  version?: number;
+  marginApproval?: QuoteMarginApproval; // presente cuando el margen quedó bajo MARGIN_CONFIG.MIN_MARGIN_PERCENTAGE
+  pendingSync?: boolean; // creado sin conexión, todavía no enviado al servidor
   createdBy?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+// Qué pasa cuando un vendedor guarda un presupuesto bajo el margen mínimo:
+// 'approval' lo deja pendiente de aprobación de un administrador, 'block' lo rechaza
+export type MarginBelowMinAction = 'approval' | 'block';
+
+// Aprobación de un presupuesto cuyo margen después del descuento quedó bajo el mínimo.
+// Mientras esté pendiente no se puede cobrar
+export interface QuoteMarginApproval {
+  status: 'pending' | 'approved';
+  marginPercentage?: number; // solo visible para administradores
+  requestedBy?: string;
+  approvedBy?: string;
+  approvedAt?: string;
+}
+
+// Totales de una línea calculados en la app. El IVA y el margen se calculan después
+// del descuento general; sin costo del producto no hay margen
+export interface QuoteLineTotals {
+  subtotal: number;
+  discountAmount: number; // descuento de la línea
+  taxRate: number;
+  taxAmount: number;
+  cost?: number;
+  margin?: number;
+  marginPercentage?: number;
+}
+
+export interface QuoteRevisionItem {
+  productId: string;
+  productSnapshot: {
+    name: string;
+    price: number;
+    variant?: ProductVariantSnapshot;
+    components?: BundleComponent[]; // desglose del kit; la reserva y la venta se aplican a estos productos
+    cost?: number; // costo unitario al presupuestar; solo visible para administradores
+  };
+  quantity: number;
+  discount?: number;
+  taxRate?: number;
+  subtotal: number;
+}
+
+// Snapshot inmutable de un presupuesto, generado por el backend al crear y en cada edición
+export interface QuoteRevision {
+  _id: string;
+  quote: string;
+  version: number;
+  items: QuoteRevisionItem[];
+  customItems?: QuoteCustomItem[];
+  subtotal: number;
+  discount: number;
+  tax: number;
+  total: number;
+  notes?: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
+// Línea de una plantilla: producto (o variante) y cantidad, sin precio. Al usarla se
+// cotiza al precio actual del catálogo
+export interface QuoteTemplateItem {
+  productId: string;
+  variantId?: string;
+  name: string; // nombre y variante al guardarla, para mostrarla aunque el producto se dé de baja
+  quantity: number;
+  discount?: number;
+  taxRate?: number;
+}
+
+// Presupuesto que se repite (ej: un paquete de equipos con instalación), sin cliente
+export interface QuoteTemplate {
+  _id: string;
+  name: string;
+  items: QuoteTemplateItem[];
+  customItems?: Array<Omit<QuoteCustomItem, 'subtotal'>>;
+  discount?: number; // descuento general (%)
+  notes?: string;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Plantilla aplicada al catálogo actual: precio y stock de hoy
+export interface ResolvedQuoteTemplate {
+  items: Array<{
+    product: Product;
+    variant?: ProductVariant;
+    quantity: number;
+    discount?: number;
+    taxRate: number;
+  }>;
+  skipped: string[]; // líneas que no se pudieron agregar, con el motivo
+  adjusted: string[]; // líneas que se achicaron al stock disponible
+}
+
 export interface Payment {
   _id: string;
   id?: string;
@@ -83,10 +306,20 @@ export interface Payment {
   externalReference?: string;
   expiresAt?: string;
   paidAt?: string;
+  receiptNumber?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+// Comprobante emitido por el backend con numeración correlativa (una vez por pago aprobado)
+export interface PaymentReceipt {
+  _id: string;
+  receiptNumber: string;
+  payment: string;
+  quote: string;
+  issuedAt: string;
+}
+
 // ===============================
 // DTOs Y REQUESTS
 // ===============================
@@ -112,25 +345,116 @@ export interface CreateProductRequest {
   name: string;
   description: string;
   price: number;
+  cost?: number; // solo administradores; en kits lo calcula el backend
   stock: number;
   category: string;
   sku?: string;
+  barcode?: string;
   imageUrl?: string;
+  images?: string[];
+  reorderPoint?: number;
+  taxRate?: number;
+  options?: ProductOption[];
+  variants?: ProductVariantRequest[];
+  bundle?: ProductBundle | null; // el backend completa nombre y SKU de los componentes; null deja de ser kit
+  clientId?: string; // ID generado offline; el backend lo usa para no duplicar al reintentar
+}
+
+// Sin `_id` es una variante nueva; su `stock` solo se toma al crearla
+export interface ProductVariantRequest {
+  _id?: string;
+  sku: string;
+  options: Record<string, string>;
+  price?: number;
+  stock?: number;
+}
+
+export interface UpdateProductRequest extends Partial<Omit<CreateProductRequest, 'cost'>> {
+  cost?: number | null; // null borra el costo guardado
+}
+
+// Las ventas las registra el backend al aprobarse el pago del presupuesto
+export interface CreateStockMovementRequest {
+  type: Exclude<StockMovementType, 'sale'>;
+  variantId?: string; // requerido si el producto tiene variantes
+  quantity: number;
+  reason?: string;
+  reference?: string;
+}
+
+export interface StockMovementResponse {
+  movement: StockMovement;
+  product: Product;
+}
+
+// `previousPrice` es el precio que vio el usuario: si cambió en el servidor se rechaza todo el lote
+export interface BulkPriceChange {
+  productId: string;
+  previousPrice: number;
+  price: number;
+  variants?: BulkVariantPriceChange[]; // variantes con precio propio
+}
+
+export interface BulkVariantPriceChange {
+  variantId: string;
+  previousPrice: number;
+  price: number;
+}
+
+export interface BulkPriceUpdateRequest {
+  changes: BulkPriceChange[];
+  reason?: string;
+}
+
+export interface BulkPriceUpdateResponse {
+  updated: number;
+  products: Product[];
 }
 
-export interface UpdateProductRequest extends Partial<CreateProductRequest> {}
+export interface CreateCustomerRequest {
+  name: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  taxId?: string;
+  notes?: string;
+}
+
+export interface UpdateCustomerRequest extends Partial<CreateCustomerRequest> {}
 
 export interface CreateQuoteRequest {
-  customer: Customer;
+  customer: QuoteCustomer;
   items: Array<{
     productId: string;
+    variantId?: string; // requerido si el producto tiene variantes
+    quantity: number;
+    discount?: number; // descuento de la línea (%)
+    taxRate?: number; // sin valor se usa la alícuota del producto
+  }>;
+  customItems?: Array<{
+    description: string;
+    unitPrice: number;
     quantity: number;
+    discount?: number;
+    taxRate?: number; // sin valor se usa la alícuota general
   }>;
+  discount?: number; // descuento general (%) sobre la suma de las líneas
+  notes?: string;
+  clientId?: string; // ID generado offline; el backend lo usa para no duplicar al reintentar
+}
+
+export interface UpdateQuoteRequest extends Partial<CreateQuoteRequest> {}
+
+export interface CreateQuoteTemplateRequest {
+  name: string;
+  items: CreateQuoteRequest['items'];
+  customItems?: CreateQuoteRequest['customItems'];
   discount?: number;
-  tax?: number;
   notes?: string;
 }
 
+export interface UpdateQuoteTemplateRequest extends Partial<CreateQuoteTemplateRequest> {}
+
 export interface CreatePaymentRequest {
   quoteId: string;
 }
@@ -145,6 +469,10 @@ export interface CreatePaymentResponse {
   expiresAt: string;
 }
 
+export interface UploadedImage {
+  url: string;
+}
+
 // ===============================
 // API RESPONSES
 // ===============================
@@ -159,6 +487,17 @@ export interface ApiResponse<T = any> {
   };
 }
 
+export interface ApiCacheOptions<T = any> {
+  ttl: number;
+  forceRefresh?: boolean; // ignora la copia local (pull to refresh)
+  onRevalidate?: (response: ApiResponse<T>) => void; // respuesta nueva tras servir una copia vencida
+}
+
+export interface CachedReadOptions<T> {
+  forceRefresh?: boolean;
+  onRevalidate?: (data: T) => void;
+}
+
 export interface PaginatedResponse<T> {
   items: T[];
   total: number;
@@ -191,6 +530,30 @@ export interface QuotesResponse {
   };
 }
 
+export interface CustomersResponse {
+  items: Customer[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+  };
+}
+
+export interface QuoteTemplatesResponse {
+  items: QuoteTemplate[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+  };
+}
+
 export interface PaymentsResponse {
   payments: Payment[];
   total: number;
@@ -217,29 +580,51 @@ export type AuthStackParamList = {
 export type MainTabParamList = {
   Products: undefined;
   Quotes: undefined;
+  Payments: undefined;
+  Stats: undefined;
   Profile: undefined;
 };
 
 export type ProductStackParamList = {
   ProductList: undefined;
   ProductDetail: { productId: string };
-  ProductForm: { productId?: string };
+  ProductForm: { productId?: string; barcode?: string } | undefined;
   ProductSearch: undefined;
+  BarcodeScanner: undefined;
+  LowStock: undefined;
+  StockMovementForm: { productId: string; variantId?: string };
+  ProductImport: undefined;
+  BulkPriceUpdate: undefined;
 };
 
 export type QuoteStackParamList = {
   QuoteList: undefined;
-  CreateQuote: { quoteId?: string } | undefined;
+  CreateQuote: { quoteId?: string; customer?: QuoteCustomer; templateId?: string } | undefined;
   QuoteDetail: { quoteId: string };
+  QuoteTemplates: undefined;
   PaymentQR: { paymentId: string };
   PaymentSuccess: { paymentId: string; quoteId: string };
-  CustomerForm: undefined;
+  CustomerList: undefined;
+  CustomerDetail: { customerId: string };
+  CustomerForm: { customerId?: string } | undefined;
+  CustomerHistory: { email: string; name?: string };
+};
+
+export type PaymentStackParamList = {
+  PaymentHistory: undefined;
+  PaymentDetail: { paymentId: string };
+};
+
+export type StatsStackParamList = {
+  Dashboard: undefined;
 };
 
 export type ProfileStackParamList = {
   ProfileMain: undefined;
   ProfileSettings: undefined;
   ChangePassword: undefined;
+  DocumentSettings: undefined;
+  SyncStatus: undefined;
 };
 
 // ===============================
@@ -337,16 +722,150 @@ export interface QuoteFilters {
   sortOrder?: 'asc' | 'desc';
 }
 
+export interface CustomerFilters {
+  page?: number;
+  limit?: number;
+  search?: string;
+  sortBy?: 'name' | 'createdAt';
+  sortOrder?: 'asc' | 'desc';
+}
+
 export interface PaymentFilters {
   page?: number;
   limit?: number;
   status?: Payment['status'];
   dateFrom?: string;
   dateTo?: string;
+  minAmount?: number;
+  maxAmount?: number;
   sortBy?: 'createdAt' | 'amount';
   sortOrder?: 'asc' | 'desc';
 }
 
+export type PaymentDateRange = 'all' | 'today' | 'week' | 'month' | 'custom';
+
+// Filtros del historial de pagos; se guardan en el dispositivo entre sesiones
+export interface PaymentHistoryFilters {
+  status?: Payment['status'];
+  dateRange: PaymentDateRange;
+  dateFrom?: string; // YYYY-MM-DD, solo con dateRange 'custom'
+  dateTo?: string;
+  minAmount?: number;
+  maxAmount?: number;
+}
+
+// ===============================
+// DOCUMENTOS (PDF)
+// ===============================
+
+export interface CompanyInfo {
+  name: string;
+  address?: string;
+  phone?: string;
+  email?: string;
+  taxId?: string;
+  logoUrl?: string;
+}
+
+// Plantilla configurable por admins. Si customHtml está vacío se usa la plantilla por defecto
+export interface DocumentTemplate {
+  company: CompanyInfo;
+  primaryColor: string;
+  footerText: string;
+  showPaymentQR: boolean;
+  customHtml?: string;
+}
+
+// ===============================
+// ACTUALIZACIÓN MASIVA DE PRECIOS
+// ===============================
+
+export type PriceAdjustmentMode = 'percentage' | 'fixed';
+
+// Regla que se aplica a cada producto; `value` negativo baja los precios
+export interface PriceAdjustment {
+  mode: PriceAdjustmentMode;
+  value: number;
+  roundingStep: number;
+}
+
+// ===============================
+// IMPORTACIÓN DE PRODUCTOS (CSV)
+// ===============================
+
+// Fila del CSV ya mapeada y validada. Si el SKU coincide con un producto existente se actualiza
+export interface ProductImportRow {
+  line: number; // número de línea en el archivo (la 1 es el encabezado)
+  data: CreateProductRequest;
+  action: 'create' | 'update';
+  existingProduct?: Product;
+  errors: Record<string, string>;
+}
+
+export interface ProductImportResult {
+  created: number;
+  updated: number;
+  failed: { line: number; name: string; message: string }[];
+}
+
+// ===============================
+// MODO OFFLINE
+// ===============================
+
+export type OfflineEntity = 'quote' | 'product';
+
+export type OfflineMutationType = 'createQuote' | 'createProduct' | 'updateProduct';
+
+export type OfflineMutationStatus = 'pending' | 'conflict';
+
+// Request de escritura guardado sin conexión, se reenvía en orden al recuperar la red
+export interface OfflineMutation {
+  id: string;
+  type: OfflineMutationType;
+  entity: OfflineEntity;
+  method: 'post' | 'put';
+  url: string;
+  payload: any;
+  clientId: string; // ID local (o real, en updates) de la entidad afectada
+  optimistic: Quote | Product; // cómo se muestra la entidad hasta sincronizar
+  baseUpdatedAt?: string; // versión sobre la que se editó, para detectar conflictos
+  status: OfflineMutationStatus;
+  attempts: number;
+  error?: string;
+  createdAt: string;
+}
+
+export interface SyncResult {
+  synced: number;
+  pending: number;
+  conflicts: OfflineMutation[];
+}
+
+// ===============================
+// HISTORIAL DE VERSIONES
+// ===============================
+
+export interface QuoteRevisionItemDiff {
+  productId: string;
+  name: string;
+  type: 'added' | 'removed' | 'changed' | 'unchanged';
+  before?: QuoteRevisionItem;
+  after?: QuoteRevisionItem;
+}
+
+export interface QuoteRevisionTotalDiff {
+  field: 'subtotal' | 'discount' | 'tax' | 'total';
+  label: string;
+  before: number;
+  after: number;
+}
+
+export interface QuoteRevisionDiff {
+  items: QuoteRevisionItemDiff[];
+  totals: QuoteRevisionTotalDiff[];
+  notesChanged: boolean;
+}
+
 // ===============================
 // ESTADÍSTICAS
 // ===============================
@@ -362,11 +881,45 @@ export interface QuoteStats {
   conversionRate: number;
   topProducts?: Array<{
     _id: string;
+    name?: string;
+    count: number;
+    totalValue: number;
+  }>;
+}
+
+export type StatsRange = '7d' | '30d' | '90d' | '12m';
+
+// Ingresos aprobados agrupados por día, semana o mes según el rango
+export interface RevenuePoint {
+  key: string; // inicio del período (YYYY-MM-DD)
+  label: string;
+  amount: number;
+  count: number;
+}
+
+export interface DashboardStats {
+  quoteStats: QuoteStats;
+  paymentStats: PaymentStats;
+  revenue: RevenuePoint[];
+  topProducts: Array<{
+    _id: string;
+    name: string;
     count: number;
     totalValue: number;
   }>;
 }
 
+// Métricas calculadas en el cliente a partir de QUOTES.BY_CUSTOMER
+export interface CustomerQuoteStats {
+  quoteCount: number;
+  paidCount: number;
+  quotedValue: number;
+  paidValue: number;
+  conversionRate: number;
+  averageTicket: number;
+  lastContactAt?: string;
+}
+
 export interface PaymentStats {
   totalPayments: number;
   totalAmount: number;
@@ -390,6 +943,26 @@ export interface AuthContextData extends UseAuthReturn {}
 
 export interface CartContextData extends UseCartReturn {}
 
+export interface SyncContextData {
+  isOnline: boolean;
+  isSyncing: boolean;
+  queue: OfflineMutation[];
+  pendingCount: number;
+  conflicts: OfflineMutation[];
+  lastSync: number | null;
+  syncNow: () => Promise<void>;
+  retryMutation: (id: string) => Promise<void>;
+  overwriteMutation: (id: string) => Promise<void>;
+  discardMutation: (id: string) => Promise<void>;
+}
+
+export interface StockAlertContextData {
+  lowStockProducts: Product[];
+  lowStockCount: number;
+  isLoading: boolean;
+  refreshLowStock: (forceRefresh?: boolean) => Promise<void>;
+}
+
 export interface AppContextData {
   isOnline: boolean;
   theme: 'light' | 'dark';
@@ -450,16 +1023,41 @@ export interface ProductFormData {
   name: string;
   description: string;
   price: string;
+  cost?: string;
   stock: string;
+  stockReason?: string; // motivo del ajuste cuando se edita el stock
+  reorderPoint?: string;
+  taxRate?: string;
   category: string;
   sku?: string;
-  imageUrl?: string;
+  barcode?: string;
+}
+
+export interface ProductOptionFormData {
+  name: string;
+  values: string; // separados por coma
+}
+
+export interface ProductVariantFormData {
+  _id?: string;
+  sku: string;
+  options: Record<string, string>;
+  price: string; // vacío usa el precio del producto
+  stock: string;
+}
+
+export interface BundleComponentFormData {
+  product: Product;
+  quantity: string;
 }
 
 export interface CustomerFormData {
   name: string;
   email?: string;
   phone?: string;
+  address?: string;
+  taxId?: string;
+  notes?: string;
 }
 
 export interface QuoteFormData {
@@ -521,23 +1119,48 @@ export const API_ENDPOINTS = {
     GET: (id: string) => `/products/${id}`,
     CATEGORIES: '/products/categories',
     LOW_STOCK: '/products/low-stock',
+    BY_BARCODE: (code: string) => `/products/barcode/${encodeURIComponent(code)}`,
+    MOVEMENTS: (id: string) => `/products/${id}/movements`,
+    CREATE_MOVEMENT: (id: string) => `/products/${id}/movements`,
+    BULK_PRICE: '/products/bulk-price',
+    PRICE_HISTORY: (id: string) => `/products/${id}/prices`,
+  },
+  CUSTOMERS: {
+    LIST: '/customers',
+    CREATE: '/customers',
+    GET: (id: string) => `/customers/${id}`,
+    UPDATE: (id: string) => `/customers/${id}`,
+    DELETE: (id: string) => `/customers/${id}`,
   },
   QUOTES: {
     LIST: '/quotes',
     CREATE: '/quotes',
     GET: (id: string) => `/quotes/${id}`,
+    UPDATE: (id: string) => `/quotes/${id}`,
     CANCEL: (id: string) => `/quotes/${id}/cancel`,
+    APPROVE_MARGIN: (id: string) => `/quotes/${id}/approve-margin`,
+    REVISIONS: (id: string) => `/quotes/${id}/revisions`,
     STATS: '/quotes/stats',
-    BY_CUSTOMER: (email: string) => `/quotes/customer/${email}`,
+    BY_CUSTOMER: (email: string) => `/quotes/customer/${encodeURIComponent(email)}`,
+  },
+  QUOTE_TEMPLATES: {
+    LIST: '/quote-templates',
+    CREATE: '/quote-templates',
+    UPDATE: (id: string) => `/quote-templates/${id}`,
+    DELETE: (id: string) => `/quote-templates/${id}`,
   },
   PAYMENTS: {
     CREATE: '/payments/create',
     STATUS: (id: string) => `/payments/${id}/status`,
     CANCEL: (id: string) => `/payments/${id}/cancel`,
+    RECEIPT: (id: string) => `/payments/${id}/receipt`,
     LIST: '/payments',
     STATS: '/payments/stats',
     WEBHOOK: '/payments/webhook',
   },
+  UPLOADS: {
+    IMAGE: '/uploads/images',
+  },
 } as const;
 
 export default {};
\ No newline at end of file
@@ -0,0 +1,131 @@
+// ===============================
+// CSV - PRESUPUESTOS APP
+// ===============================
+
+// Lectura y escritura de CSV según RFC 4180:
+//   - los campos con separador, comillas o saltos de línea van entre comillas
+//   - una comilla dentro de un campo entre comillas se escribe doble ("")
+// Acepta coma o punto y coma como separador (Excel en español exporta con ";").
+
+// ===============================
+// TYPES
+// ===============================
+
+export type CsvDelimiter = ',' | ';';
+
+type CsvValue = string | number | boolean | null | undefined;
+
+// ===============================
+// PARSE
+// ===============================
+
+/**
+ * Detectar el separador contando comas y punto y comas en la primera línea
+ */
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const commas = (firstLine.match(/,/g) || []).length;
+  const semicolons = (firstLine.match(/;/g) || []).length;
+
+  return semicolons > commas ? ';' : ',';
+};
+
+/**
+ * Convertir texto CSV en filas de celdas. Las líneas vacías se descartan
+ */
+export const parseCsv = (text: string, delimiter: CsvDelimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  // Sin BOM: Excel lo agrega al principio de los archivos UTF-8
+  const input = text.replace(/^\uFEFF/, '');
+
+  const pushRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+
+    if (inQuotes) {
+      if (char === '"' && input[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    // Una comilla solo abre un campo entre comillas al principio de la celda
+    if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[index + 1] === '\n') index++;
+      pushRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    pushRow();
+  }
+
+  return rows;
+};
+
+// ===============================
+// STRINGIFY
+// ===============================
+
+// Excel y Sheets toman como fórmula un texto que empieza con estos caracteres
+const FORMULA_PREFIX_REGEX = /^[=+\-@\t\r]/;
+
+const escapeCell = (value: CsvValue, delimiter: CsvDelimiter): string => {
+  const raw = value === undefined || value === null ? '' : String(value);
+  // Un apóstrofo al principio hace que la hoja muestre el texto tal cual
+  const text = typeof value === 'string' && FORMULA_PREFIX_REGEX.test(raw) ? `'${raw}` : raw;
+
+  if (text.includes(delimiter) || text.includes('"') || /[\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+
+  return text;
+};
+
+/**
+ * Convertir filas en texto CSV (líneas separadas por CRLF)
+ */
+export const toCsv = (rows: CsvValue[][], delimiter: CsvDelimiter = ','): string => {
+  return rows
+    .map(row => row.map(value => escapeCell(value, delimiter)).join(delimiter))
+    .join('\r\n');
+};
+
+/**
+ * Quitar el apóstrofo que toCsv agrega a los textos que parecen fórmulas,
+ * para que un archivo exportado se pueda volver a importar sin cambios
+ */
+export const unescapeFormulaCell = (text: string): string => {
+  return text.startsWith("'") && FORMULA_PREFIX_REGEX.test(text.slice(1)) ? text.slice(1) : text;
+};
+
+export default {
+  detectDelimiter,
+  parseCsv,
+  toCsv,
+  unescapeFormulaCell,
+};
@@ -4,6 +4,7 @@
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { STORAGE_CONFIG } from '../constants/config';
+import { PaymentHistoryFilters } from '../types';
 
 // ===============================
 // TYPES
@@ -355,6 +356,35 @@ export const clearOfflineQueue = async (): Promise<void> => {
   await removeItem(STORAGE_CONFIG.KEYS.OFFLINE_QUEUE);
 };
 
+/**
+ * Guardar mapa de IDs locales -> IDs del servidor
+ */
+export const setOfflineIdMap = async (idMap: Record<string, string>): Promise<void> => {
+  await setItem(STORAGE_CONFIG.KEYS.OFFLINE_ID_MAP, idMap);
+};
+
+/**
+ * Obtener mapa de IDs locales -> IDs del servidor
+ */
+export const getOfflineIdMap = async (): Promise<Record<string, string>> => {
+  const idMap = await getItem<Record<string, string>>(STORAGE_CONFIG.KEYS.OFFLINE_ID_MAP);
+  return idMap || {};
+};
+
+/**
+ * Guardar filtros del historial de pagos
+ */
+export const setPaymentFilters = async (filters: PaymentHistoryFilters): Promise<void> => {
+  await setItem(STORAGE_CONFIG.KEYS.PAYMENT_FILTERS, filters);
+};
+
+/**
+ * Obtener filtros del historial de pagos
+ */
+export const getPaymentFilters = async (): Promise<PaymentHistoryFilters | null> => {
+  return getItem<PaymentHistoryFilters>(STORAGE_CONFIG.KEYS.PAYMENT_FILTERS);
+};
+
 // ===============================
 // CACHE FUNCTIONS
 // ===============================
@@ -378,6 +408,49 @@ export const getCacheItem = async <T>(key: string): Promise<T | null> => {
   return getItem<T>(key);
 };
 
+/**
+ * Obtener item de cache junto con la fecha en que se guardó
+ */
+export const getCacheEntry = async <T>(
+  key: string
+): Promise<{ data: T; timestamp: number } | null> => {
+  try {
+    const serializedValue = await AsyncStorage.getItem(key);
+
+    if (!serializedValue) {
+      return null;
+    }
+
+    const storageItem: StorageItem<T> = JSON.parse(serializedValue);
+
+    if (storageItem.expiry && Date.now() > storageItem.expiry) {
+      await removeItem(key);
+      return null;
+    }
+
+    return { data: storageItem.data, timestamp: storageItem.timestamp };
+  } catch (error) {
+    console.error(`Error retrieving cache entry ${key}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Eliminar los items de cache cuya clave empieza con el prefijo indicado
+ */
+export const removeCacheItems = async (prefix: string): Promise<void> => {
+  try {
+    const keys = await getAllKeys();
+    const matchingKeys = keys.filter(key => key.startsWith(prefix));
+
+    if (matchingKeys.length > 0) {
+      await removeItems(matchingKeys);
+    }
+  } catch (error) {
+    console.error(`Error removing cache items ${prefix}:`, error);
+  }
+};
+
 /**
  * Verificar si item de cache es válido
  */
@@ -402,11 +475,11 @@ export const isCacheValid = async (key: string): Promise<boolean> => {
 };
 
 /**
- * Limpiar cache expirado
+ * Limpiar cache expirado. Con `prefix` solo se revisan las claves que empiezan con él
  */
-export const cleanExpiredCache = async (): Promise<void> => {
+export const cleanExpiredCache = async (prefix = ''): Promise<void> => {
   try {
-    const keys = await getAllKeys();
+    const keys = (await getAllKeys()).filter(key => key.startsWith(prefix));
     const expiredKeys: string[] = [];
 
     for (const key of keys) {
@@ -460,8 +533,14 @@ export default {
   setOfflineQueue,
   getOfflineQueue,
   clearOfflineQueue,
+  setOfflineIdMap,
+  getOfflineIdMap,
+  setPaymentFilters,
+  getPaymentFilters,
   setCacheItem,
   getCacheItem,
+  getCacheEntry,
+  removeCacheItems,
   isCacheValid,
   cleanExpiredCache,
 };
\ No newline at end of file
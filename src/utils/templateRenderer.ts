@@ -0,0 +1,103 @@
+// ===============================
+// TEMPLATE RENDERER - PRESUPUESTOS APP
+// ===============================
+
+// Motor de plantillas mínimo con sintaxis tipo Mustache:
+//   {{path}}                 valor escapado para HTML
+//   {{{path}}}               valor sin escapar
+//   {{#path}}...{{/path}}    sección: se repite por cada elemento si es array,
+//                            se muestra una vez si es truthy
+//   {{^path}}...{{/path}}    sección invertida: se muestra si es falsy o array vacío
+// No soporta secciones anidadas con el mismo nombre.
+
+// ===============================
+// TYPES
+// ===============================
+
+type TemplateContext = Record<string, any>;
+
+// ===============================
+// HELPERS
+// ===============================
+
+const SECTION_PATTERN = /\{\{([#^])\s*([\w.]+)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/;
+const RAW_PATTERN = /\{\{\{\s*([\w.]+)\s*\}\}\}/;
+const VARIABLE_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/;
+
+// Una sola pasada por la plantilla: los valores ya reemplazados no se vuelven a
+// interpretar, así un dato del usuario con "{{...}}" no se renderiza como etiqueta
+const TAG_REGEX = new RegExp(`${SECTION_PATTERN.source}|${RAW_PATTERN.source}|${VARIABLE_PATTERN.source}`, 'g');
+
+/**
+ * Escapar caracteres especiales de HTML
+ */
+export const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+/**
+ * Resolver un path con puntos (ej. "customer.name") dentro del contexto
+ */
+const resolvePath = (context: TemplateContext, path: string): any => {
+  if (path === '.') return '.' in context ? context['.'] : context;
+
+  return path.split('.').reduce<any>((value, key) => {
+    return value !== undefined && value !== null ? value[key] : undefined;
+  }, context);
+};
+
+const isEmpty = (value: any): boolean => {
+  return !value || (Array.isArray(value) && value.length === 0);
+};
+
+const stringify = (value: any): string => {
+  return value === undefined || value === null ? '' : String(value);
+};
+
+// ===============================
+// RENDER
+// ===============================
+
+/**
+ * Renderizar una plantilla con el contexto dado
+ */
+export const renderTemplate = (template: string, context: TemplateContext): string => {
+  return template.replace(
+    TAG_REGEX,
+    (_match, type?: string, sectionPath?: string, inner?: string, rawPath?: string, variablePath?: string) => {
+      if (rawPath !== undefined) {
+        return stringify(resolvePath(context, rawPath));
+      }
+      if (variablePath !== undefined) {
+        return escapeHtml(stringify(resolvePath(context, variablePath)));
+      }
+
+      const value = resolvePath(context, sectionPath as string);
+      const section = inner as string;
+
+      if (type === '^') {
+        return isEmpty(value) ? renderTemplate(section, context) : '';
+      }
+
+      if (isEmpty(value)) return '';
+
+      if (Array.isArray(value)) {
+        return value
+          .map(item => renderTemplate(section, typeof item === 'object' ? { ...context, ...item } : { ...context, '.': item }))
+          .join('');
+      }
+
+      return renderTemplate(section, typeof value === 'object' ? { ...context, ...value } : context);
+    }
+  );
+};
+
+export default {
+  escapeHtml,
+  renderTemplate,
+};